@@ -7,11 +7,11 @@ import { ChatInterface } from "@/components/chat/ChatInterface";
 import { VideoUpload } from "@/components/upload/VideoUpload";
 import { AssetLibrary } from "@/components/library/AssetLibrary";
 import { RemotionPreview } from "@/components/player/RemotionPreview";
-import { UndoRedo } from "@/components/editor/UndoRedo";
+import { UndoRedo, HistoryPanel } from "@/components/editor/UndoRedo";
 import { RenderPanel } from "@/components/rendering/RenderPanel";
 import { Timeline } from "@/components/timeline/Timeline";
 import { ElementInspector } from "@/components/editor/ElementInspector";
-import { PanelLeftIcon, UploadIcon, FolderIcon, PanelRightIcon, PanelBottomIcon, SettingsIcon } from "lucide-react";
+import { PanelLeftIcon, UploadIcon, FolderIcon, PanelRightIcon, PanelBottomIcon, SettingsIcon, HistoryIcon } from "lucide-react";
 import { useState } from "react";
 import { cn } from "@/lib/utils";
 
@@ -40,18 +40,31 @@ export function ProjectDashboard({
   preloadedAssets,
 }: ProjectDashboardProps) {
   const [leftPanel, setLeftPanel] = useState<"upload" | "library">("library");
-  const [rightPanel, setRightPanel] = useState<"chat" | "render" | "inspector">("chat");
+  const [rightPanel, setRightPanel] = useState<"chat" | "render" | "inspector" | "history">("chat");
   const [isLeftPanelOpen, setIsLeftPanelOpen] = useState(true);
   const [isRightPanelOpen, setIsRightPanelOpen] = useState(true);
   const [isBottomPanelOpen, setIsBottomPanelOpen] = useState(true);
   const [selectedElementId, setSelectedElementId] = useState<string | null>(null);
+  const [activeCompositionId, setActiveCompositionId] = useState<Id<"compositions"> | null>(null);
+  const [previewSnapshotId, setPreviewSnapshotId] = useState<Id<"compositionHistory"> | null>(null);
+  const [playheadFrame, setPlayheadFrame] = useState(0); // Shared by the timeline, preview and chat
 
   // Use preloaded data with real-time subscriptions
   const project = usePreloadedQuery(preloadedProject);
   const compositions = usePreloadedQuery(preloadedCompositions);
   const assets = usePreloadedQuery(preloadedAssets);
 
-  const compositionId = compositions?.[0]?._id;
+  // Forks live alongside the original; default to the first composition
+  const compositionId =
+    compositions?.find((composition) => composition._id === activeCompositionId)?._id ??
+    compositions?.[0]?._id;
+
+  const switchComposition = (id: Id<"compositions">) => {
+    setActiveCompositionId(id);
+    setSelectedElementId(null);
+    setPreviewSnapshotId(null);
+    setPlayheadFrame(0);
+  };
 
   if (!project) {
     return (
@@ -139,6 +152,20 @@ export function ProjectDashboard({
               <p className="text-sm text-neutral-500">{project.description}</p>
             )}
           </div>
+          {/* Composition switcher (shown once a version has been forked) */}
+          {compositions && compositions.length > 1 && compositionId && (
+            <select
+              value={compositionId}
+              onChange={(e) => switchComposition(e.target.value as Id<"compositions">)}
+              className="input-base text-sm py-1 mr-4"
+            >
+              {compositions.map((composition, index) => (
+                <option key={composition._id} value={composition._id}>
+                  {composition.name ?? (index === 0 ? "Main composition" : `Composition ${index + 1}`)}
+                </option>
+              ))}
+            </select>
+          )}
           {/* Undo/Redo */}
           {compositionId && <UndoRedo compositionId={compositionId} />}
           <button
@@ -158,7 +185,12 @@ export function ProjectDashboard({
               {compositionId ? (
                 <RemotionPreview
                   compositionId={compositionId}
-                  className="w-full max-w-4xl"
+                  className={previewSnapshotId ? "w-full" : "w-full max-w-4xl"}
+                  compareSnapshotId={previewSnapshotId}
+                  onCloseCompare={() => setPreviewSnapshotId(null)}
+                  playheadFrame={playheadFrame}
+                  onPlayheadChange={setPlayheadFrame}
+                  selectedElementId={selectedElementId}
                 />
               ) : (
                 <div className="text-center text-neutral-500">
@@ -211,11 +243,31 @@ export function ProjectDashboard({
                       Render
                     </button>
                   )}
+                  {compositionId && (
+                    <button
+                      onClick={() => setRightPanel("history")}
+                      className={cn(
+                        "flex-1 px-4 py-3 text-sm font-medium transition-colors flex items-center justify-center space-x-1",
+                        rightPanel === "history"
+                          ? "bg-neutral-900 text-white border-b-2 border-primary-500"
+                          : "text-neutral-400 hover:text-neutral-300"
+                      )}
+                    >
+                      <HistoryIcon className="w-4 h-4" />
+                      <span>History</span>
+                    </button>
+                  )}
                 </div>
 
                 {/* Panel Content */}
                 <div className="flex-1 overflow-hidden">
-                  {rightPanel === "chat" && <ChatInterface projectId={projectId} />}
+                  {rightPanel === "chat" && (
+                    <ChatInterface
+                      projectId={projectId}
+                      compositionId={compositionId}
+                      playheadFrame={playheadFrame}
+                    />
+                  )}
                   {rightPanel === "inspector" && compositionId && (
                     <ElementInspector
                       compositionId={compositionId}
@@ -228,6 +280,14 @@ export function ProjectDashboard({
                       projectId={projectId}
                     />
                   )}
+                  {rightPanel === "history" && compositionId && (
+                    <HistoryPanel
+                      compositionId={compositionId}
+                      previewSnapshotId={previewSnapshotId}
+                      onPreview={setPreviewSnapshotId}
+                      onFork={switchComposition}
+                    />
+                  )}
                 </div>
               </div>
             )}
@@ -238,7 +298,7 @@ export function ProjectDashboard({
             <div
               className={cn(
                 "border-t border-neutral-800 transition-all duration-300",
-                isBottomPanelOpen ? "h-64" : "h-12"
+                isBottomPanelOpen ? "h-72" : "h-12"
               )}
             >
               <div className="flex items-center justify-between px-4 py-2 border-b border-neutral-800">
@@ -255,6 +315,8 @@ export function ProjectDashboard({
                   <Timeline
                     compositionId={compositionId}
                     selectedElementId={selectedElementId}
+                    playheadFrame={playheadFrame}
+                    onPlayheadChange={setPlayheadFrame}
                     onElementSelect={(id) => {
                       setSelectedElementId(id);
                       setRightPanel("inspector");
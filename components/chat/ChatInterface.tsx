@@ -9,9 +9,11 @@ import { SendIcon, LoaderIcon, TrashIcon, Trash2Icon } from "lucide-react";
 
 interface ChatInterfaceProps {
   projectId: Id<"projects">;
+  compositionId?: Id<"compositions">;
+  playheadFrame?: number; // Lets messages refer to "here" / "now"
 }
 
-export function ChatInterface({ projectId }: ChatInterfaceProps) {
+export function ChatInterface({ projectId, compositionId, playheadFrame }: ChatInterfaceProps) {
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -52,6 +54,8 @@ export function ChatInterface({ projectId }: ChatInterfaceProps) {
       await sendMessage({
         projectId,
         message: userMessage,
+        compositionId,
+        playheadFrame,
       });
     } catch (error) {
       console.error("Failed to send message:", error);
@@ -219,7 +223,7 @@ function ChatMessage({
           <div className="mt-3 pt-3 border-t border-neutral-700">
             <div className="flex items-start space-x-2">
               <span className="text-success-DEFAULT">✓</span>
-              <p className="text-sm text-neutral-300">{receipt}</p>
+              <p className="text-sm text-neutral-300 whitespace-pre-wrap">{receipt}</p>
             </div>
           </div>
         )}
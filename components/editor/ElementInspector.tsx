@@ -1,7 +1,7 @@
 "use client";
 
-import { useCallback, useRef, useEffect } from "react";
-import { useQuery, useMutation } from "convex/react";
+import { useState } from "react";
+import { useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { Id } from "@/convex/_generated/dataModel";
 import { cn } from "@/lib/utils";
@@ -14,8 +14,29 @@ import {
   MoveIcon,
   ScaleIcon,
   ClockIcon,
+  SparklesIcon,
+  ShapesIcon,
+  PaletteIcon,
+  HighlighterIcon,
+  XIcon,
 } from "lucide-react";
-import type { CompositionElement } from "@/types/composition-ir";
+import type { CompositionElement, GradientStop, TextSpan, TransitionDirection } from "@/types/composition-ir";
+import {
+  ANIMATION_PRESETS,
+  applyAnimationPreset,
+  getPresetsForElement,
+  type AnimationPresetName,
+} from "@/lib/composition-engine/presets";
+import {
+  DEFAULT_POLYGON_SIDES,
+  DEFAULT_SHADOW,
+  SHAPE_KINDS,
+  getShapeKind,
+  isOpenShape,
+} from "@/lib/composition-engine/shapes";
+import { TEXT_DEFAULTS } from "@/lib/composition-engine/text";
+import { AUDIO_ROLES, getVolumeAnimation } from "@/lib/composition-engine/audio";
+import { useElementUpdate } from "./useElementUpdate";
 
 interface ElementInspectorProps {
   compositionId: Id<"compositions">;
@@ -24,91 +45,24 @@ interface ElementInspectorProps {
 
 export function ElementInspector({ compositionId, elementId }: ElementInspectorProps) {
   const composition = useQuery(api.compositions.get, { compositionId });
-  const updateElement = useMutation(api.compositions.updateElement).withOptimisticUpdate(
-    (localStore, args) => {
-      const currentComposition = localStore.getQuery(api.compositions.get, { compositionId });
-      if (!currentComposition || !currentComposition.ir) return;
-
-      const updatedElements = currentComposition.ir.elements.map((el: CompositionElement) => {
-        if (el.id !== args.elementId) return el;
-
-        // Apply changes optimistically
-        const updatedElement = { ...el, ...args.changes };
-        if (args.changes.properties) {
-          updatedElement.properties = {
-            ...el.properties,
-            ...args.changes.properties,
-          };
-        }
-        return updatedElement;
-      });
-
-      localStore.setQuery(
-        api.compositions.get,
-        { compositionId },
-        {
-          ...currentComposition,
-          ir: {
-            ...currentComposition.ir,
-            elements: updatedElements,
-          },
-        }
-      );
-    }
-  );
-
   const element = composition?.ir?.elements?.find((el: CompositionElement) => el.id === elementId);
   const fps = composition?.ir?.metadata?.fps || 30;
 
-  // Debounce timers for different property types
-  const debounceTimers = useRef<Record<string, NodeJS.Timeout>>({});
-
-  const debouncedUpdate = useCallback(
-    (property: string, value: any, debounceMs: number = 300) => {
-      // Capture elementId at call time to avoid stale closure
-      const currentElementId = elementId;
-      if (!currentElementId) {
-        console.warn("[ElementInspector] No element selected, skipping update");
-        return;
-      }
-
-      // Clear existing timer for this property
-      if (debounceTimers.current[property]) {
-        clearTimeout(debounceTimers.current[property]);
-      }
-
-      // Set new timer
-      debounceTimers.current[property] = setTimeout(async () => {
-        const changes: any = {};
-        if (property === "from" || property === "durationInFrames" || property === "label") {
-          changes[property] = value;
-        } else {
-          changes.properties = { [property]: value };
-        }
-
-        try {
-          // Use captured elementId instead of element.id to avoid stale closure
-          await updateElement({ compositionId, elementId: currentElementId, changes });
-          console.log("[ElementInspector] Updated property:", property, value);
-        } catch (error) {
-          console.error("[ElementInspector] Error updating:", error);
-        }
-      }, debounceMs);
-    },
-    [compositionId, elementId, updateElement] // Removed 'element' from deps
-  );
+  const scheduleUpdate = useElementUpdate(compositionId, elementId);
+  const [preset, setPreset] = useState<AnimationPresetName>("fade-in");
+  const [presetSeconds, setPresetSeconds] = useState("");
+  const [presetDirection, setPresetDirection] = useState<TransitionDirection | "">("");
+  const [presetError, setPresetError] = useState<string | null>(null);
 
-  // Cleanup timers when element changes or component unmounts
-  useEffect(() => {
-    return () => {
-      // Clear all pending timers to prevent memory leaks and stale updates
-      Object.values(debounceTimers.current).forEach(timer => {
-        if (timer) clearTimeout(timer);
-      });
-      debounceTimers.current = {};
-      console.log("[ElementInspector] Cleaned up pending timers");
-    };
-  }, [elementId]);
+  const debouncedUpdate = (property: string, value: any, debounceMs: number = 300) => {
+    const changes: any = {};
+    if (property === "from" || property === "durationInFrames" || property === "label") {
+      changes[property] = value;
+    } else {
+      changes.properties = { [property]: value };
+    }
+    scheduleUpdate(property, changes, debounceMs);
+  };
 
   if (!element) {
     return (
@@ -150,6 +104,23 @@ export function ElementInspector({ compositionId, elementId }: ElementInspectorP
     return Math.round(seconds * fps);
   };
 
+  const presets = getPresetsForElement(element);
+  const selectedPreset = presets.includes(preset) ? preset : presets[0];
+
+  const handleApplyPreset = () => {
+    const seconds = parseFloat(presetSeconds);
+    const result = applyAnimationPreset(element, composition.ir.metadata, selectedPreset, {
+      durationInFrames: seconds > 0 ? secondsToFrames(seconds) : undefined,
+      direction: presetDirection || undefined,
+    });
+    if ("error" in result) {
+      setPresetError(result.error);
+      return;
+    }
+    setPresetError(null);
+    scheduleUpdate("animations", { animations: result.animations }, 0);
+  };
+
   return (
     <div className="flex flex-col h-full bg-neutral-950 border border-neutral-800 rounded-lg">
       {/* Header */}
@@ -218,13 +189,50 @@ export function ElementInspector({ compositionId, elementId }: ElementInspectorP
                 min="0"
                 max="1"
                 step="0.01"
-                value={getValue("volume") || 1}
+                value={getValue("volume") ?? 1}
                 onChange={(e) => handlePropertyChange("volume", parseFloat(e.target.value))}
+                disabled={!!getVolumeAnimation(element)}
+                title={getVolumeAnimation(element) ? "Set by volume keyframes" : undefined}
                 className="w-full"
               />
               <p className="text-xs text-neutral-500 mt-1 text-center">
-                {Math.round((getValue("volume") || 1) * 100)}%
+                {getVolumeAnimation(element) ? "Keyframed" : `${Math.round((getValue("volume") ?? 1) * 100)}%`}
               </p>
+              <div className="grid grid-cols-2 gap-2 mt-3">
+                {(["fadeInFrames", "fadeOutFrames"] as const).map((property) => (
+                  <div key={property}>
+                    <label className="text-xs text-neutral-500 mb-1 block">
+                      {property === "fadeInFrames" ? "Fade in (s)" : "Fade out (s)"}
+                    </label>
+                    <input
+                      type="number"
+                      step="0.1"
+                      min="0"
+                      value={framesToSeconds(getValue(property) ?? 0)}
+                      onChange={(e) =>
+                        handlePropertyChange(property, secondsToFrames(Math.max(0, parseFloat(e.target.value) || 0)) || null)
+                      }
+                      className="input-base w-full"
+                    />
+                  </div>
+                ))}
+              </div>
+              <label className="text-xs text-neutral-500 mb-1 mt-3 block">Role</label>
+              <select
+                value={getValue("role") ?? ""}
+                onChange={(e) => handlePropertyChange("role", e.target.value || null)}
+                className="input-base w-full"
+              >
+                <option value="">None</option>
+                {AUDIO_ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {role}
+                  </option>
+                ))}
+              </select>
+              {getValue("role") === "music" && (
+                <p className="text-xs text-neutral-600 mt-1">Lowered while dialogue plays when ducking is on</p>
+              )}
             </PropertyGroup>
 
             <PropertyGroup label="Playback Rate" icon={<ScaleIcon className="w-4 h-4" />}>
@@ -261,6 +269,8 @@ export function ElementInspector({ compositionId, elementId }: ElementInspectorP
                 type="number"
                 value={getValue("fontSize") || 48}
                 onChange={(e) => handlePropertyChange("fontSize", parseInt(e.target.value) || 48)}
+                disabled={!!getValue("autoFit")}
+                title={getValue("autoFit") ? "Fitted to the text box" : undefined}
                 className="input-base w-full"
               />
             </PropertyGroup>
@@ -292,6 +302,136 @@ export function ElementInspector({ compositionId, elementId }: ElementInspectorP
                 ))}
               </div>
             </PropertyGroup>
+
+            <PropertyGroup label="Layout" icon={<MoveIcon className="w-4 h-4" />}>
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <label className="text-xs text-neutral-500 mb-1 block">Line height</label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    min="0.5"
+                    value={getValue("lineHeight") ?? TEXT_DEFAULTS.lineHeight}
+                    onChange={(e) => handlePropertyChange("lineHeight", parseFloat(e.target.value) || TEXT_DEFAULTS.lineHeight)}
+                    className="input-base w-full"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-neutral-500 mb-1 block">Spacing</label>
+                  <input
+                    type="number"
+                    step="0.5"
+                    value={getValue("letterSpacing") ?? 0}
+                    onChange={(e) => handlePropertyChange("letterSpacing", parseFloat(e.target.value) || 0)}
+                    className="input-base w-full"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-neutral-500 mb-1 block">Max width</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={getValue("maxWidth") ?? ""}
+                    onChange={(e) => handlePropertyChange("maxWidth", parseFloat(e.target.value) || null)}
+                    placeholder="None"
+                    className="input-base w-full"
+                  />
+                </div>
+              </div>
+              <label className="flex items-center space-x-2 text-sm text-neutral-300 mt-3">
+                <input
+                  type="checkbox"
+                  checked={!!getValue("autoFit")}
+                  disabled={!getValue("width") || !getValue("height")}
+                  onChange={(e) => handlePropertyChange("autoFit", e.target.checked)}
+                />
+                <span>Fit text to box</span>
+              </label>
+              {(!getValue("width") || !getValue("height")) && (
+                <p className="text-xs text-neutral-600 mt-1">Resize the text box on the canvas to fit text to it</p>
+              )}
+            </PropertyGroup>
+
+            <PropertyGroup label="Outline & Shadow" icon={<PaletteIcon className="w-4 h-4" />}>
+              <div className="flex gap-2">
+                <input
+                  type="color"
+                  value={colorInputValue(getValue("strokeColor"), TEXT_DEFAULTS.strokeColor)}
+                  onChange={(e) => handlePropertyChange("strokeColor", e.target.value)}
+                  className="flex-1 h-10 rounded-lg cursor-pointer"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  value={getValue("strokeWidth") ?? 0}
+                  onChange={(e) => handlePropertyChange("strokeWidth", Math.max(0, parseFloat(e.target.value) || 0))}
+                  title="Outline width (pixels)"
+                  className="input-base w-20"
+                />
+              </div>
+              <label className="flex items-center space-x-2 text-sm text-neutral-300 mt-3">
+                <input
+                  type="checkbox"
+                  checked={!!getValue("shadow")}
+                  onChange={(e) => handlePropertyChange("shadow", e.target.checked ? { ...DEFAULT_SHADOW } : null)}
+                />
+                <span>Drop shadow</span>
+              </label>
+            </PropertyGroup>
+
+            <PropertyGroup label="Highlights" icon={<HighlighterIcon className="w-4 h-4" />}>
+              <div className="space-y-2">
+                {((getValue("spans") || []) as TextSpan[]).map((span, i) => {
+                  const spans: TextSpan[] = getValue("spans");
+                  const updateSpan = (changes: Partial<TextSpan>) =>
+                    handlePropertyChange("spans", spans.map((other, j) => (j === i ? { ...other, ...changes } : other)));
+                  return (
+                    <div key={i} className="flex gap-2 items-center">
+                      <input
+                        type="text"
+                        value={span.match}
+                        onChange={(e) => updateSpan({ match: e.target.value })}
+                        placeholder="Word or phrase"
+                        className="input-base flex-1 min-w-0"
+                      />
+                      <input
+                        type="color"
+                        value={colorInputValue(span.color, "#ffff00")}
+                        onChange={(e) => updateSpan({ color: e.target.value })}
+                        className="w-10 h-10 rounded-lg cursor-pointer"
+                      />
+                      <button
+                        onClick={() => updateSpan({ fontWeight: isBoldWeight(span.fontWeight) ? "normal" : "bold" })}
+                        className={cn(
+                          "w-10 h-10 rounded-lg text-sm font-bold transition-colors",
+                          isBoldWeight(span.fontWeight)
+                            ? "bg-primary-500 text-white"
+                            : "bg-neutral-800 text-neutral-300 hover:bg-neutral-700"
+                        )}
+                        title="Bold"
+                      >
+                        B
+                      </button>
+                      <button
+                        onClick={() => handlePropertyChange("spans", spans.filter((_, j) => j !== i))}
+                        className="w-10 h-10 rounded-lg bg-neutral-800 text-neutral-300 hover:bg-neutral-700 flex items-center justify-center"
+                        title="Remove highlight"
+                      >
+                        <XIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  );
+                })}
+                <button
+                  onClick={() =>
+                    handlePropertyChange("spans", [...(getValue("spans") || []), { match: "", color: "#ffff00" }])
+                  }
+                  className="w-full py-2 px-3 rounded-lg text-sm font-medium bg-neutral-800 text-neutral-300 hover:bg-neutral-700 transition-colors"
+                >
+                  Add highlight
+                </button>
+              </div>
+            </PropertyGroup>
           </>
         )}
 
@@ -334,6 +474,242 @@ export function ElementInspector({ compositionId, elementId }: ElementInspectorP
           </>
         )}
 
+        {/* Shape specific properties */}
+        {element.type === "shape" && (
+          <>
+            <PropertyGroup label="Shape" icon={<ShapesIcon className="w-4 h-4" />}>
+              <div className="flex flex-wrap gap-2">
+                {SHAPE_KINDS.map((kind) => (
+                  <button
+                    key={kind}
+                    onClick={() => handlePropertyChange("shape", kind)}
+                    className={cn(
+                      "flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-colors",
+                      getShapeKind(getValue("shape")) === kind
+                        ? "bg-primary-500 text-white"
+                        : "bg-neutral-800 text-neutral-300 hover:bg-neutral-700"
+                    )}
+                  >
+                    {kind}
+                  </button>
+                ))}
+              </div>
+              {getShapeKind(getValue("shape")) === "polygon" && (
+                <div className="mt-3">
+                  <label className="text-xs text-neutral-500 mb-1 block">Sides</label>
+                  <input
+                    type="number"
+                    min="3"
+                    step="1"
+                    value={getValue("sides") ?? DEFAULT_POLYGON_SIDES}
+                    onChange={(e) => handlePropertyChange("sides", Math.max(3, parseInt(e.target.value) || 3))}
+                    className="input-base w-full"
+                  />
+                </div>
+              )}
+              {getShapeKind(getValue("shape")) === "rectangle" && (
+                <div className="mt-3">
+                  <label className="text-xs text-neutral-500 mb-1 block">Corner Radius</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={getValue("cornerRadius") ?? getValue("borderRadius") ?? 0}
+                    onChange={(e) => handlePropertyChange("cornerRadius", Math.max(0, parseFloat(e.target.value) || 0))}
+                    className="input-base w-full"
+                  />
+                </div>
+              )}
+            </PropertyGroup>
+
+            {!isOpenShape(getShapeKind(getValue("shape"))) && (
+              <PropertyGroup label="Fill" icon={<PaletteIcon className="w-4 h-4" />}>
+                <div className="space-y-3">
+                  <select
+                    value={getValue("gradient")?.type ?? "solid"}
+                    onChange={(e) =>
+                      handlePropertyChange(
+                        "gradient",
+                        e.target.value === "solid"
+                          ? null
+                          : {
+                              angle: 180,
+                              stops: [
+                                { offset: 0, color: colorInputValue(getValue("fill"), "#ffffff") },
+                                { offset: 1, color: "#000000" },
+                              ],
+                              ...getValue("gradient"),
+                              type: e.target.value,
+                            }
+                      )
+                    }
+                    className="input-base w-full"
+                  >
+                    <option value="solid">Solid</option>
+                    <option value="linear">Linear gradient</option>
+                    <option value="radial">Radial gradient</option>
+                  </select>
+
+                  {getValue("gradient") ? (
+                    <div className="flex gap-2">
+                      {(getValue("gradient").stops as GradientStop[]).map((stop, i) => (
+                        <input
+                          key={i}
+                          type="color"
+                          value={colorInputValue(stop.color, "#ffffff")}
+                          onChange={(e) =>
+                            handlePropertyChange("gradient", {
+                              ...getValue("gradient"),
+                              stops: getValue("gradient").stops.map((other: GradientStop, j: number) =>
+                                j === i ? { ...other, color: e.target.value } : other
+                              ),
+                            })
+                          }
+                          className="flex-1 h-10 rounded-lg cursor-pointer"
+                        />
+                      ))}
+                      {getValue("gradient").type === "linear" && (
+                        <input
+                          type="number"
+                          step="15"
+                          value={getValue("gradient").angle ?? 180}
+                          onChange={(e) =>
+                            handlePropertyChange("gradient", {
+                              ...getValue("gradient"),
+                              angle: parseFloat(e.target.value) || 0,
+                            })
+                          }
+                          title="Angle (degrees)"
+                          className="input-base w-20"
+                        />
+                      )}
+                    </div>
+                  ) : (
+                    <input
+                      type="color"
+                      value={colorInputValue(getValue("fill"), "#ffffff")}
+                      onChange={(e) => handlePropertyChange("fill", e.target.value)}
+                      className="w-full h-10 rounded-lg cursor-pointer"
+                    />
+                  )}
+                </div>
+              </PropertyGroup>
+            )}
+
+            <PropertyGroup label="Stroke" icon={<PaletteIcon className="w-4 h-4" />}>
+              <div className="flex gap-2">
+                <input
+                  type="color"
+                  value={colorInputValue(getValue("stroke"), "#ffffff")}
+                  onChange={(e) => handlePropertyChange("stroke", e.target.value)}
+                  className="flex-1 h-10 rounded-lg cursor-pointer"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  value={getValue("strokeWidth") ?? (isOpenShape(getShapeKind(getValue("shape"))) ? 4 : 0)}
+                  onChange={(e) => handlePropertyChange("strokeWidth", Math.max(0, parseFloat(e.target.value) || 0))}
+                  title="Width (pixels)"
+                  className="input-base w-20"
+                />
+              </div>
+            </PropertyGroup>
+
+            <PropertyGroup label="Shadow" icon={<ShapesIcon className="w-4 h-4" />}>
+              <label className="flex items-center space-x-2 text-sm text-neutral-300">
+                <input
+                  type="checkbox"
+                  checked={!!getValue("shadow")}
+                  onChange={(e) => handlePropertyChange("shadow", e.target.checked ? { ...DEFAULT_SHADOW } : null)}
+                />
+                <span>Drop shadow</span>
+              </label>
+              {getValue("shadow") && (
+                <div className="flex gap-2 mt-3">
+                  <input
+                    type="number"
+                    min="0"
+                    value={getValue("shadow").blur ?? DEFAULT_SHADOW.blur}
+                    onChange={(e) =>
+                      handlePropertyChange("shadow", {
+                        ...getValue("shadow"),
+                        blur: Math.max(0, parseFloat(e.target.value) || 0),
+                      })
+                    }
+                    title="Blur (pixels)"
+                    className="input-base flex-1 min-w-0"
+                  />
+                  <input
+                    type="number"
+                    value={getValue("shadow").offsetY ?? DEFAULT_SHADOW.offsetY}
+                    onChange={(e) =>
+                      handlePropertyChange("shadow", {
+                        ...getValue("shadow"),
+                        offsetY: parseFloat(e.target.value) || 0,
+                      })
+                    }
+                    title="Vertical offset (pixels)"
+                    className="input-base flex-1 min-w-0"
+                  />
+                </div>
+              )}
+            </PropertyGroup>
+          </>
+        )}
+
+        {/* Animation presets */}
+        {selectedPreset && (
+          <PropertyGroup label="Animation Presets" icon={<SparklesIcon className="w-4 h-4" />}>
+            <div className="space-y-3">
+              <select
+                value={selectedPreset}
+                onChange={(e) => setPreset(e.target.value as AnimationPresetName)}
+                className="input-base w-full"
+              >
+                {presets.map((name) => (
+                  <option key={name} value={name}>
+                    {ANIMATION_PRESETS[name].label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-neutral-600">{ANIMATION_PRESETS[selectedPreset].description}</p>
+
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={presetSeconds}
+                  onChange={(e) => setPresetSeconds(e.target.value)}
+                  placeholder="Default length (s)"
+                  className="input-base flex-1 min-w-0"
+                />
+                {ANIMATION_PRESETS[selectedPreset].usesDirection && (
+                  <select
+                    value={presetDirection}
+                    onChange={(e) => setPresetDirection(e.target.value as TransitionDirection | "")}
+                    className="input-base flex-1 min-w-0"
+                  >
+                    <option value="">Default direction</option>
+                    {["left", "right", "up", "down"].map((direction) => (
+                      <option key={direction} value={direction}>
+                        {direction}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+
+              <button
+                onClick={handleApplyPreset}
+                className="w-full py-2 px-3 rounded-lg text-sm font-medium bg-primary-500 text-white hover:bg-primary-600 transition-colors"
+              >
+                Apply {ANIMATION_PRESETS[selectedPreset].label}
+              </button>
+              {presetError && <p className="text-xs text-error-DEFAULT">{presetError}</p>}
+            </div>
+          </PropertyGroup>
+        )}
+
         {/* Source URL (read-only) */}
         {element.properties?.src && (
           <PropertyGroup label="Source" icon={<FileVideoIcon className="w-4 h-4" />}>
@@ -372,6 +748,15 @@ function PropertyGroup({
   );
 }
 
+// Color inputs only take #rrggbb
+function colorInputValue(color: unknown, fallback: string): string {
+  return typeof color === "string" && /^#[0-9a-f]{6}$/i.test(color) ? color : fallback;
+}
+
+function isBoldWeight(weight: unknown): boolean {
+  return weight === "bold" || Number(weight) >= 600;
+}
+
 function getElementIcon(type: string) {
   switch (type) {
     case "video":
@@ -382,6 +767,8 @@ function getElementIcon(type: string) {
       return <ImageIcon className="w-5 h-5 text-success-DEFAULT" />;
     case "text":
       return <TypeIcon className="w-5 h-5 text-blue-500" />;
+    case "shape":
+      return <ShapesIcon className="w-5 h-5 text-pink-500" />;
     default:
       return <FileVideoIcon className="w-5 h-5 text-neutral-500" />;
   }
@@ -1,10 +1,17 @@
 "use client";
 
-import { useEffect } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useMutation, useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { Id } from "@/convex/_generated/dataModel";
-import { UndoIcon, RedoIcon } from "lucide-react";
+import {
+  UndoIcon,
+  RedoIcon,
+  BookmarkIcon,
+  EyeIcon,
+  RotateCcwIcon,
+  GitBranchIcon,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
 
 interface UndoRedoProps {
@@ -19,21 +26,53 @@ export function UndoRedo({ compositionId }: UndoRedoProps) {
     compositionId,
   });
   const undo = useMutation(api.history.undo);
-  const history = useQuery(api.history.getHistory, { compositionId, limit: 10 });
+  const redo = useMutation(api.history.redo);
+
+  const handleUndo = useCallback(async () => {
+    try {
+      const result = await undo({ compositionId });
+      if (result.success) {
+        console.log(result.message);
+      }
+    } catch (error) {
+      console.error("Undo failed:", error);
+    }
+  }, [undo, compositionId]);
+
+  const handleRedo = useCallback(async () => {
+    try {
+      const result = await redo({ compositionId });
+      if (result.success) {
+        console.log(result.message);
+      }
+    } catch (error) {
+      console.error("Redo failed:", error);
+    }
+  }, [redo, compositionId]);
 
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey)) return;
+
+      // Leave text fields to the browser's own undo
+      const target = e.target as HTMLElement | null;
+      if (target?.isContentEditable || ["INPUT", "TEXTAREA"].includes(target?.tagName ?? "")) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+
       // Cmd+Z or Ctrl+Z for Undo
-      if ((e.metaKey || e.ctrlKey) && e.key === "z" && !e.shiftKey) {
+      if (key === "z" && !e.shiftKey) {
         e.preventDefault();
         if (undoRedoState?.canUndo) {
           handleUndo();
         }
       }
 
-      // Cmd+Shift+Z or Ctrl+Shift+Z for Redo
-      if ((e.metaKey || e.ctrlKey) && e.key === "z" && e.shiftKey) {
+      // Cmd+Shift+Z, Ctrl+Shift+Z or Ctrl+Y for Redo
+      if ((key === "z" && e.shiftKey) || key === "y") {
         e.preventDefault();
         if (undoRedoState?.canRedo) {
           handleRedo();
@@ -43,23 +82,7 @@ export function UndoRedo({ compositionId }: UndoRedoProps) {
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [undoRedoState?.canUndo, undoRedoState?.canRedo]);
-
-  const handleUndo = async () => {
-    try {
-      const result = await undo({ compositionId });
-      if (result.success) {
-        console.log(result.message);
-      }
-    } catch (error) {
-      console.error("Undo failed:", error);
-    }
-  };
-
-  const handleRedo = async () => {
-    // TODO: Implement redo (need to track forward in history)
-    console.log("Redo not yet implemented");
-  };
+  }, [undoRedoState?.canUndo, undoRedoState?.canRedo, handleUndo, handleRedo]);
 
   if (!undoRedoState) {
     return null;
@@ -77,7 +100,11 @@ export function UndoRedo({ compositionId }: UndoRedoProps) {
             ? "hover:bg-neutral-800 text-neutral-300"
             : "text-neutral-600 cursor-not-allowed"
         )}
-        title="Undo (Cmd+Z)"
+        title={
+          undoRedoState.undoDescription
+            ? `Undo ${undoRedoState.undoDescription} (Cmd+Z)`
+            : "Undo (Cmd+Z)"
+        }
       >
         <UndoIcon className="w-5 h-5" />
       </button>
@@ -92,7 +119,11 @@ export function UndoRedo({ compositionId }: UndoRedoProps) {
             ? "hover:bg-neutral-800 text-neutral-300"
             : "text-neutral-600 cursor-not-allowed"
         )}
-        title="Redo (Cmd+Shift+Z)"
+        title={
+          undoRedoState.redoDescription
+            ? `Redo ${undoRedoState.redoDescription} (Cmd+Shift+Z)`
+            : "Redo (Cmd+Shift+Z)"
+        }
       >
         <RedoIcon className="w-5 h-5" />
       </button>
@@ -107,52 +138,182 @@ export function UndoRedo({ compositionId }: UndoRedoProps) {
   );
 }
 
+interface HistoryPanelProps extends UndoRedoProps {
+  previewSnapshotId?: Id<"compositionHistory"> | null;
+  onPreview?: (snapshotId: Id<"compositionHistory"> | null) => void;
+  onFork?: (compositionId: Id<"compositions">) => void;
+}
+
 /**
- * History Panel - shows list of changes
+ * History Panel - version browser with named checkpoints
+ *
+ * Lists snapshots with timestamp, description and element counts. Each
+ * version can be previewed side by side, restored, or forked into a new
+ * composition.
  */
-export function HistoryPanel({ compositionId }: UndoRedoProps) {
-  const history = useQuery(api.history.getHistory, { compositionId, limit: 20 });
+export function HistoryPanel({
+  compositionId,
+  previewSnapshotId,
+  onPreview,
+  onFork,
+}: HistoryPanelProps) {
+  const versions = useQuery(api.history.listVersions, { compositionId, limit: 50 });
   const restoreSnapshot = useMutation(api.history.restoreSnapshot);
+  const createCheckpoint = useMutation(api.history.createCheckpoint);
+  const forkSnapshot = useMutation(api.history.forkSnapshot);
+  const [checkpointName, setCheckpointName] = useState("");
+  const [showCheckpointsOnly, setShowCheckpointsOnly] = useState(false);
+
+  const handleCheckpoint = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!checkpointName.trim()) return;
+
+    try {
+      await createCheckpoint({ compositionId, name: checkpointName });
+      setCheckpointName("");
+    } catch (error) {
+      console.error("Failed to create checkpoint:", error);
+    }
+  };
 
   const handleRestore = async (snapshotId: Id<"compositionHistory">) => {
     try {
       await restoreSnapshot({ compositionId, snapshotId });
+      onPreview?.(null);
     } catch (error) {
       console.error("Failed to restore snapshot:", error);
     }
   };
 
-  if (!history || history.length === 0) {
-    return (
-      <div className="p-4 text-center text-neutral-500">
-        <p className="text-sm">No history yet</p>
-        <p className="text-xs mt-1">Changes will appear here</p>
-      </div>
-    );
-  }
+  const handleFork = async (snapshotId: Id<"compositionHistory">) => {
+    try {
+      const forkId = await forkSnapshot({ snapshotId });
+      onPreview?.(null);
+      onFork?.(forkId);
+    } catch (error) {
+      console.error("Failed to fork snapshot:", error);
+    }
+  };
+
+  const visible = (versions ?? []).filter(
+    (version: any) => !showCheckpointsOnly || version.name
+  );
 
   return (
-    <div className="space-y-2 p-4">
-      <h3 className="text-sm font-semibold text-neutral-400 mb-3">History</h3>
-      {history.map((snapshot: any, index: number) => (
+    <div className="flex flex-col h-full">
+      {/* Checkpoint form */}
+      <form
+        onSubmit={handleCheckpoint}
+        className="flex items-center gap-2 p-4 border-b border-neutral-800"
+      >
+        <input
+          type="text"
+          value={checkpointName}
+          onChange={(e) => setCheckpointName(e.target.value)}
+          placeholder="Checkpoint name, e.g. before client review"
+          className="input-base flex-1 text-sm"
+        />
         <button
-          key={snapshot._id}
-          onClick={() => handleRestore(snapshot._id)}
-          className="w-full text-left p-3 rounded-lg bg-neutral-900 hover:bg-neutral-800 transition-colors group"
+          type="submit"
+          disabled={!checkpointName.trim()}
+          className="btn-primary px-3 py-2 text-sm flex items-center space-x-1 disabled:opacity-50"
         >
-          <div className="flex items-start justify-between">
-            <div className="flex-1">
-              <p className="text-sm font-medium">{snapshot.description}</p>
-              <p className="text-xs text-neutral-600 mt-1">
-                {formatTimestamp(snapshot.timestamp)}
-              </p>
-            </div>
-            {index === 0 && (
-              <span className="text-xs text-primary-500 ml-2">Current</span>
-            )}
-          </div>
+          <BookmarkIcon className="w-4 h-4" />
+          <span>Save</span>
         </button>
-      ))}
+      </form>
+
+      <div className="flex items-center justify-between px-4 pt-3">
+        <h3 className="text-sm font-semibold text-neutral-400">History</h3>
+        <label className="flex items-center space-x-1 text-xs text-neutral-500">
+          <input
+            type="checkbox"
+            checked={showCheckpointsOnly}
+            onChange={(e) => setShowCheckpointsOnly(e.target.checked)}
+          />
+          <span>Checkpoints only</span>
+        </label>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="p-4 text-center text-neutral-500">
+          <p className="text-sm">No history yet</p>
+          <p className="text-xs mt-1">Changes will appear here</p>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto space-y-2 p-4">
+          {visible.map((version: any) => {
+            const isPreviewed = version._id === previewSnapshotId;
+
+            return (
+              <div
+                key={version._id}
+                className={cn(
+                  "p-3 rounded-lg bg-neutral-900 transition-colors",
+                  isPreviewed && "ring-1 ring-primary-500"
+                )}
+              >
+                <div className="flex items-start justify-between">
+                  <div className="flex-1 min-w-0">
+                    {version.name ? (
+                      <p className="text-sm font-medium flex items-center space-x-1">
+                        <BookmarkIcon className="w-3 h-3 text-primary-500 shrink-0" />
+                        <span className="truncate">{version.name}</span>
+                      </p>
+                    ) : (
+                      <p className="text-sm font-medium truncate">{version.description}</p>
+                    )}
+                    <p className="text-xs text-neutral-600 mt-1">
+                      {formatTimestamp(version.timestamp)} · v{version.version} ·{" "}
+                      {version.elementCount} element{version.elementCount !== 1 ? "s" : ""}
+                    </p>
+                    {version.elementCount > 0 && (
+                      <p className="text-xs text-neutral-600">
+                        {Object.entries(version.elementCounts)
+                          .map(([type, count]) => `${count} ${type}`)
+                          .join(", ")}
+                      </p>
+                    )}
+                  </div>
+                  {version.isCurrent && (
+                    <span className="text-xs text-primary-500 ml-2">Current</span>
+                  )}
+                </div>
+
+                <div className="flex items-center space-x-1 mt-2">
+                  {onPreview && (
+                    <button
+                      onClick={() => onPreview(isPreviewed ? null : version._id)}
+                      className="btn-ghost px-2 py-1 text-xs flex items-center space-x-1"
+                      title="Preview side by side"
+                    >
+                      <EyeIcon className="w-3 h-3" />
+                      <span>{isPreviewed ? "Hide" : "Preview"}</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleRestore(version._id)}
+                    disabled={version.isCurrent}
+                    className="btn-ghost px-2 py-1 text-xs flex items-center space-x-1 disabled:opacity-50"
+                    title="Restore this version"
+                  >
+                    <RotateCcwIcon className="w-3 h-3" />
+                    <span>Restore</span>
+                  </button>
+                  <button
+                    onClick={() => handleFork(version._id)}
+                    className="btn-ghost px-2 py-1 text-xs flex items-center space-x-1"
+                    title="Fork into a new composition"
+                  >
+                    <GitBranchIcon className="w-3 h-3" />
+                    <span>Fork</span>
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 }
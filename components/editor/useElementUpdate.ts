@@ -0,0 +1,90 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import type { CompositionElement } from "@/types/composition-ir";
+import { mapElementTree } from "@/lib/composition-engine/ir-helpers";
+
+/**
+ * Debounced, optimistic element updates
+ *
+ * Shared by the inspector and the canvas overlay. Changes scheduled under the
+ * same key within `debounceMs` collapse into a single `updateElement` call;
+ * pending changes are dropped when the selected element changes.
+ */
+export function useElementUpdate(compositionId: Id<"compositions">, elementId: string | null) {
+  const updateElement = useMutation(api.compositions.updateElement).withOptimisticUpdate(
+    (localStore, args) => {
+      const currentComposition = localStore.getQuery(api.compositions.get, { compositionId });
+      if (!currentComposition || !currentComposition.ir) return;
+
+      // Apply changes optimistically
+      const updatedElements = mapElementTree(
+        currentComposition.ir.elements,
+        args.elementId,
+        (el: CompositionElement) => ({
+          ...el,
+          ...args.changes,
+          properties: { ...el.properties, ...args.changes.properties },
+        })
+      );
+
+      localStore.setQuery(
+        api.compositions.get,
+        { compositionId },
+        {
+          ...currentComposition,
+          ir: {
+            ...currentComposition.ir,
+            elements: updatedElements,
+          },
+        }
+      );
+    }
+  );
+
+  // Debounce timers by key
+  const debounceTimers = useRef<Record<string, NodeJS.Timeout>>({});
+
+  const scheduleUpdate = useCallback(
+    (key: string, changes: Record<string, any>, debounceMs: number = 300) => {
+      // Capture elementId at call time to avoid stale closure
+      const currentElementId = elementId;
+      if (!currentElementId) {
+        console.warn("[useElementUpdate] No element selected, skipping update");
+        return;
+      }
+
+      // Clear existing timer for this key
+      if (debounceTimers.current[key]) {
+        clearTimeout(debounceTimers.current[key]);
+      }
+
+      debounceTimers.current[key] = setTimeout(async () => {
+        delete debounceTimers.current[key];
+        try {
+          await updateElement({ compositionId, elementId: currentElementId, changes });
+        } catch (error) {
+          console.error("[useElementUpdate] Error updating:", error);
+        }
+      }, debounceMs);
+    },
+    [compositionId, elementId, updateElement]
+  );
+
+  // Cleanup timers when element changes or component unmounts
+  useEffect(() => {
+    const timers = debounceTimers.current;
+    return () => {
+      // Clear all pending timers to prevent stale updates
+      Object.values(timers).forEach((timer) => {
+        if (timer) clearTimeout(timer);
+      });
+      debounceTimers.current = {};
+    };
+  }, [elementId]);
+
+  return scheduleUpdate;
+}
@@ -4,7 +4,16 @@ import { useState } from "react";
 import { useQuery, useAction, useMutation } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { Id } from "@/convex/_generated/dataModel";
-import { FileVideoIcon, ImageIcon, MusicIcon, TrashIcon, LoaderIcon, CheckCircleIcon, PlusCircleIcon } from "lucide-react";
+import {
+  FileVideoIcon,
+  ImageIcon,
+  MusicIcon,
+  CaptionsIcon,
+  TrashIcon,
+  LoaderIcon,
+  CheckCircleIcon,
+  PlusCircleIcon,
+} from "lucide-react";
 import { cn, formatFileSize, formatDuration } from "@/lib/utils";
 import { HLSPlayer } from "../player/HLSPlayer";
 
@@ -16,11 +25,12 @@ interface AssetLibraryProps {
 
 export function AssetLibrary({ projectId, compositionId, onAssetSelect }: AssetLibraryProps) {
   const [selectedAssetId, setSelectedAssetId] = useState<Id<"assets"> | null>(null);
-  const [filterType, setFilterType] = useState<"all" | "video" | "audio" | "image">("all");
+  const [filterType, setFilterType] = useState<"all" | "video" | "audio" | "image" | "subtitle">("all");
 
   const assets = useQuery(api.media.listAssets, { projectId });
   const deleteAsset = useAction(api.media.deleteAsset);
   const addElement = useMutation(api.compositions.addElement);
+  const addSubtitleCaptions = useMutation(api.compositions.addSubtitleCaptions);
 
   const filteredAssets = assets?.filter((asset: any) =>
     filterType === "all" ? true : asset.type === filterType
@@ -33,7 +43,7 @@ export function AssetLibrary({ projectId, compositionId, onAssetSelect }: AssetL
     }
   };
 
-  const handleQuickAdd = async (assetId: Id<"assets">, e: React.MouseEvent) => {
+  const handleQuickAdd = async (asset: any, e: React.MouseEvent) => {
     e.stopPropagation();
     if (!compositionId) {
       console.warn("[AssetLibrary] No composition ID provided for quick add");
@@ -41,8 +51,13 @@ export function AssetLibrary({ projectId, compositionId, onAssetSelect }: AssetL
     }
 
     try {
-      await addElement({ compositionId, assetId });
-      console.log("[AssetLibrary] Added asset to composition:", assetId);
+      // Subtitle files become timed captions on the Captions track
+      if (asset.type === "subtitle") {
+        await addSubtitleCaptions({ compositionId, assetId: asset._id });
+      } else {
+        await addElement({ compositionId, assetId: asset._id });
+      }
+      console.log("[AssetLibrary] Added asset to composition:", asset._id);
     } catch (error) {
       console.error("[AssetLibrary] Error adding asset:", error);
     }
@@ -63,6 +78,7 @@ export function AssetLibrary({ projectId, compositionId, onAssetSelect }: AssetL
             { value: "video", label: "Videos" },
             { value: "audio", label: "Audio" },
             { value: "image", label: "Images" },
+            { value: "subtitle", label: "Captions" },
           ].map((tab) => (
             <button
               key={tab.value}
@@ -102,7 +118,7 @@ export function AssetLibrary({ projectId, compositionId, onAssetSelect }: AssetL
                   onAssetSelect?.(asset._id);
                 }}
                 onDelete={(e) => handleDelete(asset._id, e)}
-                onQuickAdd={(e) => handleQuickAdd(asset._id, e)}
+                onQuickAdd={(e) => handleQuickAdd(asset, e)}
               />
             ))}
           </div>
@@ -157,6 +173,8 @@ function AssetCard({ asset, isSelected, showQuickAdd, onSelect, onDelete, onQuic
         return <MusicIcon className="w-12 h-12 text-amber-500" />;
       case "image":
         return <ImageIcon className="w-12 h-12 text-success-DEFAULT" />;
+      case "subtitle":
+        return <CaptionsIcon className="w-12 h-12 text-neutral-300" />;
       default:
         return <FileVideoIcon className="w-12 h-12 text-neutral-500" />;
     }
@@ -165,7 +183,7 @@ function AssetCard({ asset, isSelected, showQuickAdd, onSelect, onDelete, onQuic
   return (
     <div
       onClick={onSelect}
-      draggable={showQuickAdd}
+      draggable={showQuickAdd && asset.type !== "subtitle"}
       onDragStart={(e) => {
         if (showQuickAdd) {
           e.dataTransfer.effectAllowed = "copy";
@@ -0,0 +1,237 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Id } from "@/convex/_generated/dataModel";
+import type { CompositionElement, CompositionIR } from "@/types/composition-ir";
+import { findElementById, getAbsoluteFrom } from "@/lib/composition-engine/ir-helpers";
+import { applyTrackState } from "@/lib/composition-engine/timeline";
+import {
+  GUIDE_SNAP_PX,
+  getBoxChanges,
+  getElementBox,
+  getGuideLines,
+  getSafeAreas,
+  isPositionable,
+  resizeBox,
+  rotationFromPointer,
+  snapBoxToGuides,
+  type CanvasBox,
+  type Guide,
+  type ResizeHandle,
+} from "@/lib/composition-engine/canvas";
+import { useElementUpdate } from "@/components/editor/useElementUpdate";
+
+interface CanvasOverlayProps {
+  compositionId: Id<"compositions">;
+  ir: CompositionIR;
+  elementId: string | null;
+  playheadFrame: number;
+  scale: number; // Screen pixels per composition pixel
+  container: HTMLElement | null; // Player wrapper, used to measure rendered elements
+}
+
+interface CanvasDrag {
+  mode: "move" | "rotate" | ResizeHandle;
+  originX: number;
+  originY: number;
+  start: CanvasBox;
+}
+
+const HANDLES: ResizeHandle[] = ["nw", "ne", "sw", "se"];
+
+/**
+ * Selection overlay on the preview
+ *
+ * Drag the selected element to move it, a corner to resize it (shift keeps
+ * the aspect ratio) or the top handle to rotate it (shift snaps to 15°).
+ * Moves snap to the frame, its center and other elements; alt turns snapping
+ * off. Changes go through the inspector's debounced `updateElement`.
+ */
+export function CanvasOverlay({
+  compositionId,
+  ir,
+  elementId,
+  playheadFrame,
+  scale,
+  container,
+}: CanvasOverlayProps) {
+  const [preview, setPreview] = useState<CanvasBox | null>(null);
+  const [guides, setGuides] = useState<Guide[]>([]);
+  const [measured, setMeasured] = useState<{ width: number; height: number } | undefined>();
+  const dragRef = useRef<CanvasDrag | null>(null);
+  const scheduleUpdate = useElementUpdate(compositionId, elementId);
+
+  const element = elementId ? findElementById(ir.elements, elementId) : undefined;
+  const isVisible = !!element && isOnScreen(ir, element, playheadFrame);
+
+  // Sizes left to layout (text, unsized images) come from the rendered element
+  useEffect(() => {
+    if (!container || !elementId || !isVisible) return;
+    const node = container.querySelector<HTMLElement>(`[data-element-id="${elementId}"]`);
+    if (node) {
+      setMeasured({ width: node.offsetWidth, height: node.offsetHeight });
+    }
+  }, [container, elementId, isVisible, element?.properties]);
+
+  // Once a change lands in the IR, show the element's own box again
+  useEffect(() => {
+    if (!dragRef.current) setPreview(null);
+  }, [element?.properties]);
+
+  if (!element || !isVisible || !isPositionable(element) || scale <= 0) {
+    return null;
+  }
+
+  const current = getElementBox(element, measured);
+  const box = preview ?? current;
+  const { width, height } = ir.metadata;
+  const safeAreas = getSafeAreas(width, height);
+  const dragging = dragRef.current !== null;
+
+  const toCanvas = (e: React.PointerEvent) => {
+    const rect = container!.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale };
+  };
+
+  const startDrag = (mode: CanvasDrag["mode"], e: React.PointerEvent) => {
+    if (e.button !== 0 || !container) return;
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    const point = toCanvas(e);
+    dragRef.current = { mode, originX: point.x, originY: point.y, start: current };
+    setPreview(current);
+  };
+
+  const updateDrag = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const point = toCanvas(e);
+    const dx = point.x - drag.originX;
+    const dy = point.y - drag.originY;
+    let next: CanvasBox;
+    let nextGuides: Guide[] = [];
+
+    if (drag.mode === "move") {
+      next = { ...drag.start, x: drag.start.x + dx, y: drag.start.y + dy };
+      if (!e.altKey) {
+        const lines = getGuideLines(getOtherBoxes(ir, element, playheadFrame), { width, height });
+        ({ box: next, guides: nextGuides } = snapBoxToGuides(next, lines, GUIDE_SNAP_PX / scale));
+      }
+    } else if (drag.mode === "rotate") {
+      next = { ...drag.start, rotation: rotationFromPointer(drag.start, point.x, point.y, e.shiftKey) };
+    } else {
+      // Resize in the element's own (rotated) frame
+      const radians = (-drag.start.rotation * Math.PI) / 180;
+      const localX = dx * Math.cos(radians) - dy * Math.sin(radians);
+      const localY = dx * Math.sin(radians) + dy * Math.cos(radians);
+      next = resizeBox(drag.start, drag.mode, localX, localY, e.shiftKey || element.type === "text");
+    }
+
+    setPreview(next);
+    setGuides(nextGuides);
+
+    const changes = getBoxChanges(element, drag.start, next);
+    if (Object.keys(changes).length > 0) {
+      // Same debounce as the inspector's sliders
+      scheduleUpdate("canvas", { properties: changes }, 150);
+    }
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+    setGuides([]);
+  };
+
+  return (
+    <div className="absolute inset-0 pointer-events-none overflow-hidden">
+      {/* Safe areas while dragging */}
+      {dragging &&
+        [safeAreas.action, safeAreas.title].map((area, index) => (
+          <div
+            key={index}
+            className="absolute border border-dashed border-white/30"
+            style={toScreen(area, scale)}
+          />
+        ))}
+
+      {/* Alignment guides */}
+      {guides.map((guide) => (
+        <div
+          key={`${guide.axis}-${guide.position}`}
+          className="absolute bg-pink-500"
+          style={
+            guide.axis === "x"
+              ? { left: guide.position * scale, top: 0, bottom: 0, width: 1 }
+              : { top: guide.position * scale, left: 0, right: 0, height: 1 }
+          }
+        />
+      ))}
+
+      {/* Selection box */}
+      <div
+        className="absolute border-2 border-primary-500 cursor-move pointer-events-auto touch-none"
+        style={{ ...toScreen(box, scale), transform: `rotate(${box.rotation}deg)` }}
+        onPointerDown={(e) => startDrag("move", e)}
+        onPointerMove={updateDrag}
+        onPointerUp={endDrag}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {HANDLES.map((handle) => (
+          <div
+            key={handle}
+            className={`absolute w-2.5 h-2.5 bg-white border border-primary-500 ${HANDLE_CLASSES[handle]}`}
+            onPointerDown={(e) => startDrag(handle, e)}
+            onPointerMove={updateDrag}
+            onPointerUp={endDrag}
+          />
+        ))}
+
+        {/* Rotation handle */}
+        <div className="absolute left-1/2 -top-6 w-px h-4 bg-primary-500" />
+        <div
+          className="absolute left-1/2 -top-8 -ml-1.5 w-3 h-3 rounded-full bg-white border border-primary-500 cursor-grab"
+          onPointerDown={(e) => startDrag("rotate", e)}
+          onPointerMove={updateDrag}
+          onPointerUp={endDrag}
+          title="Rotate (shift snaps to 15°)"
+        />
+      </div>
+    </div>
+  );
+}
+
+const HANDLE_CLASSES: Record<ResizeHandle, string> = {
+  nw: "-left-1.5 -top-1.5 cursor-nwse-resize",
+  ne: "-right-1.5 -top-1.5 cursor-nesw-resize",
+  sw: "-left-1.5 -bottom-1.5 cursor-nesw-resize",
+  se: "-right-1.5 -bottom-1.5 cursor-nwse-resize",
+};
+
+function toScreen(box: CanvasBox, scale: number) {
+  return {
+    left: box.x * scale,
+    top: box.y * scale,
+    width: box.width * scale,
+    height: box.height * scale,
+  };
+}
+
+/**
+ * Whether an element is rendered at a frame (hidden tracks excluded)
+ */
+function isOnScreen(ir: CompositionIR, element: CompositionElement, frame: number): boolean {
+  const rendered = applyTrackState(ir).elements;
+  if (!findElementById(rendered, element.id)) return false;
+  const from = getAbsoluteFrom(rendered, element.id);
+  return frame >= from && frame < from + element.durationInFrames;
+}
+
+/**
+ * Boxes of the other elements on screen, for alignment guides
+ */
+function getOtherBoxes(ir: CompositionIR, element: CompositionElement, frame: number): CanvasBox[] {
+  return ir.elements
+    .filter((other) => other.id !== element.id && isPositionable(other) && isOnScreen(ir, other, frame))
+    .map((other) => getElementBox(other));
+}
@@ -1,48 +1,186 @@
 "use client";
 
-import { Player } from "@remotion/player";
+import { Player, type PlayerRef } from "@remotion/player";
 import { useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { Id } from "@/convex/_generated/dataModel";
-import { LoaderIcon, AlertCircleIcon } from "lucide-react";
-import { useMemo } from "react";
+import { LoaderIcon, AlertCircleIcon, XIcon } from "lucide-react";
+import { createContext, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { cn } from "@/lib/utils";
+import {
+  getRenderDuration,
+  getTransitionStyle,
+  getTransitionWindows,
+  type TransitionWindow,
+} from "@/lib/composition-engine/transitions";
+import { applyTrackState } from "@/lib/composition-engine/timeline";
+import { getAnimatedStyle } from "@/lib/composition-engine/keyframes";
+import { getTextStyle } from "@/lib/composition-engine/text";
+import { getVolumeEnvelopes, getVolumeProp, type VolumeEnvelope } from "@/lib/composition-engine/audio";
+import { ShapeSvg } from "@/remotion/ShapeSvg";
+import { TextRuns } from "@/remotion/TextRuns";
+import { CanvasOverlay } from "./CanvasOverlay";
 
 interface RemotionPreviewProps {
   compositionId: Id<"compositions">;
   className?: string;
+  compareSnapshotId?: Id<"compositionHistory"> | null; // Show this version side by side
+  onCloseCompare?: () => void;
+  playheadFrame?: number; // Shared with the timeline
+  onPlayheadChange?: (frame: number) => void;
+  selectedElementId?: string | null; // Outlined in the preview
 }
 
+// Selected element, provided inside the Player from its input props
+const SelectedElementContext = createContext<string | null>(null);
+
+// Volume envelopes of the previewed composition, by element ID
+const VolumeContext = createContext<Map<string, VolumeEnvelope>>(new Map());
+
 /**
  * Remotion Player Integration
  *
  * Renders a live preview of the composition using @remotion/player.
  * Dynamically generates the Remotion component from the composition IR.
+ * With `compareSnapshotId`, a history version plays next to the current one.
+ * The current player follows `playheadFrame` and reports playback through
+ * `onPlayheadChange`, so it stays in sync with the timeline cursor.
  */
 export function RemotionPreview({
   compositionId,
   className,
+  compareSnapshotId,
+  onCloseCompare,
+  playheadFrame,
+  onPlayheadChange,
+  selectedElementId,
 }: RemotionPreviewProps) {
   const composition = useQuery(api.compositions.get, { compositionId });
+  const snapshot = useQuery(
+    api.history.getSnapshot,
+    compareSnapshotId ? { snapshotId: compareSnapshotId } : "skip"
+  );
+
+  if (!composition) {
+    return (
+      <div className="flex items-center justify-center h-full bg-neutral-900 rounded-lg">
+        <LoaderIcon className="w-8 h-8 animate-spin text-primary-500" />
+      </div>
+    );
+  }
+
+  const currentPlayer = (
+    <PreviewPlayer
+      ir={composition.ir}
+      compositionId={compositionId}
+      playheadFrame={playheadFrame}
+      onPlayheadChange={onPlayheadChange}
+      selectedElementId={selectedElementId}
+    />
+  );
+
+  if (!compareSnapshotId) {
+    return <div className={className}>{currentPlayer}</div>;
+  }
+
+  return (
+    <div className={cn("grid grid-cols-2 gap-4", className)}>
+      <div>
+        <p className="text-xs font-medium text-neutral-400 mb-2">Current</p>
+        {currentPlayer}
+      </div>
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-xs font-medium text-neutral-400 truncate">
+            {snapshot
+              ? `${snapshot.name ?? snapshot.description} (v${snapshot.version})`
+              : "Loading version..."}
+          </p>
+          {onCloseCompare && (
+            <button
+              onClick={onCloseCompare}
+              className="btn-ghost p-1"
+              title="Close comparison"
+            >
+              <XIcon className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+        {snapshot ? (
+          <PreviewPlayer ir={snapshot.ir} />
+        ) : (
+          <div className="flex items-center justify-center aspect-video bg-neutral-900 rounded-lg">
+            <LoaderIcon className="w-6 h-6 animate-spin text-primary-500" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface PreviewPlayerProps {
+  ir: any;
+  compositionId?: Id<"compositions">; // Enables direct manipulation on the canvas
+  playheadFrame?: number;
+  onPlayheadChange?: (frame: number) => void;
+  selectedElementId?: string | null;
+}
+
+/**
+ * Player for a single IR
+ */
+function PreviewPlayer({
+  ir,
+  compositionId,
+  playheadFrame,
+  onPlayheadChange,
+  selectedElementId,
+}: PreviewPlayerProps) {
+  const playerRef = useRef<PlayerRef>(null);
+  const [container, setContainer] = useState<HTMLDivElement | null>(null);
+  const [scale, setScale] = useState(0);
 
   // Generate Remotion component from IR
   const RemotionComponent = useMemo(() => {
-    if (!composition?.ir) return null;
+    if (!ir) return null;
 
     try {
-      return generateRemotionComponent(composition.ir);
+      return generateRemotionComponent(applyTrackState(ir));
     } catch (error) {
       console.error("Failed to generate Remotion component:", error);
       return null;
     }
-  }, [composition?.ir]);
+  }, [ir]);
+
+  // Report playback and scrubbing in the player's own controls
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!player || !onPlayheadChange) return;
+
+    const handleFrameUpdate = (e: { detail: { frame: number } }) => {
+      onPlayheadChange(e.detail.frame);
+    };
+    player.addEventListener("frameupdate", handleFrameUpdate);
+    return () => player.removeEventListener("frameupdate", handleFrameUpdate);
+  }, [RemotionComponent, onPlayheadChange]);
+
+  // Seek when the playhead moves elsewhere (our own updates are already there)
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!player || playheadFrame === undefined) return;
+    if (player.getCurrentFrame() !== playheadFrame) {
+      player.seekTo(playheadFrame);
+    }
+  }, [RemotionComponent, playheadFrame]);
 
-  if (!composition) {
-    return (
-      <div className="flex items-center justify-center h-full bg-neutral-900 rounded-lg">
-        <LoaderIcon className="w-8 h-8 animate-spin text-primary-500" />
-      </div>
-    );
-  }
+  // Preview pixels per composition pixel, for the canvas overlay
+  const compositionWidth = ir?.metadata?.width;
+  useEffect(() => {
+    if (!container || !compositionWidth) return;
+    const observer = new ResizeObserver(() => setScale(container.clientWidth / compositionWidth));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [container, compositionWidth]);
 
   if (!RemotionComponent) {
     return (
@@ -56,11 +194,12 @@ export function RemotionPreview({
     );
   }
 
-  const { metadata } = composition.ir;
+  const { metadata } = ir;
 
   return (
-    <div className={className}>
+    <div ref={setContainer} className="relative">
       <Player
+        ref={playerRef}
         component={RemotionComponent}
         durationInFrames={metadata.durationInFrames}
         fps={metadata.fps}
@@ -72,12 +211,23 @@ export function RemotionPreview({
           aspectRatio: `${metadata.width}/${metadata.height}`,
         }}
         inputProps={{
-          composition: composition.ir,
+          composition: ir,
+          selectedElementId: selectedElementId ?? null,
         }}
         clickToPlay
         showVolumeControls
         acknowledgeRemotionLicense
       />
+      {compositionId && (
+        <CanvasOverlay
+          compositionId={compositionId}
+          ir={ir}
+          elementId={selectedElementId ?? null}
+          playheadFrame={playheadFrame ?? 0}
+          scale={scale}
+          container={container}
+        />
+      )}
     </div>
   );
 }
@@ -90,114 +240,98 @@ export function RemotionPreview({
  */
 function generateRemotionComponent(ir: any) {
   const { metadata, elements } = ir;
+  const volumes = getVolumeEnvelopes(ir);
 
-  return function DynamicComposition() {
+  return function DynamicComposition({ selectedElementId }: { selectedElementId?: string | null }) {
     const { useCurrentFrame, interpolate, Sequence, AbsoluteFill } =
       require("remotion");
 
     const frame = useCurrentFrame();
+    const transitions = getTransitionWindows(elements);
 
     return (
-      <AbsoluteFill
-        style={{
-          backgroundColor: metadata.backgroundColor || "#000000",
-        }}
-      >
-        {elements.map((element: any) => {
-          // Calculate if element is visible at current frame
-          const isVisible =
-            frame >= element.from &&
-            frame < element.from + element.durationInFrames;
-
-          if (!isVisible) return null;
-
-          return (
-            <Sequence
-              key={element.id}
-              from={element.from}
-              durationInFrames={element.durationInFrames}
-            >
-              <ElementRenderer element={element} />
-            </Sequence>
-          );
-        })}
-      </AbsoluteFill>
+      <SelectedElementContext.Provider value={selectedElementId ?? null}>
+        <VolumeContext.Provider value={volumes}>
+          <AbsoluteFill
+            style={{
+              backgroundColor: metadata.backgroundColor || "#000000",
+            }}
+          >
+            {elements.map((element: any) => {
+              // Outgoing clips stay visible until their transition ends
+              const duration = getRenderDuration(element, transitions.get(element.id));
+
+              // Calculate if element is visible at current frame
+              const isVisible =
+                frame >= element.from &&
+                frame < element.from + duration;
+
+              if (!isVisible) return null;
+
+              return (
+                <Sequence
+                  key={element.id}
+                  from={element.from}
+                  durationInFrames={duration}
+                >
+                  <TransitionRenderer
+                    element={element}
+                    transitions={transitions.get(element.id)}
+                  />
+                </Sequence>
+              );
+            })}
+          </AbsoluteFill>
+        </VolumeContext.Provider>
+      </SelectedElementContext.Provider>
     );
   };
 }
 
+/**
+ * Apply an element's transitions (the frame is relative to the element's
+ * Sequence, transition windows to its parent)
+ */
+function TransitionRenderer({
+  element,
+  transitions,
+}: {
+  element: any;
+  transitions?: TransitionWindow[];
+}) {
+  const { useCurrentFrame, AbsoluteFill } = require("remotion");
+
+  const frame = useCurrentFrame();
+
+  if (!transitions) {
+    return <ElementRenderer element={element} />;
+  }
+
+  return (
+    <AbsoluteFill style={getTransitionStyle(transitions, frame + element.from)}>
+      <ElementRenderer element={element} />
+    </AbsoluteFill>
+  );
+}
+
 /**
  * Render individual elements based on type
  */
 function ElementRenderer({ element }: { element: any }) {
-  const { useCurrentFrame, interpolate, Audio, Img, AbsoluteFill } =
+  const { useCurrentFrame, interpolate, Audio, Img, AbsoluteFill, Sequence } =
     require("remotion");
   const { HlsVideo } = require("@/components/player/HlsVideo");
 
   const frame = useCurrentFrame();
-  const { properties, animations, type } = element;
-
-  // Calculate animated values - support multiple animations
-  const animatedStyle: any = {};
-  const transforms: string[] = [];
-
-  if (animations && Array.isArray(animations)) {
-    for (const animation of animations) {
-      const value = interpolateKeyframes(
-        frame,
-        animation.keyframes,
-        animation.easing
-      );
+  const isSelected = useContext(SelectedElementContext) === element.id;
+  const envelope = useContext(VolumeContext).get(element.id);
+  const { type } = element;
+  const childTransitions = getTransitionWindows(element.children || []);
 
-      switch (animation.property) {
-        case "opacity":
-          animatedStyle.opacity = value;
-          break;
-        case "scale":
-          transforms.push(`scale(${value})`);
-          break;
-        case "scaleX":
-          transforms.push(`scaleX(${value})`);
-          break;
-        case "scaleY":
-          transforms.push(`scaleY(${value})`);
-          break;
-        case "rotation":
-          transforms.push(`rotate(${value}deg)`);
-          break;
-        case "rotateX":
-          transforms.push(`rotateX(${value}deg)`);
-          break;
-        case "rotateY":
-          transforms.push(`rotateY(${value}deg)`);
-          break;
-        case "translateX":
-          transforms.push(`translateX(${value}px)`);
-          break;
-        case "translateY":
-          transforms.push(`translateY(${value}px)`);
-          break;
-        case "skewX":
-          transforms.push(`skewX(${value}deg)`);
-          break;
-        case "skewY":
-          transforms.push(`skewY(${value}deg)`);
-          break;
-        case "x":
-          // Legacy support for x/y properties
-          animatedStyle.left = value;
-          break;
-        case "y":
-          animatedStyle.top = value;
-          break;
-      }
-    }
-
-    // Combine all transforms
-    if (transforms.length > 0) {
-      animatedStyle.transform = transforms.join(" ");
-    }
-  }
+  // Same evaluation as the keyframe editor's curves; animated colors, fills
+  // and text replace the element's own properties
+  const { style: animatedStyle, properties: animatedProperties } = getAnimatedStyle(element, frame);
+  const properties = { ...element.properties, ...animatedProperties };
 
   const baseStyle = {
     position: "absolute" as const,
@@ -206,6 +340,7 @@ function ElementRenderer({ element }: { element: any }) {
     width: properties.width || "auto",
     height: properties.height || "auto",
     ...animatedStyle,
+    ...(isSelected ? SELECTED_OUTLINE : {}),
   };
 
   // Render based on element type
@@ -217,7 +352,7 @@ function ElementRenderer({ element }: { element: any }) {
         <HlsVideo
           src={properties.src}
           style={baseStyle}
-          volume={properties.volume ?? 1}
+          volume={getVolumeProp(envelope, properties.volume ?? 1)}
           playbackRate={properties.playbackRate ?? 1}
           startFrom={properties.startFrom ?? 0}
           endAt={properties.endAt}
@@ -229,7 +364,7 @@ function ElementRenderer({ element }: { element: any }) {
       return (
         <Audio
           src={properties.src}
-          volume={properties.volume ?? 1}
+          volume={getVolumeProp(envelope, properties.volume ?? 1)}
           playbackRate={properties.playbackRate ?? 1}
           startFrom={properties.startFrom ?? 0}
           endAt={properties.endAt}
@@ -249,30 +384,43 @@ function ElementRenderer({ element }: { element: any }) {
     case "text":
       return (
         <div
-          style={{
-            ...baseStyle,
-            color: properties.color || "#ffffff",
-            fontSize: properties.fontSize || 48,
-            fontFamily: properties.fontFamily || "sans-serif",
-            fontWeight: properties.fontWeight || "normal",
-            textAlign: properties.textAlign || "left",
-          }}
+          style={{ ...getTextStyle(properties, element.animations), ...baseStyle }}
           data-element-id={element.id}
         >
-          {properties.text}
+          <TextRuns text={String(properties.text ?? "")} spans={properties.spans} />
         </div>
       );
 
+    case "sequence":
+      // Nested <Sequence>s offset children by this sequence's `from`
+      return (
+        <AbsoluteFill
+          style={{ ...animatedStyle, ...(isSelected ? SELECTED_OUTLINE : {}) }}
+          data-element-id={element.id}
+        >
+          {(element.children || []).map((child: any) => (
+            <Sequence
+              key={child.id}
+              from={child.from}
+              durationInFrames={getRenderDuration(child, childTransitions.get(child.id))}
+            >
+              <TransitionRenderer
+                element={child}
+                transitions={childTransitions.get(child.id)}
+              />
+            </Sequence>
+          ))}
+        </AbsoluteFill>
+      );
+
     case "shape":
       return (
         <div
-          style={{
-            ...baseStyle,
-            backgroundColor: properties.fill || "#ffffff",
-            borderRadius: properties.borderRadius || 0,
-          }}
+          style={{ opacity: properties.opacity ?? 1, ...baseStyle }}
           data-element-id={element.id}
-        />
+        >
+          <ShapeSvg element={element} properties={properties} />
+        </div>
       );
 
     default:
@@ -280,85 +428,8 @@ function ElementRenderer({ element }: { element: any }) {
   }
 }
 
-/**
- * Interpolate between keyframes
- */
-function interpolateKeyframes(
-  frame: number,
-  keyframes: Array<{ frame: number; value: number }>,
-  easing?: string
-): number {
-  if (keyframes.length === 0) return 0;
-  if (keyframes.length === 1) return keyframes[0].value;
-
-  // Find surrounding keyframes
-  let startKeyframe = keyframes[0];
-  let endKeyframe = keyframes[keyframes.length - 1];
-
-  for (let i = 0; i < keyframes.length - 1; i++) {
-    if (frame >= keyframes[i].frame && frame <= keyframes[i + 1].frame) {
-      startKeyframe = keyframes[i];
-      endKeyframe = keyframes[i + 1];
-      break;
-    }
-  }
-
-  // If before first keyframe
-  if (frame < startKeyframe.frame) {
-    return startKeyframe.value;
-  }
-
-  // If after last keyframe
-  if (frame > endKeyframe.frame) {
-    return endKeyframe.value;
-  }
-
-  const { interpolate, Easing } = require("remotion");
-
-  // Map string easing values to Remotion Easing functions
-  // Based on Remotion documentation: https://www.remotion.dev/docs/easing
-  const getEasingFunction = (easingString: string) => {
-    switch (easingString) {
-      case "linear":
-        return Easing.linear;
-      case "ease":
-        return Easing.ease;
-      case "ease-in":
-        return Easing.in(Easing.ease);
-      case "ease-out":
-        return Easing.out(Easing.ease);
-      case "ease-in-out":
-        return Easing.inOut(Easing.ease);
-      default:
-        return undefined;
-    }
-  };
-
-  // Get easing function if easing string is provided
-  const easingFn = easing ? getEasingFunction(easing) : undefined;
-
-  // Interpolate between keyframes
-  if (easingFn) {
-    return interpolate(
-      frame,
-      [startKeyframe.frame, endKeyframe.frame],
-      [startKeyframe.value, endKeyframe.value],
-      {
-        easing: easingFn,
-        extrapolateLeft: "clamp",
-        extrapolateRight: "clamp",
-      }
-    );
-  }
-
-  // No easing - omit the easing property entirely
-  return interpolate(
-    frame,
-    [startKeyframe.frame, endKeyframe.frame],
-    [startKeyframe.value, endKeyframe.value],
-    {
-      extrapolateLeft: "clamp",
-      extrapolateRight: "clamp",
-    }
-  );
-}
+// Preview-only highlight for the element selected in the timeline
+const SELECTED_OUTLINE = {
+  outline: "3px solid #6366f1",
+  outlineOffset: -3,
+};
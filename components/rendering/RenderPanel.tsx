@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { useQuery, useMutation, useAction } from "convex/react";
+import { useQuery, useMutation, useAction, useConvex } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { Id } from "@/convex/_generated/dataModel";
 import {
@@ -12,6 +12,7 @@ import {
   DownloadIcon,
   DollarSignIcon,
   ClockIcon,
+  CaptionsIcon,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -35,6 +36,7 @@ export function RenderPanel({ compositionId, projectId }: RenderPanelProps) {
   const renderJobs = useQuery(api.rendering.listRenderJobs, { compositionId, limit: 5 });
   const startRender = useAction(api.rendering.startRender);
   const estimateCost = useAction(api.rendering.estimateRenderCost);
+  const convex = useConvex();
 
   const handleStartRender = async () => {
     try {
@@ -54,6 +56,28 @@ export function RenderPanel({ compositionId, projectId }: RenderPanelProps) {
     }
   };
 
+  const handleExportSubtitles = async (format: "srt" | "vtt") => {
+    try {
+      const { filename, mimeType, content, cueCount } = await convex.query(api.compositions.exportSubtitles, {
+        compositionId,
+        format,
+      });
+      if (cueCount === 0) {
+        alert("This composition has no text to export as subtitles");
+        return;
+      }
+
+      const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to export subtitles:", error);
+    }
+  };
+
   if (!composition) {
     return (
       <div className="p-4 text-center">
@@ -146,6 +170,21 @@ export function RenderPanel({ compositionId, projectId }: RenderPanelProps) {
           <PlayIcon className="w-4 h-4" />
           <span>Start Render</span>
         </button>
+
+        {/* Subtitle Export (text elements as SRT/VTT for YouTube etc.) */}
+        <div className="flex space-x-2">
+          {(["srt", "vtt"] as const).map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExportSubtitles(format)}
+              className="flex-1 btn-ghost flex items-center justify-center space-x-2"
+              title={`Download text and captions as ${format.toUpperCase()} subtitles`}
+            >
+              <CaptionsIcon className="w-4 h-4" />
+              <span>{format.toUpperCase()}</span>
+            </button>
+          ))}
+        </div>
       </div>
 
       {/* Recent Renders */}
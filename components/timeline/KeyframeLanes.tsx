@@ -0,0 +1,449 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { cn } from "@/lib/utils";
+import { TrashIcon, XIcon } from "lucide-react";
+import type { Animation, CompositionElement, EasingType } from "@/types/composition-ir";
+import {
+  ANIMATABLE_PROPERTIES,
+  AUDIO_PROPERTIES,
+  EASING_OPTIONS,
+  addKeyframe,
+  createAnimation,
+  easingFromOption,
+  evaluateAnimation,
+  formatKeyframeValue,
+  getEasingOption,
+  getPropertyType,
+  getRestingValue,
+  getSegmentEasing,
+  parseKeyframeValue,
+  type EasingOption,
+  moveKeyframe,
+  removeKeyframe,
+  sampleAnimation,
+  updateKeyframe,
+} from "@/lib/composition-engine/keyframes";
+import { applyEasing } from "@/lib/composition-engine/utils";
+import { isAudible } from "@/lib/composition-engine/audio";
+import { formatEasing, getSpringConfig, parseEasing } from "@/lib/composition-engine/easing";
+
+// Keyframe selected in the lanes: animation index and keyframe index
+interface SelectedKeyframe {
+  animation: number;
+  keyframe: number;
+}
+
+interface KeyframeDrag extends SelectedKeyframe {
+  originX: number;
+  frame: number;
+  moved: boolean;
+}
+
+export interface KeyframeEditor {
+  element: CompositionElement | undefined;
+  animations: Animation[];
+  selected: SelectedKeyframe | null;
+  select: (selected: SelectedKeyframe | null) => void;
+  change: (animations: Animation[], selected?: SelectedKeyframe | null) => void;
+}
+
+/**
+ * Keyframe editing state for the selected element
+ *
+ * Edits show immediately and stay until the element's animations come back
+ * from the server; `commit` persists them as an IR update.
+ */
+export function useKeyframeEditor(
+  element: CompositionElement | undefined,
+  commit: (elementId: string, animations: Animation[]) => void
+): KeyframeEditor {
+  const [pending, setPending] = useState<Animation[] | null>(null);
+  const [selected, setSelected] = useState<SelectedKeyframe | null>(null);
+
+  useEffect(() => {
+    setPending(null);
+  }, [element?.animations]);
+
+  useEffect(() => {
+    setSelected(null);
+  }, [element?.id]);
+
+  return {
+    element,
+    animations: pending ?? element?.animations ?? [],
+    selected,
+    select: setSelected,
+    change: (animations, nextSelected) => {
+      if (!element) return;
+      setPending(animations);
+      if (nextSelected !== undefined) setSelected(nextSelected);
+      commit(element.id, animations);
+    },
+  };
+}
+
+/**
+ * Property names beside the keyframe lanes, plus a picker for new lanes
+ */
+export function KeyframeLaneHeaders({ editor, locked }: { editor: KeyframeEditor; locked: boolean }) {
+  const { element, animations, change } = editor;
+  if (!element) return null;
+
+  // Volume is only offered for clips that play sound
+  const available = Object.keys(ANIMATABLE_PROPERTIES).filter(
+    (property) =>
+      !animations.some((animation) => animation.property === property) &&
+      (isAudible(element) || !AUDIO_PROPERTIES.includes(property))
+  );
+
+  const removeAnimation = (index: number) => {
+    if (confirm(`Remove the ${animations[index].property} animation?`)) {
+      change(animations.filter((_, i) => i !== index), null);
+    }
+  };
+
+  return (
+    <>
+      {animations.map((animation, index) => (
+        <div
+          key={animation.property}
+          className="group h-8 flex items-center justify-between pl-5 pr-2 border-b border-neutral-900 bg-neutral-900/40"
+        >
+          <span className="text-[11px] text-neutral-400 truncate">{animation.property}</span>
+          {!locked && (
+            <button
+              onClick={() => removeAnimation(index)}
+              className="p-0.5 rounded opacity-0 group-hover:opacity-100 hover:bg-neutral-800"
+              title="Remove animation"
+            >
+              <XIcon className="w-3 h-3 text-neutral-500" />
+            </button>
+          )}
+        </div>
+      ))}
+      <div className="h-8 flex items-center pl-5 pr-2 border-b border-neutral-800 bg-neutral-900/40">
+        <select
+          value=""
+          disabled={locked || available.length === 0}
+          onChange={(e) =>
+            e.target.value &&
+            change([
+              ...animations,
+              createAnimation(
+                e.target.value,
+                element.durationInFrames,
+                getRestingValue(element, e.target.value)
+              ),
+            ])
+          }
+          className="w-full bg-transparent text-[11px] text-neutral-500"
+        >
+          <option value="">Animate…</option>
+          {available.map((property) => (
+            <option key={property} value={property}>
+              {property}
+            </option>
+          ))}
+        </select>
+      </div>
+    </>
+  );
+}
+
+interface KeyframeLanesProps {
+  editor: KeyframeEditor;
+  zoom: number;
+  locked: boolean;
+}
+
+/**
+ * One lane per animated property under the selected clip, with the value
+ * curve and draggable keyframes; double-click a lane to add a keyframe
+ */
+export function KeyframeLanes({ editor, zoom, locked }: KeyframeLanesProps) {
+  const [drag, setDrag] = useState<KeyframeDrag | null>(null);
+  const { element, animations, selected, select, change } = editor;
+  if (!element) return null;
+
+  const left = element.from * zoom;
+  const width = element.durationInFrames * zoom;
+
+  const toFrame = (clientX: number, lane: HTMLElement) => {
+    const frame = Math.round((clientX - lane.getBoundingClientRect().left) / zoom);
+    return Math.min(Math.max(frame, 0), element.durationInFrames);
+  };
+
+  const handleAdd = (animationIndex: number, e: React.MouseEvent<HTMLDivElement>) => {
+    if (locked) return;
+    const animation = animations[animationIndex];
+    const frame = toFrame(e.clientX, e.currentTarget);
+    const current = evaluateAnimation(animation, frame);
+    const value = typeof current === "number" ? Math.round(current * 1000) / 1000 : current;
+    const updated = addKeyframe(animation, frame, value);
+    change(replaceAt(animations, animationIndex, updated), {
+      animation: animationIndex,
+      keyframe: updated.keyframes.findIndex((kf) => kf.frame === frame),
+    });
+  };
+
+  const startDrag = (animation: number, keyframe: number, e: React.PointerEvent) => {
+    e.stopPropagation();
+    select({ animation, keyframe });
+    if (locked || e.button !== 0) return;
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    const frame = animations[animation].keyframes[keyframe].frame;
+    setDrag({ animation, keyframe, originX: e.clientX, frame, moved: false });
+  };
+
+  const updateDrag = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const start = animations[drag.animation].keyframes[drag.keyframe].frame;
+    const delta = Math.round((e.clientX - drag.originX) / zoom);
+    const frame = Math.min(Math.max(start + delta, 0), element.durationInFrames);
+    setDrag({ ...drag, frame, moved: drag.moved || delta !== 0 });
+  };
+
+  const endDrag = () => {
+    if (!drag) return;
+    setDrag(null);
+    if (!drag.moved) return;
+
+    const updated = moveKeyframe(animations[drag.animation], drag.keyframe, drag.frame);
+    change(replaceAt(animations, drag.animation, updated), {
+      animation: drag.animation,
+      keyframe: updated.keyframes.findIndex((kf) => kf.frame === drag.frame),
+    });
+  };
+
+  return (
+    <>
+      {animations.map((animation, animationIndex) => {
+        // Only numeric lanes have a curve; colors, points and text sit in the middle
+        const isNumeric = getPropertyType(animation.property) === "number";
+        const values = isNumeric ? animation.keyframes.map((kf) => kf.value as number) : [0];
+        const min = Math.min(...values);
+        const max = Math.max(...values);
+        // Lane-local y for a value (flat animations sit in the middle)
+        const toY = (value: unknown) =>
+          !isNumeric || max === min ? 16 : 26 - (((value as number) - min) / (max - min)) * 20;
+        const curve = sampleAnimation(animation)
+          .map((point) => `${point.frame * zoom},${toY(point.value)}`)
+          .join(" ");
+
+        return (
+          <div key={animation.property} className="relative h-8 border-b border-neutral-900">
+            <div
+              className="absolute top-0 bottom-0 bg-neutral-900/60"
+              style={{ left, width }}
+              onDoubleClick={(e) => handleAdd(animationIndex, e)}
+              title={locked ? undefined : "Double-click to add a keyframe"}
+            >
+              <svg className="absolute inset-0 w-full h-full pointer-events-none overflow-visible">
+                <polyline points={curve} fill="none" stroke="currentColor" className="text-primary-500/60" />
+              </svg>
+
+              {animation.keyframes.map((keyframe, keyframeIndex) => {
+                const isDragging = drag?.animation === animationIndex && drag.keyframe === keyframeIndex;
+                const frame = isDragging ? drag.frame : keyframe.frame;
+                const isSelected =
+                  selected?.animation === animationIndex && selected.keyframe === keyframeIndex;
+                return (
+                  <div
+                    key={keyframeIndex}
+                    className={cn(
+                      "absolute w-2.5 h-2.5 -ml-[5px] -mt-[5px] rotate-45 border",
+                      isSelected ? "bg-primary-500 border-white" : "bg-neutral-200 border-neutral-500",
+                      locked ? "cursor-pointer" : "cursor-ew-resize"
+                    )}
+                    style={{ left: frame * zoom, top: toY(keyframe.value) }}
+                    onPointerDown={(e) => startDrag(animationIndex, keyframeIndex, e)}
+                    onPointerMove={updateDrag}
+                    onPointerUp={endDrag}
+                    onDoubleClick={(e) => e.stopPropagation()}
+                    title={`${animation.property} = ${formatKeyframeValue(keyframe.value)} @ frame ${frame}`}
+                  />
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+
+      {/* Selected keyframe */}
+      <div className="relative h-8 border-b border-neutral-800">
+        <div className="sticky left-0 h-full flex items-center px-2 w-max">
+          {selected && animations[selected.animation]?.keyframes[selected.keyframe] ? (
+            <KeyframeFields editor={editor} selected={selected} locked={locked} />
+          ) : (
+            <span className="text-[11px] text-neutral-600">
+              {animations.length > 0
+                ? "Select a keyframe to edit it, or double-click a lane to add one"
+                : "No animations yet"}
+            </span>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
+/**
+ * Frame, value and segment easing of the selected keyframe
+ */
+function KeyframeFields({
+  editor,
+  selected,
+  locked,
+}: {
+  editor: KeyframeEditor;
+  selected: SelectedKeyframe;
+  locked: boolean;
+}) {
+  const { element, animations, change } = editor;
+  const animation = animations[selected.animation];
+  const keyframe = animation.keyframes[selected.keyframe];
+  const isLast = animation.keyframes.every((kf) => kf.frame <= keyframe.frame);
+  const easing = getSegmentEasing(animation, selected.keyframe);
+  const hasParameters = easing === "spring" || typeof easing === "object"; // Editable as text
+
+  const update = (updated: Animation, frame = keyframe.frame) => {
+    change(replaceAt(animations, selected.animation, updated), {
+      animation: selected.animation,
+      keyframe: updated.keyframes.findIndex((kf) => kf.frame === frame),
+    });
+  };
+
+  const commitFrame = (input: string) => {
+    const frame = Math.min(Math.max(Math.round(Number(input)), 0), element!.durationInFrames);
+    if (Number.isFinite(frame) && frame !== keyframe.frame) {
+      update(moveKeyframe(animation, selected.keyframe, frame), frame);
+    }
+  };
+
+  const commitEasing = (next: EasingType | null) => {
+    if (next && formatEasing(next) !== formatEasing(easing)) {
+      update(updateKeyframe(animation, selected.keyframe, { easing: next }));
+    }
+  };
+
+  const commitValue = (input: string) => {
+    const value = parseKeyframeValue(animation.property, input);
+    if (value !== null && formatKeyframeValue(value) !== formatKeyframeValue(keyframe.value)) {
+      update(updateKeyframe(animation, selected.keyframe, { value }));
+    }
+  };
+
+  const handleDelete = () => {
+    const updated = removeKeyframe(animation, selected.keyframe);
+    if (updated) {
+      change(replaceAt(animations, selected.animation, updated), null);
+    } else if (confirm(`An animation needs two keyframes. Remove the ${animation.property} animation?`)) {
+      change(animations.filter((_, i) => i !== selected.animation), null);
+    }
+  };
+
+  // Inputs are keyed by keyframe so they reset when the selection changes
+  const key = `${selected.animation}-${keyframe.frame}-${formatKeyframeValue(keyframe.value)}`;
+  const isNumeric = getPropertyType(animation.property) === "number";
+  const onEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") e.currentTarget.blur();
+  };
+
+  return (
+    <div className="flex items-center space-x-2 text-[11px] text-neutral-400">
+      <span className="font-medium text-neutral-300">{animation.property}</span>
+      <label className="flex items-center space-x-1">
+        <span>Frame</span>
+        <input
+          key={`frame-${key}`}
+          type="number"
+          defaultValue={keyframe.frame}
+          disabled={locked}
+          onBlur={(e) => commitFrame(e.target.value)}
+          onKeyDown={onEnter}
+          className="w-14 bg-neutral-900 border border-neutral-700 rounded px-1"
+        />
+      </label>
+      <label className="flex items-center space-x-1">
+        <span>Value</span>
+        <input
+          key={`value-${key}`}
+          type={isNumeric ? "number" : "text"}
+          step="any"
+          defaultValue={formatKeyframeValue(keyframe.value)}
+          disabled={locked}
+          onBlur={(e) => commitValue(e.target.value)}
+          onKeyDown={onEnter}
+          className={cn("bg-neutral-900 border border-neutral-700 rounded px-1", isNumeric ? "w-16" : "w-28")}
+          title={isNumeric ? undefined : "CSS color, \"x, y\" or text"}
+        />
+      </label>
+      <label className="flex items-center space-x-1">
+        <span>Easing</span>
+        <select
+          value={getEasingOption(easing)}
+          disabled={locked || isLast}
+          onChange={(e) => commitEasing(easingFromOption(e.target.value as EasingOption, easing))}
+          className="bg-neutral-900 border border-neutral-700 rounded px-1"
+          title={isLast ? "The last keyframe has no segment after it" : "Easing into the next keyframe"}
+        >
+          {EASING_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </label>
+      {!isLast && hasParameters && (
+        <input
+          key={`easing-${key}-${formatEasing(easing)}`}
+          type="text"
+          defaultValue={formatCustomEasing(easing)}
+          disabled={locked}
+          onBlur={(e) => commitEasing(parseEasing(e.target.value))}
+          onKeyDown={onEnter}
+          className="w-40 bg-neutral-900 border border-neutral-700 rounded px-1 font-mono"
+          title="cubic-bezier(x1, y1, x2, y2) or spring(mass, damping, stiffness)"
+        />
+      )}
+      {!isLast && <EasingCurve easing={easing} />}
+      {!locked && (
+        <button
+          onClick={handleDelete}
+          className="p-1 rounded hover:bg-red-900/50"
+          title="Delete keyframe"
+        >
+          <TrashIcon className="w-3 h-3 text-red-400" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Small preview of an easing curve (progress over time)
+ */
+function EasingCurve({ easing }: { easing: EasingType }) {
+  const points = Array.from({ length: 21 }, (_, i) => {
+    const t = i / 20;
+    return `${2 + t * 36},${22 - applyEasing(t, easing) * 20}`;
+  }).join(" ");
+
+  return (
+    <svg width="40" height="24" className="bg-neutral-900 rounded">
+      <polyline points={points} fill="none" stroke="currentColor" className="text-primary-500" />
+    </svg>
+  );
+}
+
+/**
+ * Editable parameters of a spring or cubic-bezier easing
+ */
+function formatCustomEasing(easing: EasingType): string {
+  return easing === "spring" ? formatEasing({ type: "spring", ...getSpringConfig(easing) }) : formatEasing(easing);
+}
+
+function replaceAt<T>(items: T[], index: number, item: T): T[] {
+  return items.map((existing, i) => (i === index ? item : existing));
+}
@@ -1,33 +1,99 @@
 "use client";
 
-import { useState, useRef } from "react";
-import { useQuery, useMutation } from "convex/react";
+import { Fragment, useState, useRef, useEffect } from "react";
+import { useQuery, useMutation, useAction } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { Id } from "@/convex/_generated/dataModel";
 import { cn } from "@/lib/utils";
 import {
   TrashIcon,
   CopyIcon,
-  MoveVerticalIcon,
-  GripVerticalIcon,
   FileVideoIcon,
   ImageIcon,
   MusicIcon,
   TypeIcon,
+  ScissorsIcon,
+  FoldHorizontalIcon,
+  LockIcon,
+  UnlockIcon,
+  Volume2Icon,
+  VolumeXIcon,
+  EyeIcon,
+  EyeOffIcon,
+  ZoomInIcon,
+  ZoomOutIcon,
+  MicVocalIcon,
+  DrumIcon,
 } from "lucide-react";
-import type { CompositionElement } from "@/types/composition-ir";
+import type { Animation, CompositionElement, EditPlan, Track, TrackKind } from "@/types/composition-ir";
+import { framesToTimecode, timecodeToFrames } from "@/lib/composition-engine/ir-helpers";
+import {
+  SNAP_THRESHOLD_PX,
+  getElementTrack,
+  getSnapTargets,
+  getTrackKind,
+  getTracks,
+  groupElementsByTrack,
+  snapClipStart,
+  snapFrame,
+} from "@/lib/composition-engine/timeline";
+import { getDucking, isAudible } from "@/lib/composition-engine/audio";
+import {
+  findClipAsset,
+  getClipSourceRange,
+  getFilmstripTiles,
+  getStreamThumbnailUrl,
+  getWaveformBars,
+} from "@/lib/composition-engine/clip-media";
+import { getBeatFrames } from "@/lib/composition-engine/beats";
+import { useAssetAnalysis } from "./useAssetAnalysis";
+import { KeyframeLaneHeaders, KeyframeLanes, useKeyframeEditor } from "./KeyframeLanes";
 
 interface TimelineProps {
   compositionId: Id<"compositions">;
   onElementSelect?: (elementId: string) => void;
   selectedElementId?: string | null;
+  playheadFrame: number; // Shared with the preview player
+  onPlayheadChange: (frame: number) => void;
 }
 
-export function Timeline({ compositionId, onElementSelect, selectedElementId }: TimelineProps) {
-  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+// Clip drag in progress: moving the whole clip, one of its edges or a fade handle
+interface ClipDrag {
+  elementId: string;
+  mode: "move" | "trim-start" | "trim-end" | "fade-in" | "fade-out";
+  originX: number;
+  from: number;
+  durationInFrames: number;
+  fadeFrames: number; // Fade length while dragging a fade handle
+  trackId: string;
+  moved: boolean;
+}
+
+const MIN_ZOOM = 0.25; // Pixels per frame
+const MAX_ZOOM = 16;
+const TRACK_HEADER_WIDTH = 168;
+const CLIP_HEIGHT = 32; // h-10 lane minus top-1 and bottom-1
+const MAX_WAVEFORM_BARS = 1000;
+const MIN_BEAT_SPACING_PX = 4; // Denser beats aren't drawn on the ruler
+
+export function Timeline({
+  compositionId,
+  onElementSelect,
+  selectedElementId,
+  playheadFrame,
+  onPlayheadChange,
+}: TimelineProps) {
   const [isDraggingOver, setIsDraggingOver] = useState(false);
+  const [zoom, setZoom] = useState(2);
+  const [drag, setDrag] = useState<ClipDrag | null>(null);
+  const [snapToBeats, setSnapToBeats] = useState(true);
+  const lanesRef = useRef<HTMLDivElement>(null);
 
   const composition = useQuery(api.compositions.get, { compositionId });
+  const assets = useQuery(
+    api.media.listAssets,
+    composition ? { projectId: composition.projectId } : "skip"
+  );
   const addElement = useMutation(api.compositions.addElement).withOptimisticUpdate(
     (localStore, args) => {
       // Optimistically show new element in timeline immediately
@@ -65,21 +131,39 @@ export function Timeline({ compositionId, onElementSelect, selectedElementId }:
     }
   );
 
-  const reorderElements = useMutation(api.compositions.reorderElements).withOptimisticUpdate(
+  const updateTrack = useMutation(api.compositions.updateTrack).withOptimisticUpdate(
     (localStore, args) => {
-      // Optimistically reorder elements immediately
+      // Optimistically toggle lock/mute/hide immediately
       const currentComposition = localStore.getQuery(api.compositions.get, {
         compositionId: args.compositionId
       });
       if (!currentComposition?.ir) return;
 
-      const elementMap = new Map(
-        currentComposition.ir.elements.map((el: any) => [el.id, el])
+      localStore.setQuery(
+        api.compositions.get,
+        { compositionId: args.compositionId },
+        {
+          ...currentComposition,
+          ir: {
+            ...currentComposition.ir,
+            tracks: getTracks(currentComposition.ir).map((track) =>
+              track.id === args.trackId ? { ...track, ...args.changes } : track
+            ),
+          },
+        }
       );
-      const reorderedElements = args.elementIds
-        .map((id) => elementMap.get(id))
-        .filter(Boolean);
+    }
+  );
+
+  const updateAudioMix = useMutation(api.compositions.updateAudioMix).withOptimisticUpdate(
+    (localStore, args) => {
+      // Optimistically show the new gain and ducking state
+      const currentComposition = localStore.getQuery(api.compositions.get, {
+        compositionId: args.compositionId
+      });
+      if (!currentComposition?.ir) return;
 
+      const mix = currentComposition.ir.mix ?? {};
       localStore.setQuery(
         api.compositions.get,
         { compositionId: args.compositionId },
@@ -87,20 +171,44 @@ export function Timeline({ compositionId, onElementSelect, selectedElementId }:
           ...currentComposition,
           ir: {
             ...currentComposition.ir,
-            elements: reorderedElements,
+            mix: {
+              ...mix,
+              ...(args.masterGain !== undefined && { masterGain: args.masterGain }),
+              ...(args.ducking && { ducking: { ...mix.ducking, ...args.ducking } }),
+            },
           },
         }
       );
     }
   );
 
+  const addTrack = useMutation(api.compositions.addTrack);
+  const executeEditPlan = useAction(api.compositions.executeEditPlan);
+  const executeTransaction = useAction(api.compositions.executeTransaction);
+
   const elements: CompositionElement[] = composition?.ir?.elements || [];
   const fps = composition?.ir?.metadata?.fps || 30;
+  const tracks: Track[] = composition?.ir ? getTracks(composition.ir) : [];
+  const elementsByTrack = groupElementsByTrack(elements, tracks);
+  useAssetAnalysis(assets, elements);
+  const beatFrames = snapToBeats && assets ? getBeatFrames(elements, assets, fps) : [];
+  const masterGain = composition?.ir?.mix?.masterGain ?? 1;
+  const ducking = getDucking(composition?.ir?.mix);
+
+  // Keyframe lanes open under the selected clip's track
+  const selectedElement = elements.find((el) => el.id === selectedElementId);
+  const selectedTrack = selectedElement && getElementTrack(selectedElement, tracks);
+
+  // Leave room after the last clip to drag clips further out
+  const lastFrame = Math.max(
+    composition?.ir?.metadata?.durationInFrames || 0,
+    ...elements.map((el) => el.from + el.durationInFrames)
+  );
+  const totalFrames = lastFrame + fps * 5;
 
   const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDraggingOver(false);
-    setDragOverIndex(null);
 
     try {
       const data = e.dataTransfer.getData("application/json");
@@ -117,6 +225,8 @@ export function Timeline({ compositionId, onElementSelect, selectedElementId }:
   };
 
   const handleDragOver = (e: React.DragEvent) => {
+    // Only asset drops from the library, not clip drags
+    if (!e.dataTransfer.types.includes("application/json")) return;
     e.preventDefault();
     e.dataTransfer.dropEffect = "copy";
     setIsDraggingOver(true);
@@ -124,7 +234,6 @@ export function Timeline({ compositionId, onElementSelect, selectedElementId }:
 
   const handleDragLeave = () => {
     setIsDraggingOver(false);
-    setDragOverIndex(null);
   };
 
   const handleDeleteElement = async (elementId: string, e: React.MouseEvent) => {
@@ -134,44 +243,390 @@ export function Timeline({ compositionId, onElementSelect, selectedElementId }:
     }
   };
 
+  // Clip edits go through the shared executor as one undo step
+  const runClipEdit = async (editPlan: EditPlan | EditPlan[]) => {
+    try {
+      const result = Array.isArray(editPlan)
+        ? await executeTransaction({ compositionId, plans: editPlan })
+        : await executeEditPlan({ compositionId, editPlan });
+      if (!result.success) {
+        alert(result.error || "Edit could not be applied");
+      }
+    } catch (error) {
+      console.error("[Timeline] Error applying clip edit:", error);
+    }
+  };
+
+  const keyframeEditor = useKeyframeEditor(selectedElement, (elementId, animations: Animation[]) =>
+    runClipEdit({
+      operation: "update",
+      selector: { type: "byId", id: elementId },
+      changes: { animations },
+    })
+  );
+
+  const handleSplitElement = async (element: CompositionElement, e: React.MouseEvent) => {
+    e.stopPropagation();
+
+    // Split at the playhead when it is over the clip, otherwise ask where
+    let atFrame = playheadFrame;
+    if (atFrame <= element.from || atFrame >= element.from + element.durationInFrames) {
+      const midpoint = element.from + Math.floor(element.durationInFrames / 2);
+      const input = prompt("Split at (m:ss.s)", framesToTimecode(midpoint, fps));
+      if (!input) return;
+      atFrame = timecodeToFrames(input, fps);
+    }
+
+    await runClipEdit({
+      operation: "split",
+      selector: { type: "byId", id: element.id },
+      changes: { atFrame },
+    });
+  };
+
+  const handleRippleDeleteElement = async (elementId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (confirm("Delete this element and move everything after it back to close the gap?")) {
+      await runClipEdit({
+        operation: "rippleDelete",
+        selector: { type: "byId", id: elementId },
+        changes: {},
+      });
+    }
+  };
+
   const handleDuplicateElement = async (element: CompositionElement, e: React.MouseEvent) => {
     e.stopPropagation();
     // TODO: Implement duplicate
     console.log("[Timeline] Duplicate element:", element.id);
   };
 
-  const framesToSeconds = (frames: number) => {
-    const seconds = frames / fps;
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    const ms = Math.floor((seconds % 1) * 100);
-    return `${mins}:${secs.toString().padStart(2, "0")}.${ms.toString().padStart(2, "0")}`;
+  const handleAddTrack = async (kind: TrackKind) => {
+    await addTrack({ compositionId, kind });
+  };
+
+  const toggleTrack = (track: Track, flag: "locked" | "muted" | "hidden") => {
+    updateTrack({ compositionId, trackId: track.id, changes: { [flag]: !track[flag] } });
+  };
+
+  // ==================== Clip dragging ====================
+
+  const startClipDrag = (
+    element: CompositionElement,
+    mode: ClipDrag["mode"],
+    e: React.PointerEvent
+  ) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+
+    setDrag({
+      elementId: element.id,
+      mode,
+      originX: e.clientX,
+      from: element.from,
+      durationInFrames: element.durationInFrames,
+      fadeFrames: (mode === "fade-out" ? element.properties.fadeOutFrames : element.properties.fadeInFrames) ?? 0,
+      trackId: getElementTrack(element, tracks).id,
+      moved: false,
+    });
+  };
+
+  const updateClipDrag = (element: CompositionElement, e: React.PointerEvent) => {
+    if (!drag || drag.elementId !== element.id) return;
+
+    const delta = Math.round((e.clientX - drag.originX) / zoom);
+    if (drag.mode === "fade-in" || drag.mode === "fade-out") {
+      // Fade handles start at the clip's ends and are dragged inwards
+      const start = (drag.mode === "fade-in" ? element.properties.fadeInFrames : element.properties.fadeOutFrames) ?? 0;
+      const fadeFrames = start + (drag.mode === "fade-in" ? delta : -delta);
+      setDrag({
+        ...drag,
+        fadeFrames: Math.min(Math.max(0, fadeFrames), element.durationInFrames),
+        moved: drag.moved || delta !== 0,
+      });
+      return;
+    }
+
+    const threshold = SNAP_THRESHOLD_PX / zoom;
+    const targets = [
+      ...getSnapTargets(elements, element.id, playheadFrame),
+      // A music clip doesn't snap to its own beats
+      ...(snapToBeats && assets ? getBeatFrames(elements, assets, fps, element.id) : []),
+    ];
+    const end = element.from + element.durationInFrames;
+
+    let { from, durationInFrames, trackId } = drag;
+    if (drag.mode === "move") {
+      from = Math.max(0, snapClipStart(element.from + delta, element.durationInFrames, targets, threshold));
+
+      // Dragging onto another lane moves the clip to that track (same kind only)
+      const lane = document
+        .elementFromPoint(e.clientX, e.clientY)
+        ?.closest<HTMLElement>("[data-track-id]");
+      const target = tracks.find((track) => track.id === lane?.dataset.trackId);
+      if (target && !target.locked && isTrackCompatible(element, target)) {
+        trackId = target.id;
+      }
+    } else if (drag.mode === "trim-start") {
+      from = Math.min(Math.max(0, snapFrame(element.from + delta, targets, threshold)), end - 1);
+      durationInFrames = end - from;
+    } else {
+      const newEnd = Math.max(element.from + 1, snapFrame(end + delta, targets, threshold));
+      durationInFrames = newEnd - element.from;
+    }
+
+    setDrag({ ...drag, from, durationInFrames, trackId, moved: drag.moved || delta !== 0 });
+  };
+
+  const endClipDrag = async (element: CompositionElement) => {
+    if (!drag || drag.elementId !== element.id) return;
+    const finished = drag;
+
+    if (!finished.moved) {
+      setDrag(null);
+      onElementSelect?.(element.id);
+      return;
+    }
+
+    const selector = { type: "byId" as const, id: element.id };
+    const currentTrackId = getElementTrack(element, tracks).id;
+
+    if (finished.mode === "move") {
+      const plans: EditPlan[] = [];
+      if (finished.from !== element.from) {
+        plans.push({ operation: "move", selector, changes: { from: finished.from } });
+      }
+      if (finished.trackId !== currentTrackId) {
+        plans.push({ operation: "update", selector, changes: { trackId: finished.trackId } });
+      }
+      if (plans.length > 0) {
+        await runClipEdit(plans.length === 1 ? plans[0] : plans);
+      }
+    } else if (finished.mode === "fade-in" || finished.mode === "fade-out") {
+      const property = finished.mode === "fade-in" ? "fadeInFrames" : "fadeOutFrames";
+      if (finished.fadeFrames !== (element.properties[property] ?? 0)) {
+        await runClipEdit({
+          operation: "update",
+          selector,
+          changes: { properties: { [property]: finished.fadeFrames } },
+        });
+      }
+    } else {
+      const trimStart = finished.from - element.from;
+      const trimEnd =
+        element.from + element.durationInFrames - (finished.from + finished.durationInFrames);
+      if (trimStart !== 0 || trimEnd !== 0) {
+        await runClipEdit({ operation: "trim", selector, changes: { trimStart, trimEnd } });
+      }
+    }
+
+    setDrag(null);
+  };
+
+  // ==================== Ruler & zoom ====================
+
+  const seekToPointer = (e: React.PointerEvent) => {
+    const rect = lanesRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const frame = Math.round((e.clientX - rect.left + (lanesRef.current?.scrollLeft ?? 0)) / zoom);
+    onPlayheadChange(Math.max(0, Math.min(frame, totalFrames)));
+  };
+
+  // Keep the playhead in view while the preview plays
+  useEffect(() => {
+    const lanes = lanesRef.current;
+    if (!lanes || drag) return;
+    const x = playheadFrame * zoom;
+    if (x < lanes.scrollLeft || x > lanes.scrollLeft + lanes.clientWidth) {
+      lanes.scrollLeft = Math.max(0, x - lanes.clientWidth / 4);
+    }
+  }, [playheadFrame, zoom, drag]);
+
+  const changeZoom = (factor: number) => {
+    setZoom((current) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current * factor)));
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    if (!e.ctrlKey && !e.metaKey) return;
+    changeZoom(e.deltaY < 0 ? 1.25 : 0.8);
   };
 
+  // Label every 1/2/5/10/30/60 seconds, whichever keeps labels ~80px apart
+  const tickSeconds = [1, 2, 5, 10, 30, 60].find((s) => s * fps * zoom >= 80) ?? 60;
+  const ticks = Array.from(
+    { length: Math.ceil(totalFrames / (tickSeconds * fps)) + 1 },
+    (_, i) => i * tickSeconds * fps
+  );
+
   return (
     <div className="flex flex-col h-full bg-neutral-950 border border-neutral-800 rounded-lg">
       {/* Timeline Header */}
-      <div className="border-b border-neutral-800 p-3">
-        <h3 className="text-sm font-semibold text-neutral-300">Timeline</h3>
-        <p className="text-xs text-neutral-500 mt-1">
-          {elements.length} element{elements.length !== 1 ? "s" : ""} • {fps} FPS
+      <div className="flex items-center justify-between border-b border-neutral-800 px-3 py-2">
+        <p className="text-xs text-neutral-500">
+          {elements.length} element{elements.length !== 1 ? "s" : ""} • {fps} FPS •{" "}
+          {framesToTimecode(playheadFrame, fps)}
         </p>
+        <div className="flex items-center space-x-1">
+          <label className="flex items-center space-x-1 text-xs text-neutral-500 pr-1" title="Master gain">
+            <Volume2Icon className="w-3.5 h-3.5" />
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={masterGain}
+              onChange={(e) => updateAudioMix({ compositionId, masterGain: parseFloat(e.target.value) })}
+              className="w-16"
+            />
+            <span className="w-8 text-right">{Math.round(masterGain * 100)}%</span>
+          </label>
+          <button
+            onClick={() => updateAudioMix({ compositionId, ducking: { enabled: !ducking.enabled } })}
+            className="p-1 rounded hover:bg-neutral-800"
+            title={
+              ducking.enabled
+                ? `Music ducks to ${Math.round(ducking.level * 100)}% under dialogue (click to turn off)`
+                : "Duck music under dialogue"
+            }
+          >
+            <MicVocalIcon className={cn("w-4 h-4", ducking.enabled ? "text-amber-500" : "text-neutral-500")} />
+          </button>
+          <button
+            onClick={() => setSnapToBeats(!snapToBeats)}
+            className="p-1 rounded hover:bg-neutral-800"
+            title={snapToBeats ? "Clips snap to music beats (click to turn off)" : "Snap clips to music beats"}
+          >
+            <DrumIcon className={cn("w-4 h-4", snapToBeats ? "text-amber-500" : "text-neutral-500")} />
+          </button>
+          <select
+            value=""
+            onChange={(e) => e.target.value && handleAddTrack(e.target.value as TrackKind)}
+            className="bg-neutral-900 border border-neutral-700 text-xs text-neutral-300 rounded px-2 py-1"
+          >
+            <option value="">Add track…</option>
+            <option value="overlay">Overlay track</option>
+            <option value="video">Video track</option>
+            <option value="audio">Audio track</option>
+          </select>
+          <button onClick={() => changeZoom(0.8)} className="p-1 rounded hover:bg-neutral-800" title="Zoom out">
+            <ZoomOutIcon className="w-4 h-4 text-neutral-400" />
+          </button>
+          <button onClick={() => changeZoom(1.25)} className="p-1 rounded hover:bg-neutral-800" title="Zoom in">
+            <ZoomInIcon className="w-4 h-4 text-neutral-400" />
+          </button>
+        </div>
       </div>
 
       {/* Timeline Content */}
       <div
-        className="flex-1 overflow-y-auto scrollbar-thin p-3 relative"
+        className="flex-1 flex overflow-y-auto scrollbar-thin relative"
         onDrop={handleDrop}
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
       >
-        {elements.length === 0 ? (
-          <div
-            className={cn(
-              "flex items-center justify-center h-full border-2 border-dashed rounded-lg transition-colors",
-              isDraggingOver ? "border-primary-500 bg-primary-500/10" : "border-neutral-700"
-            )}
-          >
+        {/* Track headers */}
+        <div className="flex-shrink-0 border-r border-neutral-800" style={{ width: TRACK_HEADER_WIDTH }}>
+          <div className="h-6 border-b border-neutral-800" />
+          {tracks.map((track) => (
+            <Fragment key={track.id}>
+              <TrackHeader track={track} onToggle={(flag) => toggleTrack(track, flag)} />
+              {track.id === selectedTrack?.id && (
+                <KeyframeLaneHeaders editor={keyframeEditor} locked={!!track.locked} />
+              )}
+            </Fragment>
+          ))}
+        </div>
+
+        {/* Lanes */}
+        <div ref={lanesRef} className="flex-1 overflow-x-auto scrollbar-thin" onWheel={handleWheel}>
+          <div className="relative" style={{ width: totalFrames * zoom }}>
+            {/* Ruler: click or drag to move the playhead */}
+            <div
+              className="h-6 border-b border-neutral-800 relative cursor-pointer select-none"
+              onPointerDown={(e) => {
+                (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+                seekToPointer(e);
+              }}
+              onPointerMove={(e) => e.buttons === 1 && seekToPointer(e)}
+            >
+              {ticks.map((frame) => (
+                <div
+                  key={frame}
+                  className="absolute top-0 h-full border-l border-neutral-800 pl-1 text-[10px] text-neutral-500"
+                  style={{ left: frame * zoom }}
+                >
+                  {framesToTimecode(frame, fps)}
+                </div>
+              ))}
+              {beatFrames.length > 1 && (beatFrames[1] - beatFrames[0]) * zoom >= MIN_BEAT_SPACING_PX &&
+                beatFrames.map((frame) => (
+                  <div
+                    key={`beat-${frame}`}
+                    className="absolute bottom-0 h-1.5 border-l border-amber-500/60 pointer-events-none"
+                    style={{ left: frame * zoom }}
+                  />
+                ))}
+            </div>
+
+            {tracks.map((track) => (
+              <Fragment key={track.id}>
+                <div
+                  data-track-id={track.id}
+                  className={cn(
+                    "h-10 border-b border-neutral-800 relative",
+                    track.hidden && "opacity-40",
+                    drag?.mode === "move" && drag.trackId === track.id && "bg-primary-500/5"
+                  )}
+                >
+                  {(elementsByTrack.get(track.id) || []).map((element) => {
+                    const preview = drag?.elementId === element.id ? drag : null;
+                    return (
+                      <TimelineClip
+                        key={element.id}
+                        element={element}
+                        asset={assets && findClipAsset(assets, element)}
+                        from={preview?.from ?? element.from}
+                        durationInFrames={preview?.durationInFrames ?? element.durationInFrames}
+                        fadeInFrames={
+                          preview?.mode === "fade-in" ? preview.fadeFrames : element.properties.fadeInFrames ?? 0
+                        }
+                        fadeOutFrames={
+                          preview?.mode === "fade-out" ? preview.fadeFrames : element.properties.fadeOutFrames ?? 0
+                        }
+                        zoom={zoom}
+                        fps={fps}
+                        locked={!!track.locked}
+                        isSelected={selectedElementId === element.id}
+                        isDragging={!!preview?.moved}
+                        onPointerDown={(mode, e) => startClipDrag(element, mode, e)}
+                        onPointerMove={(e) => updateClipDrag(element, e)}
+                        onPointerUp={() => endClipDrag(element)}
+                        onSelect={() => onElementSelect?.(element.id)}
+                        onSplit={(e) => handleSplitElement(element, e)}
+                        onDuplicate={(e) => handleDuplicateElement(element, e)}
+                        onDelete={(e) => handleDeleteElement(element.id, e)}
+                        onRippleDelete={(e) => handleRippleDeleteElement(element.id, e)}
+                      />
+                    );
+                  })}
+                </div>
+                {track.id === selectedTrack?.id && (
+                  <KeyframeLanes editor={keyframeEditor} zoom={zoom} locked={!!track.locked} />
+                )}
+              </Fragment>
+            ))}
+
+            {/* Playhead */}
+            <div
+              className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none"
+              style={{ left: playheadFrame * zoom }}
+            />
+          </div>
+        </div>
+
+        {elements.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
             <div className="text-center">
               <p className="text-neutral-500 font-medium">Drop assets here</p>
               <p className="text-xs text-neutral-600 mt-1">
@@ -179,26 +634,10 @@ export function Timeline({ compositionId, onElementSelect, selectedElementId }:
               </p>
             </div>
           </div>
-        ) : (
-          <div className="space-y-2">
-            {elements.map((element, index) => (
-              <TimelineElement
-                key={element.id}
-                element={element}
-                index={index}
-                fps={fps}
-                isSelected={selectedElementId === element.id}
-                onSelect={() => onElementSelect?.(element.id)}
-                onDelete={(e) => handleDeleteElement(element.id, e)}
-                onDuplicate={(e) => handleDuplicateElement(element, e)}
-                framesToSeconds={framesToSeconds}
-              />
-            ))}
-          </div>
         )}
 
         {/* Drop indicator overlay */}
-        {isDraggingOver && elements.length > 0 && (
+        {isDraggingOver && (
           <div className="absolute inset-0 border-2 border-primary-500 bg-primary-500/5 rounded-lg pointer-events-none" />
         )}
       </div>
@@ -206,91 +645,287 @@ export function Timeline({ compositionId, onElementSelect, selectedElementId }:
   );
 }
 
-interface TimelineElementProps {
+/**
+ * Audio clips go on audio tracks; everything else on video or overlay tracks
+ */
+function isTrackCompatible(element: CompositionElement, track: Track): boolean {
+  return (getTrackKind(element) === "audio") === (track.kind === "audio");
+}
+
+interface TrackHeaderProps {
+  track: Track;
+  onToggle: (flag: "locked" | "muted" | "hidden") => void;
+}
+
+function TrackHeader({ track, onToggle }: TrackHeaderProps) {
+  const toggles = [
+    { flag: "locked" as const, on: LockIcon, off: UnlockIcon, title: track.locked ? "Unlock track" : "Lock track" },
+    { flag: "muted" as const, on: VolumeXIcon, off: Volume2Icon, title: track.muted ? "Unmute track" : "Mute track" },
+    { flag: "hidden" as const, on: EyeOffIcon, off: EyeIcon, title: track.hidden ? "Show track" : "Hide track" },
+  ];
+
+  return (
+    <div className="h-10 flex items-center justify-between px-2 border-b border-neutral-800">
+      <span className="text-xs font-medium text-neutral-300 truncate">{track.name}</span>
+      <div className="flex items-center">
+        {toggles.map(({ flag, on: OnIcon, off: OffIcon, title }) => (
+          <button
+            key={flag}
+            onClick={() => onToggle(flag)}
+            className="p-1 rounded hover:bg-neutral-800 transition-colors"
+            title={title}
+          >
+            {track[flag] ? (
+              <OnIcon className="w-3.5 h-3.5 text-amber-500" />
+            ) : (
+              <OffIcon className="w-3.5 h-3.5 text-neutral-500" />
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface TimelineClipProps {
   element: CompositionElement;
-  index: number;
+  asset?: any; // Asset the clip was added from, for its waveform and thumbnails
+  from: number;
+  durationInFrames: number;
+  fadeInFrames: number;
+  fadeOutFrames: number;
+  zoom: number;
   fps: number;
+  locked: boolean;
   isSelected: boolean;
+  isDragging: boolean;
+  onPointerDown: (mode: ClipDrag["mode"], e: React.PointerEvent) => void;
+  onPointerMove: (e: React.PointerEvent) => void;
+  onPointerUp: () => void;
   onSelect: () => void;
-  onDelete: (e: React.MouseEvent) => void;
+  onSplit: (e: React.MouseEvent) => void;
   onDuplicate: (e: React.MouseEvent) => void;
-  framesToSeconds: (frames: number) => string;
+  onDelete: (e: React.MouseEvent) => void;
+  onRippleDelete: (e: React.MouseEvent) => void;
 }
 
-function TimelineElement({
+function TimelineClip({
   element,
-  index,
+  asset,
+  from,
+  durationInFrames,
+  fadeInFrames,
+  fadeOutFrames,
+  zoom,
   fps,
+  locked,
   isSelected,
+  isDragging,
+  onPointerDown,
+  onPointerMove,
+  onPointerUp,
   onSelect,
-  onDelete,
+  onSplit,
   onDuplicate,
-  framesToSeconds,
-}: TimelineElementProps) {
+  onDelete,
+  onRippleDelete,
+}: TimelineClipProps) {
   const getIcon = () => {
     switch (element.type) {
       case "video":
-        return <FileVideoIcon className="w-4 h-4 text-primary-500" />;
+        return <FileVideoIcon className="w-3.5 h-3.5 text-primary-500 flex-shrink-0" />;
       case "audio":
-        return <MusicIcon className="w-4 h-4 text-amber-500" />;
+        return <MusicIcon className="w-3.5 h-3.5 text-amber-500 flex-shrink-0" />;
       case "image":
-        return <ImageIcon className="w-4 h-4 text-success-DEFAULT" />;
+        return <ImageIcon className="w-3.5 h-3.5 text-success-DEFAULT flex-shrink-0" />;
       case "text":
-        return <TypeIcon className="w-4 h-4 text-blue-500" />;
+        return <TypeIcon className="w-3.5 h-3.5 text-blue-500 flex-shrink-0" />;
       default:
-        return <FileVideoIcon className="w-4 h-4 text-neutral-500" />;
+        return <FileVideoIcon className="w-3.5 h-3.5 text-neutral-500 flex-shrink-0" />;
     }
   };
 
-  const startTime = framesToSeconds(element.from);
-  const endTime = framesToSeconds(element.from + element.durationInFrames);
-  const duration = framesToSeconds(element.durationInFrames);
+  // Locked clips can still be selected, but not dragged or trimmed
+  const dragHandlers = (mode: ClipDrag["mode"]) =>
+    locked
+      ? {}
+      : {
+          onPointerDown: (e: React.PointerEvent) => onPointerDown(mode, e),
+          onPointerMove,
+          onPointerUp,
+        };
+
+  const width = Math.max(durationInFrames * zoom, 4);
+  const fadeIn = Math.min(fadeInFrames * zoom, width);
+  const fadeOut = Math.min(fadeOutFrames * zoom, width);
 
   return (
     <div
-      onClick={onSelect}
+      {...dragHandlers("move")}
+      onClick={locked ? onSelect : undefined}
+      title={`${element.label || element.type} • ${framesToTimecode(from, fps)} → ${framesToTimecode(from + durationInFrames, fps)}`}
       className={cn(
-        "group relative flex items-center space-x-3 p-3 rounded-lg border cursor-pointer transition-all",
+        "group absolute top-1 bottom-1 flex items-center rounded border px-2 overflow-hidden select-none",
+        locked ? "cursor-not-allowed" : "cursor-grab active:cursor-grabbing",
         isSelected
-          ? "bg-primary-500/20 border-primary-500 ring-2 ring-primary-500/50"
-          : "bg-neutral-900 border-neutral-800 hover:border-neutral-700 hover:bg-neutral-800"
+          ? "bg-primary-500/30 border-primary-500 ring-1 ring-primary-500/50"
+          : "bg-neutral-800 border-neutral-700 hover:border-neutral-600",
+        isDragging && "opacity-80 shadow-lg z-10"
       )}
+      style={{ left: from * zoom, width }}
     >
-      {/* Drag Handle */}
-      <div className="cursor-grab active:cursor-grabbing opacity-50 group-hover:opacity-100">
-        <GripVerticalIcon className="w-4 h-4 text-neutral-500" />
-      </div>
+      {asset && (
+        <ClipMedia
+          element={{ ...element, durationInFrames }}
+          asset={asset}
+          zoom={zoom}
+          fps={fps}
+        />
+      )}
 
-      {/* Icon */}
-      <div>{getIcon()}</div>
+      {/* Fade ramps, with handles at the top corners to drag them in */}
+      {isAudible(element) && (
+        <>
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            viewBox={`0 0 ${width} 1`}
+            preserveAspectRatio="none"
+          >
+            {fadeIn > 0 && <polygon points={`0,0 ${fadeIn},0 0,1`} className="fill-black/40" />}
+            {fadeOut > 0 && <polygon points={`${width},0 ${width - fadeOut},0 ${width},1`} className="fill-black/40" />}
+          </svg>
+          {!locked && (
+            <>
+              <div
+                {...dragHandlers("fade-in")}
+                className="absolute top-0 w-2 h-2 -ml-1 rounded-full bg-neutral-300 opacity-0 group-hover:opacity-100 cursor-ew-resize z-10"
+                style={{ left: Math.max(fadeIn, 4) }}
+                title={`Fade in: ${(fadeInFrames / fps).toFixed(1)}s`}
+              />
+              <div
+                {...dragHandlers("fade-out")}
+                className="absolute top-0 w-2 h-2 -mr-1 rounded-full bg-neutral-300 opacity-0 group-hover:opacity-100 cursor-ew-resize z-10"
+                style={{ right: Math.max(fadeOut, 4) }}
+                title={`Fade out: ${(fadeOutFrames / fps).toFixed(1)}s`}
+              />
+            </>
+          )}
+        </>
+      )}
 
-      {/* Info */}
-      <div className="flex-1 min-w-0">
-        <p className="text-sm font-medium truncate">
-          {element.label || `${element.type} ${index + 1}`}
-        </p>
-        <p className="text-xs text-neutral-500">
-          {startTime} → {endTime} ({duration})
-        </p>
+      {/* Trim handles */}
+      {!locked && (
+        <>
+          <div
+            {...dragHandlers("trim-start")}
+            className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-primary-500/60"
+          />
+          <div
+            {...dragHandlers("trim-end")}
+            className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-primary-500/60"
+          />
+        </>
+      )}
+
+      <div className="relative flex items-center min-w-0">
+        {getIcon()}
+        <span className="ml-1.5 text-xs font-medium truncate">
+          {element.label || element.type}
+        </span>
       </div>
 
       {/* Actions */}
-      <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
-        <button
-          onClick={onDuplicate}
-          className="p-1 rounded hover:bg-neutral-700 transition-colors"
-          title="Duplicate"
+      {!locked && !isDragging && (
+        <div
+          className="relative ml-auto flex items-center space-x-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
+          onPointerDown={(e) => e.stopPropagation()}
         >
-          <CopyIcon className="w-3.5 h-3.5 text-neutral-400" />
-        </button>
-        <button
-          onClick={onDelete}
-          className="p-1 rounded hover:bg-red-900/50 transition-colors"
-          title="Delete"
-        >
-          <TrashIcon className="w-3.5 h-3.5 text-red-400" />
-        </button>
-      </div>
+          {element.type !== "sequence" && (
+            <button
+              onClick={onSplit}
+              className="p-0.5 rounded hover:bg-neutral-700 transition-colors"
+              title="Split at playhead"
+            >
+              <ScissorsIcon className="w-3 h-3 text-neutral-400" />
+            </button>
+          )}
+          <button
+            onClick={onDuplicate}
+            className="p-0.5 rounded hover:bg-neutral-700 transition-colors"
+            title="Duplicate"
+          >
+            <CopyIcon className="w-3 h-3 text-neutral-400" />
+          </button>
+          <button
+            onClick={onDelete}
+            className="p-0.5 rounded hover:bg-red-900/50 transition-colors"
+            title="Delete"
+          >
+            <TrashIcon className="w-3 h-3 text-red-400" />
+          </button>
+          <button
+            onClick={onRippleDelete}
+            className="p-0.5 rounded hover:bg-red-900/50 transition-colors"
+            title="Ripple delete (close the gap)"
+          >
+            <FoldHorizontalIcon className="w-3 h-3 text-red-400" />
+          </button>
+        </div>
+      )}
     </div>
   );
 }
+
+/**
+ * Filmstrip of a video clip, or the waveform of an audio clip, for the part
+ * of the asset the clip plays at the current zoom
+ */
+function ClipMedia({
+  element,
+  asset,
+  zoom,
+  fps,
+}: {
+  element: CompositionElement;
+  asset: any;
+  zoom: number;
+  fps: number;
+}) {
+  const width = element.durationInFrames * zoom;
+
+  if (element.type === "video" && getStreamThumbnailUrl(asset, 0, CLIP_HEIGHT)) {
+    const tileWidth = Math.round((CLIP_HEIGHT * 16) / 9);
+    return (
+      <div className="absolute inset-0 flex pointer-events-none opacity-40">
+        {getFilmstripTiles(element, fps, zoom, tileWidth).map((tile) => (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            key={tile.left}
+            src={getStreamThumbnailUrl(asset, tile.seconds, CLIP_HEIGHT * 2)!}
+            alt=""
+            loading="lazy"
+            draggable={false}
+            className="h-full object-cover flex-shrink-0"
+            style={{ width: tile.width }}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  if (!asset.waveform) return null;
+
+  const { start, end } = getClipSourceRange(element, fps);
+  const bars = getWaveformBars(asset.waveform, start, end, Math.min(Math.ceil(width / 2), MAX_WAVEFORM_BARS));
+  const path = bars.map((bar, i) => `M${i},${(1 - bar) / 2}h0.7v${bar}h-0.7z`).join("");
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 ${bars.length} 1`}
+      preserveAspectRatio="none"
+    >
+      <path d={path} className={element.type === "audio" ? "fill-amber-500/40" : "fill-primary-500/40"} />
+    </svg>
+  );
+}
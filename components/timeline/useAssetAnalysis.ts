@@ -0,0 +1,83 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { CompositionElement } from "@/types/composition-ir";
+import { isAudible } from "@/lib/composition-engine/audio";
+import { analyzeAudio, MAX_ANALYSIS_FILE_BYTES } from "@/lib/composition-engine/audio-analysis";
+import { isMusicClip } from "@/lib/composition-engine/beats";
+import { findClipAsset, getAssetFileUrl } from "@/lib/composition-engine/clip-media";
+
+// Assets already tried this session, so failures aren't retried on every render
+const requested = new Set<string>();
+
+/**
+ * Compute missing waveforms, and beat grids of music, for the assets of the
+ * timeline's clips
+ *
+ * Smaller uploads are analyzed as they are ingested; this covers larger
+ * ones, older assets and analyses that didn't finish. Each asset is
+ * downloaded and decoded once and the results are saved on the asset for
+ * every later session. Assets are decoded one at a time to keep memory down.
+ */
+export function useAssetAnalysis(assets: any[] | undefined, elements: CompositionElement[]) {
+  const saveWaveform = useMutation(api.media.saveWaveform);
+  const saveBeatGrid = useMutation(api.media.saveBeatGrid);
+  const busy = useRef(false);
+  const [finished, setFinished] = useState(0); // Looks for the next asset after each one
+
+  useEffect(() => {
+    if (!assets || busy.current) return;
+
+    const clips: CompositionElement[] = [];
+    const collect = (siblings: CompositionElement[]) => {
+      for (const element of siblings) {
+        if (element.type === "sequence") collect(element.children || []);
+        else if (isAudible(element)) clips.push(element);
+      }
+    };
+    collect(elements);
+
+    const isMusic = (asset: any) =>
+      asset.type === "audio" || clips.some((clip) => isMusicClip(clip) && findClipAsset([asset], clip));
+
+    const asset = clips
+      .map((clip) => findClipAsset(assets, clip))
+      .find(
+        (candidate) =>
+          candidate &&
+          candidate.status === "ready" &&
+          (!candidate.waveform || (!candidate.beats && isMusic(candidate))) &&
+          !requested.has(candidate._id) &&
+          getAssetFileUrl(candidate) &&
+          (candidate.fileSize ?? 0) <= MAX_ANALYSIS_FILE_BYTES
+      );
+    if (!asset) return;
+
+    requested.add(asset._id);
+    busy.current = true;
+
+    (async () => {
+      try {
+        const response = await fetch(getAssetFileUrl(asset)!);
+        if (!response.ok) {
+          throw new Error(`Download failed: ${response.status}`);
+        }
+        const { waveform, beats } = await analyzeAudio(await response.arrayBuffer());
+
+        if (!asset.waveform) {
+          await saveWaveform({ assetId: asset._id, waveform });
+        }
+        if (!asset.beats && isMusic(asset) && beats) {
+          await saveBeatGrid({ assetId: asset._id, beats });
+        }
+      } catch (error) {
+        console.error("[useAssetAnalysis] Could not analyze", asset.filename, error);
+      } finally {
+        busy.current = false;
+        setFinished((count) => count + 1);
+      }
+    })();
+  }, [assets, elements, saveWaveform, saveBeatGrid, finished]);
+}
@@ -8,6 +8,7 @@ import { Id } from "@/convex/_generated/dataModel";
 import * as tus from "tus-js-client";
 import { UploadIcon, FileVideoIcon, LoaderIcon, CheckCircleIcon, XCircleIcon } from "lucide-react";
 import { cn, formatFileSize } from "@/lib/utils";
+import { analyzeAudio, MAX_UPLOAD_ANALYSIS_BYTES } from "@/lib/composition-engine/audio-analysis";
 
 interface VideoUploadProps {
   projectId: Id<"projects">;
@@ -27,11 +28,54 @@ export function VideoUpload({ projectId, onUploadComplete }: VideoUploadProps) {
   const requestUploadUrl = useAction(api.media.requestStreamUploadUrl);
   const updateStreamId = useMutation(api.media.updateAssetStreamId);
   const checkVideoStatus = useAction(api.media.checkVideoStatus);
+  const importSubtitles = useMutation(api.media.importSubtitles);
+  const saveWaveform = useMutation(api.media.saveWaveform);
+  const saveBeatGrid = useMutation(api.media.saveBeatGrid);
+
+  // Waveform and beats of the local file, saved while it uploads so they're
+  // ready with the asset (Convex can't decode audio)
+  const analyzeUpload = useCallback(async (file: File, assetId: Id<"assets">) => {
+    try {
+      const { waveform, beats } = await analyzeAudio(await file.arrayBuffer());
+      await saveWaveform({ assetId, waveform });
+      if (beats) {
+        await saveBeatGrid({ assetId, beats });
+      }
+    } catch (error) {
+      console.error("[VideoUpload] Could not analyze audio of", file.name, error);
+    }
+  }, [saveWaveform, saveBeatGrid]);
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     for (const file of acceptedFiles) {
       const uploadId = `${file.name}-${Date.now()}`;
 
+      // Subtitle files are small text, imported directly instead of uploaded
+      if (/\.(srt|vtt)$/i.test(file.name)) {
+        try {
+          const { assetId } = await importSubtitles({
+            projectId,
+            filename: file.name,
+            content: await file.text(),
+          });
+          setUploads((prev) => new Map(prev).set(uploadId, {
+            filename: file.name,
+            progress: 100,
+            status: "complete",
+          }));
+          onUploadComplete?.(assetId);
+        } catch (error) {
+          console.error("[VideoUpload] Failed to import subtitles:", error);
+          setUploads((prev) => new Map(prev).set(uploadId, {
+            filename: file.name,
+            progress: 0,
+            status: "error",
+            error: error instanceof Error ? error.message : "Import failed",
+          }));
+        }
+        continue;
+      }
+
       // Initialize upload progress
       setUploads((prev) => new Map(prev).set(uploadId, {
         filename: file.name,
@@ -174,6 +218,10 @@ export function VideoUpload({ projectId, onUploadComplete }: VideoUploadProps) {
         // Start the upload
         console.log("[VideoUpload] Starting TUS upload...");
         upload.start();
+
+        if (file.size <= MAX_UPLOAD_ANALYSIS_BYTES) {
+          analyzeUpload(file, assetId);
+        }
       } catch (error) {
         console.error("[VideoUpload] Failed to request upload URL:", error);
         setUploads((prev) => {
@@ -188,12 +236,14 @@ export function VideoUpload({ projectId, onUploadComplete }: VideoUploadProps) {
         });
       }
     }
-  }, [projectId, requestUploadUrl, updateStreamId, checkVideoStatus, onUploadComplete]);
+  }, [projectId, requestUploadUrl, updateStreamId, checkVideoStatus, importSubtitles, analyzeUpload, onUploadComplete]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       "video/*": [".mp4", ".mov", ".avi", ".mkv", ".webm"],
+      "application/x-subrip": [".srt"],
+      "text/vtt": [".vtt"],
     },
     maxSize: 5 * 1024 * 1024 * 1024, // 5GB
     multiple: true,
@@ -222,7 +272,7 @@ export function VideoUpload({ projectId, onUploadComplete }: VideoUploadProps) {
               Drag and drop or click to browse
             </p>
             <p className="text-xs text-neutral-600 mt-2">
-              Supports MP4, MOV, AVI, MKV, WebM • Max 5GB
+              Supports MP4, MOV, AVI, MKV, WebM • Max 5GB • SRT/VTT captions
             </p>
           </div>
         </div>
@@ -10,12 +10,27 @@ import { action, mutation, query } from "./_generated/server";
 import { api } from "./_generated/api";
 import Anthropic from "@anthropic-ai/sdk";
 import { COMPOSITION_TOOLS } from "@/lib/dedalus/tools";
+import { compileIRToRemotionCode } from "@/lib/composition-engine/compiler";
+import {
+  computeLayerIndex,
+  findElementById,
+  findParentElement,
+  getAbsoluteFrom,
+} from "@/lib/composition-engine/ir-helpers";
+import { alignWordsToClip } from "@/lib/composition-engine/captions";
+import { findClipAsset } from "@/lib/composition-engine/clip-media";
+import {
+  diffCompositions,
+  formatDiffChangelog,
+  isEmptyDiff,
+  type CompositionDiff,
+} from "@/lib/composition-engine/ir-diff";
 import {
   buildChatSystemPrompt,
   generateEditPlan as generateEditPlanViaDedalus,
   generateRemotionCode as generateRemotionCodeViaDedalus,
 } from "@/lib/dedalus/client";
-import type { EditPlan } from "@/types/composition-ir";
+import type { EditPlan, EditTransaction, Transcript, TranscriptWord } from "@/types/composition-ir";
 
 // Get Anthropic API key from environment
 const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
@@ -27,8 +42,10 @@ export const sendChatMessage = action({
   args: {
     projectId: v.id("projects"),
     message: v.string(),
+    compositionId: v.optional(v.id("compositions")), // Active composition (defaults to the first)
+    playheadFrame: v.optional(v.number()), // Timeline cursor when the message was sent
   },
-  handler: async (ctx, { projectId, message }): Promise<{
+  handler: async (ctx, { projectId, message, compositionId, playheadFrame }): Promise<{
     messageId: any;
     content: string;
     model: string;
@@ -55,7 +72,10 @@ export const sendChatMessage = action({
     }
 
     // 3. Get project context (composition, assets, etc.)
-    const project = await ctx.runQuery(api.ai.getProjectContext, { projectId });
+    const project = await ctx.runQuery(api.ai.getProjectContext, {
+      projectId,
+      compositionId,
+    });
     console.log("[ai:sendChatMessage] Project context loaded:", {
       hasComposition: !!project?.composition,
       assetCount: project?.assets?.length || 0,
@@ -66,6 +86,7 @@ export const sendChatMessage = action({
     const systemPrompt = buildChatSystemPrompt({
       assets: project?.assets || [],
       composition: project?.composition || null,
+      playheadFrame,
     });
 
     // 5. Initialize Anthropic client
@@ -163,15 +184,33 @@ export const sendChatMessage = action({
     console.log("[ai:sendChatMessage] Final response:", finalText.substring(0, 150) + "...");
     console.log("[ai:sendChatMessage] Tools executed:", toolsExecuted);
 
-    // 12. Save assistant response
+    // 12. Summarize what the tools changed as a structural changelog
+    let changelog: string | undefined;
+    let diff: CompositionDiff | undefined;
+    if (toolsExecuted > 0 && project?.composition) {
+      const updated = await ctx.runQuery(api.ai.getComposition, {
+        compositionId: project.composition._id,
+      });
+      if (updated) {
+        const irDiff = diffCompositions(project.composition.ir, updated.ir);
+        if (!isEmptyDiff(irDiff)) {
+          diff = irDiff;
+          changelog = formatDiffChangelog(irDiff, updated.ir.metadata.fps);
+        }
+      }
+    }
+
+    // 13. Save assistant response
     const assistantMessageId = await ctx.runMutation(api.ai.saveChatMessage, {
       projectId,
       userId,
       role: "assistant",
       content: finalText,
+      receipt: changelog,
+      diff,
     });
 
-    // 13. Track AI usage
+    // 14. Track AI usage
     await ctx.runMutation(api.ai.trackAIUsage, {
       userId,
       projectId,
@@ -237,6 +276,16 @@ async function executeTool(
         color: input.color,
         fontWeight: input.fontWeight,
         backgroundColor: input.backgroundColor,
+        width: input.width,
+        height: input.height,
+        maxWidth: input.maxWidth,
+        lineHeight: input.lineHeight,
+        letterSpacing: input.letterSpacing,
+        strokeColor: input.strokeColor,
+        strokeWidth: input.strokeWidth,
+        shadow: input.shadow,
+        autoFit: input.autoFit,
+        spans: input.spans,
         label: input.label,
       });
       return {
@@ -245,6 +294,34 @@ async function executeTool(
         message: `Added text element: "${input.text}"`
       };
 
+    case "add_shape_element": {
+      const shapeElementId = await ctx.runMutation(api.compositions.addShapeElement, {
+        compositionId,
+        shape: input.shape,
+        from: input.from,
+        durationInFrames: input.durationInFrames,
+        x: input.x,
+        y: input.y,
+        width: input.width,
+        height: input.height,
+        fill: input.fill,
+        gradient: input.gradient,
+        stroke: input.stroke,
+        strokeWidth: input.strokeWidth,
+        cornerRadius: input.cornerRadius,
+        sides: input.sides,
+        points: input.points,
+        shadow: input.shadow,
+        rotation: input.rotation,
+        label: input.label,
+      });
+      return {
+        success: true,
+        elementId: shapeElementId,
+        message: `Added ${input.shape} shape with ID: ${shapeElementId}`
+      };
+    }
+
     case "add_animation":
       await ctx.runMutation(api.compositions.addAnimation, {
         compositionId,
@@ -258,6 +335,118 @@ async function executeTool(
         message: `Added ${input.property} animation to element ${input.elementId}`
       };
 
+    case "apply_animation_preset": {
+      const { label } = await ctx.runMutation(api.compositions.applyAnimationPreset, {
+        compositionId,
+        elementId: input.elementId,
+        preset: input.preset,
+        durationInFrames: input.durationInFrames,
+        startFrame: input.startFrame,
+        direction: input.direction,
+        intensity: input.intensity,
+      });
+      return {
+        success: true,
+        elementId: input.elementId,
+        message: `Applied ${label} to element ${input.elementId}`
+      };
+    }
+
+    case "add_captions": {
+      // Imported SRT/WebVTT files are already timed
+      const subtitles = (project?.assets || []).find(
+        (a: any) => a._id === input.assetId && a.type === "subtitle"
+      );
+      const { elementIds, replaced } = subtitles
+        ? await ctx.runMutation(api.compositions.addSubtitleCaptions, {
+            compositionId,
+            assetId: subtitles._id,
+            startFrame: input.startFrame,
+            style: input.style,
+            position: input.position,
+            replace: input.replace,
+          })
+        : await ctx.runMutation(api.compositions.addCaptions, {
+            compositionId,
+            ...(await getCaptionWords(ctx, compositionId, input, project)),
+            style: input.style,
+            position: input.position,
+            maxCharsPerLine: input.maxCharsPerLine,
+            replace: input.replace,
+          });
+      return {
+        success: true,
+        affectedElements: elementIds,
+        message: `Added ${elementIds.length} captions on the Captions track` +
+          (replaced ? ` (replaced ${replaced} existing)` : "")
+      };
+    }
+
+    case "set_volume_envelope":
+      await ctx.runMutation(api.compositions.setVolumeEnvelope, {
+        compositionId,
+        elementId: input.elementId,
+        keyframes: input.keyframes,
+        easing: input.easing,
+      });
+      return {
+        success: true,
+        elementId: input.elementId,
+        message: input.keyframes.length > 0
+          ? `Set ${input.keyframes.length} volume keyframes on element ${input.elementId}`
+          : `Removed the volume envelope from element ${input.elementId}`
+      };
+
+    case "duck_audio": {
+      const { windows } = await ctx.runMutation(api.compositions.duckAudio, {
+        compositionId,
+        musicElementIds: input.musicElementIds || [],
+        dialogueElementIds: input.dialogueElementIds || [],
+        level: input.level,
+        attack: input.attack,
+        release: input.release,
+      });
+      return {
+        success: true,
+        affectedElements: [...(input.musicElementIds || []), ...(input.dialogueElementIds || [])],
+        message: windows > 0
+          ? `Music now ducks under ${windows} dialogue ${windows === 1 ? "passage" : "passages"}`
+          : "Ducking is on, but no dialogue plays over the music yet"
+      };
+    }
+
+    case "set_audio_mix":
+      await ctx.runMutation(api.compositions.updateAudioMix, {
+        compositionId,
+        masterGain: input.masterGain,
+        ducking: input.duckingEnabled !== undefined || input.duckingLevel !== undefined
+          ? {
+              ...(input.duckingEnabled !== undefined && { enabled: input.duckingEnabled }),
+              ...(input.duckingLevel !== undefined && { level: input.duckingLevel }),
+            }
+          : undefined,
+      });
+      return {
+        success: true,
+        message: "Updated the audio mix"
+      };
+
+    case "cut_to_beats": {
+      const { placed, skipped, bpm } = await ctx.runMutation(api.compositions.cutToBeats, {
+        compositionId,
+        musicElementId: input.musicElementId,
+        clipElementIds: input.clipElementIds || [],
+        beatsPerCut: input.beatsPerCut,
+        startFrame: input.startFrame,
+      });
+      return {
+        success: true,
+        affectedElements: placed,
+        message: `Cut ${placed.length} ${placed.length === 1 ? "clip" : "clips"} to the beat (${bpm} BPM)` +
+          (skipped.length > 0 ? `; ${skipped.length} didn't fit and were left in place` : "")
+      };
+    }
+
     case "update_element_properties":
       await ctx.runMutation(api.compositions.updateElement, {
         compositionId,
@@ -293,11 +482,176 @@ async function executeTool(
         message: `Moved element ${input.elementId}${input.from !== undefined ? ` to frame ${input.from}` : ''}${input.durationInFrames !== undefined ? `, duration: ${input.durationInFrames} frames` : ''}`
       };
 
+    case "reorder_layer": {
+      // Read the latest IR so earlier tool calls in this turn are respected
+      const composition = await ctx.runQuery(api.ai.getComposition, { compositionId });
+      const elements = composition.ir.elements;
+      const parent = findParentElement(elements, input.elementId);
+      const siblings: any[] = parent ? parent.children || [] : elements;
+
+      const index = computeLayerIndex(
+        siblings,
+        input.elementId,
+        input.position,
+        input.relativeToElementId
+      );
+      const elementIds = siblings
+        .map((el: any) => el.id)
+        .filter((id: string) => id !== input.elementId);
+      elementIds.splice(index, 0, input.elementId);
+
+      await ctx.runMutation(api.compositions.reorderElements, {
+        compositionId,
+        elementIds,
+        parentId: parent?.id,
+      });
+      return {
+        success: true,
+        message: `Moved element ${input.elementId} to layer ${index + 1} of ${siblings.length}${input.relativeToElementId ? ` (${input.position} ${input.relativeToElementId})` : ` (${input.position})`}`
+      };
+    }
+
+    case "add_transition": {
+      const receipt = await runEditPlan(ctx, compositionId, {
+        operation: "update",
+        selector: { type: "byId", id: input.toElementId },
+        changes: {
+          transitionIn: {
+            ...(input.type && { type: input.type }),
+            ...(input.durationInFrames !== undefined && { durationInFrames: input.durationInFrames }),
+            ...(input.easing && { easing: input.easing }),
+            ...(input.direction && { direction: input.direction }),
+            ...(input.fromElementId && { fromElementId: input.fromElementId }),
+          },
+        },
+      });
+      return {
+        success: true,
+        elementId: input.toElementId,
+        message: receipt,
+      };
+    }
+
+    case "split_element":
+      return {
+        success: true,
+        message: await runEditPlan(ctx, compositionId, {
+          operation: "split",
+          selector: { type: "byId", id: input.elementId },
+          changes: { atFrame: input.atFrame },
+        }),
+      };
+
+    case "trim_element":
+      return {
+        success: true,
+        message: await runEditPlan(ctx, compositionId, {
+          operation: "trim",
+          selector: { type: "byId", id: input.elementId },
+          changes: { trimStart: input.trimStart, trimEnd: input.trimEnd },
+        }),
+      };
+
+    case "ripple_delete_element":
+      return {
+        success: true,
+        message: await runEditPlan(ctx, compositionId, {
+          operation: "rippleDelete",
+          selector: { type: "byId", id: input.elementId },
+          changes: {},
+        }),
+      };
+
+    case "batch_edit": {
+      const result = await ctx.runAction(api.compositions.executeTransaction, {
+        compositionId,
+        plans: input.edits,
+        description: input.description,
+      });
+      if (!result.success) {
+        throw new Error(
+          result.needsDisambiguation
+            ? `Edit ${result.failedPlanIndex + 1} matches several elements: ${result.disambiguationOptions
+                .map((o: any) => `${o.label} (${o.elementId})`)
+                .join(", ")}. Use a specific elementId or applyToAll.`
+            : result.error
+        );
+      }
+      return {
+        success: true,
+        affectedElements: result.affectedElements,
+        message: result.receipt,
+      };
+    }
+
     default:
       throw new Error(`Unknown tool: ${toolName}`);
   }
 }
 
+/**
+ * Run one edit plan through the shared executor and return its receipt
+ */
+async function runEditPlan(ctx: any, compositionId: any, editPlan: EditPlan): Promise<string> {
+  const result = await ctx.runAction(api.compositions.executeEditPlan, {
+    compositionId,
+    editPlan,
+  });
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.receipt;
+}
+
+/**
+ * Transcript words for add_captions: given directly, from an asset, or from
+ * the asset of a clip (aligned to where the clip plays). Assets without a
+ * transcript are transcribed first.
+ */
+async function getCaptionWords(
+  ctx: any,
+  compositionId: any,
+  input: any,
+  project: any
+): Promise<{ words: TranscriptWord[]; startFrame?: number }> {
+  if (input.words?.length) {
+    return { words: input.words, startFrame: input.startFrame };
+  }
+
+  const getTranscript = async (asset: any): Promise<Transcript> =>
+    asset.transcript ??
+    (await ctx.runAction(api.media.transcribeAsset, { assetId: asset._id, language: input.language }));
+
+  if (input.elementId) {
+    const composition = await ctx.runQuery(api.ai.getComposition, { compositionId });
+    const elements = composition.ir.elements;
+    const clip = findElementById(elements, input.elementId);
+    if (!clip || (clip.type !== "video" && clip.type !== "audio")) {
+      throw new Error(`No video or audio clip with ID ${input.elementId}`);
+    }
+
+    const asset = findClipAsset(project?.assets || [], clip);
+    if (!asset) {
+      throw new Error(`No uploaded asset found for clip ${input.elementId}`);
+    }
+
+    const { words } = await getTranscript(asset);
+    const fps = composition.ir.metadata.fps;
+    return { words: alignWordsToClip(words, clip, getAbsoluteFrom(elements, clip.id), fps) };
+  }
+
+  if (input.assetId) {
+    const asset = await ctx.runQuery(api.media.getAsset, { assetId: input.assetId });
+    if (!asset) {
+      throw new Error("Asset not found");
+    }
+    const { words } = await getTranscript(asset);
+    return { words, startFrame: input.startFrame };
+  }
+
+  throw new Error("Provide an elementId, assetId or words to caption");
+}
+
 /**
  * Generate an edit plan from user message
  */
@@ -308,7 +662,7 @@ export const generateEditPlan = action({
     userMessage: v.string(),
   },
   handler: async (ctx, { projectId, compositionId, userMessage }): Promise<{
-    plan: EditPlan;
+    plan: EditTransaction;
     model: string;
   }> => {
     // Validate API key
@@ -379,9 +733,7 @@ export const generateRemotionCode = action({
     }
 
     // Use template-based compilation (free, fast, deterministic)
-    // The compiler is in lib/composition-engine/compiler.ts
-    // Since Convex actions can't import from lib, we inline a simplified version
-    const code = compileIRToCode(composition.ir);
+    const code = compileIRToRemotionCode(composition.ir);
 
     // Update composition with generated code
     await ctx.runMutation(api.ai.updateCompositionCode, {
@@ -396,84 +748,6 @@ export const generateRemotionCode = action({
   },
 });
 
-/**
- * Simplified IR compiler for Convex
- * Full version in lib/composition-engine/compiler.ts
- */
-function compileIRToCode(ir: any): string {
-  const componentName = `Composition_${ir.id.replace(/[^a-zA-Z0-9]/g, "_")}`;
-  const elements = ir.elements.map((el: any) => renderElement(el)).join("\n      ");
-
-  return `/**
- * Auto-generated Remotion composition
- * ID: ${ir.id}
- * Version: ${ir.version}
- */
-
-import React from "react";
-import {
-  AbsoluteFill,
-  Sequence,
-  Video,
-  Audio,
-  Img,
-  interpolate,
-  useCurrentFrame,
-} from "remotion";
-
-export const ${componentName}: React.FC = () => {
-  const frame = useCurrentFrame();
-
-  return (
-    <AbsoluteFill style={{ backgroundColor: "#000" }}>
-      ${elements}
-    </AbsoluteFill>
-  );
-};
-`;
-}
-
-function renderElement(element: any): string {
-  return `<Sequence
-        from={${element.from}}
-        durationInFrames={${element.durationInFrames}}
-        data-element-id="${element.id}"
-      >
-        ${renderElementContent(element)}
-      </Sequence>`;
-}
-
-function renderElementContent(element: any): string {
-  const { type, properties } = element;
-
-  switch (type) {
-    case "video":
-      return `<Video
-          src="${properties.src || ""}"
-          volume={${properties.volume || 1}}
-        />`;
-    case "audio":
-      return `<Audio
-          src="${properties.src || ""}"
-          volume={${properties.volume || 1}}
-        />`;
-    case "text":
-      return `<div style={{
-          fontSize: ${properties.fontSize || 48},
-          color: "${properties.color || "#fff"}",
-          textAlign: "${properties.textAlign || "center"}",
-        }}>
-          {${JSON.stringify(properties.text || "")}}
-        </div>`;
-    case "image":
-      return `<Img
-          src="${properties.src || ""}"
-        />`;
-    default:
-      return `{/* Unknown type: ${type} */}`;
-  }
-}
-
 // ==================== Mutations ====================
 
 /**
@@ -487,8 +761,9 @@ export const saveChatMessage = mutation({
     content: v.string(),
     editPlan: v.optional(v.any()),
     receipt: v.optional(v.string()),
+    diff: v.optional(v.any()), // CompositionDiff
   },
-  handler: async (ctx, { projectId, userId, role, content, editPlan, receipt }) => {
+  handler: async (ctx, { projectId, userId, role, content, editPlan, receipt, diff }) => {
     return await ctx.db.insert("chatMessages", {
       projectId,
       userId: userId as any, // Temporary until users table is set up
@@ -496,6 +771,7 @@ export const saveChatMessage = mutation({
       content,
       editPlan,
       receipt,
+      diff,
       timestamp: Date.now(),
     });
   },
@@ -594,8 +870,9 @@ export const trackAIUsage = mutation({
 export const getProjectContext = query({
   args: {
     projectId: v.id("projects"),
+    compositionId: v.optional(v.id("compositions")),
   },
-  handler: async (ctx, { projectId }) => {
+  handler: async (ctx, { projectId, compositionId }) => {
     const project = await ctx.db.get(projectId);
 
     if (!project) {
@@ -625,7 +902,10 @@ export const getProjectContext = query({
       project,
       messages: messages.reverse(),
       assets,
-      composition: compositions[0] || null,
+      composition:
+        compositions.find((composition) => composition._id === compositionId) ||
+        compositions[0] ||
+        null,
     };
   },
 });
@@ -5,9 +5,67 @@
  */
 
 import { v } from "convex/values";
-import { mutation, query, action } from "./_generated/server";
+import { mutation, query, action, internalQuery } from "./_generated/server";
 import { api } from "./_generated/api";
-import type { CompositionIR, EditPlan } from "@/types/composition-ir";
+import type {
+  Animation,
+  CompositionIR,
+  EasingType,
+  EditPlan,
+  ElementType,
+  ShapeKind,
+} from "@/types/composition-ir";
+import {
+  executeEditPlan as executeEditPlanOnIR,
+  executeStoredEdit,
+  type ExecutionCommit,
+} from "@/lib/composition-engine/executor";
+import { generateElementId } from "@/lib/composition-engine/utils";
+import {
+  addTrack as addTrackOnIR,
+  applyTrackState,
+  updateTrack as updateTrackOnIR,
+} from "@/lib/composition-engine/timeline";
+import { EASING_NAMES, parseEasing } from "@/lib/composition-engine/easing";
+import { ANIMATABLE_PROPERTIES, validateKeyframeValue } from "@/lib/composition-engine/keyframes";
+import { DEFAULT_SHAPE_SIZE, validateShapeProperties } from "@/lib/composition-engine/shapes";
+import { validateTextProperties } from "@/lib/composition-engine/text";
+import {
+  duckMusic,
+  getVolumeEnvelopes,
+  isAudible,
+  setVolumeKeyframes,
+  validateAudioMix,
+  validateAudioProperties,
+} from "@/lib/composition-engine/audio";
+import {
+  ANIMATION_PRESETS,
+  applyAnimationPreset as applyAnimationPresetToElement,
+  type AnimationPresetName,
+} from "@/lib/composition-engine/presets";
+import {
+  buildCaptions,
+  insertCaptions,
+  styleCaptions,
+  type CaptionStyleName,
+} from "@/lib/composition-engine/captions";
+import {
+  exportSubtitles as exportSubtitlesFromIR,
+  getSubtitleCues,
+  parseSubtitles,
+  SUBTITLE_MIME_TYPES,
+  type SubtitleFormat,
+} from "@/lib/composition-engine/subtitles";
+import { cutClipsToBeats, getClipBeatFrames } from "@/lib/composition-engine/beats";
+import { findClipAsset } from "@/lib/composition-engine/clip-media";
+import {
+  addPatch,
+  createReorderPatch,
+  createSettingsPatch,
+  findElementById,
+  getAbsoluteFrom,
+  reorderSiblings,
+} from "@/lib/composition-engine/ir-helpers";
 
 /**
  * Create a new composition for a project
@@ -46,6 +104,7 @@ export const create = mutation({
 
     const compositionId = await ctx.db.insert("compositions", {
       projectId: args.projectId,
+      name: args.name,
       ir,
       code: "",
       version: 1,
@@ -125,293 +184,99 @@ export const executeEditPlan = action({
       throw new Error("Composition not found");
     }
 
-    // Import executor dynamically (can't import from lib in Convex)
-    // For now, we'll implement a simple version here
-    const result = await executeEditPlanInConvex(
-      composition.ir,
-      editPlan,
-      resolvedElementId
-    );
-
-    if (!result.success) {
-      return result;
+    // Same executor the client engine uses (lib/composition-engine/executor.ts)
+    const { result, commit } = executeStoredEdit(composition.ir, { editPlan, resolvedElementId });
+    if (commit) {
+      await commitExecutionResult(ctx, compositionId, commit);
     }
 
-    // Update composition with new IR
-    await ctx.runMutation(api.compositions.updateIR, {
-      compositionId,
-      ir: result.updatedIR,
-    });
-
-    // Trigger Remotion code generation
-    await ctx.runAction(api.ai.generateRemotionCode, { compositionId });
-
     return result;
   },
 });
 
 /**
- * Delete a composition
+ * Execute several edit plans atomically
+ * One IR update, one history snapshot and one receipt for the whole transaction
  */
-export const deleteComposition = mutation({
+export const executeTransaction = action({
   args: {
     compositionId: v.id("compositions"),
+    plans: v.any(), // EditPlan[]
+    description: v.optional(v.string()),
+    resolvedElementIds: v.optional(v.array(v.union(v.string(), v.null()))), // By plan index
   },
-  handler: async (ctx, { compositionId }) => {
-    await ctx.db.delete(compositionId);
+  handler: async (ctx, { compositionId, plans, description, resolvedElementIds }) => {
+    const composition = await ctx.runQuery(api.compositions.get, {
+      compositionId,
+    });
+
+    if (!composition) {
+      throw new Error("Composition not found");
+    }
+
+    const { result, commit } = executeStoredEdit(composition.ir, { plans, description, resolvedElementIds });
+    if (commit) {
+      await commitExecutionResult(ctx, compositionId, commit);
+    }
+
+    return result;
   },
 });
 
-// ==================== Helper Functions ====================
-
 /**
- * Execute edit plan (simplified version for Convex)
- * Full version is in lib/composition-engine/executor.ts
+ * Persist a successful execution: new IR, history snapshot, recompiled code
  */
-async function executeEditPlanInConvex(
-  ir: CompositionIR,
-  plan: EditPlan,
-  resolvedElementId?: string
-): Promise<{
-  success: boolean;
-  updatedIR?: CompositionIR;
-  affectedElements: string[];
-  receipt: string;
-  error?: string;
-  needsDisambiguation?: boolean;
-  disambiguationOptions?: any[];
-}> {
-  try {
-    switch (plan.operation) {
-      case "add":
-        return executeAdd(ir, plan);
-      case "update":
-        return executeUpdate(ir, plan, resolvedElementId);
-      case "delete":
-        return executeDelete(ir, plan, resolvedElementId);
-      case "move":
-        return executeMove(ir, plan, resolvedElementId);
-      default:
-        return {
-          success: false,
-          affectedElements: [],
-          receipt: "",
-          error: `Unknown operation: ${(plan as any).operation}`,
-        };
-    }
-  } catch (error) {
-    return {
-      success: false,
-      affectedElements: [],
-      receipt: "",
-      error: error instanceof Error ? error.message : String(error),
-    };
-  }
-}
-
-function executeAdd(ir: CompositionIR, plan: EditPlan) {
-  const newElement = {
-    id: generateElementId(),
-    type: plan.changes.type,
-    from: plan.changes.from || 0,
-    durationInFrames: plan.changes.durationInFrames || 90,
-    properties: plan.changes.properties || {},
-    label: plan.changes.label,
-    animation: plan.changes.animations,
-  };
-
-  const updatedIR = {
-    ...ir,
-    elements: [...ir.elements, newElement],
-  };
-
-  const receipt = plan.changes.label
-    ? `Added ${plan.changes.type} element "${plan.changes.label}"`
-    : `Added ${plan.changes.type} element`;
-
-  return {
-    success: true,
-    updatedIR,
-    affectedElements: [newElement.id],
-    receipt,
-  };
-}
-
-function executeUpdate(
-  ir: CompositionIR,
-  plan: EditPlan,
-  resolvedElementId?: string
-) {
-  // Simple implementation - find by ID if provided, otherwise use selector
-  const targetId =
-    resolvedElementId ||
-    (plan.selector?.type === "byId" ? plan.selector.id : null);
-
-  if (!targetId) {
-    return {
-      success: false,
-      affectedElements: [],
-      receipt: "",
-      error: "Update requires element ID",
-    };
-  }
-
-  const targetElement = ir.elements.find((el) => el.id === targetId);
-  if (!targetElement) {
-    return {
-      success: false,
-      affectedElements: [],
-      receipt: "",
-      error: "Element not found",
-    };
-  }
-
-  const updatedIR = {
-    ...ir,
-    elements: ir.elements.map((el) => {
-      if (el.id !== targetId) return el;
-
-      return {
-        ...el,
-        properties: {
-          ...el.properties,
-          ...plan.changes.properties,
-        },
-        from:
-          plan.changes.from !== undefined ? plan.changes.from : el.from,
-        durationInFrames:
-          plan.changes.durationInFrames !== undefined
-            ? plan.changes.durationInFrames
-            : el.durationInFrames,
-        label:
-          plan.changes.label !== undefined
-            ? plan.changes.label
-            : el.label,
-        animation:
-          plan.changes.animations !== undefined
-            ? plan.changes.animations
-            : el.animations,
-      };
-    }),
-  };
-
-  const receipt = targetElement.label
-    ? `Updated "${targetElement.label}"`
-    : `Updated ${targetElement.type} element`;
-
-  return {
-    success: true,
-    updatedIR,
-    affectedElements: [targetId],
-    receipt,
-  };
-}
-
-function executeDelete(
-  ir: CompositionIR,
-  plan: EditPlan,
-  resolvedElementId?: string
+async function commitExecutionResult(
+  ctx: any,
+  compositionId: any,
+  commit: ExecutionCommit
 ) {
-  const targetId =
-    resolvedElementId ||
-    (plan.selector?.type === "byId" ? plan.selector.id : null);
-
-  if (!targetId) {
-    return {
-      success: false,
-      affectedElements: [],
-      receipt: "",
-      error: "Delete requires element ID",
-    };
-  }
-
-  const targetElement = ir.elements.find((el) => el.id === targetId);
-  if (!targetElement) {
-    return {
-      success: false,
-      affectedElements: [],
-      receipt: "",
-      error: "Element not found",
-    };
-  }
-
-  const updatedIR = {
-    ...ir,
-    elements: ir.elements.filter((el) => el.id !== targetId),
-  };
-
-  const receipt = targetElement.label
-    ? `Deleted "${targetElement.label}"`
-    : `Deleted ${targetElement.type} element`;
-
-  return {
-    success: true,
-    updatedIR,
-    affectedElements: [targetId],
-    receipt,
-  };
+  // Update composition with new IR
+  await ctx.runMutation(api.compositions.updateIR, {
+    compositionId,
+    ir: commit.ir,
+  });
+
+  await ctx.runMutation(api.history.saveSnapshot, {
+    compositionId,
+    ir: commit.ir,
+    description: commit.snapshotDescription,
+  });
+
+  // Trigger Remotion code generation
+  await ctx.runAction(api.ai.generateRemotionCode, { compositionId });
 }
 
-function executeMove(
-  ir: CompositionIR,
-  plan: EditPlan,
-  resolvedElementId?: string
-) {
-  const targetId =
-    resolvedElementId ||
-    (plan.selector?.type === "byId" ? plan.selector.id : null);
-
-  if (!targetId) {
-    return {
-      success: false,
-      affectedElements: [],
-      receipt: "",
-      error: "Move requires element ID",
-    };
-  }
+/**
+ * Apply a single edit plan inside a mutation
+ * Goes through the shared executor so the edit is recorded as an undoable patch
+ */
+function applyEditPlan(ir: CompositionIR, editPlan: EditPlan, newElementId?: string) {
+  const result = executeEditPlanOnIR(ir, editPlan, {
+    generateId: newElementId ? () => newElementId : undefined,
+  });
 
-  const targetElement = ir.elements.find((el) => el.id === targetId);
-  if (!targetElement) {
-    return {
-      success: false,
-      affectedElements: [],
-      receipt: "",
-      error: "Element not found",
-    };
+  if (!result.success) {
+    throw new Error(result.error || "Edit could not be applied");
   }
 
-  const updatedIR = {
-    ...ir,
-    elements: ir.elements.map((el) => {
-      if (el.id !== targetId) return el;
-
-      return {
-        ...el,
-        from:
-          plan.changes.from !== undefined ? plan.changes.from : el.from,
-        durationInFrames:
-          plan.changes.durationInFrames !== undefined
-            ? plan.changes.durationInFrames
-            : el.durationInFrames,
-      };
-    }),
-  };
-
-  const receipt = targetElement.label
-    ? `Moved "${targetElement.label}"`
-    : `Moved ${targetElement.type} element`;
-
   return {
-    success: true,
-    updatedIR,
-    affectedElements: [targetId],
-    receipt,
+    ...result.updatedIR!,
+    version: ir.version + 1,
   };
 }
 
-function generateElementId(): string {
-  return `el_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-}
+/**
+ * Delete a composition
+ */
+export const deleteComposition = mutation({
+  args: {
+    compositionId: v.id("compositions"),
+  },
+  handler: async (ctx, { compositionId }) => {
+    await ctx.db.delete(compositionId);
+  },
+});
 
 /**
  * Add element to composition (for manual editing)
@@ -440,6 +305,10 @@ export const addElement = mutation({
       throw new Error(`Asset is not ready (status: ${asset.status}). Please wait for processing to complete.`);
     }
 
+    if (asset.type === "subtitle") {
+      throw new Error("Subtitle files are added as captions, not clips");
+    }
+
     // Validate asset has playback URL
     if (!asset.playbackUrl) {
       throw new Error("Asset does not have a playback URL");
@@ -466,7 +335,7 @@ export const addElement = mutation({
     // Create new element
     const newElement = {
       id: generateElementId(),
-      type: asset.type,
+      type: asset.type as ElementType,
       from: startFrame,
       durationInFrames: elementDuration,
       properties: {
@@ -479,11 +348,11 @@ export const addElement = mutation({
       label: label || asset.filename,
     };
 
-    const updatedIR = {
-      ...composition.ir,
-      elements: [...composition.ir.elements, newElement],
-      version: composition.ir.version + 1,
-    };
+    const updatedIR = applyEditPlan(composition.ir, {
+      operation: "add",
+      selector: { type: "byId", id: "" },
+      changes: newElement,
+    }, newElement.id);
 
     await ctx.db.patch(compositionId, {
       ir: updatedIR,
@@ -512,7 +381,7 @@ export const updateElement = mutation({
     }
 
     // Find the element
-    const element = composition.ir.elements.find((el: any) => el.id === elementId);
+    const element = findElementById(composition.ir.elements, elementId);
     if (!element) {
       throw new Error(`Element ${elementId} not found in composition`);
     }
@@ -530,12 +399,10 @@ export const updateElement = mutation({
       }
     }
 
-    // Validate volume if present
-    if (changes.properties?.volume !== undefined) {
-      const volume = changes.properties.volume;
-      if (volume < 0 || volume > 1) {
-        throw new Error("Volume must be between 0 and 1");
-      }
+    // Validate volume, fades and audio role if present
+    const audioError = changes.properties && validateAudioProperties(changes.properties);
+    if (audioError) {
+      throw new Error(audioError);
     }
 
     // Validate playback rate if present
@@ -554,21 +421,11 @@ export const updateElement = mutation({
       }
     }
 
-    const updatedIR = {
-      ...composition.ir,
-      elements: composition.ir.elements.map((el: any) => {
-        if (el.id !== elementId) return el;
-        return {
-          ...el,
-          ...changes,
-          properties: {
-            ...el.properties,
-            ...(changes.properties || {}),
-          },
-        };
-      }),
-      version: composition.ir.version + 1,
-    };
+    const updatedIR = applyEditPlan(composition.ir, {
+      operation: "update",
+      selector: { type: "byId", id: elementId },
+      changes,
+    });
 
     await ctx.db.patch(compositionId, {
       ir: updatedIR,
@@ -595,16 +452,16 @@ export const deleteElement = mutation({
     }
 
     // Verify element exists
-    const element = composition.ir.elements.find((el: any) => el.id === elementId);
+    const element = findElementById(composition.ir.elements, elementId);
     if (!element) {
       throw new Error(`Element ${elementId} not found in composition`);
     }
 
-    const updatedIR = {
-      ...composition.ir,
-      elements: composition.ir.elements.filter((el: any) => el.id !== elementId),
-      version: composition.ir.version + 1,
-    };
+    const updatedIR = applyEditPlan(composition.ir, {
+      operation: "delete",
+      selector: { type: "byId", id: elementId },
+      changes: {},
+    });
 
     await ctx.db.patch(compositionId, {
       ir: updatedIR,
@@ -631,6 +488,29 @@ export const addTextElement = mutation({
     color: v.optional(v.string()),
     fontWeight: v.optional(v.string()),
     backgroundColor: v.optional(v.string()),
+    width: v.optional(v.number()),
+    height: v.optional(v.number()),
+    maxWidth: v.optional(v.number()),
+    lineHeight: v.optional(v.number()),
+    letterSpacing: v.optional(v.number()),
+    strokeColor: v.optional(v.string()),
+    strokeWidth: v.optional(v.number()),
+    shadow: v.optional(v.object({
+      color: v.optional(v.string()),
+      blur: v.optional(v.number()),
+      offsetX: v.optional(v.number()),
+      offsetY: v.optional(v.number()),
+    })),
+    autoFit: v.optional(v.boolean()),
+    spans: v.optional(v.array(v.object({
+      match: v.string(),
+      occurrence: v.optional(v.number()),
+      color: v.optional(v.string()),
+      backgroundColor: v.optional(v.string()),
+      fontWeight: v.optional(v.union(v.string(), v.number())),
+      fontStyle: v.optional(v.union(v.literal("normal"), v.literal("italic"))),
+      underline: v.optional(v.boolean()),
+    }))),
     label: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
@@ -667,6 +547,24 @@ export const addTextElement = mutation({
       throw new Error("Font size must be between 1 and 500 pixels");
     }
 
+    // Validate layout, stroke, shadow and span styles
+    const style = {
+      width: args.width,
+      height: args.height,
+      maxWidth: args.maxWidth,
+      lineHeight: args.lineHeight,
+      letterSpacing: args.letterSpacing,
+      strokeColor: args.strokeColor,
+      strokeWidth: args.strokeWidth,
+      shadow: args.shadow,
+      autoFit: args.autoFit,
+      spans: args.spans,
+    };
+    const styleError = validateTextProperties(style);
+    if (styleError) {
+      throw new Error(styleError);
+    }
+
     // Create new text element
     const newElement = {
       id: generateElementId(),
@@ -683,15 +581,16 @@ export const addTextElement = mutation({
         backgroundColor: args.backgroundColor,
         fontFamily: "Arial",
         textAlign: "center" as const,
+        ...Object.fromEntries(Object.entries(style).filter(([, value]) => value !== undefined)),
       },
       label: args.label || `Text: ${args.text.substring(0, 20)}${args.text.length > 20 ? '...' : ''}`,
     };
 
-    const updatedIR = {
-      ...composition.ir,
-      elements: [...composition.ir.elements, newElement],
-      version: composition.ir.version + 1,
-    };
+    const updatedIR = applyEditPlan(composition.ir, {
+      operation: "add",
+      selector: { type: "byId", id: "" },
+      changes: newElement,
+    }, newElement.id);
 
     await ctx.db.patch(args.compositionId, {
       ir: updatedIR,
@@ -704,6 +603,97 @@ export const addTextElement = mutation({
   },
 });
 
+/**
+ * Add shape element to composition
+ */
+export const addShapeElement = mutation({
+  args: {
+    compositionId: v.id("compositions"),
+    shape: v.string(),
+    from: v.number(),
+    durationInFrames: v.number(),
+    x: v.optional(v.number()),
+    y: v.optional(v.number()),
+    width: v.optional(v.number()),
+    height: v.optional(v.number()),
+    fill: v.optional(v.string()),
+    gradient: v.optional(v.object({
+      type: v.union(v.literal("linear"), v.literal("radial")),
+      stops: v.array(v.object({ offset: v.number(), color: v.string() })),
+      angle: v.optional(v.number()),
+    })),
+    stroke: v.optional(v.string()),
+    strokeWidth: v.optional(v.number()),
+    cornerRadius: v.optional(v.number()),
+    sides: v.optional(v.number()),
+    points: v.optional(v.array(v.object({ x: v.number(), y: v.number() }))),
+    shadow: v.optional(v.object({
+      color: v.optional(v.string()),
+      blur: v.optional(v.number()),
+      offsetX: v.optional(v.number()),
+      offsetY: v.optional(v.number()),
+    })),
+    rotation: v.optional(v.number()),
+    label: v.optional(v.string()),
+  },
+  handler: async (ctx, { compositionId, from, durationInFrames, label, ...shapeProperties }) => {
+    const composition = await ctx.db.get(compositionId);
+    if (!composition) {
+      throw new Error("Composition not found");
+    }
+
+    // Validate frame ranges
+    if (from < 0) {
+      throw new Error("Start frame must be non-negative");
+    }
+
+    if (durationInFrames <= 0) {
+      throw new Error("Duration must be positive");
+    }
+
+    const properties = {
+      ...shapeProperties,
+      shape: shapeProperties.shape as ShapeKind,
+      width: shapeProperties.width ?? DEFAULT_SHAPE_SIZE,
+      height: shapeProperties.height ?? DEFAULT_SHAPE_SIZE,
+    };
+    const error = validateShapeProperties(properties);
+    if (error) {
+      throw new Error(error);
+    }
+
+    // Default: centered in the frame
+    const { width, height } = composition.ir.metadata;
+    const newElement = {
+      id: generateElementId(),
+      type: "shape" as const,
+      from,
+      durationInFrames,
+      properties: {
+        ...properties,
+        x: shapeProperties.x ?? (width - properties.width) / 2,
+        y: shapeProperties.y ?? (height - properties.height) / 2,
+      },
+      label: label || `Shape: ${properties.shape}`,
+    };
+
+    const updatedIR = applyEditPlan(composition.ir, {
+      operation: "add",
+      selector: { type: "byId", id: "" },
+      changes: newElement,
+    }, newElement.id);
+
+    await ctx.db.patch(compositionId, {
+      ir: updatedIR,
+      version: composition.version + 1,
+      updatedAt: Date.now(),
+    });
+
+    console.log(`[addShapeElement] Added ${properties.shape} element ${newElement.id} (from: ${from}, duration: ${durationInFrames})`);
+    return newElement.id;
+  },
+});
+
 /**
  * Add animation to an existing element
  */
@@ -714,7 +704,8 @@ export const addAnimation = mutation({
     property: v.string(),
     keyframes: v.array(v.object({
       frame: v.number(),
-      value: v.number(),
+      value: v.union(v.number(), v.string(), v.object({ x: v.number(), y: v.number() })),
+      easing: v.optional(v.string()), // Easing into the next keyframe
     })),
     easing: v.optional(v.string()),
   },
@@ -725,7 +716,7 @@ export const addAnimation = mutation({
     }
 
     // Find the element
-    const element = composition.ir.elements.find((el: any) => el.id === args.elementId);
+    const element = findElementById(composition.ir.elements, args.elementId);
     if (!element) {
       throw new Error(`Element ${args.elementId} not found in composition`);
     }
@@ -746,53 +737,45 @@ export const addAnimation = mutation({
     }
 
     // Validate property name
-    const validProperties = [
-      "opacity", "scale", "scaleX", "scaleY", "x", "y",
-      "rotation", "rotateX", "rotateY", "translateX", "translateY",
-      "skewX", "skewY"
-    ];
+    const validProperties = Object.keys(ANIMATABLE_PROPERTIES);
     if (!validProperties.includes(args.property)) {
       throw new Error(
         `Invalid animation property: ${args.property}. Valid properties: ${validProperties.join(", ")}`
       );
     }
 
-    // Validate property values based on type
-    if (args.property === "opacity") {
-      const invalidValues = args.keyframes.filter(kf => kf.value < 0 || kf.value > 1);
-      if (invalidValues.length > 0) {
-        throw new Error("Opacity values must be between 0 and 1");
+    // Validate values for the property (numbers, colors, {x, y} points or text)
+    for (const kf of args.keyframes) {
+      const error = validateKeyframeValue(args.property, kf.value);
+      if (error) {
+        throw new Error(`${error} (frame ${kf.frame}: ${JSON.stringify(kf.value)})`);
       }
     }
 
-    // Validate easing
-    const validEasings = ["linear", "ease-in", "ease-out", "ease-in-out"];
-    if (args.easing && !validEasings.includes(args.easing)) {
-      throw new Error(
-        `Invalid easing: ${args.easing}. Valid easings: ${validEasings.join(", ")}`
-      );
-    }
+    // Validate easing (names, "cubic-bezier(x1, y1, x2, y2)" or "spring(mass, damping, stiffness)")
+    const toEasing = (value: string): EasingType => {
+      const easing = parseEasing(value);
+      if (!easing) {
+        throw new Error(
+          `Invalid easing: ${value}. Valid easings: ${EASING_NAMES.join(", ")}, cubic-bezier(x1, y1, x2, y2), spring(mass, damping, stiffness)`
+        );
+      }
+      return easing;
+    };
 
     // Create animation object
-    const newAnimation = {
+    const newAnimation: Animation = {
       property: args.property,
-      keyframes: args.keyframes,
-      easing: args.easing || "linear",
+      keyframes: args.keyframes.map(({ easing, ...kf }) => (easing ? { ...kf, easing: toEasing(easing) } : kf)),
+      easing: args.easing ? toEasing(args.easing) : "linear",
     };
 
     // Update element with new animation
-    const updatedIR = {
-      ...composition.ir,
-      elements: composition.ir.elements.map((el: any) => {
-        if (el.id !== args.elementId) return el;
-
-        return {
-          ...el,
-          animations: [...(el.animations || []), newAnimation],
-        };
-      }),
-      version: composition.ir.version + 1,
-    };
+    const updatedIR = applyEditPlan(composition.ir, {
+      operation: "update",
+      selector: { type: "byId", id: args.elementId },
+      changes: { animations: [...(element.animations || []), newAnimation] },
+    });
 
     await ctx.db.patch(args.compositionId, {
       ir: updatedIR,
@@ -806,6 +789,200 @@ export const addAnimation = mutation({
   },
 });
 
+/**
+ * Apply a named animation preset to an element
+ */
+export const applyAnimationPreset = mutation({
+  args: {
+    compositionId: v.id("compositions"),
+    elementId: v.string(),
+    preset: v.string(),
+    durationInFrames: v.optional(v.number()),
+    startFrame: v.optional(v.number()), // Relative to the element's start
+    direction: v.optional(v.union(v.literal("left"), v.literal("right"), v.literal("up"), v.literal("down"))),
+    intensity: v.optional(v.number()),
+  },
+  handler: async (ctx, { compositionId, elementId, preset, ...options }) => {
+    const composition = await ctx.db.get(compositionId);
+    if (!composition) {
+      throw new Error("Composition not found");
+    }
+
+    const element = findElementById(composition.ir.elements, elementId);
+    if (!element) {
+      throw new Error(`Element ${elementId} not found in composition`);
+    }
+
+    const result = applyAnimationPresetToElement(
+      element,
+      composition.ir.metadata,
+      preset as AnimationPresetName,
+      options
+    );
+    if ("error" in result) {
+      throw new Error(result.error);
+    }
+
+    const updatedIR = applyEditPlan(composition.ir, {
+      operation: "update",
+      selector: { type: "byId", id: elementId },
+      changes: { animations: result.animations },
+    });
+
+    await ctx.db.patch(compositionId, {
+      ir: updatedIR,
+      version: composition.version + 1,
+      updatedAt: Date.now(),
+    });
+
+    console.log(`[applyAnimationPreset] Applied ${preset} to element ${elementId}`);
+    return { label: ANIMATION_PRESETS[preset as AnimationPresetName].label };
+  },
+});
+
+/**
+ * Add captions from transcript words on the "Captions" track (one undo step)
+ */
+export const addCaptions = mutation({
+  args: {
+    compositionId: v.id("compositions"),
+    words: v.array(v.object({ text: v.string(), start: v.number(), end: v.number() })),
+    startFrame: v.optional(v.number()), // Composition frame of transcript time 0
+    style: v.optional(v.string()),
+    position: v.optional(v.union(v.literal("bottom"), v.literal("center"), v.literal("top"))),
+    maxCharsPerLine: v.optional(v.number()),
+    replace: v.optional(v.boolean()), // Replace captions already on the track over the same frames (default true)
+  },
+  handler: async (ctx, { compositionId, words, style, replace = true, ...options }) => {
+    const composition = await ctx.db.get(compositionId);
+    if (!composition) {
+      throw new Error("Composition not found");
+    }
+
+    const result = buildCaptions(words, composition.ir.metadata, {
+      ...options,
+      style: style as CaptionStyleName | undefined,
+    });
+    if ("error" in result) {
+      throw new Error(result.error);
+    }
+    if (result.captions.length === 0) {
+      throw new Error("No words to caption");
+    }
+
+    const inserted = insertCaptions(composition.ir, result.captions, {
+      newTrackId: `track_${Date.now().toString(36)}`,
+      replace,
+    });
+    if ("error" in inserted) {
+      throw new Error(inserted.error);
+    }
+
+    await ctx.db.patch(compositionId, {
+      ir: { ...inserted.updatedIR, version: composition.ir.version + 1 },
+      version: composition.version + 1,
+      updatedAt: Date.now(),
+    });
+
+    console.log(
+      `[addCaptions] Added ${result.captions.length} captions on track ${inserted.trackId}, replaced ${inserted.replaced}`
+    );
+    return { elementIds: inserted.elementIds, trackId: inserted.trackId, replaced: inserted.replaced };
+  },
+});
+
+/**
+ * Add captions from an imported SRT/WebVTT subtitle asset
+ */
+export const addSubtitleCaptions = mutation({
+  args: {
+    compositionId: v.id("compositions"),
+    assetId: v.id("assets"),
+    startFrame: v.optional(v.number()), // Composition frame of subtitle time 0 (default 0)
+    style: v.optional(v.string()),
+    position: v.optional(v.union(v.literal("bottom"), v.literal("center"), v.literal("top"))),
+    replace: v.optional(v.boolean()), // Replace captions already on the track over the same frames (default true)
+  },
+  handler: async (ctx, { compositionId, assetId, startFrame = 0, style, position, replace = true }) => {
+    const composition = await ctx.db.get(compositionId);
+    if (!composition) {
+      throw new Error("Composition not found");
+    }
+    const asset = await ctx.db.get(assetId);
+    if (!asset || asset.type !== "subtitle" || asset.subtitles === undefined) {
+      throw new Error("Subtitle file not found");
+    }
+    if (!(startFrame >= 0)) {
+      throw new Error("Captions can't start before frame 0");
+    }
+
+    const parsed = parseSubtitles(asset.subtitles, composition.ir.metadata.fps, startFrame);
+    if ("error" in parsed) {
+      throw new Error(parsed.error);
+    }
+    const result = styleCaptions(parsed.cues, composition.ir.metadata, {
+      style: style as CaptionStyleName | undefined,
+      position,
+    });
+    if ("error" in result) {
+      throw new Error(result.error);
+    }
+
+    const inserted = insertCaptions(composition.ir, result.captions, {
+      newTrackId: `track_${Date.now().toString(36)}`,
+      replace,
+      description: `Added ${result.captions.length} captions from ${asset.filename}`,
+    });
+    if ("error" in inserted) {
+      throw new Error(inserted.error);
+    }
+
+    await ctx.db.patch(compositionId, {
+      ir: { ...inserted.updatedIR, version: composition.ir.version + 1 },
+      version: composition.version + 1,
+      updatedAt: Date.now(),
+    });
+
+    console.log(`[addSubtitleCaptions] Added ${result.captions.length} captions from ${asset.filename}`);
+    return { elementIds: inserted.elementIds, trackId: inserted.trackId, replaced: inserted.replaced };
+  },
+});
+
+/**
+ * A composition ID from a URL, or null if it isn't one (for the HTTP routes)
+ */
+export const normalizeCompositionId = internalQuery({
+  args: { id: v.string() },
+  handler: async (ctx, { id }) => ctx.db.normalizeId("compositions", id),
+});
+
+/**
+ * A composition's text elements as an SRT or WebVTT file
+ */
+export const exportSubtitles = query({
+  args: {
+    compositionId: v.id("compositions"),
+    format: v.union(v.literal("srt"), v.literal("vtt")),
+    trackId: v.optional(v.string()), // Only this track's text, e.g. the Captions track
+  },
+  handler: async (ctx, { compositionId, format, trackId }) => {
+    const composition = await ctx.db.get(compositionId);
+    if (!composition) {
+      throw new Error("Composition not found");
+    }
+
+    const project = await ctx.db.get(composition.projectId);
+    const name = (composition.name ?? project?.name ?? "captions").replace(/[^\w.-]+/g, "-");
+    const cueCount = getSubtitleCues(composition.ir, { trackId }).length;
+    return {
+      filename: `${name}.${format}`,
+      mimeType: SUBTITLE_MIME_TYPES[format as SubtitleFormat],
+      content: exportSubtitlesFromIR(composition.ir, format, { trackId }),
+      cueCount,
+    };
+  },
+});
+
 /**
  * Reorder elements in composition
  */
@@ -813,15 +990,25 @@ export const reorderElements = mutation({
   args: {
     compositionId: v.id("compositions"),
     elementIds: v.array(v.string()),
+    parentId: v.optional(v.string()), // Reorder a sequence's children instead of the top level
   },
-  handler: async (ctx, { compositionId, elementIds }) => {
+  handler: async (ctx, { compositionId, elementIds, parentId }) => {
     const composition = await ctx.db.get(compositionId);
     if (!composition) {
       throw new Error("Composition not found");
     }
 
+    let siblings: any[] = composition.ir.elements;
+    if (parentId) {
+      const parent = findElementById(composition.ir.elements, parentId);
+      if (!parent || parent.type !== "sequence") {
+        throw new Error(`Sequence not found: ${parentId}`);
+      }
+      siblings = parent.children || [];
+    }
+
     // Validate that all provided IDs exist
-    const existingIds = new Set(composition.ir.elements.map((el: any) => el.id));
+    const existingIds = new Set(siblings.map((el: any) => el.id));
     const missingIds = elementIds.filter((id) => !existingIds.has(id));
 
     if (missingIds.length > 0) {
@@ -829,21 +1016,140 @@ export const reorderElements = mutation({
     }
 
     // Validate that all existing elements are included
-    if (elementIds.length !== composition.ir.elements.length) {
-      throw new Error(`Reorder must include all ${composition.ir.elements.length} elements, got ${elementIds.length}`);
+    if (elementIds.length !== siblings.length) {
+      throw new Error(`Reorder must include all ${siblings.length} elements, got ${elementIds.length}`);
     }
 
-    // Create map of elements by ID
-    const elementMap = new Map(composition.ir.elements.map((el: any) => [el.id, el]));
+    const previousIds = siblings.map((el: any) => el.id);
+    if (previousIds.every((id: string, i: number) => id === elementIds[i])) {
+      return;
+    }
+
+    // Reorder and record an invertible patch
+    const updatedIR = addPatch(
+      {
+        ...composition.ir,
+        elements: reorderSiblings(composition.ir.elements, elementIds, parentId),
+        version: composition.ir.version + 1,
+      },
+      { ...createReorderPatch(previousIds, elementIds, parentId), description: "Reordered layers" }
+    );
+
+    await ctx.db.patch(compositionId, {
+      ir: updatedIR,
+      version: composition.version + 1,
+      updatedAt: Date.now(),
+    });
+
+    console.log(`[reorderElements] Reordered ${elementIds.length} elements`);
+  },
+});
+
+/**
+ * Add a timeline track (the default tracks are stored on first change)
+ */
+export const addTrack = mutation({
+  args: {
+    compositionId: v.id("compositions"),
+    kind: v.union(v.literal("video"), v.literal("overlay"), v.literal("audio")),
+  },
+  handler: async (ctx, { compositionId, kind }) => {
+    const composition = await ctx.db.get(compositionId);
+    if (!composition) {
+      throw new Error("Composition not found");
+    }
+
+    const { updatedIR, track } = addTrackOnIR(composition.ir, kind, `track_${Date.now().toString(36)}`);
+
+    await ctx.db.patch(compositionId, {
+      ir: updatedIR,
+      version: composition.version + 1,
+      updatedAt: Date.now(),
+    });
 
-    // Reorder based on provided IDs
-    const reorderedElements = elementIds.map((id) => elementMap.get(id)).filter(Boolean);
+    console.log(`[addTrack] Added ${kind} track ${track.id}`);
+    return track.id;
+  },
+});
 
-    const updatedIR = {
-      ...composition.ir,
-      elements: reorderedElements,
-      version: composition.ir.version + 1,
+/**
+ * Rename a track or toggle its lock, mute and hide state
+ */
+export const updateTrack = mutation({
+  args: {
+    compositionId: v.id("compositions"),
+    trackId: v.string(),
+    changes: v.object({
+      name: v.optional(v.string()),
+      locked: v.optional(v.boolean()),
+      muted: v.optional(v.boolean()),
+      hidden: v.optional(v.boolean()),
+    }),
+  },
+  handler: async (ctx, { compositionId, trackId, changes }) => {
+    const composition = await ctx.db.get(compositionId);
+    if (!composition) {
+      throw new Error("Composition not found");
+    }
+
+    const result = updateTrackOnIR(composition.ir, trackId, changes);
+    if ("error" in result) {
+      throw new Error(result.error);
+    }
+
+    await ctx.db.patch(compositionId, {
+      ir: result.updatedIR,
+      version: composition.version + 1,
+      updatedAt: Date.now(),
+    });
+
+    console.log(`[updateTrack] Updated track ${trackId}`, changes);
+  },
+});
+
+/**
+ * Set the master gain or ducking settings of the audio mix
+ */
+export const updateAudioMix = mutation({
+  args: {
+    compositionId: v.id("compositions"),
+    masterGain: v.optional(v.number()),
+    ducking: v.optional(
+      v.object({
+        enabled: v.optional(v.boolean()),
+        level: v.optional(v.number()),
+        attack: v.optional(v.number()), // Seconds
+        release: v.optional(v.number()),
+      })
+    ),
+  },
+  handler: async (ctx, { compositionId, masterGain, ducking }) => {
+    const composition = await ctx.db.get(compositionId);
+    if (!composition) {
+      throw new Error("Composition not found");
+    }
+
+    const current = composition.ir.mix ?? {};
+    const mix = {
+      ...current,
+      ...(masterGain !== undefined && { masterGain }),
+      ...(ducking && { ducking: { ...current.ducking, ...ducking } }),
     };
+    const error = validateAudioMix(mix);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const description =
+      masterGain !== undefined
+        ? `Set master gain to ${Math.round(masterGain * 100)}%`
+        : ducking?.enabled !== undefined
+          ? `Turned ${ducking.enabled ? "on" : "off"} ducking`
+          : "Changed ducking";
+    const updatedIR = addPatch(
+      { ...composition.ir, mix, version: composition.ir.version + 1 },
+      { ...createSettingsPatch(composition.ir, { mix }), description }
+    );
 
     await ctx.db.patch(compositionId, {
       ir: updatedIR,
@@ -851,6 +1157,173 @@ export const reorderElements = mutation({
       updatedAt: Date.now(),
     });
 
-    console.log(`[reorderElements] Reordered ${elementIds.length} elements`);
+    console.log(`[updateAudioMix] Updated audio mix`, mix);
+  },
+});
+
+/**
+ * Replace a clip's volume envelope with keyframes (none removes it)
+ */
+export const setVolumeEnvelope = mutation({
+  args: {
+    compositionId: v.id("compositions"),
+    elementId: v.string(),
+    keyframes: v.array(v.object({ frame: v.number(), value: v.number() })), // Relative to the clip
+    easing: v.optional(v.string()),
+  },
+  handler: async (ctx, { compositionId, elementId, keyframes, easing = "linear" }) => {
+    const composition = await ctx.db.get(compositionId);
+    if (!composition) {
+      throw new Error("Composition not found");
+    }
+
+    const element = findElementById(composition.ir.elements, elementId);
+    if (!element) {
+      throw new Error(`Element ${elementId} not found in composition`);
+    }
+    if (!isAudible(element)) {
+      throw new Error(`Only video and audio clips have a volume (element ${elementId} is ${element.type})`);
+    }
+
+    for (const kf of keyframes) {
+      if (kf.frame < 0 || kf.frame > element.durationInFrames) {
+        throw new Error(`Keyframe frames must be between 0 and ${element.durationInFrames} (frame ${kf.frame})`);
+      }
+      const error = validateKeyframeValue("volume", kf.value);
+      if (error) {
+        throw new Error(`${error} (frame ${kf.frame}: ${kf.value})`);
+      }
+    }
+
+    const parsedEasing = parseEasing(easing);
+    if (!parsedEasing) {
+      throw new Error(
+        `Invalid easing: ${easing}. Valid easings: ${EASING_NAMES.join(", ")}, cubic-bezier(x1, y1, x2, y2), spring(mass, damping, stiffness)`
+      );
+    }
+
+    const updatedIR = applyEditPlan(composition.ir, {
+      operation: "update",
+      selector: { type: "byId", id: elementId },
+      changes: { animations: setVolumeKeyframes(element, keyframes, parsedEasing) },
+    });
+
+    await ctx.db.patch(compositionId, {
+      ir: updatedIR,
+      version: composition.version + 1,
+      updatedAt: Date.now(),
+    });
+
+    console.log(`[setVolumeEnvelope] Set ${keyframes.length} volume keyframes on element ${elementId}`);
+  },
+});
+
+/**
+ * Duck music under dialogue: tags the clips' audio roles and turns on
+ * ducking at the given level (one undo step)
+ */
+export const duckAudio = mutation({
+  args: {
+    compositionId: v.id("compositions"),
+    musicElementIds: v.array(v.string()),
+    dialogueElementIds: v.array(v.string()),
+    level: v.optional(v.number()), // Music volume under dialogue (0-1)
+    attack: v.optional(v.number()), // Seconds
+    release: v.optional(v.number()),
+  },
+  handler: async (ctx, { compositionId, musicElementIds, dialogueElementIds, level, attack, release }) => {
+    const composition = await ctx.db.get(compositionId);
+    if (!composition) {
+      throw new Error("Composition not found");
+    }
+
+    const result = duckMusic(composition.ir, { musicElementIds, dialogueElementIds, level, attack, release });
+    if ("error" in result) {
+      throw new Error(result.error);
+    }
+
+    const { updatedIR } = result;
+    await ctx.db.patch(compositionId, {
+      ir: updatedIR,
+      version: composition.version + 1,
+      updatedAt: Date.now(),
+    });
+
+    // Dialogue passages the music ducks under, as rendered
+    const windows = Array.from(getVolumeEnvelopes(applyTrackState(updatedIR)).values()).reduce(
+      (count, envelope) => count + (envelope.ducking?.windows.length ?? 0),
+      0
+    );
+    console.log(`[duckAudio] Ducking ${musicElementIds.length} music clips, ${windows} dialogue windows`);
+    return { windows };
+  },
+});
+
+/**
+ * Cut video clips to the beat of a music clip: lines them up one after
+ * another from the first beat (or startFrame) so every cut lands on a beat,
+ * shortening clips as needed (one undo step)
+ */
+export const cutToBeats = mutation({
+  args: {
+    compositionId: v.id("compositions"),
+    musicElementId: v.string(),
+    clipElementIds: v.array(v.string()), // In the order they play
+    beatsPerCut: v.optional(v.number()),
+    startFrame: v.optional(v.number()),
+  },
+  handler: async (ctx, { compositionId, musicElementId, clipElementIds, beatsPerCut, startFrame }) => {
+    const composition = await ctx.db.get(compositionId);
+    if (!composition) {
+      throw new Error("Composition not found");
+    }
+
+    const music = findElementById(composition.ir.elements, musicElementId);
+    if (!music) {
+      throw new Error(`Element ${musicElementId} not found in composition`);
+    }
+    if (!isAudible(music)) {
+      throw new Error(`Only video and audio clips have beats (element ${musicElementId} is ${music.type})`);
+    }
+
+    const assets = await ctx.db
+      .query("assets")
+      .withIndex("by_project", (q) => q.eq("projectId", composition.projectId))
+      .collect();
+    const asset = findClipAsset<(typeof assets)[number]>(assets, music);
+    if (!asset) {
+      throw new Error(`No asset found for element ${musicElementId}`);
+    }
+    if (!asset.beats) {
+      throw new Error(
+        `No beats found in ${asset.filename}; beats are detected on upload, or when a clip of it is on the timeline`
+      );
+    }
+
+    const beatFrames = getClipBeatFrames(
+      asset.beats,
+      music,
+      composition.ir.metadata.fps,
+      getAbsoluteFrom(composition.ir.elements, musicElementId)
+    );
+    const result = cutClipsToBeats(composition.ir, beatFrames, {
+      clipIds: clipElementIds,
+      beatsPerCut,
+      startFrame,
+    });
+    if ("error" in result) {
+      throw new Error(result.error);
+    }
+
+    await ctx.db.patch(compositionId, {
+      ir: { ...result.updatedIR, version: composition.ir.version + 1 },
+      version: composition.version + 1,
+      updatedAt: Date.now(),
+    });
+
+    console.log(
+      `[cutToBeats] Cut ${result.placed.length} clips to ${asset.filename} at ${asset.beats.bpm} BPM, skipped ${result.skipped.length}`
+    );
+    return { placed: result.placed, skipped: result.skipped, bpm: asset.beats.bpm };
   },
 });
@@ -0,0 +1,17 @@
+/**
+ * Scheduled Jobs
+ */
+
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Thin composition history per the retention policy (see convex/history.ts)
+crons.hourly(
+  "compact composition history",
+  { minuteUTC: 15 },
+  internal.history.compactAllHistory
+);
+
+export default crons;
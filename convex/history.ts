@@ -2,11 +2,59 @@
  * Composition History & Undo/Redo
  *
  * Manages version history for compositions to enable undo/redo functionality.
+ *
+ * Undo/redo walks the patch stack stored in the IR (`ir.patches` with
+ * `ir.patchCursor`); snapshots are kept for the history panel and restores.
+ * Named snapshots are checkpoints: they are never evicted by the retention
+ * policy and can be previewed, restored, or forked into a new composition.
+ *
+ * Snapshots are delta-encoded against the previous snapshot, with a full IR
+ * keyframe every SNAPSHOT_KEYFRAME_INTERVAL snapshots. An hourly cron
+ * (convex/crons.ts) compacts history according to the retention policy, a
+ * page of snapshots per transaction.
  */
 
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-import type { CompositionIR } from "@/types/composition-ir";
+import {
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import type { CompositionIR, Patch } from "@/types/composition-ir";
+import {
+  flattenElements,
+  getRedoGroup,
+  getUndoGroup,
+  redoPatchGroup,
+  restoreComposition,
+  undoPatchGroup,
+} from "@/lib/composition-engine/ir-helpers";
+import { diffCompositions, formatDiffChangelog } from "@/lib/composition-engine/ir-diff";
+import {
+  applySnapshotDelta,
+  encodeSnapshotDelta,
+  isSameComposition,
+  SNAPSHOT_KEYFRAME_INTERVAL,
+} from "@/lib/composition-engine/snapshot-delta";
+import {
+  DAY_MS,
+  DEFAULT_RETENTION_POLICY,
+  isPruned,
+  type HistoryRetentionPolicy,
+} from "@/lib/composition-engine/history-retention";
+
+// Snapshots (or compositions) compacted per transaction
+const COMPACTION_PAGE_SIZE = 100;
+
+const retentionPolicyValidator = v.object({
+  keepLatest: v.number(),
+  keepNamed: v.boolean(),
+  hourlyForMs: v.number(),
+  dailyForMs: v.optional(v.number()),
+});
 
 /**
  * Save a history snapshot
@@ -23,36 +71,34 @@ export const saveSnapshot = mutation({
       throw new Error("Composition not found");
     }
 
-    // Get current history count
-    const historyCount = await ctx.db
-      .query("compositionHistory")
-      .withIndex("by_composition", (q) => q.eq("compositionId", compositionId))
-      .collect()
-      .then((items) => items.length);
+    return await insertSnapshot(ctx, composition, { ir, description });
+  },
+});
 
-    // Limit history to last 50 snapshots
-    if (historyCount >= 50) {
-      const oldest = await ctx.db
-        .query("compositionHistory")
-        .withIndex("by_composition", (q) => q.eq("compositionId", compositionId))
-        .order("asc")
-        .first();
+/**
+ * Save a named checkpoint of the current composition (e.g. "before client review")
+ */
+export const createCheckpoint = mutation({
+  args: {
+    compositionId: v.id("compositions"),
+    name: v.string(),
+  },
+  handler: async (ctx, { compositionId, name }) => {
+    const composition = await ctx.db.get(compositionId);
+    if (!composition) {
+      throw new Error("Composition not found");
+    }
 
-      if (oldest) {
-        await ctx.db.delete(oldest._id);
-      }
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error("Checkpoint name is required");
     }
 
-    // Save snapshot
-    const snapshotId = await ctx.db.insert("compositionHistory", {
-      compositionId,
-      ir,
-      description,
-      version: composition.version,
-      timestamp: Date.now(),
+    return await insertSnapshot(ctx, composition, {
+      ir: composition.ir,
+      description: `Checkpoint: ${trimmed}`,
+      name: trimmed,
     });
-
-    return snapshotId;
   },
 });
 
@@ -65,16 +111,117 @@ export const getHistory = query({
     limit: v.optional(v.number()),
   },
   handler: async (ctx, { compositionId, limit = 20 }) => {
-    return await ctx.db
+    const snapshots = await ctx.db
       .query("compositionHistory")
       .withIndex("by_composition", (q) => q.eq("compositionId", compositionId))
       .order("desc")
       .take(limit);
+
+    const cache = new Map();
+    return await Promise.all(
+      snapshots.map((snapshot) => withSnapshotIR(ctx, snapshot, cache))
+    );
   },
 });
 
 /**
- * Restore a snapshot (undo/redo)
+ * List versions for the history browser (summaries only, without the full IR)
+ */
+export const listVersions = query({
+  args: {
+    compositionId: v.id("compositions"),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, { compositionId, limit = 50 }) => {
+    const composition = await ctx.db.get(compositionId);
+    const snapshots = await ctx.db
+      .query("compositionHistory")
+      .withIndex("by_composition", (q) => q.eq("compositionId", compositionId))
+      .order("desc")
+      .take(limit);
+
+    const cache = new Map();
+    const versions = [];
+    for (const snapshot of snapshots) {
+      const ir = await loadSnapshotIR(ctx, snapshot, cache);
+      const elements = flattenElements(ir.elements ?? []);
+      const elementCounts: Record<string, number> = {};
+      for (const element of elements) {
+        elementCounts[element.type] = (elementCounts[element.type] ?? 0) + 1;
+      }
+
+      versions.push({
+        _id: snapshot._id,
+        name: snapshot.name,
+        description: snapshot.description,
+        version: snapshot.version,
+        timestamp: snapshot.timestamp,
+        elementCount: elements.length,
+        elementCounts,
+        // Undo, redo and direct edits don't save snapshots, so even the
+        // latest one can differ from the composition
+        isCurrent: versions.length === 0 && !!composition && isSameComposition(ir, composition.ir),
+      });
+    }
+
+    return versions;
+  },
+});
+
+/**
+ * Get a single snapshot (for previewing an old version)
+ */
+export const getSnapshot = query({
+  args: {
+    snapshotId: v.id("compositionHistory"),
+  },
+  handler: async (ctx, { snapshotId }) => {
+    const snapshot = await ctx.db.get(snapshotId);
+    return snapshot ? await withSnapshotIR(ctx, snapshot) : null;
+  },
+});
+
+/**
+ * Structural diff between two versions
+ *
+ * Compares `fromSnapshotId` with `toSnapshotId`, or with the current
+ * composition when `toSnapshotId` is omitted. Returns the JSON diff and its
+ * changelog text.
+ */
+export const diffVersions = query({
+  args: {
+    fromSnapshotId: v.id("compositionHistory"),
+    toSnapshotId: v.optional(v.id("compositionHistory")),
+  },
+  handler: async (ctx, { fromSnapshotId, toSnapshotId }) => {
+    const from = await ctx.db.get(fromSnapshotId);
+    if (!from) {
+      throw new Error("Snapshot not found");
+    }
+
+    const to = toSnapshotId
+      ? await ctx.db.get(toSnapshotId)
+      : await ctx.db.get(from.compositionId);
+    if (!to) {
+      throw new Error(toSnapshotId ? "Snapshot not found" : "Composition not found");
+    }
+
+    const cache = new Map();
+    const fromIR = await loadSnapshotIR(ctx, from, cache);
+    const toIR: CompositionIR = toSnapshotId
+      ? await loadSnapshotIR(ctx, to, cache)
+      : to.ir;
+    const diff = diffCompositions(fromIR, toIR);
+
+    return {
+      diff,
+      changelog: formatDiffChangelog(diff, toIR.metadata.fps),
+    };
+  },
+});
+
+/**
+ * Restore a snapshot as the current composition
  */
 export const restoreSnapshot = mutation({
   args: {
@@ -96,13 +243,39 @@ export const restoreSnapshot = mutation({
       throw new Error("Composition not found");
     }
 
-    // Update composition with snapshot IR
+    // Keep the current state restorable if it was never snapshotted
+    const latest = await ctx.db
+      .query("compositionHistory")
+      .withIndex("by_composition", (q) => q.eq("compositionId", compositionId))
+      .order("desc")
+      .first();
+    if (!latest || latest.version !== composition.version) {
+      await insertSnapshot(ctx, composition, {
+        ir: composition.ir,
+        description: "Before restore",
+      });
+    }
+
+    const snapshotIR = await loadSnapshotIR(ctx, snapshot);
+    const description = `Restored: ${snapshot.name ?? snapshot.description}`;
+
+    // One undo step back to the state before the restore
+    const restoredIR = restoreComposition(composition.ir, snapshotIR, description);
     await ctx.db.patch(compositionId, {
-      ir: snapshot.ir,
+      ir: restoredIR,
       version: composition.version + 1,
       updatedAt: Date.now(),
     });
 
+    await insertSnapshot(
+      ctx,
+      { ...composition, version: composition.version + 1 },
+      {
+        ir: restoredIR,
+        description,
+      }
+    );
+
     return {
       restored: true,
       version: composition.version + 1,
@@ -110,6 +283,60 @@ export const restoreSnapshot = mutation({
   },
 });
 
+/**
+ * Fork a snapshot into a new composition in the same project
+ *
+ * The fork starts with a clean undo stack and its own history.
+ */
+export const forkSnapshot = mutation({
+  args: {
+    snapshotId: v.id("compositionHistory"),
+    name: v.optional(v.string()),
+  },
+  handler: async (ctx, { snapshotId, name }) => {
+    const snapshot = await ctx.db.get(snapshotId);
+    if (!snapshot) {
+      throw new Error("Snapshot not found");
+    }
+
+    const source = await ctx.db.get(snapshot.compositionId);
+    if (!source) {
+      throw new Error("Composition not found");
+    }
+
+    const now = Date.now();
+    const snapshotIR = await loadSnapshotIR(ctx, snapshot);
+    const ir: CompositionIR = {
+      id: `comp_${now}`,
+      version: 1,
+      metadata: snapshotIR.metadata,
+      elements: snapshotIR.elements,
+      patches: [],
+    };
+    const forkName =
+      name?.trim() || `${source.name ?? "Composition"} (${snapshot.name ?? `v${snapshot.version}`})`;
+
+    const compositionId = await ctx.db.insert("compositions", {
+      projectId: source.projectId,
+      name: forkName,
+      forkedFrom: snapshotId,
+      ir,
+      code: "",
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const composition = await ctx.db.get(compositionId);
+    await insertSnapshot(ctx, composition!, {
+      ir,
+      description: `Forked from ${source.name ?? "composition"}: ${snapshot.name ?? snapshot.description}`,
+    });
+
+    return compositionId;
+  },
+});
+
 /**
  * Get the most recent snapshot
  */
@@ -118,11 +345,12 @@ export const getLatestSnapshot = query({
     compositionId: v.id("compositions"),
   },
   handler: async (ctx, { compositionId }) => {
-    return await ctx.db
+    const snapshot = await ctx.db
       .query("compositionHistory")
       .withIndex("by_composition", (q) => q.eq("compositionId", compositionId))
       .order("desc")
       .first();
+    return snapshot ? await withSnapshotIR(ctx, snapshot) : null;
   },
 });
 
@@ -139,31 +367,64 @@ export const undo = mutation({
       throw new Error("Composition not found");
     }
 
-    // Get previous snapshot
-    const previousSnapshot = await ctx.db
-      .query("compositionHistory")
-      .withIndex("by_composition", (q) => q.eq("compositionId", compositionId))
-      .order("desc")
-      .take(2) // Get last 2 to skip current state
-      .then((items) => items[1]); // Get second-to-last
+    const ir = composition.ir as CompositionIR;
+    const group = getUndoGroup(ir);
+    const revertedIR = undoPatchGroup(ir);
 
-    if (!previousSnapshot) {
+    if (!revertedIR) {
       return {
         success: false,
-        message: "No previous state to restore",
+        message: "Nothing to undo",
       };
     }
 
-    // Restore snapshot
     await ctx.db.patch(compositionId, {
-      ir: previousSnapshot.ir,
+      ir: revertedIR,
       version: composition.version + 1,
       updatedAt: Date.now(),
     });
 
     return {
       success: true,
-      message: `Undid: ${previousSnapshot.description}`,
+      message: `Undid: ${describePatchGroup(group)}`,
+      version: composition.version + 1,
+    };
+  },
+});
+
+/**
+ * Redo the last undone change
+ */
+export const redo = mutation({
+  args: {
+    compositionId: v.id("compositions"),
+  },
+  handler: async (ctx, { compositionId }) => {
+    const composition = await ctx.db.get(compositionId);
+    if (!composition) {
+      throw new Error("Composition not found");
+    }
+
+    const ir = composition.ir as CompositionIR;
+    const group = getRedoGroup(ir);
+    const appliedIR = redoPatchGroup(ir);
+
+    if (!appliedIR) {
+      return {
+        success: false,
+        message: "Nothing to redo",
+      };
+    }
+
+    await ctx.db.patch(compositionId, {
+      ir: appliedIR,
+      version: composition.version + 1,
+      updatedAt: Date.now(),
+    });
+
+    return {
+      success: true,
+      message: `Redid: ${describePatchGroup(group)}`,
       version: composition.version + 1,
     };
   },
@@ -200,12 +461,6 @@ export const getUndoRedoState = query({
     compositionId: v.id("compositions"),
   },
   handler: async (ctx, { compositionId }) => {
-    const history = await ctx.db
-      .query("compositionHistory")
-      .withIndex("by_composition", (q) => q.eq("compositionId", compositionId))
-      .order("desc")
-      .collect();
-
     const composition = await ctx.db.get(compositionId);
     if (!composition) {
       return {
@@ -215,16 +470,300 @@ export const getUndoRedoState = query({
       };
     }
 
-    // Current version matches latest snapshot
-    const currentVersion = composition.version;
-    const latestSnapshot = history[0];
-    const isAtLatest = !latestSnapshot || currentVersion === latestSnapshot.version;
+    const ir = composition.ir as CompositionIR;
+    const undoGroup = getUndoGroup(ir);
+    const redoGroup = getRedoGroup(ir);
+
+    const history = await ctx.db
+      .query("compositionHistory")
+      .withIndex("by_composition", (q) => q.eq("compositionId", compositionId))
+      .collect();
 
     return {
-      canUndo: history.length > 0,
-      canRedo: !isAtLatest, // Can redo if not at latest
+      canUndo: undoGroup.length > 0,
+      canRedo: redoGroup.length > 0,
+      undoDescription: undoGroup.length > 0 ? describePatchGroup(undoGroup) : undefined,
+      redoDescription: redoGroup.length > 0 ? describePatchGroup(redoGroup) : undefined,
       historyCount: history.length,
-      currentVersion,
+      currentVersion: composition.version,
     };
   },
 });
+
+/**
+ * Compact a page of a composition's history according to the retention
+ * policy, oldest first, then schedule the next page
+ *
+ * Paging stops at the newest `keepLatest` snapshots, which are always kept.
+ * A survivor whose delta base was pruned is re-encoded against the previous
+ * survivor, or stored in full where that would lengthen its delta chain.
+ */
+export const compactHistory = internalMutation({
+  args: {
+    compositionId: v.id("compositions"),
+    policy: v.optional(retentionPolicyValidator),
+    // Set by the first page for the ones it schedules
+    now: v.optional(v.number()),
+    latestFrom: v.optional(v.number()), // _creationTime of the oldest snapshot always kept
+    after: v.optional(v.number()), // _creationTime of the last snapshot compacted
+    deleted: v.optional(v.number()),
+    reencoded: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { compositionId } = args;
+    const policy = args.policy ?? getRetentionPolicy();
+    const now = args.now ?? Date.now();
+    let deleted = args.deleted ?? 0;
+    let reencoded = args.reencoded ?? 0;
+
+    let latestFrom = args.latestFrom;
+    if (latestFrom === undefined) {
+      const latest = await ctx.db
+        .query("compositionHistory")
+        .withIndex("by_composition", (q) => q.eq("compositionId", compositionId))
+        .order("desc")
+        .take(policy.keepLatest);
+      if (latest.length < policy.keepLatest) {
+        return;
+      }
+      latestFrom =
+        latest.length > 0 ? latest[latest.length - 1]._creationTime : Number.MAX_SAFE_INTEGER;
+    }
+
+    const after = args.after ?? 0;
+    const snapshots = await ctx.db
+      .query("compositionHistory")
+      .withIndex("by_composition", (q) =>
+        q.eq("compositionId", compositionId).gt("_creationTime", after)
+      )
+      .order("asc")
+      .take(COMPACTION_PAGE_SIZE + 1);
+    const page = snapshots
+      .slice(0, COMPACTION_PAGE_SIZE)
+      .filter((snapshot) => snapshot._creationTime < latestFrom!);
+    const next = snapshots[page.length];
+
+    const pruned = new Set<Id<"compositionHistory">>(
+      page
+        .filter((snapshot, index) => isPruned(snapshot, page[index + 1] ?? next, policy, now))
+        .map((snapshot) => snapshot._id)
+    );
+
+    // Survivors (including the next snapshot) left without a delta base,
+    // with the survivor before each
+    let previous: any = args.after
+      ? await ctx.db
+          .query("compositionHistory")
+          .withIndex("by_composition", (q) =>
+            q.eq("compositionId", compositionId).lte("_creationTime", after)
+          )
+          .order("desc")
+          .first()
+      : null;
+    const orphans: Array<{ snapshot: any; base: any }> = [];
+    for (const snapshot of next ? [...page, next] : page) {
+      if (pruned.has(snapshot._id)) {
+        continue;
+      }
+      if (snapshot.baseSnapshotId && pruned.has(snapshot.baseSnapshotId)) {
+        orphans.push({ snapshot, base: previous });
+      }
+      previous = snapshot;
+    }
+
+    // Rebuild their IRs before any delta base is deleted
+    const cache = new Map();
+    for (const { snapshot, base } of orphans) {
+      await loadSnapshotIR(ctx, snapshot, cache);
+      if (base) {
+        await loadSnapshotIR(ctx, base, cache);
+      }
+    }
+
+    for (const snapshotId of Array.from(pruned)) {
+      await ctx.db.delete(snapshotId);
+    }
+    deleted += pruned.size;
+
+    const updated = new Map<string, any>();
+    for (const orphan of orphans) {
+      const base = orphan.base && (updated.get(orphan.base._id) ?? orphan.base);
+      const keepsChain = base && (base.deltaDepth ?? 0) < (orphan.snapshot.deltaDepth ?? 0);
+      const fields = await encodeSnapshot(
+        ctx,
+        cache.get(orphan.snapshot._id),
+        keepsChain ? base : null,
+        cache
+      );
+      await ctx.db.patch(orphan.snapshot._id, fields);
+      updated.set(orphan.snapshot._id, { ...orphan.snapshot, ...fields });
+      reencoded++;
+    }
+
+    if (next && next._creationTime < latestFrom) {
+      await ctx.scheduler.runAfter(0, internal.history.compactHistory, {
+        compositionId,
+        policy,
+        now,
+        latestFrom,
+        after: page[page.length - 1]._creationTime,
+        deleted,
+        reencoded,
+      });
+    } else if (deleted > 0) {
+      console.log(
+        `[history:compactHistory] Pruned ${deleted} snapshots, re-encoded ${reencoded}`
+      );
+    }
+  },
+});
+
+/**
+ * A snapshot ID from a URL, or null if it isn't one (for the HTTP routes)
+ */
+export const normalizeSnapshotId = internalQuery({
+  args: { id: v.string() },
+  handler: async (ctx, { id }) => ctx.db.normalizeId("compositionHistory", id),
+});
+
+/**
+ * Scheduled job: compact history for every composition
+ *
+ * Schedules one compaction per composition, a page of compositions at a time,
+ * so no transaction reads more than a page.
+ */
+export const compactAllHistory = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, { cursor }) => {
+    const policy = getRetentionPolicy();
+    const compositions = await ctx.db
+      .query("compositions")
+      .paginate({ cursor: cursor ?? null, numItems: COMPACTION_PAGE_SIZE });
+
+    for (const composition of compositions.page) {
+      await ctx.scheduler.runAfter(0, internal.history.compactHistory, {
+        compositionId: composition._id,
+        policy,
+      });
+    }
+    if (!compositions.isDone) {
+      await ctx.scheduler.runAfter(0, internal.history.compactAllHistory, {
+        cursor: compositions.continueCursor,
+      });
+    }
+
+    console.log(
+      `[history:compactAllHistory] Scheduled compaction for ${compositions.page.length} compositions`
+    );
+  },
+});
+
+/**
+ * Human-readable summary of a patch group
+ */
+function describePatchGroup(patches: Patch[]): string {
+  const last = patches[patches.length - 1];
+  if (last.description) {
+    return last.description;
+  }
+  return patches.length === 1 ? last.operation : `${patches.length} changes`;
+}
+
+/**
+ * Retention policy, overridable with Convex env vars:
+ *   npx convex env set HISTORY_KEEP_LATEST 100
+ *   npx convex env set HISTORY_HOURLY_DAYS 7
+ *   npx convex env set HISTORY_DAILY_DAYS 90
+ */
+function getRetentionPolicy(): HistoryRetentionPolicy {
+  const keepLatest = Number(process.env.HISTORY_KEEP_LATEST);
+  const hourlyDays = Number(process.env.HISTORY_HOURLY_DAYS);
+  const dailyDays = Number(process.env.HISTORY_DAILY_DAYS);
+
+  return {
+    ...DEFAULT_RETENTION_POLICY,
+    ...(keepLatest > 0 ? { keepLatest } : {}),
+    ...(hourlyDays > 0 ? { hourlyForMs: hourlyDays * DAY_MS } : {}),
+    ...(dailyDays > 0 ? { dailyForMs: dailyDays * DAY_MS } : {}),
+  };
+}
+
+/**
+ * Insert a snapshot, delta-encoded against the latest one unless a full
+ * keyframe is due
+ */
+async function insertSnapshot(
+  ctx: any,
+  composition: { _id: any; version: number },
+  snapshot: { ir: any; description: string; name?: string }
+) {
+  const latest = await ctx.db
+    .query("compositionHistory")
+    .withIndex("by_composition", (q: any) => q.eq("compositionId", composition._id))
+    .order("desc")
+    .first();
+
+  return await ctx.db.insert("compositionHistory", {
+    compositionId: composition._id,
+    ...(await encodeSnapshot(ctx, snapshot.ir, latest)),
+    description: snapshot.description,
+    ...(snapshot.name ? { name: snapshot.name } : {}),
+    version: composition.version,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Storage fields for an IR: a delta against `base`, or the full IR when there
+ * is no base or the delta chain has reached the keyframe interval
+ */
+async function encodeSnapshot(ctx: any, ir: any, base: any, cache?: Map<string, any>) {
+  const depth = base ? (base.deltaDepth ?? 0) + 1 : 0;
+  if (!base || depth >= SNAPSHOT_KEYFRAME_INTERVAL) {
+    return { ir, delta: undefined, baseSnapshotId: undefined, deltaDepth: undefined };
+  }
+
+  const baseIR = await loadSnapshotIR(ctx, base, cache);
+  return {
+    ir: undefined,
+    delta: encodeSnapshotDelta(baseIR, ir) ?? { op: "object", set: [], unset: [] },
+    baseSnapshotId: base._id,
+    deltaDepth: depth,
+  };
+}
+
+/**
+ * Rebuild a snapshot's IR by applying deltas from the nearest full keyframe
+ */
+async function loadSnapshotIR(
+  ctx: any,
+  snapshot: any,
+  cache: Map<string, any> = new Map()
+): Promise<CompositionIR> {
+  // Walk back to a keyframe (or a snapshot already rebuilt)
+  const chain: any[] = [];
+  let current = snapshot;
+  while (!cache.has(current._id) && current.ir === undefined) {
+    chain.push(current);
+    current = await ctx.db.get(current.baseSnapshotId);
+    if (!current) {
+      throw new Error(`Snapshot ${chain[chain.length - 1]._id} is missing its base snapshot`);
+    }
+  }
+
+  let ir = cache.get(current._id) ?? current.ir;
+  cache.set(current._id, ir);
+  for (const delta of chain.reverse()) {
+    ir = applySnapshotDelta(ir, delta.delta);
+    cache.set(delta._id, ir);
+  }
+  return ir;
+}
+
+/**
+ * Snapshot document with its IR rebuilt and the encoding fields stripped
+ */
+async function withSnapshotIR(ctx: any, snapshot: any, cache?: Map<string, any>) {
+  const { delta, baseSnapshotId, deltaDepth, ...rest } = snapshot;
+  return { ...rest, ir: await loadSnapshotIR(ctx, snapshot, cache) };
+}
@@ -0,0 +1,121 @@
+/**
+ * HTTP Routes
+ *
+ * JSON endpoints for external tooling.
+ */
+
+import { httpRouter } from "convex/server";
+import { httpAction } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+
+const http = httpRouter();
+
+/**
+ * GET /history/diff?from=<snapshotId>[&to=<snapshotId>]
+ *
+ * Structural diff between two history snapshots (or a snapshot and the
+ * current composition when `to` is omitted).
+ */
+http.route({
+  path: "/history/diff",
+  method: "GET",
+  handler: httpAction(async (ctx, request) => {
+    const url = new URL(request.url);
+    const from = url.searchParams.get("from");
+    const to = url.searchParams.get("to");
+
+    if (!from) {
+      return jsonResponse({ error: "Missing 'from' snapshot ID" }, { status: 400 });
+    }
+
+    // Malformed IDs are bad requests; valid IDs that don't exist are 404s
+    const fromSnapshotId: Id<"compositionHistory"> | null = await ctx.runQuery(
+      internal.history.normalizeSnapshotId,
+      { id: from }
+    );
+    if (!fromSnapshotId) {
+      return jsonResponse({ error: `Invalid 'from' snapshot ID: ${from}` }, { status: 400 });
+    }
+    const toSnapshotId: Id<"compositionHistory"> | null = to
+      ? await ctx.runQuery(internal.history.normalizeSnapshotId, { id: to })
+      : null;
+    if (to && !toSnapshotId) {
+      return jsonResponse({ error: `Invalid 'to' snapshot ID: ${to}` }, { status: 400 });
+    }
+
+    try {
+      const result = await ctx.runQuery(api.history.diffVersions, {
+        fromSnapshotId,
+        toSnapshotId: toSnapshotId ?? undefined,
+      });
+      return jsonResponse(result);
+    } catch (error) {
+      console.error("[http:historyDiff] Diff failed:", error);
+      return jsonResponse(
+        { error: error instanceof Error ? error.message : String(error) },
+        { status: 404 }
+      );
+    }
+  }),
+});
+
+/**
+ * GET /compositions/subtitles?compositionId=<id>&format=srt|vtt[&trackId=<id>]
+ *
+ * A composition's text elements as a subtitle file download, for YouTube
+ * and other platforms.
+ */
+http.route({
+  path: "/compositions/subtitles",
+  method: "GET",
+  handler: httpAction(async (ctx, request) => {
+    const url = new URL(request.url);
+    const compositionId = url.searchParams.get("compositionId");
+    const format = url.searchParams.get("format") ?? "srt";
+    const trackId = url.searchParams.get("trackId");
+
+    if (!compositionId) {
+      return jsonResponse({ error: "Missing 'compositionId'" }, { status: 400 });
+    }
+    if (format !== "srt" && format !== "vtt") {
+      return jsonResponse({ error: `Unsupported subtitle format: ${format}. Use srt or vtt` }, { status: 400 });
+    }
+
+    const id: Id<"compositions"> | null = await ctx.runQuery(internal.compositions.normalizeCompositionId, {
+      id: compositionId,
+    });
+    if (!id) {
+      return jsonResponse({ error: `Invalid composition ID: ${compositionId}` }, { status: 400 });
+    }
+
+    try {
+      const result = await ctx.runQuery(api.compositions.exportSubtitles, {
+        compositionId: id,
+        format,
+        trackId: trackId ?? undefined,
+      });
+      return new Response(result.content, {
+        headers: {
+          "Content-Type": `${result.mimeType}; charset=utf-8`,
+          "Content-Disposition": `attachment; filename="${result.filename}"`,
+        },
+      });
+    } catch (error) {
+      console.error("[http:exportSubtitles] Export failed:", error);
+      return jsonResponse(
+        { error: error instanceof Error ? error.message : String(error) },
+        { status: 404 }
+      );
+    }
+  }),
+});
+
+function jsonResponse(body: unknown, init: ResponseInit = {}) {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+export default http;
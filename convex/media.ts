@@ -2,13 +2,22 @@
  * Cloudflare Stream and R2 integration
  *
  * This module handles all media uploads and storage via Cloudflare.
- * NO media files transit through Convex - only metadata is stored here.
+ * NO media files are stored in or buffered by Convex - only metadata is
+ * stored here (transcription streams a file from Cloudflare to the speech
+ * server). Subtitle files are the exception: they are small text kept on
+ * the asset.
  */
 
 import { v } from "convex/values";
 import { action, httpAction, mutation, query, internalMutation } from "./_generated/server";
 import { api, internal } from "./_generated/api";
 import { Webhook } from "svix";
+import type { Transcript } from "@/types/composition-ir";
+import { getSpeechEngine, MAX_TRANSCRIPTION_BYTES } from "@/lib/speech/engines";
+import { validateTranscriptWords } from "@/lib/composition-engine/captions";
+import { detectSubtitleFormat, parseSubtitles, SUBTITLE_MIME_TYPES } from "@/lib/composition-engine/subtitles";
+import { getAssetFileUrl, validateWaveform } from "@/lib/composition-engine/clip-media";
+import { validateBeatGrid } from "@/lib/composition-engine/beats";
 
 // Environment variables (set via `npx convex env set`)
 const CLOUDFLARE_ACCOUNT_ID = process.env.CLOUDFLARE_ACCOUNT_ID;
@@ -19,6 +28,9 @@ const CLOUDFLARE_R2_ENDPOINT = process.env.CLOUDFLARE_R2_ENDPOINT;
 const CLOUDFLARE_R2_BUCKET_NAME = process.env.CLOUDFLARE_R2_BUCKET_NAME || "chatkut-media";
 const CLOUDFLARE_WEBHOOK_SECRET = process.env.CLOUDFLARE_WEBHOOK_SECRET;
 
+// Subtitle files are stored in the asset row, well under Convex's document limit
+const MAX_SUBTITLE_BYTES = 512 * 1024;
+
 // Debug: Log environment variable status
 console.log("[media.ts] Environment check:", {
   hasAccountId: !!CLOUDFLARE_ACCOUNT_ID,
@@ -639,3 +651,226 @@ export const updateAssetDownloadUrl = internalMutation({
     });
   },
 });
+
+/**
+ * Save an asset's transcript (from transcribeAsset or an imported file)
+ */
+export const saveTranscript = mutation({
+  args: {
+    assetId: v.id("assets"),
+    transcript: v.object({
+      words: v.array(v.object({ text: v.string(), start: v.number(), end: v.number() })),
+      language: v.optional(v.string()),
+      engine: v.optional(v.string()),
+    }),
+  },
+  handler: async (ctx, { assetId, transcript }) => {
+    const asset = await ctx.db.get(assetId);
+    if (!asset) {
+      throw new Error("Asset not found");
+    }
+    if (asset.type !== "video" && asset.type !== "audio") {
+      throw new Error("Only audio and video assets have transcripts");
+    }
+
+    const invalid = validateTranscriptWords(transcript.words);
+    if (invalid) {
+      throw new Error(invalid);
+    }
+
+    await ctx.db.patch(assetId, {
+      transcript,
+      updatedAt: Date.now(),
+    });
+
+    console.log("[media:saveTranscript] Saved transcript:", {
+      assetId,
+      words: transcript.words.length,
+      engine: transcript.engine,
+    });
+  },
+});
+
+/**
+ * Transcribe an audio or video asset with a speech-to-text engine
+ *
+ * The action streams the file (the MP4 for Stream videos) from Cloudflare
+ * to the engine as it downloads, without holding it; only the transcript is
+ * stored.
+ */
+export const transcribeAsset = action({
+  args: {
+    assetId: v.id("assets"),
+    language: v.optional(v.string()),
+    engine: v.optional(v.string()),
+  },
+  handler: async (ctx, { assetId, language, engine }): Promise<Transcript> => {
+    const asset = await ctx.runQuery(api.media.getAsset, { assetId });
+
+    if (!asset) {
+      throw new Error("Asset not found");
+    }
+    if (asset.type !== "video" && asset.type !== "audio") {
+      throw new Error("Only audio and video assets can be transcribed");
+    }
+
+    // HLS playlists can't be transcribed; Stream videos need their MP4
+    let fileUrl = getAssetFileUrl(asset);
+    if (!fileUrl && asset.streamId) {
+      ({ downloadUrl: fileUrl } = await ctx.runAction(api.media.enableMp4Download, {
+        streamId: asset.streamId,
+      }));
+    }
+    if (!fileUrl) {
+      throw new Error("Asset has no file to transcribe yet");
+    }
+
+    const speechEngine = getSpeechEngine(engine);
+    console.log("[media:transcribeAsset] Transcribing:", { assetId, engine: speechEngine.name });
+
+    const file = await fetch(fileUrl);
+    if (!file.ok) {
+      throw new Error(`Failed to download asset for transcription: ${file.status}`);
+    }
+
+    if (!file.body) {
+      throw new Error("Downloaded asset has no content to transcribe");
+    }
+
+    const fileSize = Number(file.headers.get("content-length")) || asset.fileSize || 0;
+    if (fileSize > MAX_TRANSCRIPTION_BYTES) {
+      await file.body.cancel();
+      throw new Error(
+        `${asset.filename} is too large to transcribe (${Math.round(fileSize / 1024 / 1024)} MB, max ${MAX_TRANSCRIPTION_BYTES / 1024 / 1024} MB)`
+      );
+    }
+
+    const transcript = await speechEngine.transcribe(file.body, {
+      filename: asset.filename,
+      mimeType: file.headers.get("content-type") || asset.mimeType,
+      language,
+    });
+
+    await ctx.runMutation(api.media.saveTranscript, { assetId, transcript });
+
+    console.log("[media:transcribeAsset] Transcribed", transcript.words.length, "words ✅");
+    return transcript;
+  },
+});
+
+/**
+ * Save an asset's waveform
+ *
+ * Waveforms are computed in the browser, which can decode the audio, while
+ * the file uploads (or, for older assets, the first time a clip of the asset
+ * is on the timeline).
+ */
+export const saveWaveform = mutation({
+  args: {
+    assetId: v.id("assets"),
+    waveform: v.object({ peaksPerSecond: v.number(), peaks: v.array(v.number()) }),
+  },
+  handler: async (ctx, { assetId, waveform }) => {
+    const asset = await ctx.db.get(assetId);
+    if (!asset) {
+      throw new Error("Asset not found");
+    }
+    if (asset.type !== "video" && asset.type !== "audio") {
+      throw new Error("Only audio and video assets have waveforms");
+    }
+
+    const invalid = validateWaveform(waveform);
+    if (invalid) {
+      throw new Error(invalid);
+    }
+
+    await ctx.db.patch(assetId, {
+      waveform,
+      updatedAt: Date.now(),
+    });
+
+    console.log("[media:saveWaveform] Saved waveform:", { assetId, peaks: waveform.peaks.length });
+  },
+});
+
+/**
+ * Save an asset's detected beat grid
+ *
+ * Beats are detected in the browser along with the waveform, so every
+ * upload has a beat grid for cutting to when it's used as music.
+ */
+export const saveBeatGrid = mutation({
+  args: {
+    assetId: v.id("assets"),
+    beats: v.object({ bpm: v.number(), beats: v.array(v.number()) }),
+  },
+  handler: async (ctx, { assetId, beats }) => {
+    const asset = await ctx.db.get(assetId);
+    if (!asset) {
+      throw new Error("Asset not found");
+    }
+    if (asset.type !== "video" && asset.type !== "audio") {
+      throw new Error("Only audio and video assets have beats");
+    }
+
+    const invalid = validateBeatGrid(beats);
+    if (invalid) {
+      throw new Error(invalid);
+    }
+
+    await ctx.db.patch(assetId, {
+      beats,
+      updatedAt: Date.now(),
+    });
+
+    console.log("[media:saveBeatGrid] Saved beat grid:", { assetId, bpm: beats.bpm, beats: beats.beats.length });
+  },
+});
+
+/**
+ * Import an SRT or WebVTT file as a subtitle asset
+ *
+ * The file is validated and kept as text; cues are converted to frames
+ * when added to a composition, at that composition's fps.
+ */
+export const importSubtitles = mutation({
+  args: {
+    projectId: v.id("projects"),
+    filename: v.string(),
+    content: v.string(),
+  },
+  handler: async (ctx, { projectId, filename, content }) => {
+    const fileSize = new TextEncoder().encode(content).length;
+    if (fileSize > MAX_SUBTITLE_BYTES) {
+      throw new Error(`Subtitle file is too large (max ${MAX_SUBTITLE_BYTES / 1024} KB)`);
+    }
+
+    // Parsed at 1000 fps, so frames are milliseconds
+    const parsed = parseSubtitles(content, 1000);
+    if ("error" in parsed) {
+      throw new Error(parsed.error);
+    }
+    const duration = Math.max(...parsed.cues.map((cue) => cue.from + cue.durationInFrames)) / 1000;
+
+    const now = Date.now();
+    const assetId = await ctx.db.insert("assets", {
+      projectId,
+      type: "subtitle",
+      filename,
+      fileSize,
+      mimeType: SUBTITLE_MIME_TYPES[detectSubtitleFormat(content, filename)],
+      status: "ready",
+      duration,
+      subtitles: content,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    console.log("[media:importSubtitles] Imported subtitles:", {
+      assetId,
+      filename,
+      cues: parsed.cues.length,
+    });
+    return { assetId, cueCount: parsed.cues.length };
+  },
+});
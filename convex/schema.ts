@@ -25,6 +25,10 @@ export default defineSchema({
   // Compositions table (stores IR, code, and patches)
   compositions: defineTable({
     projectId: v.id("projects"),
+    // Display name (forks are named after their source checkpoint)
+    name: v.optional(v.string()),
+    // Snapshot this composition was forked from
+    forkedFrom: v.optional(v.id("compositionHistory")),
     // Composition IR (stored as JSON)
     ir: v.object({
       id: v.string(),
@@ -37,6 +41,32 @@ export default defineSchema({
       }),
       elements: v.array(v.any()), // CompositionElement[]
       patches: v.array(v.any()), // Patch[]
+      patchCursor: v.optional(v.number()), // Applied patch count after undo
+      tracks: v.optional(
+        v.array(
+          v.object({
+            id: v.string(),
+            name: v.string(),
+            kind: v.union(v.literal("video"), v.literal("overlay"), v.literal("audio")),
+            locked: v.optional(v.boolean()),
+            muted: v.optional(v.boolean()),
+            hidden: v.optional(v.boolean()),
+          })
+        )
+      ), // Track[]
+      mix: v.optional(
+        v.object({
+          masterGain: v.optional(v.number()),
+          ducking: v.optional(
+            v.object({
+              enabled: v.optional(v.boolean()),
+              level: v.optional(v.number()),
+              attack: v.optional(v.number()),
+              release: v.optional(v.number()),
+            })
+          ),
+        })
+      ), // AudioMix
     }),
     // Generated Remotion code
     code: v.string(),
@@ -60,7 +90,8 @@ export default defineSchema({
       v.literal("video"),
       v.literal("audio"),
       v.literal("image"),
-      v.literal("rendered")
+      v.literal("rendered"),
+      v.literal("subtitle")
     ),
     // Original filename
     filename: v.string(),
@@ -83,6 +114,20 @@ export default defineSchema({
     duration: v.optional(v.number()),
     // Thumbnail URL
     thumbnailUrl: v.optional(v.string()),
+    // Transcript with word timings (for captions)
+    transcript: v.optional(
+      v.object({
+        words: v.array(v.object({ text: v.string(), start: v.number(), end: v.number() })),
+        language: v.optional(v.string()),
+        engine: v.optional(v.string()),
+      })
+    ),
+    // Loudness peaks for timeline waveforms (for video/audio)
+    waveform: v.optional(v.object({ peaksPerSecond: v.number(), peaks: v.array(v.number()) })),
+    // Detected tempo and beat times in seconds (for music)
+    beats: v.optional(v.object({ bpm: v.number(), beats: v.array(v.number()) })),
+    // Raw SRT/WebVTT text (for subtitle files)
+    subtitles: v.optional(v.string()),
     // Upload URL (TUS endpoint, temporary)
     uploadUrl: v.optional(v.string()),
     // Error message if status === "error"
@@ -106,6 +151,8 @@ export default defineSchema({
     editPlan: v.optional(v.any()),
     // Optional: edit receipt (for assistant messages)
     receipt: v.optional(v.string()),
+    // Optional: structural diff of the composition (CompositionDiff)
+    diff: v.optional(v.any()),
     timestamp: v.number(),
   })
     .index("by_project", ["projectId"])
@@ -201,10 +248,17 @@ export default defineSchema({
   // Composition history table (for undo/redo)
   compositionHistory: defineTable({
     compositionId: v.id("compositions"),
-    // Full IR snapshot
-    ir: v.any(), // CompositionIR
+    // Full IR snapshot (keyframe); omitted when the snapshot is delta-encoded
+    ir: v.optional(v.any()), // CompositionIR
+    // Delta against baseSnapshotId (SnapshotDelta)
+    delta: v.optional(v.any()),
+    baseSnapshotId: v.optional(v.id("compositionHistory")),
+    // Number of deltas since the last full keyframe
+    deltaDepth: v.optional(v.number()),
     // Description of what changed
     description: v.string(),
+    // Checkpoint name (named snapshots are kept past the history limit)
+    name: v.optional(v.string()),
     // Version number
     version: v.number(),
     timestamp: v.number(),
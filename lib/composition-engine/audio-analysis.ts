@@ -0,0 +1,36 @@
+/**
+ * Audio analysis in the browser
+ *
+ * Convex can't decode audio, so an asset's waveform and beat grid are
+ * computed where it can be: in the browser, from the uploaded file or a
+ * download of the asset, and then saved on the asset.
+ */
+
+import type { BeatGrid, Waveform } from "@/types/composition-ir";
+import { detectBeats } from "./beats";
+import { computeWaveformPeaks } from "./clip-media";
+
+// Decoding resamples to this rate, plenty for peaks and onsets and far smaller than 48 kHz
+const ANALYSIS_SAMPLE_RATE = 8000;
+
+// Larger assets aren't downloaded and decoded just to draw a waveform
+export const MAX_ANALYSIS_FILE_BYTES = 500 * 1024 * 1024;
+
+// Files analyzed while they upload: the upload is reading the same file, and
+// decoding can take many times the file's size before resampling. Larger
+// uploads are analyzed once a clip of them is on the timeline.
+export const MAX_UPLOAD_ANALYSIS_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Decode an audio or video file and compute its waveform and beat grid
+ * (null when it has no beats to follow)
+ */
+export async function analyzeAudio(data: ArrayBuffer): Promise<{ waveform: Waveform; beats: BeatGrid | null }> {
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  const audio = await context.decodeAudioData(data);
+  const channels = Array.from({ length: audio.numberOfChannels }, (_, i) => audio.getChannelData(i));
+  return {
+    waveform: computeWaveformPeaks(channels, audio.sampleRate),
+    beats: detectBeats(channels, audio.sampleRate),
+  };
+}
@@ -0,0 +1,334 @@
+/**
+ * Audio mixing
+ *
+ * A clip's volume over time is its volume (or "volume" keyframes) shaped by
+ * fade-in/out ramps, lowered while dialogue plays when the clip is music
+ * (ducking), and scaled by the composition's master gain. The runtime
+ * renderers evaluate the envelope in Remotion's volume callback and the
+ * compiler prints the same math.
+ *
+ * Envelope frames are relative to the clip's start, like keyframes and the
+ * frame Remotion passes to the volume callback.
+ */
+
+import type {
+  Animation,
+  AudioMix,
+  AudioRole,
+  CompositionElement,
+  CompositionIR,
+  Ducking,
+  Keyframe,
+} from "@/types/composition-ir";
+import { evaluateAnimation, sortKeyframes } from "./keyframes";
+import { executeTransaction } from "./executor";
+import { addPatch, createSettingsPatch, findElementById } from "./ir-helpers";
+import { clamp, lerp } from "./utils";
+
+export const AUDIO_ROLES: AudioRole[] = ["dialogue", "music", "effects"];
+
+export const DUCKING_DEFAULTS: Required<Ducking> = {
+  enabled: true,
+  level: 0.25,
+  attack: 0.25,
+  release: 0.5,
+};
+
+// Frames where dialogue plays, relative to the ducked clip
+export interface DuckWindow {
+  start: number;
+  end: number;
+}
+
+export interface VolumeEnvelope {
+  volume: number; // Clip volume when there are no volume keyframes
+  animation?: Animation; // Volume keyframes
+  durationInFrames: number;
+  fadeIn: number; // Frames
+  fadeOut: number;
+  gain: number; // Master gain
+  ducking?: {
+    level: number;
+    attack: number; // Frames
+    release: number;
+    windows: DuckWindow[];
+  };
+}
+
+/**
+ * Whether an element plays sound
+ */
+export function isAudible(element: CompositionElement): boolean {
+  return element.type === "video" || element.type === "audio";
+}
+
+/**
+ * The composition's ducking settings with defaults filled in
+ */
+export function getDucking(mix?: AudioMix): Required<Ducking> {
+  return { ...DUCKING_DEFAULTS, ...mix?.ducking };
+}
+
+/**
+ * Frame ranges where dialogue clips play, in composition frames
+ *
+ * Silent clips (muted tracks) don't count. Ranges closer together than
+ * `bridge` frames are joined so music doesn't swell up between sentences.
+ */
+export function getDialogueRanges(elements: CompositionElement[], bridge = 0): DuckWindow[] {
+  const ranges: DuckWindow[] = [];
+  const collect = (siblings: CompositionElement[], offset: number) => {
+    for (const element of siblings) {
+      const from = offset + element.from;
+      if (element.type === "sequence") {
+        collect(element.children || [], from);
+      } else if (isAudible(element) && element.properties.role === "dialogue" && element.properties.volume !== 0) {
+        ranges.push({ start: from, end: from + element.durationInFrames });
+      }
+    }
+  };
+  collect(elements, 0);
+
+  const merged: DuckWindow[] = [];
+  for (const range of ranges.sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && range.start - last.end <= bridge) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Volume envelopes of every clip that plays sound, by element ID
+ *
+ * Pass the IR as rendered (applyTrackState), so muted dialogue doesn't duck.
+ */
+export function getVolumeEnvelopes(ir: CompositionIR): Map<string, VolumeEnvelope> {
+  const { fps } = ir.metadata;
+  const gain = ir.mix?.masterGain ?? 1;
+  const ducking = getDucking(ir.mix);
+  const attack = Math.max(1, Math.round(ducking.attack * fps));
+  const release = Math.max(1, Math.round(ducking.release * fps));
+  const dialogue = ducking.enabled ? getDialogueRanges(ir.elements, attack + release) : [];
+
+  const envelopes = new Map<string, VolumeEnvelope>();
+  const collect = (siblings: CompositionElement[], offset: number) => {
+    for (const element of siblings) {
+      const from = offset + element.from;
+      if (element.type === "sequence") {
+        collect(element.children || [], from);
+        continue;
+      }
+      if (!isAudible(element)) continue;
+
+      const envelope: VolumeEnvelope = {
+        volume: element.properties.volume ?? 1,
+        animation: getVolumeAnimation(element),
+        durationInFrames: element.durationInFrames,
+        fadeIn: element.properties.fadeInFrames ?? 0,
+        fadeOut: element.properties.fadeOutFrames ?? 0,
+        gain,
+      };
+
+      if (element.properties.role === "music") {
+        const end = from + element.durationInFrames;
+        const windows = dialogue
+          .filter((range) => range.start - attack < end && range.end + release > from)
+          .map((range) => ({ start: range.start - from, end: range.end - from }));
+        if (windows.length > 0) {
+          envelope.ducking = { level: ducking.level, attack, release, windows };
+        }
+      }
+      envelopes.set(element.id, envelope);
+    }
+  };
+  collect(ir.elements, 0);
+
+  return envelopes;
+}
+
+/**
+ * An element's volume keyframes, if it has any
+ */
+export function getVolumeAnimation(element: CompositionElement): Animation | undefined {
+  return element.animations?.find((animation) => animation.property === "volume" && animation.keyframes.length > 0);
+}
+
+/**
+ * Volume multiplier from ducking at a clip frame: down to `level` over the
+ * attack before dialogue and back up over the release after it
+ */
+export function getDuckingGain(ducking: NonNullable<VolumeEnvelope["ducking"]>, frame: number): number {
+  const { level, attack, release } = ducking;
+  let gain = 1;
+  for (const { start, end } of ducking.windows) {
+    const value =
+      frame <= start - attack || frame >= end + release
+        ? 1
+        : frame < start
+          ? lerp(1, level, (frame - (start - attack)) / attack)
+          : frame <= end
+            ? level
+            : lerp(level, 1, (frame - end) / release);
+    gain = Math.min(gain, value);
+  }
+  return gain;
+}
+
+/**
+ * Volume of a clip at a frame relative to its start (0-1)
+ */
+export function evaluateVolume(envelope: VolumeEnvelope, frame: number): number {
+  const { fadeIn, fadeOut, durationInFrames } = envelope;
+  const base = envelope.animation ? (evaluateAnimation(envelope.animation, frame) as number) : envelope.volume;
+  const fadeInGain = fadeIn > 0 ? clamp(frame / fadeIn, 0, 1) : 1;
+  const fadeOutGain = fadeOut > 0 ? clamp((durationInFrames - frame) / fadeOut, 0, 1) : 1;
+  const duckingGain = envelope.ducking ? getDuckingGain(envelope.ducking, frame) : 1;
+
+  return clamp(base * fadeInGain * fadeOutGain * duckingGain * envelope.gain, 0, 1);
+}
+
+/**
+ * The clip's volume when it doesn't change over time, otherwise null
+ */
+export function getStaticVolume(envelope: VolumeEnvelope): number | null {
+  if (envelope.animation || envelope.fadeIn > 0 || envelope.fadeOut > 0 || envelope.ducking) {
+    return null;
+  }
+  return clamp(envelope.volume * envelope.gain, 0, 1);
+}
+
+/**
+ * Remotion `volume` prop for a clip: a number, or a callback for envelopes
+ */
+export function getVolumeProp(envelope?: VolumeEnvelope, fallback = 1): number | ((frame: number) => number) {
+  if (!envelope) return fallback;
+  return getStaticVolume(envelope) ?? ((frame: number) => evaluateVolume(envelope, frame));
+}
+
+/**
+ * Volume keyframes for an envelope's points; an existing volume animation is
+ * replaced, and no points removes it
+ */
+export function setVolumeKeyframes(
+  element: CompositionElement,
+  keyframes: Keyframe[],
+  easing: Animation["easing"] = "linear"
+): Animation[] {
+  const others = (element.animations || []).filter((animation) => animation.property !== "volume");
+  return keyframes.length > 0
+    ? [...others, { property: "volume", keyframes: sortKeyframes(keyframes), easing }]
+    : others;
+}
+
+/**
+ * Why audio properties are invalid, or null if they are valid
+ */
+export function validateAudioProperties(properties: Record<string, any>): string | null {
+  const { volume, fadeInFrames, fadeOutFrames, role } = properties;
+  if (volume !== undefined && volume !== null && !(volume >= 0 && volume <= 1)) {
+    return "Volume must be between 0 and 1";
+  }
+  for (const [name, value] of [
+    ["Fade in", fadeInFrames],
+    ["Fade out", fadeOutFrames],
+  ]) {
+    if (value !== undefined && value !== null && !(value >= 0)) return `${name} can't be negative`;
+  }
+  if (role !== undefined && role !== null && !AUDIO_ROLES.includes(role)) {
+    return `Invalid audio role: ${role}. Use ${AUDIO_ROLES.join(", ")}`;
+  }
+  return null;
+}
+
+/**
+ * Why mix settings are invalid, or null if they are valid
+ */
+export function validateAudioMix(mix: AudioMix): string | null {
+  if (mix.masterGain !== undefined && !(mix.masterGain >= 0 && mix.masterGain <= 1)) {
+    return "Master gain must be between 0 and 1";
+  }
+  const ducking = mix.ducking ?? {};
+  if (ducking.level !== undefined && !(ducking.level >= 0 && ducking.level <= 1)) {
+    return "Ducking level must be between 0 and 1";
+  }
+  for (const key of ["attack", "release"] as const) {
+    const value = ducking[key];
+    if (value !== undefined && !(value >= 0)) return `Ducking ${key} can't be negative`;
+  }
+  return null;
+}
+
+export interface DuckOptions {
+  musicElementIds: string[];
+  dialogueElementIds: string[];
+  level?: number; // Music volume under dialogue (0-1)
+  attack?: number; // Seconds
+  release?: number;
+}
+
+/**
+ * Duck music under dialogue: tags the clips' audio roles and turns on
+ * ducking with the given settings (one undo step)
+ */
+export function duckMusic(
+  ir: CompositionIR,
+  { musicElementIds, dialogueElementIds, ...settings }: DuckOptions
+): { updatedIR: CompositionIR } | { error: string } {
+  const roles = [
+    ...musicElementIds.map((id) => ({ id, role: "music" as const })),
+    ...dialogueElementIds.map((id) => ({ id, role: "dialogue" as const })),
+  ];
+  for (const { id } of roles) {
+    const element = findElementById(ir.elements, id);
+    if (!element) {
+      return { error: `Element ${id} not found in composition` };
+    }
+    if (!isAudible(element)) {
+      return { error: `Only video and audio clips can be ducked (element ${id} is ${element.type})` };
+    }
+  }
+
+  const mix: AudioMix = {
+    ...ir.mix,
+    ducking: {
+      ...ir.mix?.ducking,
+      ...Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined)),
+      enabled: true,
+    },
+  };
+  const mixError = validateAudioMix(mix);
+  if (mixError) {
+    return { error: mixError };
+  }
+
+  const description = "Duck music under dialogue";
+  let updatedIR = ir;
+  let groupId: string | undefined;
+  if (roles.length > 0) {
+    const result = executeTransaction(ir, {
+      plans: roles.map(({ id, role }) => ({
+        operation: "update" as const,
+        selector: { type: "byId" as const, id },
+        changes: { properties: { role } },
+      })),
+      description,
+    });
+    if (!result.success) {
+      return { error: result.error || "Edit could not be applied" };
+    }
+    updatedIR = result.updatedIR!;
+    groupId = result.patches?.[0]?.groupId;
+  }
+
+  // The mix change joins the role updates' undo step
+  return {
+    updatedIR: addPatch(
+      { ...updatedIR, mix, version: ir.version + 1 },
+      { ...createSettingsPatch(updatedIR, { mix }), ...(groupId && { groupId }), description }
+    ),
+  };
+}
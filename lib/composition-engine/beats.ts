@@ -0,0 +1,269 @@
+/**
+ * Beat detection and cutting to music
+ *
+ * Beats are detected offline from an asset's decoded audio (in the browser,
+ * with its waveform, as the asset is uploaded) and stored on the asset as a
+ * beat grid. Music clips of the asset turn the grid into composition frames,
+ * which the timeline snaps to and cutClipsToBeats lines cuts up with.
+ */
+
+import type { BeatGrid, CompositionElement, CompositionIR, EditPlan } from "@/types/composition-ir";
+import { findClipAsset, getClipSourceRange } from "./clip-media";
+import { executeTransaction } from "./executor";
+import { findElementById, findParentElement } from "./ir-helpers";
+import { isAudible } from "./audio";
+
+const HOP_SECONDS = 0.01; // Onset envelope resolution
+const MIN_BPM = 60;
+const MAX_BPM = 180;
+const PREFERRED_BPM = 120; // Halves and doubles of a tempo score alike; prefer the usual range
+
+// Stored on the asset, so within Convex's array limit
+export const MAX_BEATS = 8000;
+
+export const DEFAULT_BEATS_PER_CUT = 4; // One bar of 4/4
+
+/**
+ * Onset strength every HOP_SECONDS: how much louder the audio got, on a log
+ * scale so quiet and loud tracks compare alike
+ */
+export function getOnsetEnvelope(
+  channels: ArrayLike<number>[],
+  sampleRate: number
+): { envelope: number[]; hopSeconds: number } {
+  const hop = Math.max(1, Math.round(sampleRate * HOP_SECONDS));
+  const length = channels[0]?.length ?? 0;
+  const count = Math.floor(length / hop);
+
+  const energies: number[] = [];
+  for (let i = 0; i < count; i++) {
+    let sum = 0;
+    for (const channel of channels) {
+      for (let j = i * hop; j < (i + 1) * hop; j++) {
+        sum += channel[j] * channel[j];
+      }
+    }
+    energies.push(Math.log(1 + (1000 * sum) / (hop * channels.length)));
+  }
+
+  return {
+    envelope: energies.map((energy, i) => (i > 0 ? Math.max(0, energy - energies[i - 1]) : 0)),
+    hopSeconds: hop / sampleRate,
+  };
+}
+
+/**
+ * Beat grid of decoded audio, or null when it has no onsets to follow
+ *
+ * The tempo is the envelope's strongest self-similarity between 60 and 180
+ * BPM, and the grid is shifted to line up with the most onsets.
+ */
+export function detectBeats(channels: ArrayLike<number>[], sampleRate: number): BeatGrid | null {
+  const { envelope, hopSeconds } = getOnsetEnvelope(channels, sampleRate);
+  const n = envelope.length;
+  if (!envelope.some((onset) => onset > 0)) return null;
+
+  // Tempo: autocorrelation over the allowed beat periods
+  const minLag = Math.ceil(60 / (MAX_BPM * hopSeconds));
+  const maxLag = Math.min(Math.floor(60 / (MIN_BPM * hopSeconds)), n - 1);
+  if (maxLag <= minLag) return null;
+
+  const scores = new Map<number, number>();
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < n; i++) {
+      sum += envelope[i] * envelope[i + lag];
+    }
+    const bpm = 60 / (lag * hopSeconds);
+    const preference = Math.exp(-0.5 * Math.pow(Math.log2(bpm / PREFERRED_BPM), 2));
+    scores.set(lag, (sum / (n - lag)) * preference);
+  }
+
+  let lag = minLag;
+  for (let candidate = minLag; candidate <= maxLag; candidate++) {
+    if (scores.get(candidate)! > scores.get(lag)!) lag = candidate;
+  }
+  if (!(scores.get(lag)! > 0)) return null;
+
+  // Between whole hops: the peak of a parabola through the neighbouring scores
+  const [before, at, after] = [scores.get(lag - 1)!, scores.get(lag)!, scores.get(lag + 1)!];
+  const curvature = before - 2 * at + after;
+  const period = lag + (curvature < 0 ? (0.5 * (before - after)) / curvature : 0);
+
+  // Phase: the offset whose grid lands on the most onset strength
+  let offset = 0;
+  let bestPhase = -1;
+  for (let candidate = 0; candidate < period; candidate++) {
+    let sum = 0;
+    for (let position = candidate; position < n; position += period) {
+      sum += envelope[Math.round(position)] ?? 0;
+    }
+    if (sum > bestPhase) {
+      bestPhase = sum;
+      offset = candidate;
+    }
+  }
+
+  const beats: number[] = [];
+  for (let position = offset; position < n && beats.length < MAX_BEATS; position += period) {
+    beats.push(Math.round(position * hopSeconds * 1000) / 1000);
+  }
+
+  return { bpm: Math.round((60 / (period * hopSeconds)) * 10) / 10, beats };
+}
+
+/**
+ * Why a beat grid can't be stored, or null if it can
+ */
+export function validateBeatGrid(grid: BeatGrid): string | null {
+  if (!(grid.bpm > 0)) {
+    return "Beat grid needs a positive tempo";
+  }
+  if (grid.beats.length > MAX_BEATS) {
+    return `Beat grid has too many beats (max ${MAX_BEATS})`;
+  }
+  if (grid.beats.some((beat, i) => !(beat >= 0) || (i > 0 && beat <= grid.beats[i - 1]))) {
+    return "Beats must be increasing times from the start of the asset";
+  }
+  return null;
+}
+
+/**
+ * Composition frames of the beats a clip plays, after trims and speed
+ * changes; `absoluteFrom` is the clip's start in the composition
+ */
+export function getClipBeatFrames(
+  grid: BeatGrid,
+  element: CompositionElement,
+  fps: number,
+  absoluteFrom: number
+): number[] {
+  const { start, end } = getClipSourceRange(element, fps);
+  const rate = element.properties.playbackRate ?? 1;
+  return grid.beats
+    .filter((beat) => beat >= start && beat < end)
+    .map((beat) => absoluteFrom + Math.round(((beat - start) * fps) / rate));
+}
+
+/**
+ * Whether a clip is music: an audio clip or a clip tagged with the music role
+ */
+export function isMusicClip(element: CompositionElement): boolean {
+  return element.type === "audio" || (isAudible(element) && element.properties.role === "music");
+}
+
+/**
+ * Beat frames of every music clip whose asset has a beat grid, sorted, for
+ * snapping; `excludeId` leaves out a clip being dragged
+ */
+export function getBeatFrames(
+  elements: CompositionElement[],
+  assets: Array<{ beats?: BeatGrid; playbackUrl?: string; downloadUrl?: string }>,
+  fps: number,
+  excludeId?: string
+): number[] {
+  const frames = new Set<number>();
+  const collect = (siblings: CompositionElement[], offset: number) => {
+    for (const element of siblings) {
+      if (element.id === excludeId) continue;
+      const from = offset + element.from;
+      if (element.type === "sequence") {
+        collect(element.children || [], from);
+        continue;
+      }
+      const grid = isMusicClip(element) ? findClipAsset(assets, element)?.beats : undefined;
+      for (const frame of grid ? getClipBeatFrames(grid, element, fps, from) : []) {
+        frames.add(frame);
+      }
+    }
+  };
+  collect(elements, 0);
+
+  return Array.from(frames).sort((a, b) => a - b);
+}
+
+export interface BeatCutOptions {
+  clipIds: string[]; // In the order they play
+  beatsPerCut?: number; // Beats each clip lasts (fewer when a clip is too short)
+  startFrame?: number; // First cut on the first beat from here (default: the first beat)
+}
+
+/**
+ * Line clips up one after another so every cut lands on a beat (one undo
+ * step)
+ *
+ * Clips are only shortened, never stretched past their length. Clips too
+ * short for one beat, and clips after the music ends, are left alone.
+ */
+export function cutClipsToBeats(
+  ir: CompositionIR,
+  beatFrames: number[],
+  { clipIds, beatsPerCut = DEFAULT_BEATS_PER_CUT, startFrame }: BeatCutOptions
+): { updatedIR: CompositionIR; placed: string[]; skipped: string[] } | { error: string } {
+  if (clipIds.length === 0) {
+    return { error: "No clips to cut" };
+  }
+  if (!(beatsPerCut >= 1)) {
+    return { error: "Clips must last at least one beat" };
+  }
+
+  for (const id of clipIds) {
+    const element = findElementById(ir.elements, id);
+    if (!element) {
+      return { error: `Element ${id} not found in composition` };
+    }
+    if (element.type !== "video" && element.type !== "image") {
+      return { error: `Only video and image clips can be cut to the beat (element ${id} is ${element.type})` };
+    }
+    if (findParentElement(ir.elements, id)) {
+      return { error: `Element ${id} is inside a sequence; cut top-level clips to the beat` };
+    }
+  }
+
+  let beat = beatFrames.findIndex((frame) => frame >= (startFrame ?? 0));
+  if (beat === -1 || beat >= beatFrames.length - 1) {
+    return { error: "No beats to cut to in the music track" };
+  }
+
+  const plans: EditPlan[] = [];
+  const placed: string[] = [];
+  const skipped: string[] = [];
+  for (const id of clipIds) {
+    const element = findElementById(ir.elements, id)!;
+    const selector = { type: "byId" as const, id };
+
+    // As many beats as wanted that fit the clip and the music left
+    let count = Math.min(Math.floor(beatsPerCut), beatFrames.length - 1 - beat);
+    while (count >= 1 && beatFrames[beat + count] - beatFrames[beat] > element.durationInFrames) {
+      count--;
+    }
+    if (count < 1) {
+      skipped.push(id);
+      continue;
+    }
+
+    const durationInFrames = beatFrames[beat + count] - beatFrames[beat];
+    if (durationInFrames < element.durationInFrames) {
+      plans.push({ operation: "trim", selector, changes: { trimEnd: element.durationInFrames - durationInFrames } });
+    }
+    if (beatFrames[beat] !== element.from) {
+      plans.push({ operation: "move", selector, changes: { from: beatFrames[beat] } });
+    }
+    placed.push(id);
+    beat += count;
+  }
+
+  if (placed.length === 0) {
+    return { error: "None of the clips are long enough for a beat" };
+  }
+
+  const result = executeTransaction(ir, {
+    plans,
+    description: `Cut ${placed.length} ${placed.length === 1 ? "clip" : "clips"} to the beat`,
+  });
+  if (!result.success) {
+    return { error: result.error || "Clips could not be cut to the beat" };
+  }
+
+  return { updatedIR: result.updatedIR!, placed, skipped };
+}
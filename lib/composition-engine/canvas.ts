@@ -0,0 +1,210 @@
+/**
+ * Canvas geometry
+ *
+ * Boxes, alignment guides and safe areas for moving, resizing and rotating
+ * elements directly on the preview. All values are in composition pixels;
+ * rotation is in degrees around the box center.
+ */
+
+import type { CompositionElement } from "@/types/composition-ir";
+
+export interface CanvasBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+}
+
+export type ResizeHandle = "nw" | "ne" | "sw" | "se";
+
+// A guide on the x axis is a vertical line, on the y axis a horizontal one
+export interface Guide {
+  axis: "x" | "y";
+  position: number;
+}
+
+export interface GuideLines {
+  x: number[];
+  y: number[];
+}
+
+// Snap distance on screen; divide by the preview scale for composition pixels
+export const GUIDE_SNAP_PX = 6;
+export const ROTATION_SNAP_DEGREES = 15;
+export const MIN_BOX_SIZE = 8;
+
+// Broadcast safe areas, inset from each edge as a fraction of the frame
+export const SAFE_AREA_INSETS = { action: 0.05, title: 0.1 };
+
+// Element types that have a position on the canvas
+const POSITIONED_TYPES = ["video", "image", "text", "shape"];
+
+/**
+ * Whether an element can be moved on the canvas
+ */
+export function isPositionable(element: CompositionElement): boolean {
+  return POSITIONED_TYPES.includes(element.type);
+}
+
+/**
+ * An element's box; `measured` fills in sizes the element leaves to layout
+ */
+export function getElementBox(
+  element: CompositionElement,
+  measured?: { width: number; height: number }
+): CanvasBox {
+  const { x = 0, y = 0, width, height, rotation = 0 } = element.properties;
+  return {
+    x,
+    y,
+    width: width ?? measured?.width ?? 0,
+    height: height ?? measured?.height ?? 0,
+    rotation,
+  };
+}
+
+/**
+ * Action-safe and title-safe areas of a frame
+ */
+export function getSafeAreas(width: number, height: number): { action: CanvasBox; title: CanvasBox } {
+  const inset = (fraction: number): CanvasBox => ({
+    x: width * fraction,
+    y: height * fraction,
+    width: width * (1 - 2 * fraction),
+    height: height * (1 - 2 * fraction),
+    rotation: 0,
+  });
+  return { action: inset(SAFE_AREA_INSETS.action), title: inset(SAFE_AREA_INSETS.title) };
+}
+
+/**
+ * Lines a moved box aligns to: the frame's edges and center, and the edges
+ * and centers of the other boxes
+ */
+export function getGuideLines(others: CanvasBox[], canvas: { width: number; height: number }): GuideLines {
+  const x = new Set([0, canvas.width / 2, canvas.width]);
+  const y = new Set([0, canvas.height / 2, canvas.height]);
+  for (const box of others) {
+    x.add(box.x).add(box.x + box.width / 2).add(box.x + box.width);
+    y.add(box.y).add(box.y + box.height / 2).add(box.y + box.height);
+  }
+  return { x: Array.from(x), y: Array.from(y) };
+}
+
+/**
+ * Snap a moved box so its nearest edge or center lands on a guide line
+ * Returns the snapped box and the guides it lines up with
+ */
+export function snapBoxToGuides(
+  box: CanvasBox,
+  lines: GuideLines,
+  threshold: number
+): { box: CanvasBox; guides: Guide[] } {
+  const guides: Guide[] = [];
+  const snapped = { ...box };
+
+  const x = nearestAlignment([box.x, box.x + box.width / 2, box.x + box.width], lines.x, threshold);
+  if (x) {
+    snapped.x += x.offset;
+    guides.push({ axis: "x", position: x.line });
+  }
+
+  const y = nearestAlignment([box.y, box.y + box.height / 2, box.y + box.height], lines.y, threshold);
+  if (y) {
+    snapped.y += y.offset;
+    guides.push({ axis: "y", position: y.line });
+  }
+
+  return { box: snapped, guides };
+}
+
+function nearestAlignment(
+  points: number[],
+  lines: number[],
+  threshold: number
+): { line: number; offset: number } | undefined {
+  let best: { line: number; offset: number } | undefined;
+  for (const point of points) {
+    for (const line of lines) {
+      const offset = line - point;
+      if (Math.abs(offset) <= threshold && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+        best = { line, offset };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Resize a box by dragging a corner handle, keeping the opposite corner fixed
+ * With `keepAspect`, the larger relative change is applied to both sides.
+ */
+export function resizeBox(
+  box: CanvasBox,
+  handle: ResizeHandle,
+  dx: number,
+  dy: number,
+  keepAspect: boolean
+): CanvasBox {
+  const west = handle === "nw" || handle === "sw";
+  const north = handle === "nw" || handle === "ne";
+
+  let width = Math.max(MIN_BOX_SIZE, box.width + (west ? -dx : dx));
+  let height = Math.max(MIN_BOX_SIZE, box.height + (north ? -dy : dy));
+
+  if (keepAspect && box.width > 0 && box.height > 0) {
+    const scale = Math.max(width / box.width, height / box.height);
+    width = Math.max(MIN_BOX_SIZE, box.width * scale);
+    height = Math.max(MIN_BOX_SIZE, box.height * scale);
+  }
+
+  return {
+    ...box,
+    x: west ? box.x + box.width - width : box.x,
+    y: north ? box.y + box.height - height : box.y,
+    width,
+    height,
+  };
+}
+
+/**
+ * Rotation that points the box's top at the pointer (0° is straight up)
+ */
+export function rotationFromPointer(box: CanvasBox, pointerX: number, pointerY: number, snap: boolean): number {
+  const centerX = box.x + box.width / 2;
+  const centerY = box.y + box.height / 2;
+  const degrees = (Math.atan2(pointerX - centerX, centerY - pointerY) * 180) / Math.PI;
+  const rotation = snap ? Math.round(degrees / ROTATION_SNAP_DEGREES) * ROTATION_SNAP_DEGREES : degrees;
+  // Keep within (-180, 180]
+  return rotation <= -180 ? rotation + 360 : rotation;
+}
+
+/**
+ * Property changes that give an element a new box
+ *
+ * Text scales its font with the box height and keeps its height to layout;
+ * other elements take the box size directly.
+ */
+export function getBoxChanges(
+  element: CompositionElement,
+  from: CanvasBox,
+  to: CanvasBox
+): Record<string, number> {
+  const changes: Record<string, number> = {};
+  if (to.x !== from.x) changes.x = Math.round(to.x);
+  if (to.y !== from.y) changes.y = Math.round(to.y);
+  if (to.rotation !== from.rotation) changes.rotation = Math.round(to.rotation * 10) / 10;
+
+  if (to.width !== from.width || to.height !== from.height) {
+    changes.width = Math.round(to.width);
+    if (element.type === "text" && element.properties.height === undefined && from.height > 0) {
+      const fontSize = element.properties.fontSize ?? 48;
+      changes.fontSize = Math.max(1, Math.round((fontSize * to.height) / from.height));
+    } else {
+      changes.height = Math.round(to.height);
+    }
+  }
+
+  return changes;
+}
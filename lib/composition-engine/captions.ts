@@ -0,0 +1,430 @@
+/**
+ * Captions
+ *
+ * Turns a transcript with word timings into timed text elements: words are
+ * grouped into caption lines (breaking at sentence ends, pauses and a
+ * character budget), then styled with a caption style and placed in the
+ * title-safe area. Captions live on their own "Captions" overlay track so
+ * they can be hidden, locked or replaced together.
+ *
+ * Transcript times are seconds into the captioned audio; captions start at
+ * `startFrame`, or are aligned to a clip with alignWordsToClip first.
+ * Captions that are already timed (imported subtitles) are only styled.
+ */
+
+import type {
+  Animation,
+  CompositionElement,
+  CompositionIR,
+  CompositionMetadata,
+  EditPlan,
+  TextElementProperties,
+  Track,
+  TranscriptWord,
+} from "@/types/composition-ir";
+import { applyAnimationPreset, type AnimationPresetName } from "./presets";
+import { estimateTextLines, TEXT_DEFAULTS } from "./text";
+import { getSafeAreas } from "./canvas";
+import { elementsOverlap } from "./utils";
+import { executeTransaction } from "./executor";
+import { getTracks, setTracks } from "./timeline";
+
+export type CaptionStyleName = "subtitle" | "bold" | "minimal" | "pop" | "reveal";
+
+export type CaptionPosition = "bottom" | "center" | "top";
+
+export interface CaptionStyle {
+  label: string;
+  description: string;
+  maxChars: number; // Characters per caption
+  uppercase?: boolean;
+  properties: Partial<TextElementProperties>; // Sized for a 1080p frame
+  animation?: AnimationPresetName; // Applied to every caption
+  revealWords?: boolean; // Words appear as they are spoken
+}
+
+export interface CaptionStyleOptions {
+  style?: CaptionStyleName; // Default "subtitle"
+  position?: CaptionPosition; // Default "bottom"
+}
+
+export interface CaptionOptions extends CaptionStyleOptions {
+  maxCharsPerLine?: number; // Default per style
+  startFrame?: number; // Composition frame of transcript time 0 (default 0)
+}
+
+export interface CaptionLine {
+  text: string;
+  words: TranscriptWord[];
+  start: number; // Seconds
+  end: number;
+}
+
+// A caption's text and timing, before styling
+export interface TimedCaption {
+  text: string;
+  from: number;
+  durationInFrames: number;
+  wordFrames?: number[]; // Start of each word relative to `from` (spread evenly when unknown)
+}
+
+export type CaptionElement = Omit<CompositionElement, "id">;
+
+export const CAPTION_TRACK_NAME = "Captions";
+
+export const CAPTION_POSITIONS: CaptionPosition[] = ["bottom", "center", "top"];
+
+// A caption never stays up longer than this, and holds at least this long
+export const MAX_CAPTION_SECONDS = 3;
+export const MIN_CAPTION_SECONDS = 0.5;
+
+// Pauses longer than this start a new caption; shorter gaps between
+// captions are bridged so the text doesn't flicker
+export const CAPTION_GAP_SECONDS = 0.6;
+
+const OUTLINED: Partial<TextElementProperties> = {
+  fontSize: 72,
+  fontWeight: "bold",
+  lineHeight: 1.1,
+  strokeWidth: 4,
+  shadow: {},
+};
+
+export const CAPTION_STYLES: Record<CaptionStyleName, CaptionStyle> = {
+  subtitle: {
+    label: "Subtitle",
+    description: "Classic white subtitles with a thin outline",
+    maxChars: 42,
+    properties: { fontSize: 44, strokeWidth: 2, shadow: { blur: 6, offsetY: 2 } },
+  },
+  bold: {
+    label: "Bold",
+    description: "Large uppercase captions with a heavy outline",
+    maxChars: 24,
+    uppercase: true,
+    properties: OUTLINED,
+  },
+  minimal: {
+    label: "Minimal",
+    description: "Small text with a soft shadow",
+    maxChars: 42,
+    properties: { fontSize: 36, shadow: { blur: 8, offsetY: 0 } },
+  },
+  pop: {
+    label: "Pop",
+    description: "Bold captions that spring in one after another",
+    maxChars: 24,
+    uppercase: true,
+    properties: OUTLINED,
+    animation: "scale-pop",
+  },
+  reveal: {
+    label: "Word Reveal",
+    description: "Bold captions whose words appear as they are spoken",
+    maxChars: 24,
+    uppercase: true,
+    properties: OUTLINED,
+    revealWords: true,
+  },
+};
+
+export const CAPTION_STYLE_NAMES = Object.keys(CAPTION_STYLES) as CaptionStyleName[];
+
+const endsSentence = (text: string) => /[.!?…]["')\]]?$/.test(text);
+const endsClause = (text: string) => /[,;:]["')\]]?$/.test(text);
+
+/**
+ * Group words into caption lines
+ */
+export function groupCaptionLines(
+  words: TranscriptWord[],
+  { maxChars = CAPTION_STYLES.subtitle.maxChars, maxDuration = MAX_CAPTION_SECONDS, maxGap = CAPTION_GAP_SECONDS } = {}
+): CaptionLine[] {
+  const lines: CaptionLine[] = [];
+  let current: TranscriptWord[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    lines.push({
+      text: current.map((word) => word.text).join(" "),
+      words: current,
+      start: current[0].start,
+      end: current[current.length - 1].end,
+    });
+    current = [];
+  };
+
+  const sorted = words
+    .map((word) => ({ ...word, text: word.text.trim() }))
+    .filter((word) => word.text)
+    .sort((a, b) => a.start - b.start);
+
+  for (const word of sorted) {
+    if (current.length > 0) {
+      const last = current[current.length - 1];
+      const length = current.reduce((sum, w) => sum + w.text.length + 1, 0) + word.text.length;
+      if (
+        endsSentence(last.text) ||
+        (endsClause(last.text) && length > maxChars / 2) ||
+        length > maxChars ||
+        word.end - current[0].start > maxDuration ||
+        word.start - last.end > maxGap
+      ) {
+        flush();
+      }
+    }
+    current.push(word);
+  }
+  flush();
+
+  return lines;
+}
+
+/**
+ * Words of a clip's audio in composition seconds, dropping words outside
+ * the clip's trimmed range (`absoluteFrom` is the clip's composition frame)
+ */
+export function alignWordsToClip(
+  words: TranscriptWord[],
+  clip: CompositionElement,
+  absoluteFrom: number,
+  fps: number
+): TranscriptWord[] {
+  const rate = clip.properties.playbackRate ?? 1;
+  const sourceStart = (clip.properties.startFrom ?? 0) / fps;
+  const sourceEnd = sourceStart + (clip.durationInFrames * rate) / fps;
+  const toComposition = (time: number) => absoluteFrom / fps + (time - sourceStart) / rate;
+
+  return words
+    .filter((word) => word.start >= sourceStart && word.start < sourceEnd)
+    .map((word) => ({
+      text: word.text,
+      start: toComposition(word.start),
+      end: toComposition(Math.min(word.end, sourceEnd)),
+    }));
+}
+
+/**
+ * Text keyframes showing a caption's words as they are spoken
+ */
+function wordReveal({ text, durationInFrames, wordFrames }: TimedCaption, uppercase?: boolean): Animation {
+  const wordEnds: number[] = [];
+  const pattern = /\S+/g;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    wordEnds.push(match.index + match[0].length);
+  }
+
+  const byFrame = new Map<number, string>();
+  wordEnds.forEach((end, i) => {
+    const frame = wordFrames?.[i] ?? Math.round((i * durationInFrames) / wordEnds.length);
+    const shown = text.slice(0, end);
+    byFrame.set(Math.max(0, frame), uppercase ? shown.toUpperCase() : shown);
+  });
+  const keyframes = Array.from(byFrame, ([frame, value]) => ({ frame, value }));
+  return { property: "text", keyframes, easing: "linear" };
+}
+
+/**
+ * Caption text elements for a transcript
+ */
+export function buildCaptions(
+  words: TranscriptWord[],
+  metadata: CompositionMetadata,
+  options: CaptionOptions = {}
+): { captions: CaptionElement[] } | { error: string } {
+  const style = CAPTION_STYLES[options.style ?? "subtitle"];
+  const startFrame = options.startFrame ?? 0;
+  if (!(startFrame >= 0)) {
+    return { error: "Captions can't start before frame 0" };
+  }
+  if (options.maxCharsPerLine !== undefined && !(options.maxCharsPerLine >= 1)) {
+    return { error: "maxCharsPerLine must be at least 1" };
+  }
+  const invalid = validateTranscriptWords(words);
+  if (invalid) {
+    return { error: invalid };
+  }
+
+  const { fps } = metadata;
+  const lines = groupCaptionLines(words, { maxChars: options.maxCharsPerLine ?? style?.maxChars });
+  const starts = lines.map((line) => startFrame + Math.round(line.start * fps));
+  const minFrames = Math.max(1, Math.round(MIN_CAPTION_SECONDS * fps));
+  const gapFrames = Math.round(CAPTION_GAP_SECONDS * fps);
+
+  const timed = lines.map((line, i): TimedCaption => {
+    const from = starts[i];
+    const next = starts[i + 1];
+    let end = Math.max(startFrame + Math.round(line.end * fps), from + minFrames);
+    if (next !== undefined && next - end <= gapFrames) {
+      end = next;
+    }
+    return {
+      text: line.text,
+      from,
+      durationInFrames: Math.max(end - from, 1),
+      wordFrames: line.words.map((word) => Math.round((word.start - line.start) * fps)),
+    };
+  });
+
+  return styleCaptions(timed, metadata, options);
+}
+
+/**
+ * Caption text elements for timed captions, styled and placed in the
+ * title-safe area
+ */
+export function styleCaptions(
+  timed: TimedCaption[],
+  metadata: CompositionMetadata,
+  options: CaptionStyleOptions = {}
+): { captions: CaptionElement[] } | { error: string } {
+  const styleName = options.style ?? "subtitle";
+  const style = CAPTION_STYLES[styleName];
+  if (!style) {
+    return { error: `Unknown caption style "${styleName}". Available: ${CAPTION_STYLE_NAMES.join(", ")}` };
+  }
+  const position = options.position ?? "bottom";
+  if (!CAPTION_POSITIONS.includes(position)) {
+    return { error: `Invalid caption position: ${position}. Use ${CAPTION_POSITIONS.join(", ")}` };
+  }
+
+  const { width, height } = metadata;
+  const safe = getSafeAreas(width, height).title;
+
+  // Styles are sized for 1080p; scale them with the shorter side of the frame
+  const scale = Math.min(width, height) / 1080;
+  const fontSize = Math.round((style.properties.fontSize ?? TEXT_DEFAULTS.fontSize) * scale);
+  const properties: Partial<TextElementProperties> = {
+    ...style.properties,
+    fontSize,
+    color: "#ffffff",
+    textAlign: "center",
+    x: Math.round(safe.x),
+    width: Math.round(safe.width),
+  };
+  if (style.properties.strokeWidth) {
+    properties.strokeWidth = Math.max(1, Math.round(style.properties.strokeWidth * scale));
+  }
+  const lineHeight = properties.lineHeight ?? TEXT_DEFAULTS.lineHeight;
+
+  const captions = timed.map((caption, i): CaptionElement => {
+    const text = style.uppercase ? caption.text.toUpperCase() : caption.text;
+    const boxHeight = estimateTextLines(text, fontSize, properties, safe.width) * fontSize * lineHeight;
+    const y =
+      position === "top" ? safe.y : position === "center" ? (height - boxHeight) / 2 : safe.y + safe.height - boxHeight;
+
+    const element: CaptionElement = {
+      type: "text",
+      label: `Caption ${i + 1}`,
+      from: caption.from,
+      durationInFrames: caption.durationInFrames,
+      properties: { ...properties, text, y: Math.round(y) },
+    };
+    if (style.revealWords) {
+      element.animations = [wordReveal(caption, style.uppercase)];
+    }
+    if (style.animation) {
+      const result = applyAnimationPreset({ id: "", ...element }, metadata, style.animation);
+      if ("animations" in result) element.animations = result.animations;
+    }
+    return element;
+  });
+
+  return { captions };
+}
+
+/**
+ * The composition's caption track, added above the other overlay tracks if
+ * there isn't one yet
+ */
+export function withCaptionTrack(tracks: Track[], id: string): { tracks: Track[]; track: Track } {
+  const existing = tracks.find((track) => track.kind === "overlay" && track.name === CAPTION_TRACK_NAME);
+  if (existing) {
+    return { tracks, track: existing };
+  }
+
+  const track: Track = { id, name: CAPTION_TRACK_NAME, kind: "overlay" };
+  const index = tracks.findIndex((t) => t.kind === "overlay");
+  const updated = [...tracks];
+  updated.splice(index === -1 ? tracks.length : index, 0, track);
+  return { tracks: updated, track };
+}
+
+/**
+ * Captions on a track that new captions over the same frames replace
+ */
+export function getReplacedCaptions(
+  elements: CompositionElement[],
+  trackId: string,
+  captions: CaptionElement[]
+): CompositionElement[] {
+  if (captions.length === 0) return [];
+  const start = captions[0].from;
+  const last = captions[captions.length - 1];
+  const range = { from: start, durationInFrames: last.from + last.durationInFrames - start };
+  return elements.filter((element) => element.trackId === trackId && elementsOverlap(element, range));
+}
+
+/**
+ * Add captions to the composition's Captions track as one transaction (a
+ * single undo step), replacing captions already there over the same frames
+ */
+export function insertCaptions(
+  ir: CompositionIR,
+  captions: CaptionElement[],
+  { newTrackId, replace = true, description }: { newTrackId: string; replace?: boolean; description?: string }
+): { updatedIR: CompositionIR; elementIds: string[]; trackId: string; replaced: number } | { error: string } {
+  if (captions.length === 0) {
+    return { error: "No captions to add" };
+  }
+
+  const { tracks, track } = withCaptionTrack(getTracks(ir), newTrackId);
+  const replaced = replace ? getReplacedCaptions(ir.elements, track.id, captions) : [];
+
+  const plans: EditPlan[] = [
+    ...replaced.map((element): EditPlan => ({
+      operation: "delete",
+      selector: { type: "byId", id: element.id },
+      changes: {},
+    })),
+    ...captions.map((caption): EditPlan => ({
+      operation: "add",
+      selector: { type: "byId", id: "" },
+      changes: { ...caption, trackId: track.id },
+    })),
+  ];
+  const receipt = description ?? `Added ${captions.length} captions`;
+  const result = executeTransaction(ir, { plans, description: receipt });
+  if (!result.success) {
+    return { error: result.error || "Captions could not be added" };
+  }
+
+  // A new Captions track joins the captions' undo step
+  const updatedIR =
+    tracks === getTracks(ir)
+      ? result.updatedIR!
+      : setTracks(result.updatedIR!, tracks, { description: receipt, groupId: result.patches?.[0]?.groupId });
+
+  return {
+    updatedIR,
+    elementIds: result.affectedElements.slice(replaced.length),
+    trackId: track.id,
+    replaced: replaced.length,
+  };
+}
+
+/**
+ * Why transcript words are invalid, or null if they are valid
+ */
+export function validateTranscriptWords(words: TranscriptWord[]): string | null {
+  if (!words.some((word) => word.text?.trim())) {
+    return "Transcript has no words";
+  }
+  for (const word of words) {
+    if (typeof word.text !== "string") return "Transcript words need text";
+    if (!(word.start >= 0) || !(word.end >= word.start)) {
+      return `Invalid timing for "${word.text}": start must be at least 0 and end at least start`;
+    }
+  }
+  return null;
+}
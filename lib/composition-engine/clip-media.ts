@@ -0,0 +1,165 @@
+/**
+ * Waveforms and filmstrips for timeline clips
+ *
+ * An asset's waveform is computed once from its decoded audio and stored on
+ * the asset; clips draw the part they play. Video clips show a filmstrip of
+ * Cloudflare Stream thumbnails at the source times under each tile.
+ */
+
+import type { CompositionElement, Waveform } from "@/types/composition-ir";
+
+export const WAVEFORM_PEAKS_PER_SECOND = 50;
+
+// Convex arrays hold at most 8192 values; long assets get fewer peaks per second
+export const MAX_WAVEFORM_PEAKS = 8000;
+
+export const MAX_FILMSTRIP_TILES = 100;
+
+// Where an asset's file and thumbnails can be found
+interface AssetMedia {
+  streamId?: string;
+  playbackUrl?: string;
+  downloadUrl?: string;
+  thumbnailUrl?: string;
+}
+
+/**
+ * The asset a clip was added from, matched by its URLs
+ */
+export function findClipAsset<T extends AssetMedia>(assets: T[], element: CompositionElement): T | undefined {
+  const { src, downloadUrl } = element.properties;
+  return assets.find(
+    (asset) => (src && asset.playbackUrl === src) || (downloadUrl && asset.downloadUrl === downloadUrl)
+  );
+}
+
+/**
+ * A downloadable file for an asset: the MP4 for Stream videos (HLS
+ * playlists can't be decoded), otherwise the file itself
+ */
+export function getAssetFileUrl(asset: AssetMedia): string | null {
+  return asset.downloadUrl || (asset.streamId ? null : asset.playbackUrl || null);
+}
+
+/**
+ * Waveform of decoded audio: the loudest sample of every channel per peak,
+ * scaled so the loudest peak is 1
+ */
+export function computeWaveformPeaks(channels: ArrayLike<number>[], sampleRate: number): Waveform {
+  const length = channels[0]?.length ?? 0;
+  const duration = length / sampleRate;
+  const peaksPerSecond = duration > 0
+    ? Math.min(WAVEFORM_PEAKS_PER_SECOND, MAX_WAVEFORM_PEAKS / duration)
+    : WAVEFORM_PEAKS_PER_SECOND;
+  const count = Math.min(Math.ceil(duration * peaksPerSecond), MAX_WAVEFORM_PEAKS);
+  const samplesPerPeak = sampleRate / peaksPerSecond;
+
+  const peaks: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const start = Math.floor(i * samplesPerPeak);
+    const end = Math.min(length, Math.floor((i + 1) * samplesPerPeak));
+    let peak = 0;
+    for (const channel of channels) {
+      for (let j = start; j < end; j++) {
+        peak = Math.max(peak, Math.abs(channel[j]));
+      }
+    }
+    peaks.push(peak);
+  }
+
+  const loudest = Math.max(0, ...peaks);
+  return {
+    peaksPerSecond,
+    peaks: peaks.map((peak) => (loudest > 0 ? Math.round((peak / loudest) * 1000) / 1000 : 0)),
+  };
+}
+
+/**
+ * Why a waveform can't be stored, or null if it can
+ */
+export function validateWaveform(waveform: Waveform): string | null {
+  if (!(waveform.peaksPerSecond > 0)) {
+    return "Waveform needs a positive peaks per second";
+  }
+  if (waveform.peaks.length > MAX_WAVEFORM_PEAKS) {
+    return `Waveform has too many peaks (max ${MAX_WAVEFORM_PEAKS})`;
+  }
+  if (waveform.peaks.some((peak) => !(peak >= 0 && peak <= 1))) {
+    return "Waveform peaks must be between 0 and 1";
+  }
+  return null;
+}
+
+/**
+ * Seconds of the source a clip plays, after trims and speed changes
+ */
+export function getClipSourceRange(element: CompositionElement, fps: number): { start: number; end: number } {
+  const start = (element.properties.startFrom ?? 0) / fps;
+  const rate = element.properties.playbackRate ?? 1;
+  return { start, end: start + (element.durationInFrames * rate) / fps };
+}
+
+/**
+ * Bar heights (0-1) for drawing a waveform between two source times
+ */
+export function getWaveformBars(waveform: Waveform, start: number, end: number, count: number): number[] {
+  const { peaks, peaksPerSecond } = waveform;
+  const step = (end - start) / count;
+  // Peak position of a time, without float drift pulling in a neighbouring peak
+  const peakAt = (seconds: number) => Math.round(seconds * peaksPerSecond * 1e6) / 1e6;
+
+  return Array.from({ length: count }, (_, i) => {
+    const first = Math.max(0, Math.floor(peakAt(start + i * step)));
+    const last = Math.max(first + 1, Math.ceil(peakAt(start + (i + 1) * step)));
+    let bar = 0;
+    for (let j = first; j < Math.min(last, peaks.length); j++) {
+      bar = Math.max(bar, peaks[j]);
+    }
+    return bar;
+  });
+}
+
+/**
+ * Cloudflare Stream thumbnail of an asset at a time, or null for assets
+ * not on Stream
+ *
+ * @see https://developers.cloudflare.com/stream/viewing-videos/displaying-thumbnails/
+ */
+export function getStreamThumbnailUrl(asset: AssetMedia, seconds: number, height: number): string | null {
+  const base = asset.thumbnailUrl?.includes("/thumbnails/")
+    ? asset.thumbnailUrl.split("?")[0]
+    : asset.playbackUrl?.includes("cloudflarestream.com")
+      ? asset.playbackUrl.replace(/\/manifest\/.*$/, "/thumbnails/thumbnail.jpg")
+      : null;
+  return base ? `${base}?time=${seconds}s&height=${height}` : null;
+}
+
+export interface FilmstripTile {
+  left: number; // Pixels from the clip's start
+  width: number;
+  seconds: number; // Source time shown
+}
+
+/**
+ * Filmstrip tiles covering a clip at a zoom level (pixels per frame)
+ *
+ * Each tile shows the source time at its left edge, rounded to a tenth of a
+ * second so tiles reuse thumbnails while dragging.
+ */
+export function getFilmstripTiles(
+  element: CompositionElement,
+  fps: number,
+  zoom: number,
+  tileWidth: number
+): FilmstripTile[] {
+  const clipWidth = element.durationInFrames * zoom;
+  const count = Math.min(Math.max(1, Math.ceil(clipWidth / tileWidth)), MAX_FILMSTRIP_TILES);
+  const width = clipWidth / count;
+  const { start, end } = getClipSourceRange(element, fps);
+
+  return Array.from({ length: count }, (_, i) => ({
+    left: i * width,
+    width,
+    seconds: Math.round((start + ((end - start) * i) / count) * 10) / 10,
+  }));
+}
@@ -0,0 +1,123 @@
+/**
+ * Color interpolation
+ *
+ * Colors animate in OKLab with premultiplied alpha, so fades between hues
+ * keep a steady lightness and fading from "transparent" doesn't pass
+ * through grey. The compiler emits the same `mixOklab` math into generated
+ * code (see OKLAB_HELPER_SOURCE in compiler.ts).
+ */
+
+export interface RGBA {
+  r: number; // 0-255
+  g: number;
+  b: number;
+  a: number; // 0-1
+}
+
+// Premultiplied [L, a, b, alpha]
+export type Oklab = [number, number, number, number];
+
+const NAMED_COLORS: Record<string, string> = {
+  black: "#000000",
+  white: "#ffffff",
+  red: "#ff0000",
+  green: "#008000",
+  blue: "#0000ff",
+  yellow: "#ffff00",
+  cyan: "#00ffff",
+  magenta: "#ff00ff",
+  orange: "#ffa500",
+  purple: "#800080",
+  pink: "#ffc0cb",
+  gray: "#808080",
+  grey: "#808080",
+};
+
+/**
+ * Parse a hex, rgb()/rgba() or basic named CSS color; null if unsupported
+ */
+export function parseColor(value: string): RGBA | null {
+  const text = value.trim().toLowerCase();
+  if (text === "transparent") return { r: 0, g: 0, b: 0, a: 0 };
+  if (NAMED_COLORS[text]) return parseColor(NAMED_COLORS[text]);
+
+  const hex = text.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length <= 4) digits = digits.replace(/./g, (d) => d + d);
+    const channel = (i: number) => parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+    return { r: channel(0), g: channel(1), b: channel(2), a: digits.length === 8 ? channel(3) / 255 : 1 };
+  }
+
+  const rgb = text.match(/^rgba?\(([^)]*)\)$/);
+  if (rgb) {
+    const parts = rgb[1].split(/[\s,/]+/).filter(Boolean);
+    if (parts.length !== 3 && parts.length !== 4) return null;
+    const numbers = parts.map((part, i) =>
+      part.endsWith("%") ? (parseFloat(part) / 100) * (i < 3 ? 255 : 1) : parseFloat(part)
+    );
+    if (numbers.some((n) => !Number.isFinite(n))) return null;
+    const [r, g, b, a = 1] = numbers;
+    return { r, g, b, a };
+  }
+
+  return null;
+}
+
+const toLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4);
+
+/**
+ * Convert a color to premultiplied OKLab
+ */
+export function toOklab({ r, g, b, a }: RGBA): Oklab {
+  const lr = toLinear(r / 255);
+  const lg = toLinear(g / 255);
+  const lb = toLinear(b / 255);
+
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+  return [
+    (0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s) * a,
+    (1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s) * a,
+    (0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s) * a,
+    a,
+  ];
+}
+
+/**
+ * Mix two premultiplied OKLab colors and format the result as rgba()
+ */
+export function mixOklab(from: Oklab, to: Oklab, t: number): string {
+  const [pl, pa, pb, alpha] = from.map((value, i) => value + (to[i] - value) * t);
+  const a = Math.min(Math.max(alpha, 0), 1);
+  if (a === 0) return "rgba(0, 0, 0, 0)";
+
+  const L = pl / alpha;
+  const A = pa / alpha;
+  const B = pb / alpha;
+  const l = (L + 0.3963377774 * A + 0.2158037573 * B) ** 3;
+  const m = (L - 0.1055613458 * A - 0.0638541728 * B) ** 3;
+  const s = (L - 0.0894841775 * A - 1.291485548 * B) ** 3;
+
+  const channel = (c: number) => {
+    const srgb = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+    return Math.round(Math.min(Math.max(srgb, 0), 1) * 255);
+  };
+
+  const r = channel(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s);
+  const g = channel(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s);
+  const b = channel(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s);
+  return `rgba(${r}, ${g}, ${b}, ${Math.round(a * 1000) / 1000})`;
+}
+
+/**
+ * Color between two CSS colors at progress `t`; unparseable colors switch at the end
+ */
+export function interpolateColor(from: string, to: string, t: number): string {
+  const start = parseColor(from);
+  const end = parseColor(to);
+  if (!start || !end) return t >= 1 ? to : from;
+  return mixOklab(toOklab(start), toOklab(end), t);
+}
@@ -13,15 +13,43 @@ import type {
   CompositionIR,
   CompositionElement,
   Animation,
+  EasingType,
   Keyframe,
+  KeyframeValue,
+  Point,
+  TextSpan,
 } from "@/types/composition-ir";
+import { parseColor, toOklab } from "./color";
+import { SPRING_SAMPLE_FPS, getSpringConfig, getSpringSettleFrames } from "./easing";
+import { AUDIO_PROPERTIES, FILTER_FUNCTIONS, TRANSFORM_FUNCTIONS, getPropertyType, sortKeyframes } from "./keyframes";
+import {
+  getRenderDuration,
+  getTransitionEffect,
+  getTransitionWindows,
+  type TransitionWindow,
+} from "./transitions";
+import { getShapeDrawing, type SvgNode } from "./shapes";
+import { getTextRuns, getTextStyle } from "./text";
+import { applyTrackState } from "./timeline";
+import { getStaticVolume, getVolumeEnvelopes, type VolumeEnvelope } from "./audio";
+
+// Shared by every element of one compilation
+interface CompileContext {
+  fps: number;
+  volumes: Map<string, VolumeEnvelope>; // Audio mix, by element ID
+}
 
 /**
  * Compile IR to Remotion code
  */
 export function compileIRToRemotionCode(ir: CompositionIR): string {
   const componentName = `Composition_${sanitizeId(ir.id)}`;
-  const elements = ir.elements.map((el) => renderElement(el, ir.metadata.fps)).join("\n      ");
+  const rendered = applyTrackState(ir); // Hidden tracks skipped, muted tracks silenced
+  const context: CompileContext = { fps: ir.metadata.fps, volumes: getVolumeEnvelopes(rendered) };
+  const transitions = getTransitionWindows(rendered.elements);
+  const elements = rendered.elements
+    .map((el) => renderElement(el, context, 0, transitions.get(el.id)))
+    .join("\n      ");
 
   const code = `/**
  * Auto-generated Remotion composition
@@ -37,7 +65,9 @@ import {
   Video,
   Audio,
   Img,
+  Easing,
   interpolate,
+  spring,
   useCurrentFrame,
 } from "remotion";
 
@@ -59,38 +89,60 @@ ${renderHelpers(ir)}
 
 /**
  * Render a single element
+ *
+ * `parentFrom` is the absolute start of the enclosing sequence; Remotion
+ * offsets nested <Sequence> children by their parent's `from`. Elements in a
+ * transition are wrapped in a full-frame container that animates it.
  */
-function renderElement(element: CompositionElement, fps: number): string {
-  const animations = element.animations || [];
-  const animationProps = animations.length > 0 ? renderAnimations(element, animations) : "";
+function renderElement(
+  element: CompositionElement,
+  context: CompileContext,
+  parentFrom = 0,
+  transitions?: TransitionWindow[]
+): string {
+  const absoluteFrom = parentFrom + element.from;
+  const animationProps = renderAnimatedStyle(element, absoluteFrom);
+
+  const content = renderElementContent(element, animationProps, context, absoluteFrom);
 
   return `<Sequence
         from={${element.from}}
-        durationInFrames={${element.durationInFrames}}
+        durationInFrames={${getRenderDuration(element, transitions)}}
         data-element-id="${element.id}"
         ${element.label ? `data-label="${escapeString(element.label)}"` : ""}
       >
-        ${renderElementContent(element, animationProps)}
+        ${
+          transitions
+            ? `<AbsoluteFill style={{ ${renderTransitionStyle(transitions, parentFrom)} }}>
+          ${content}
+        </AbsoluteFill>`
+            : content
+        }
       </Sequence>`;
 }
 
 /**
  * Render element content based on type
  */
-function renderElementContent(element: CompositionElement, animationProps: string): string {
+function renderElementContent(
+  element: CompositionElement,
+  animationProps: string,
+  context: CompileContext,
+  absoluteFrom: number
+): string {
   switch (element.type) {
     case "video":
-      return renderVideoElement(element, animationProps);
+      return renderVideoElement(element, animationProps, context.volumes.get(element.id));
     case "audio":
-      return renderAudioElement(element, animationProps);
+      return renderAudioElement(element, context.volumes.get(element.id));
     case "text":
-      return renderTextElement(element, animationProps);
+      return renderTextElement(element, animationProps, absoluteFrom);
     case "image":
       return renderImageElement(element, animationProps);
     case "sequence":
-      return renderSequenceElement(element, animationProps);
+      return renderSequenceElement(element, animationProps, context, absoluteFrom);
     case "shape":
-      return renderShapeElement(element, animationProps);
+      return renderShapeElement(element, animationProps, absoluteFrom);
     default:
       return `{/* Unknown element type: ${element.type} */}`;
   }
@@ -99,14 +151,18 @@ function renderElementContent(element: CompositionElement, animationProps: strin
 /**
  * Render video element
  */
-function renderVideoElement(element: CompositionElement, animationProps: string): string {
+function renderVideoElement(
+  element: CompositionElement,
+  animationProps: string,
+  envelope?: VolumeEnvelope
+): string {
   const { src, volume = 1, playbackRate = 1, startFrom = 0, endAt } = element.properties;
 
   const style = animationProps ? `style={{ ${animationProps} }}` : "";
 
   return `<Video
           src="${escapeString(src)}"
-          volume={${volume}}
+          volume={${renderVolume(envelope, volume)}}
           playbackRate={${playbackRate}}
           startFrom={${startFrom}}
           ${endAt ? `endAt={${endAt}}` : ""}
@@ -117,63 +173,112 @@ function renderVideoElement(element: CompositionElement, animationProps: string)
 /**
  * Render audio element
  */
-function renderAudioElement(element: CompositionElement, animationProps: string): string {
+function renderAudioElement(element: CompositionElement, envelope?: VolumeEnvelope): string {
   const { src, volume = 1, playbackRate = 1, startFrom = 0, endAt } = element.properties;
 
   return `<Audio
           src="${escapeString(src)}"
-          volume={${volume}}
+          volume={${renderVolume(envelope, volume)}}
           playbackRate={${playbackRate}}
           startFrom={${startFrom}}
           ${endAt ? `endAt={${endAt}}` : ""}
         />`;
 }
 
+/**
+ * Render a clip's volume: a number, or a volume callback with the same math
+ * as evaluateVolume
+ *
+ * Remotion passes the callback frames relative to the clip, so the
+ * parameter shadows the composition `frame` and keyframes aren't shifted.
+ */
+function renderVolume(envelope: VolumeEnvelope | undefined, fallback: number): string {
+  if (!envelope) return `${fallback}`;
+  const fixed = getStaticVolume(envelope);
+  if (fixed !== null) return `${fixed}`;
+
+  const clampOptions = `{ extrapolateLeft: "clamp", extrapolateRight: "clamp" }`;
+  const { fadeIn, fadeOut, durationInFrames, ducking } = envelope;
+  const factors = [envelope.animation ? generateInterpolate(envelope.animation, 0) : `${envelope.volume}`];
+
+  if (fadeIn > 0) {
+    factors.push(`interpolate(frame, [0, ${fadeIn}], [0, 1], ${clampOptions})`);
+  }
+  if (fadeOut > 0) {
+    factors.push(`interpolate(frame, [${durationInFrames - fadeOut}, ${durationInFrames}], [1, 0], ${clampOptions})`);
+  }
+  if (ducking) {
+    const { level, attack, release } = ducking;
+    const windows = ducking.windows.map(
+      ({ start, end }) =>
+        `interpolate(frame, [${start - attack}, ${start}, ${end}, ${end + release}], [1, ${level}, ${level}, 1], ${clampOptions})`
+    );
+    factors.push(windows.length === 1 ? windows[0] : `Math.min(${windows.join(", ")})`);
+  }
+  if (envelope.gain !== 1) {
+    factors.push(`${envelope.gain}`);
+  }
+
+  return `(frame: number) => Math.min(Math.max(${factors.join(" * ")}, 0), 1)`;
+}
+
 /**
  * Render text element
+ * Same box style and styled spans as the runtime renderers (see text.ts)
  */
-function renderTextElement(element: CompositionElement, animationProps: string): string {
-  const {
-    text,
-    fontFamily = "Arial",
-    fontSize = 48,
-    fontWeight = "normal",
-    color = "#fff",
-    backgroundColor = "transparent",
-    textAlign = "center",
-    x = 0,
-    y = 0,
-    width,
-    height,
-    padding = 20,
-    borderRadius = 0,
-  } = element.properties;
+function renderTextElement(
+  element: CompositionElement,
+  animationProps: string,
+  absoluteFrom: number
+): string {
+  const { text, x = 0, y = 0, spans } = element.properties;
 
   const style = `
           position: "absolute",
           left: ${x},
           top: ${y},
-          ${width ? `width: ${width},` : ""}
-          ${height ? `height: ${height},` : ""}
-          fontFamily: "${escapeString(fontFamily)}",
-          fontSize: ${fontSize},
-          fontWeight: "${fontWeight}",
-          color: "${color}",
-          backgroundColor: "${backgroundColor}",
-          textAlign: "${textAlign}",
-          padding: ${padding},
-          borderRadius: ${borderRadius},
-          display: "flex",
-          alignItems: "center",
-          justifyContent: "center",
+          ${renderStyleEntries(getTextStyle(element.properties, element.animations))},
           ${animationProps ? animationProps + "," : ""}
   `.trim();
 
+  // Text swaps are held until their next keyframe
+  const textAnimation = element.animations?.find(
+    (animation) => animation.property === "text" && animation.keyframes.length > 0
+  );
+  const content = textAnimation
+    ? generateInterpolate(textAnimation, absoluteFrom, undefined, (value) => renderTextRuns(String(value), spans))
+    : renderTextRuns(String(text ?? ""), spans);
+
   return `<div style={{ ${style} }}>
-          {${JSON.stringify(text)}}
+          {${content}}
         </div>`;
 }
 
+/**
+ * Print text runs as a JSX expression (a plain string when nothing is styled)
+ */
+function renderTextRuns(text: string, spans?: TextSpan[]): string {
+  const runs = getTextRuns(text, spans);
+  if (runs.every((run) => !run.style)) {
+    return JSON.stringify(text);
+  }
+  const children = runs.map((run) =>
+    run.style
+      ? `<span style={{ ${renderStyleEntries(run.style)} }}>{${JSON.stringify(run.text)}}</span>`
+      : `{${JSON.stringify(run.text)}}`
+  );
+  return `<>${children.join("")}</>`;
+}
+
+/**
+ * Print a style object's entries for a JSX style={{ }}
+ */
+function renderStyleEntries(style: Record<string, string | number>): string {
+  return Object.entries(style)
+    .map(([name, value]) => `${name}: ${JSON.stringify(value)}`)
+    .join(", ");
+}
+
 /**
  * Render image element
  */
@@ -199,113 +304,309 @@ function renderImageElement(element: CompositionElement, animationProps: string)
 
 /**
  * Render sequence (nested container)
+ * Children are nested <Sequence>s, so their `from` stays relative to this sequence
  */
-function renderSequenceElement(element: CompositionElement, animationProps: string): string {
+function renderSequenceElement(
+  element: CompositionElement,
+  animationProps: string,
+  context: CompileContext,
+  absoluteFrom: number
+): string {
   const children = element.children || [];
-  const childElements = children.map((child) => renderElement(child, 30)).join("\n        ");
+  const transitions = getTransitionWindows(children);
+  const childElements = children
+    .map((child) => renderElement(child, context, absoluteFrom, transitions.get(child.id)))
+    .join("\n        ");
 
   const style = animationProps ? `style={{ ${animationProps} }}` : "";
 
-  return `<div ${style}>
+  return `<AbsoluteFill ${style}>
           ${childElements}
-        </div>`;
+        </AbsoluteFill>`;
 }
 
 /**
  * Render shape element
+ * Same SVG as ShapeSvg; an animated fill replaces the shape's fill attribute
  */
-function renderShapeElement(element: CompositionElement, animationProps: string): string {
-  const {
-    shape = "rectangle",
-    width = 100,
-    height = 100,
-    x = 0,
-    y = 0,
-    fill = "#fff",
-    stroke = "transparent",
-    strokeWidth = 0,
-    borderRadius = 0,
-  } = element.properties;
+function renderShapeElement(
+  element: CompositionElement,
+  animationProps: string,
+  absoluteFrom: number
+): string {
+  const { x = 0, y = 0, opacity = 1 } = element.properties;
+  const drawing = getShapeDrawing(element.properties, element.id);
+
+  const fillAnimation = drawing.fillable
+    ? element.animations?.find((animation) => animation.property === "fill" && animation.keyframes.length > 0)
+    : undefined;
+  const nodes = drawing.nodes
+    .map((node, i) =>
+      renderSvgNode(node, i === 0 && fillAnimation ? { fill: generateInterpolate(fillAnimation, absoluteFrom) } : {})
+    )
+    .join("\n            ");
+  const defs = drawing.defs.length > 0 ? `<defs>${drawing.defs.map((node) => renderSvgNode(node)).join("")}</defs>` : "";
 
   const style = `
           position: "absolute",
           left: ${x},
           top: ${y},
-          width: ${width},
-          height: ${height},
-          backgroundColor: "${fill}",
-          border: "${strokeWidth}px solid ${stroke}",
-          ${shape === "circle" ? `borderRadius: "50%",` : `borderRadius: ${borderRadius},`}
+          opacity: ${opacity},
           ${animationProps ? animationProps + "," : ""}
   `.trim();
+  const svgStyle = `display: "block"${drawing.filter ? `, filter: ${JSON.stringify(drawing.filter)}` : ""}`;
 
-  return `<div style={{ ${style} }} />`;
+  return `<div style={{ ${style} }}>
+          <svg width={${drawing.width}} height={${drawing.height}} viewBox="0 0 ${drawing.width} ${drawing.height}" overflow="visible" style={{ ${svgStyle} }}>
+            ${defs}
+            ${nodes}
+          </svg>
+        </div>`;
 }
 
 /**
- * Render animations for an element
+ * Print an SVG node as JSX; `expressions` replace attributes with code
  */
-function renderAnimations(element: CompositionElement, animations: Animation[]): string {
-  const frame = "frame"; // Current frame variable
-  const animationStyles: string[] = [];
-
-  for (const animation of animations) {
-    const { property, keyframes, easing = "linear" } = animation;
+function renderSvgNode(node: SvgNode, expressions: Record<string, string> = {}): string {
+  const attributes = Object.entries(node.attributes)
+    .map(([name, value]) => `${name}={${expressions[name] ?? JSON.stringify(value)}}`)
+    .join(" ");
+  const children = (node.children || []).map((child) => renderSvgNode(child)).join("");
+  return children ? `<${node.tag} ${attributes}>${children}</${node.tag}>` : `<${node.tag} ${attributes} />`;
+}
 
-    if (keyframes.length < 2) continue;
+/**
+ * Render an element's static rotation and animations as style entries
+ *
+ * Mirrors getAnimatedStyle: the static rotation comes first, transforms and
+ * filters are combined, and animated text colors replace the static style.
+ * Animated text and fills are rendered by renderTextElement and
+ * renderShapeElement, volume by renderVolume.
+ */
+function renderAnimatedStyle(element: CompositionElement, absoluteFrom: number): string {
+  const styles: string[] = [];
+  const transforms: string[] = [];
+  const filters: string[] = [];
 
-    // Sort keyframes by frame
-    const sortedKeyframes = [...keyframes].sort((a, b) => a.frame - b.frame);
+  if (element.properties.rotation) {
+    transforms.push(`"rotate(${element.properties.rotation}deg)"`);
+  }
 
-    // Generate interpolate() calls
-    const interpolateCode = generateInterpolate(
-      frame,
-      sortedKeyframes,
-      easing,
-      element.from
-    );
+  for (const animation of element.animations || []) {
+    if (animation.keyframes.length === 0 || AUDIO_PROPERTIES.includes(animation.property)) continue;
+
+    const { property } = animation;
+    const value = () => generateInterpolate(animation, absoluteFrom);
+
+    if (TRANSFORM_FUNCTIONS[property]) {
+      const { name, unit } = TRANSFORM_FUNCTIONS[property];
+      transforms.push(`"${name}(" + ${value()} + "${unit})"`);
+    } else if (FILTER_FUNCTIONS[property]) {
+      const { name, unit } = FILTER_FUNCTIONS[property];
+      filters.push(`"${name}(" + ${value()} + "${unit})"`);
+    } else if (property === "x") {
+      styles.push(`left: ${value()}`);
+    } else if (property === "y") {
+      styles.push(`top: ${value()}`);
+    } else if (property === "position") {
+      styles.push(`left: ${generateInterpolate(animation, absoluteFrom, (point) => (point as Point).x)}`);
+      styles.push(`top: ${generateInterpolate(animation, absoluteFrom, (point) => (point as Point).y)}`);
+    } else if (property === "color") {
+      if (element.type === "text") styles.push(`color: ${value()}`);
+    } else if (property !== "text" && property !== "fill") {
+      styles.push(`${property}: ${value()}`);
+    }
+  }
 
-    animationStyles.push(`${property}: ${interpolateCode}`);
+  if (transforms.length > 0) {
+    styles.push(`transform: ${transforms.join(' + " " + ')}`);
+  }
+  if (filters.length > 0) {
+    styles.push(`filter: ${filters.join(' + " " + ')}`);
   }
 
-  return animationStyles.join(",\n          ");
+  return styles.join(",\n          ");
 }
 
 /**
- * Generate interpolate() code for animation
+ * Generate code for an animation's value at the absolute `frame`
+ *
+ * Keyframes are relative to the element, so they are shifted by its
+ * absolute start. Each segment is its own interpolate() with the easing of
+ * the keyframe it starts at, like evaluateAnimation; colors mix in OKLab
+ * and discrete values are held until the next keyframe. `pick` selects one
+ * axis of a point; `print` prints held values (JSON by default).
  */
 function generateInterpolate(
-  frameVar: string,
-  keyframes: Keyframe[],
-  easing: string,
-  elementStartFrame: number
+  animation: Animation,
+  absoluteFrom: number,
+  pick?: (value: KeyframeValue) => number,
+  print: (value: KeyframeValue) => string = (value) => JSON.stringify(value)
 ): string {
-  const inputRange = keyframes.map((kf) => kf.frame - elementStartFrame);
-  const outputRange = keyframes.map((kf) =>
-    typeof kf.value === "string" ? `"${kf.value}"` : kf.value
-  );
+  const keyframes = sortKeyframes(animation.keyframes);
+  const type = pick ? "number" : getPropertyType(animation.property);
+  const valueOf = (kf: Keyframe) => (pick ? pick(kf.value) : kf.value);
+  const segments: Array<{ end: number; code: string; held: boolean }> = [];
+
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const start = keyframes[i];
+    const end = keyframes[i + 1];
+    if (end.frame === start.frame) continue;
+
+    const range = `[${absoluteFrom + start.frame}, ${absoluteFrom + end.frame}]`;
+    const options = `{ extrapolateLeft: "clamp", extrapolateRight: "clamp", easing: ${renderEasing(start.easing ?? animation.easing)} }`;
+    const from = parseColor(String(start.value));
+    const to = parseColor(String(end.value));
+    const segmentEnd = absoluteFrom + end.frame;
+
+    if (type === "number") {
+      const code = `interpolate(frame, ${range}, [${valueOf(start)}, ${valueOf(end)}], ${options})`;
+      segments.push({ end: segmentEnd, code, held: false });
+    } else if (type === "color" && from && to) {
+      const code = `mixOklab(${JSON.stringify(toOklab(from))}, ${JSON.stringify(toOklab(to))}, interpolate(frame, ${range}, [0, 1], ${options}))`;
+      segments.push({ end: segmentEnd, code, held: false });
+    } else {
+      segments.push({ end: segmentEnd, code: print(valueOf(start)), held: true });
+    }
+  }
 
-  const easingMap: Record<string, string> = {
-    linear: "easeInOut",
-    "ease-in": "easeIn",
-    "ease-out": "easeOut",
-    "ease-in-out": "easeInOut",
-    spring: "easeInOut", // Spring not directly supported, use easeInOut
+  const last = print(valueOf(keyframes[keyframes.length - 1]));
+  if (segments.length === 0) {
+    return last;
+  }
+
+  // Each segment runs until the next keyframe; interpolated segments clamp
+  // at their end, discrete ones give way to the last value
+  const tail = segments[segments.length - 1];
+  let code = tail.held ? last : tail.code;
+  const chained = tail.held ? segments : segments.slice(0, -1);
+  for (let i = chained.length - 1; i >= 0; i--) {
+    code = `frame < ${chained[i].end} ? ${chained[i].code} : ${code}`;
+  }
+  return chained.length > 0 ? `(${code})` : code;
+}
+
+/**
+ * Render the style of an element's transitions
+ *
+ * Mirrors getTransitionStyle: windows are parent-relative, so they are
+ * shifted by `parentFrom` to match the absolute `frame` variable.
+ */
+function renderTransitionStyle(windows: TransitionWindow[], parentFrom: number): string {
+  const opacity: string[] = [];
+  const transforms: string[] = [];
+  const insets: Record<"top" | "right" | "bottom" | "left", string[]> = {
+    top: [],
+    right: [],
+    bottom: [],
+    left: [],
   };
 
-  const easingFunc = easingMap[easing] || "easeInOut";
+  for (const window of windows) {
+    const effect = getTransitionEffect(window.transition, window.role);
+    const range = `[${parentFrom + window.start}, ${parentFrom + window.end}]`;
+    const easing = renderEasing(window.transition.easing);
+    const at = ([from, to]: [number, number]) =>
+      `interpolate(frame, ${range}, [${from}, ${to}], { extrapolateLeft: "clamp", extrapolateRight: "clamp", easing: ${easing} })`;
+
+    if (effect.opacity) {
+      opacity.push(at(effect.opacity));
+    }
+    if (effect.translate) {
+      transforms.push(`"translate${effect.translate.axis}(" + ${at(effect.translate.range)} + "%)"`);
+    }
+    if (effect.clip) {
+      insets[effect.clip.side].push(at(effect.clip.range));
+    }
+  }
+
+  const styles: string[] = [];
+  if (opacity.length > 0) {
+    styles.push(`opacity: ${opacity.join(" * ")}`);
+  }
+  if (transforms.length > 0) {
+    styles.push(`transform: ${transforms.join(' + " " + ')}`);
+  }
+  const sides = [insets.top, insets.right, insets.bottom, insets.left];
+  if (sides.some((side) => side.length > 0)) {
+    const values = sides.map((side) =>
+      side.length === 0 ? "0" : side.length === 1 ? side[0] : `Math.max(${side.join(", ")})`
+    );
+    styles.push(`clipPath: "inset(" + ${values.join(' + "% " + ')} + "%)"`);
+  }
+
+  return styles.join(", ");
+}
+
+/**
+ * Remotion easing matching applyEasing
+ *
+ * Springs run for their settle time in frames at SPRING_SAMPLE_FPS, so they
+ * land on the same curve as springEasing.
+ */
+function renderEasing(easing?: EasingType): string {
+  if (easing === "spring" || (typeof easing === "object" && easing.type === "spring")) {
+    const config = getSpringConfig(easing);
+    const frames = getSpringSettleFrames(config);
+    return `(t) => (t >= 1 ? 1 : spring({ frame: t * ${frames}, fps: ${SPRING_SAMPLE_FPS}, config: { mass: ${config.mass}, damping: ${config.damping}, stiffness: ${config.stiffness} } }))`;
+  }
+  if (typeof easing === "object") {
+    return `Easing.bezier(${easing.x1}, ${easing.y1}, ${easing.x2}, ${easing.y2})`;
+  }
 
-  return `interpolate(${frameVar}, [${inputRange.join(", ")}], [${outputRange.join(", ")}], { extrapolateLeft: "clamp", extrapolateRight: "clamp", easing: Easing.${easingFunc} })`;
+  switch (easing) {
+    case "ease-in":
+      return "Easing.quad";
+    case "ease-out":
+      return "Easing.out(Easing.quad)";
+    case "ease-in-out":
+      return "Easing.inOut(Easing.quad)";
+    default:
+      return "Easing.linear";
+  }
 }
 
 /**
  * Render helper components if needed
  */
 function renderHelpers(ir: CompositionIR): string {
-  // Currently no helpers needed, but this is where we'd add custom components
-  return "";
+  return hasColorAnimations(ir.elements) ? OKLAB_HELPER_SOURCE : "";
+}
+
+function hasColorAnimations(elements: CompositionElement[]): boolean {
+  return elements.some(
+    (el) =>
+      (el.animations || []).some((animation) => getPropertyType(animation.property) === "color") ||
+      hasColorAnimations(el.children || [])
+  );
 }
 
+// Same math as mixOklab in color.ts, for colors animated in compiled code
+const OKLAB_HELPER_SOURCE = `// Mix two premultiplied OKLab colors into rgba()
+function mixOklab(from: number[], to: number[], t: number): string {
+  const [pl, pa, pb, alpha] = from.map((value, i) => value + (to[i] - value) * t);
+  const a = Math.min(Math.max(alpha, 0), 1);
+  if (a === 0) return "rgba(0, 0, 0, 0)";
+
+  const L = pl / alpha;
+  const A = pa / alpha;
+  const B = pb / alpha;
+  const l = (L + 0.3963377774 * A + 0.2158037573 * B) ** 3;
+  const m = (L - 0.1055613458 * A - 0.0638541728 * B) ** 3;
+  const s = (L - 0.0894841775 * A - 1.291485548 * B) ** 3;
+
+  const channel = (c: number) => {
+    const srgb = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+    return Math.round(Math.min(Math.max(srgb, 0), 1) * 255);
+  };
+
+  const r = channel(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s);
+  const g = channel(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s);
+  const b = channel(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s);
+  return \`rgba(\${r}, \${g}, \${b}, \${Math.round(a * 1000) / 1000})\`;
+}
+`;
+
 /**
  * Sanitize ID for use as component name
  */
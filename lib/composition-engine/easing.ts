@@ -0,0 +1,233 @@
+/**
+ * Easing curves
+ *
+ * Named easings, custom cubic-béziers and springs. The renderers, the
+ * keyframe editor and transitions evaluate them through `applyEasing`; the
+ * compiler emits Remotion's `Easing.bezier` and `spring` with the same
+ * parameters, so every renderer draws the same curve.
+ */
+
+import type { CubicBezierEasing, EasingName, EasingType, SpringEasing } from "@/types/composition-ir";
+
+export const EASING_NAMES: EasingName[] = ["linear", "ease-in", "ease-out", "ease-in-out", "spring"];
+
+// Remotion's spring() defaults
+export const SPRING_DEFAULTS: Required<Omit<SpringEasing, "type">> = {
+  mass: 1,
+  damping: 10,
+  stiffness: 100,
+};
+
+// A spring eases from 0 to 1 over the time it takes to settle within this distance
+const SPRING_REST_THRESHOLD = 0.005;
+// Rate at which springs are measured, and the fps passed to spring() in compiled code
+export const SPRING_SAMPLE_FPS = 100;
+const SPRING_MAX_SECONDS = 60;
+
+const settleCache = new Map<string, number>();
+
+/**
+ * Spring parameters with Remotion's defaults filled in
+ */
+export function getSpringConfig(easing: SpringEasing | "spring"): Required<Omit<SpringEasing, "type">> {
+  if (easing === "spring") return SPRING_DEFAULTS;
+  return {
+    mass: easing.mass ?? SPRING_DEFAULTS.mass,
+    damping: easing.damping ?? SPRING_DEFAULTS.damping,
+    stiffness: easing.stiffness ?? SPRING_DEFAULTS.stiffness,
+  };
+}
+
+/**
+ * Position of a spring released at 0 towards 1 after `seconds`
+ *
+ * Closed form of the damped oscillator Remotion's spring() steps through
+ * (critically damped formula from a damping ratio of 1 up).
+ */
+export function springPosition(config: Required<Omit<SpringEasing, "type">>, seconds: number): number {
+  const { mass, damping, stiffness } = config;
+  const t = Math.max(0, seconds);
+  const zeta = damping / (2 * Math.sqrt(stiffness * mass));
+  const omega0 = Math.sqrt(stiffness / mass);
+
+  if (zeta < 1) {
+    const omega1 = omega0 * Math.sqrt(1 - zeta ** 2);
+    const envelope = Math.exp(-zeta * omega0 * t);
+    return 1 - envelope * (Math.sin(omega1 * t) * ((zeta * omega0) / omega1) + Math.cos(omega1 * t));
+  }
+
+  return 1 - Math.exp(-omega0 * t) * (1 + omega0 * t);
+}
+
+/**
+ * Frames (at SPRING_SAMPLE_FPS) until a spring stays within the rest threshold
+ */
+export function getSpringSettleFrames(config: Required<Omit<SpringEasing, "type">>): number {
+  const key = `${config.mass}-${config.damping}-${config.stiffness}`;
+  const cached = settleCache.get(key);
+  if (cached !== undefined) return cached;
+
+  let settled = 1;
+  for (let frame = 0; frame <= SPRING_MAX_SECONDS * SPRING_SAMPLE_FPS; frame++) {
+    const distance = Math.abs(1 - springPosition(config, frame / SPRING_SAMPLE_FPS));
+    if (distance >= SPRING_REST_THRESHOLD) settled = frame + 1;
+  }
+
+  settleCache.set(key, settled);
+  return settled;
+}
+
+/**
+ * Spring progress across a segment: the segment lasts as long as the spring
+ * takes to settle, and ends exactly on the target
+ */
+export function springEasing(easing: SpringEasing | "spring", t: number): number {
+  if (t >= 1) return 1;
+  const config = getSpringConfig(easing);
+  return springPosition(config, (t * getSpringSettleFrames(config)) / SPRING_SAMPLE_FPS);
+}
+
+// Same solver as Remotion's Easing.bezier (bezier-easing)
+const NEWTON_ITERATIONS = 4;
+const NEWTON_MIN_SLOPE = 0.001;
+const SUBDIVISION_PRECISION = 0.0000001;
+const SUBDIVISION_MAX_ITERATIONS = 10;
+const SPLINE_TABLE_SIZE = 11;
+const SAMPLE_STEP_SIZE = 1 / (SPLINE_TABLE_SIZE - 1);
+
+const calcBezier = (t: number, a1: number, a2: number) =>
+  (((1 - 3 * a2 + 3 * a1) * t + (3 * a2 - 6 * a1)) * t + 3 * a1) * t;
+
+const getSlope = (t: number, a1: number, a2: number) =>
+  3 * (1 - 3 * a2 + 3 * a1) * t * t + 2 * (3 * a2 - 6 * a1) * t + 3 * a1;
+
+/**
+ * A CSS cubic-bezier(x1, y1, x2, y2) timing function
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): (t: number) => number {
+  if (x1 === y1 && x2 === y2) return (t) => t;
+
+  const samples = new Float32Array(SPLINE_TABLE_SIZE);
+  for (let i = 0; i < SPLINE_TABLE_SIZE; i++) {
+    samples[i] = calcBezier(i * SAMPLE_STEP_SIZE, x1, x2);
+  }
+
+  const getTForX = (x: number): number => {
+    let intervalStart = 0;
+    let sample = 1;
+    for (; sample !== SPLINE_TABLE_SIZE - 1 && samples[sample] <= x; sample++) {
+      intervalStart += SAMPLE_STEP_SIZE;
+    }
+    sample--;
+
+    const dist = (x - samples[sample]) / (samples[sample + 1] - samples[sample]);
+    let guess = intervalStart + dist * SAMPLE_STEP_SIZE;
+    const initialSlope = getSlope(guess, x1, x2);
+
+    if (initialSlope >= NEWTON_MIN_SLOPE) {
+      for (let i = 0; i < NEWTON_ITERATIONS; i++) {
+        const slope = getSlope(guess, x1, x2);
+        if (slope === 0) return guess;
+        guess -= (calcBezier(guess, x1, x2) - x) / slope;
+      }
+      return guess;
+    }
+    if (initialSlope === 0) return guess;
+
+    // Binary subdivision
+    let a = intervalStart;
+    let b = intervalStart + SAMPLE_STEP_SIZE;
+    let current: number;
+    let i = 0;
+    do {
+      guess = a + (b - a) / 2;
+      current = calcBezier(guess, x1, x2) - x;
+      if (current > 0) b = guess;
+      else a = guess;
+    } while (Math.abs(current) > SUBDIVISION_PRECISION && ++i < SUBDIVISION_MAX_ITERATIONS);
+    return guess;
+  };
+
+  return (t) => {
+    if (t === 0) return 0;
+    if (t === 1) return 1;
+    return calcBezier(getTForX(t), y1, y2);
+  };
+}
+
+const bezierCache = new Map<string, (t: number) => number>();
+
+/**
+ * Cubic-bezier progress, reusing the sample table per curve
+ */
+export function bezierEasing(easing: CubicBezierEasing, t: number): number {
+  const key = `${easing.x1},${easing.y1},${easing.x2},${easing.y2}`;
+  let curve = bezierCache.get(key);
+  if (!curve) {
+    curve = cubicBezier(easing.x1, easing.y1, easing.x2, easing.y2);
+    bezierCache.set(key, curve);
+  }
+  return curve(t);
+}
+
+/**
+ * Parse an easing from a name, "cubic-bezier(x1, y1, x2, y2)",
+ * "spring(mass, damping, stiffness)" or an easing object; null if invalid
+ */
+export function parseEasing(value: unknown): EasingType | null {
+  if (typeof value === "string") {
+    const text = value.trim().toLowerCase();
+    if ((EASING_NAMES as string[]).includes(text)) return text as EasingName;
+
+    const match = text.match(/^(cubic-bezier|spring)\(([^)]*)\)$/);
+    if (!match) return null;
+    const args = match[2].split(",").map((arg) => arg.trim());
+    if (args.some((arg) => arg === "" || !Number.isFinite(Number(arg)))) return null;
+    const numbers = args.map(Number);
+
+    if (match[1] === "cubic-bezier") {
+      if (numbers.length !== 4) return null;
+      const [x1, y1, x2, y2] = numbers;
+      return parseEasing({ type: "cubic-bezier", x1, y1, x2, y2 });
+    }
+    if (numbers.length > 3) return null;
+    const [mass, damping, stiffness] = numbers;
+    return parseEasing({ type: "spring", mass, damping, stiffness });
+  }
+
+  if (!value || typeof value !== "object") return null;
+  const easing = value as Record<string, unknown>;
+
+  if (easing.type === "cubic-bezier") {
+    const { x1, y1, x2, y2 } = easing;
+    if (![x1, y1, x2, y2].every((n) => typeof n === "number" && Number.isFinite(n))) return null;
+    // x values must stay in [0, 1] so time runs forwards
+    if ((x1 as number) < 0 || (x1 as number) > 1 || (x2 as number) < 0 || (x2 as number) > 1) return null;
+    return { type: "cubic-bezier", x1, y1, x2, y2 } as CubicBezierEasing;
+  }
+
+  if (easing.type === "spring") {
+    const spring: SpringEasing = { type: "spring" };
+    for (const key of ["mass", "damping", "stiffness"] as const) {
+      const n = easing[key];
+      if (n === undefined) continue;
+      if (typeof n !== "number" || !Number.isFinite(n) || n <= 0) return null;
+      spring[key] = n;
+    }
+    return spring;
+  }
+
+  return null;
+}
+
+/**
+ * Text form of an easing, as accepted by parseEasing
+ */
+export function formatEasing(easing: EasingType): string {
+  if (typeof easing === "string") return easing;
+  if (easing.type === "cubic-bezier") {
+    return `cubic-bezier(${easing.x1}, ${easing.y1}, ${easing.x2}, ${easing.y2})`;
+  }
+  const { mass, damping, stiffness } = getSpringConfig(easing);
+  return `spring(${mass}, ${damping}, ${stiffness})`;
+}
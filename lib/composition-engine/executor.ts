@@ -2,17 +2,52 @@
  * Edit Plan Executor
  *
  * Executes AI-generated edit plans against the Composition IR.
- * Handles add, update, delete, and move operations.
+ * Handles add, update, delete, and move operations, clip edits (split, trim,
+ * ripple delete) built from them, and transactions that apply several plans
+ * atomically as one patch group.
+ *
+ * This is the only executor: the `compositions.executeEditPlan` and
+ * `compositions.executeTransaction` Convex actions run edits through
+ * `executeStoredEdit`, and the client calls `executeEditPlan` directly.
  */
 
 import type {
   CompositionIR,
   CompositionElement,
   EditPlan,
+  EditTransaction,
   Animation,
+  ElementSelector,
+  LayerPosition,
+  Patch,
+  Transition,
 } from "@/types/composition-ir";
 import { resolveSelector, getSingleMatch, getAllMatches } from "./selectors";
+import {
+  addPatch,
+  computeLayerIndex,
+  findElementById,
+  findElementPath,
+  flattenElements,
+  findParentElement,
+  framesToTimecode,
+  getAbsoluteFrom,
+  getElementLocation,
+  insertElementIntoTree,
+  mapElementTree,
+  mergeElementChanges,
+  removeElementsFromTree,
+  withPatchCursor,
+} from "./ir-helpers";
+import {
+  DEFAULT_TRANSITION_DURATION,
+  findPreviousClip,
+  validateTransition,
+} from "./transitions";
 import { generateElementId } from "./utils";
+import { parseEasing } from "./easing";
+import { trimAnimation } from "./keyframes";
+import { nanoid } from "nanoid";
 
 /**
  * Result of executing an edit plan
@@ -28,6 +63,12 @@ export interface ExecutionResult {
   receipt: string;
   /** Error message if failed */
   error?: string;
+  /** Patch recorded for this edit (also appended to updatedIR.patches) */
+  patch?: Patch;
+  /** Patches recorded by a transaction or "all" fan-out (one shared groupId) */
+  patches?: Patch[];
+  /** Index of the plan that stopped a transaction */
+  failedPlanIndex?: number;
   /** Whether disambiguation is needed */
   needsDisambiguation?: boolean;
   /** Disambiguation options */
@@ -38,23 +79,65 @@ export interface ExecutionResult {
   }>;
 }
 
+/**
+ * Options for executing an edit plan
+ */
+export interface ExecuteOptions {
+  /** Element chosen by the user in the Disambiguator (overrides the plan selector) */
+  resolvedElementId?: string;
+  /** ID generator for new elements (defaults to generateElementId) */
+  generateId?: () => string;
+  /** ID generator for recorded patches (defaults to nanoid) */
+  generatePatchId?: () => string;
+  /** Clock for patch timestamps (defaults to Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Options for executing a transaction
+ */
+export interface TransactionOptions extends Omit<ExecuteOptions, "resolvedElementId"> {
+  /** Disambiguator choices, by plan index (null where no choice was needed) */
+  resolvedElementIds?: Array<string | null>;
+}
+
 /**
  * Execute an edit plan
  */
 export function executeEditPlan(
   ir: CompositionIR,
-  plan: EditPlan
+  plan: EditPlan,
+  options: ExecuteOptions = {}
 ): ExecutionResult {
+  // A disambiguated element always wins over the original selector
+  if (options.resolvedElementId && plan.operation !== "add") {
+    plan = {
+      ...plan,
+      selector: { type: "byId", id: options.resolvedElementId },
+    };
+  }
+
+  // "all" fans out to every match instead of asking the user to pick one
+  if (plan.applyToAll && plan.operation !== "add" && !options.resolvedElementId) {
+    return executeForAllMatches(ir, plan, options);
+  }
+
   try {
     switch (plan.operation) {
       case "add":
-        return executeAdd(ir, plan);
+        return executeAdd(ir, plan, options);
       case "update":
-        return executeUpdate(ir, plan);
+        return executeUpdate(ir, plan, options);
       case "delete":
-        return executeDelete(ir, plan);
+        return executeDelete(ir, plan, options);
       case "move":
-        return executeMove(ir, plan);
+        return executeMove(ir, plan, options);
+      case "split":
+        return executeSplit(ir, plan, options);
+      case "trim":
+        return executeTrim(ir, plan, options);
+      case "rippleDelete":
+        return executeRippleDelete(ir, plan, options);
       default:
         return {
           success: false,
@@ -73,12 +156,207 @@ export function executeEditPlan(
   }
 }
 
+/**
+ * Execute several edit plans atomically
+ *
+ * Plans run in order against the result of the previous plan. If any plan
+ * fails the original IR is left untouched; otherwise every recorded patch
+ * shares one groupId and the transaction produces a single receipt.
+ */
+export function executeTransaction(
+  ir: CompositionIR,
+  transaction: EditTransaction | EditPlan[],
+  options: TransactionOptions = {}
+): ExecutionResult {
+  const { plans, description } = Array.isArray(transaction)
+    ? { plans: transaction, description: undefined }
+    : transaction;
+
+  if (plans.length === 0) {
+    return {
+      success: false,
+      affectedElements: [],
+      receipt: "",
+      error: "Transaction has no edit plans",
+    };
+  }
+
+  const groupId = (options.generatePatchId ?? nanoid)();
+  let current = ir;
+  const affectedElements: string[] = [];
+  const patches: Patch[] = [];
+  const receipts: string[] = [];
+
+  for (let index = 0; index < plans.length; index++) {
+    const plan = plans[index];
+    const result = executeEditPlan(current, plan, {
+      ...options,
+      resolvedElementId: options.resolvedElementIds?.[index] ?? undefined,
+    });
+
+    if (!result.success) {
+      return {
+        ...result,
+        updatedIR: undefined,
+        error:
+          result.error && plans.length > 1
+            ? `Step ${index + 1} of ${plans.length}: ${result.error}`
+            : result.error,
+        failedPlanIndex: index,
+      };
+    }
+
+    current = result.updatedIR!;
+    affectedElements.push(...result.affectedElements);
+    patches.push(...(result.patches ?? (result.patch ? [result.patch] : [])));
+    receipts.push(result.receipt);
+  }
+
+  const receipt = description || receipts.join("; ");
+  const groupedPatches = patches.map((patch) => ({ ...patch, groupId, description: receipt }));
+
+  // Re-append the patches to the original stack as one group
+  const updatedIR = groupedPatches.reduce(
+    addPatch,
+    withPatchCursor({ ...current, patches: ir.patches }, ir.patchCursor)
+  );
+
+  return {
+    success: true,
+    updatedIR,
+    affectedElements: Array.from(new Set(affectedElements)),
+    receipt,
+    patches: groupedPatches,
+  };
+}
+
+/**
+ * An edit sent to the Convex actions: one plan, or a transaction
+ */
+export type StoredEdit =
+  | { editPlan: EditPlan; resolvedElementId?: string }
+  | { plans: EditPlan[]; description?: string; resolvedElementIds?: Array<string | null> };
+
+/**
+ * What the Convex actions write after an edit: the new IR and a history
+ * snapshot of it
+ */
+export interface ExecutionCommit {
+  ir: CompositionIR;
+  snapshotDescription: string;
+}
+
+/**
+ * Run an edit on a stored composition's IR, as the Convex actions do
+ *
+ * Returns the result sent back to the caller, and the commit to write, or
+ * null when the edit failed or needs disambiguation.
+ */
+export function executeStoredEdit(
+  storedIR: CompositionIR,
+  edit: StoredEdit,
+  options: Omit<ExecuteOptions, "resolvedElementId"> = {}
+): { result: ExecutionResult; commit: ExecutionCommit | null } {
+  const result = "editPlan" in edit
+    ? executeEditPlan(storedIR, edit.editPlan, { ...options, resolvedElementId: edit.resolvedElementId })
+    : executeTransaction(
+        storedIR,
+        { plans: edit.plans, description: edit.description },
+        { ...options, resolvedElementIds: edit.resolvedElementIds }
+      );
+
+  if (!result.success || !result.updatedIR) {
+    return { result, commit: null };
+  }
+  return { result, commit: { ir: result.updatedIR, snapshotDescription: result.receipt } };
+}
+
+/**
+ * Apply a plan to every element its selector matches, as one transaction
+ */
+function executeForAllMatches(
+  ir: CompositionIR,
+  plan: EditPlan,
+  options: ExecuteOptions
+): ExecutionResult {
+  let matches = getAllMatches(ir, plan.selector);
+
+  if (matches.length === 0) {
+    return {
+      success: false,
+      affectedElements: [],
+      receipt: "",
+      error: "No element found matching selector",
+    };
+  }
+
+  // Deleting a sequence already removes its children
+  if (plan.operation === "delete") {
+    const matchIds = new Set(matches.map((el) => el.id));
+    matches = matches.filter((el) =>
+      (findElementPath(ir.elements, el.id) || [])
+        .slice(0, -1)
+        .every((ancestor) => !matchIds.has(ancestor.id))
+    );
+  }
+
+  const result = executeTransaction(
+    ir,
+    matches.map((el) => ({
+      ...plan,
+      selector: { type: "byId" as const, id: el.id },
+      applyToAll: false,
+    })),
+    options
+  );
+
+  if (!result.success || matches.length === 1) {
+    return result;
+  }
+
+  const verbs: Record<string, string> = {
+    update: "Updated",
+    delete: "Deleted",
+    move: "Moved",
+    split: "Split",
+    trim: "Trimmed",
+    rippleDelete: "Ripple deleted",
+  };
+  const names = matches.map((el) => (el.label ? `"${el.label}"` : `${el.type} element`));
+
+  return {
+    ...result,
+    receipt: `${verbs[plan.operation]} ${matches.length} elements: ${names.join(", ")}`,
+  };
+}
+
+/**
+ * Append a patch to the IR, filling in its ID and timestamp
+ */
+function recordPatch(
+  ir: CompositionIR,
+  patch: Omit<Patch, "id" | "timestamp">,
+  options: ExecuteOptions
+): { updatedIR: CompositionIR; patch: Patch } {
+  const recorded: Patch = {
+    id: (options.generatePatchId ?? nanoid)(),
+    timestamp: (options.now ?? Date.now)(),
+    ...patch,
+  };
+  return { updatedIR: addPatch(ir, recorded), patch: recorded };
+}
+
 /**
  * Execute ADD operation
  */
-function executeAdd(ir: CompositionIR, plan: EditPlan): ExecutionResult {
+function executeAdd(
+  ir: CompositionIR,
+  plan: EditPlan,
+  options: ExecuteOptions
+): ExecutionResult {
+  const generateId = options.generateId ?? generateElementId;
   const newElement: CompositionElement = {
-    id: generateElementId(),
+    id: generateId(),
     type: plan.changes.type as any,
     from: plan.changes.from || 0,
     durationInFrames: plan.changes.durationInFrames || 90,
@@ -91,28 +369,62 @@ function executeAdd(ir: CompositionIR, plan: EditPlan): ExecutionResult {
     newElement.animations = plan.changes.animations as Animation[];
   }
 
-  // Clone IR and add element
-  const updatedIR = {
-    ...ir,
-    elements: [...ir.elements, newElement],
-  };
+  if (plan.changes.trackId) {
+    newElement.trackId = plan.changes.trackId;
+  }
+
+  // Sequences can be created with their children in one step
+  if (plan.changes.children) {
+    newElement.children = withGeneratedIds(plan.changes.children, generateId);
+  }
+
+  // Optional parent sequence (child `from` is relative to the parent)
+  let parent: CompositionElement | undefined;
+  if (plan.changes.parent) {
+    const parentResult = resolveParentSequence(ir, plan.changes.parent);
+    if ("result" in parentResult) {
+      return parentResult.result;
+    }
+    parent = parentResult.parent;
+  }
 
   const receipt = plan.changes.label
     ? `Added ${plan.changes.type} element "${plan.changes.label}"`
     : `Added ${plan.changes.type} element`;
 
+  // Clone IR and add element (appended, so it renders on top of its siblings)
+  const index = parent ? (parent.children || []).length : ir.elements.length;
+  const { updatedIR, patch } = recordPatch(
+    {
+      ...ir,
+      elements: insertElementIntoTree(ir.elements, newElement, parent?.id),
+    },
+    {
+      operation: "add",
+      selector: { type: "byId", id: newElement.id },
+      changes: { element: newElement, parentId: parent?.id, index },
+      description: receipt,
+    },
+    options
+  );
+
   return {
     success: true,
     updatedIR,
     affectedElements: [newElement.id],
     receipt,
+    patch,
   };
 }
 
 /**
  * Execute UPDATE operation
  */
-function executeUpdate(ir: CompositionIR, plan: EditPlan): ExecutionResult {
+function executeUpdate(
+  ir: CompositionIR,
+  plan: EditPlan,
+  options: ExecuteOptions
+): ExecutionResult {
   if (!plan.selector) {
     return {
       success: false,
@@ -148,61 +460,127 @@ function executeUpdate(ir: CompositionIR, plan: EditPlan): ExecutionResult {
 
   const targetElement = selectorResult.matches[0];
 
-  // Clone IR and update element
-  const updatedIR = {
-    ...ir,
-    elements: ir.elements.map((el) => {
-      if (el.id !== targetElement.id) return el;
+  let changes = plan.changes;
+  let receipt = targetElement.label
+    ? `Updated "${targetElement.label}"`
+    : `Updated ${targetElement.type} element`;
 
-      // Merge changes
-      const updated: CompositionElement = { ...el };
+  // Transitions name their outgoing clip by selector; record the resolved ID
+  // so redo replays exactly the same transition
+  if (changes.transitionIn !== undefined) {
+    const resolved = resolveTransitionChange(ir, targetElement, changes);
+    if ("error" in resolved) {
+      return {
+        success: false,
+        affectedElements: [],
+        receipt: "",
+        error: resolved.error,
+      };
+    }
+    changes = resolved.changes;
+    receipt = resolved.receipt;
+  }
 
-      // Update properties
-      if (plan.changes.properties) {
-        updated.properties = {
-          ...updated.properties,
-          ...plan.changes.properties,
-        };
-      }
+  // Clone IR and update element (wherever it is nested)
+  const { updatedIR, patch } = recordPatch(
+    {
+      ...ir,
+      elements: mapElementTree(ir.elements, targetElement.id, (el) =>
+        mergeElementChanges(el, changes)
+      ),
+    },
+    {
+      operation: "update",
+      selector: { type: "byId", id: targetElement.id },
+      changes,
+      previousState: getElementLocation(ir.elements, targetElement.id),
+      description: receipt,
+    },
+    options
+  );
 
-      // Update timing
-      if (plan.changes.from !== undefined) {
-        updated.from = plan.changes.from;
-      }
-      if (plan.changes.durationInFrames !== undefined) {
-        updated.durationInFrames = plan.changes.durationInFrames;
-      }
+  return {
+    success: true,
+    updatedIR,
+    affectedElements: [targetElement.id],
+    receipt,
+    patch,
+  };
+}
 
-      // Update label
-      if (plan.changes.label !== undefined) {
-        updated.label = plan.changes.label;
-      }
+/**
+ * Resolve a `transitionIn` update into a complete, validated transition
+ *
+ * The outgoing clip comes from `transitionIn.from` (a selector) or
+ * `transitionIn.fromElementId`, defaulting to the sibling playing when the
+ * target starts. `transitionIn: null` removes the transition.
+ */
+function resolveTransitionChange(
+  ir: CompositionIR,
+  target: CompositionElement,
+  changes: any
+): { changes: any; receipt: string } | { error: string } {
+  const name = (el: CompositionElement) => (el.label ? `"${el.label}"` : `${el.type} element`);
 
-      // Update animation
-      if (plan.changes.animations !== undefined) {
-        updated.animations = plan.changes.animations as Animation[];
-      }
+  if (changes.transitionIn === null) {
+    if (!target.transitionIn) {
+      return { error: `${name(target)} has no transition to remove` };
+    }
+    return { changes, receipt: `Removed transition into ${name(target)}` };
+  }
+
+  const { from, fromElementId, ...rest } = changes.transitionIn;
+  const parent = findParentElement(ir.elements, target.id);
+  const incoming = mergeElementChanges(target, { ...changes, transitionIn: undefined });
+  const siblings = (parent ? parent.children ?? [] : ir.elements).map((el) =>
+    el.id === target.id ? incoming : el
+  );
 
-      return updated;
-    }),
+  let outgoing: CompositionElement | null | undefined;
+  if (from) {
+    outgoing = getSingleMatch(ir, from);
+  } else if (fromElementId) {
+    outgoing = findElementById(ir.elements, fromElementId);
+  } else {
+    outgoing = findPreviousClip(siblings, incoming);
+  }
+  if (!outgoing) {
+    return { error: `No clip plays before ${name(target)} to transition from` };
+  }
+
+  const transition: Transition = {
+    type: rest.type ?? target.transitionIn?.type ?? "crossfade",
+    durationInFrames:
+      rest.durationInFrames ?? target.transitionIn?.durationInFrames ?? DEFAULT_TRANSITION_DURATION,
+    fromElementId: outgoing.id,
   };
+  const easing = rest.easing !== undefined ? parseEasing(rest.easing) : target.transitionIn?.easing;
+  if (easing === null) {
+    return { error: `Invalid easing: ${JSON.stringify(rest.easing)}` };
+  }
+  const direction = rest.direction ?? target.transitionIn?.direction;
+  if (easing) transition.easing = easing;
+  if (direction) transition.direction = direction;
 
-  const receipt = targetElement.label
-    ? `Updated "${targetElement.label}"`
-    : `Updated ${targetElement.type} element`;
+  const error = validateTransition(siblings, incoming, transition);
+  if (error) {
+    return { error };
+  }
 
   return {
-    success: true,
-    updatedIR,
-    affectedElements: [targetElement.id],
-    receipt,
+    changes: { ...changes, transitionIn: transition },
+    receipt: `Added ${transition.type} from ${name(outgoing)} into ${name(target)}`,
   };
 }
 
 /**
  * Execute DELETE operation
  */
-function executeDelete(ir: CompositionIR, plan: EditPlan): ExecutionResult {
+function executeDelete(
+  ir: CompositionIR,
+  plan: EditPlan,
+  options: ExecuteOptions
+): ExecutionResult {
   if (!plan.selector) {
     return {
       success: false,
@@ -239,12 +617,6 @@ function executeDelete(ir: CompositionIR, plan: EditPlan): ExecutionResult {
   const targetElement = selectorResult.matches[0];
   const affectedIds = selectorResult.matches.map((el) => el.id);
 
-  // Clone IR and remove element(s)
-  const updatedIR = {
-    ...ir,
-    elements: ir.elements.filter((el) => !affectedIds.includes(el.id)),
-  };
-
   const receipt =
     affectedIds.length === 1
       ? targetElement.label
@@ -252,18 +624,71 @@ function executeDelete(ir: CompositionIR, plan: EditPlan): ExecutionResult {
         : `Deleted ${targetElement.type} element`
       : `Deleted ${affectedIds.length} elements`;
 
+  // Clips that transition out of a deleted clip lose their transition in the
+  // same undo step (the delete runs again once no transition names it)
+  const removedIds = new Set(flattenElements(selectorResult.matches).map((el) => el.id));
+  const dependents = flattenElements(ir.elements).filter(
+    (el) => !removedIds.has(el.id) && el.transitionIn && removedIds.has(el.transitionIn.fromElementId)
+  );
+  if (dependents.length > 0) {
+    const result = executeTransaction(
+      ir,
+      {
+        plans: [
+          ...dependents.map((el): EditPlan => ({
+            operation: "update",
+            selector: { type: "byId", id: el.id },
+            changes: { transitionIn: null },
+          })),
+          plan,
+        ],
+        description: receipt,
+      },
+      options
+    );
+    return result.success ? { ...result, affectedElements: affectedIds } : result;
+  }
+
+  // Remove element(s) one at a time, including any children of removed sequences,
+  // recording where each one was so undo can put it back
+  let updatedIR = ir;
+  const patches: Patch[] = [];
+  for (const el of selectorResult.matches) {
+    const location = getElementLocation(updatedIR.elements, el.id);
+    if (!location) continue; // Already removed with its parent sequence
+
+    const recorded = recordPatch(
+      { ...updatedIR, elements: removeElementsFromTree(updatedIR.elements, [el.id]) },
+      {
+        operation: "delete",
+        selector: { type: "byId", id: el.id },
+        changes: {},
+        previousState: location,
+        description: receipt,
+      },
+      options
+    );
+    updatedIR = recorded.updatedIR;
+    patches.push(recorded.patch);
+  }
+
   return {
     success: true,
     updatedIR,
     affectedElements: affectedIds,
     receipt,
+    ...(patches.length === 1 ? { patch: patches[0] } : { patches }),
   };
 }
 
 /**
  * Execute MOVE operation
  */
-function executeMove(ir: CompositionIR, plan: EditPlan): ExecutionResult {
+function executeMove(
+  ir: CompositionIR,
+  plan: EditPlan,
+  options: ExecuteOptions
+): ExecutionResult {
   if (!plan.selector) {
     return {
       success: false,
@@ -304,41 +729,501 @@ function executeMove(ir: CompositionIR, plan: EditPlan): ExecutionResult {
   // 2. Change layer order (z-index)
   // 3. Change parent (for nested elements)
 
-  const updatedIR = {
-    ...ir,
-    elements: ir.elements.map((el) => {
-      if (el.id !== targetElement.id) return el;
+  const previousLocation = getElementLocation(ir.elements, targetElement.id)!;
+  const name = targetElement.label ? `"${targetElement.label}"` : `${targetElement.type} element`;
 
-      const updated: CompositionElement = { ...el };
+  let moved: CompositionElement = { ...targetElement };
+  let parentId = previousLocation.parentId;
+  let elements = removeElementsFromTree(ir.elements, [targetElement.id]);
+  let index = previousLocation.index;
+  let receipt = `Moved ${name}`;
 
-      // Update timing
-      if (plan.changes.from !== undefined) {
-        updated.from = plan.changes.from;
-      }
-      if (plan.changes.durationInFrames !== undefined) {
-        updated.durationInFrames = plan.changes.durationInFrames;
+  // Re-parent: `parent: null` moves to the top level, a selector moves into that sequence
+  if (plan.changes.parent !== undefined) {
+    let newParent: CompositionElement | undefined;
+    if (plan.changes.parent !== null) {
+      const parentResult = resolveParentSequence(ir, plan.changes.parent);
+      if ("result" in parentResult) {
+        return parentResult.result;
       }
+      newParent = parentResult.parent;
 
-      // Update layer order (if specified)
-      if (plan.changes.toIndex !== undefined) {
-        // This would require re-ordering the elements array
-        // For now, just update the element
+      // A sequence cannot be moved inside itself or its own children
+      const parentPath = findElementPath(ir.elements, newParent.id) || [];
+      if (parentPath.some((el) => el.id === targetElement.id)) {
+        return {
+          success: false,
+          affectedElements: [],
+          receipt: "",
+          error: "Cannot move a sequence inside itself",
+        };
       }
+    }
 
-      return updated;
-    }),
-  };
+    // Keep the element at the same point on the timeline unless a new `from` is given
+    const absoluteFrom = getAbsoluteFrom(ir.elements, targetElement.id);
+    const parentFrom = newParent ? getAbsoluteFrom(ir.elements, newParent.id) : 0;
+    moved.from = absoluteFrom - parentFrom;
 
-  const receipt = targetElement.label
-    ? `Moved "${targetElement.label}"`
-    : `Moved ${targetElement.type} element`;
+    parentId = newParent?.id;
+    index = (newParent ? findElementById(elements, newParent.id)!.children || [] : elements)
+      .length;
+    receipt = newParent
+      ? `Moved ${name} into "${newParent.label || "sequence"}"`
+      : `Moved ${name} to the top level`;
+  }
+
+  // Update timing
+  moved = mergeElementChanges(moved, {
+    from: plan.changes.from,
+    durationInFrames: plan.changes.durationInFrames,
+  });
+
+  // Layer order: later siblings render on top
+  if (plan.changes.layer !== undefined || plan.changes.toIndex !== undefined) {
+    if (plan.changes.parent !== undefined) {
+      return {
+        success: false,
+        affectedElements: [],
+        receipt: "",
+        error: "Change the parent and the layer order in separate moves",
+      };
+    }
+
+    const layerResult = resolveLayerIndex(ir, targetElement, plan.changes);
+    if ("result" in layerResult) {
+      return layerResult.result;
+    }
+    if (layerResult.index !== index) {
+      index = layerResult.index;
+      receipt = layerResult.receipt;
+    }
+  }
+
+  elements = insertElementIntoTree(elements, moved, parentId, index);
+
+  // Nothing actually changed (e.g. already at the front)
+  const unchanged =
+    parentId === previousLocation.parentId &&
+    index === previousLocation.index &&
+    moved.from === targetElement.from &&
+    moved.durationInFrames === targetElement.durationInFrames;
+  if (unchanged) {
+    return {
+      success: true,
+      updatedIR: ir,
+      affectedElements: [targetElement.id],
+      receipt,
+    };
+  }
+
+  const changes: Record<string, any> = { parentId: parentId ?? null, toIndex: index };
+  if (moved.from !== targetElement.from) changes.from = moved.from;
+  if (moved.durationInFrames !== targetElement.durationInFrames) {
+    changes.durationInFrames = moved.durationInFrames;
+  }
+
+  const { updatedIR, patch } = recordPatch(
+    { ...ir, elements },
+    {
+      operation: "move",
+      selector: { type: "byId", id: targetElement.id },
+      changes,
+      previousState: previousLocation,
+      description: receipt,
+    },
+    options
+  );
 
   return {
     success: true,
     updatedIR,
     affectedElements: [targetElement.id],
     receipt,
+    patch,
+  };
+}
+
+/**
+ * Execute SPLIT operation
+ *
+ * Cuts a clip at a composition frame (`changes.atFrame`) into two elements.
+ * The second part is layered directly above the first and media keeps
+ * playing from the same source frame (`startFrom`/`endAt` are offset).
+ */
+function executeSplit(
+  ir: CompositionIR,
+  plan: EditPlan,
+  options: ExecuteOptions
+): ExecutionResult {
+  const resolved = resolveTarget(ir, plan, "Split");
+  if ("result" in resolved) {
+    return resolved.result;
+  }
+  const target = resolved.target;
+  const name = target.label ? `"${target.label}"` : `${target.type} element`;
+  const fps = ir.metadata.fps;
+
+  if (target.type === "sequence") {
+    return failure(`Sequences cannot be split; split the clips inside ${name} instead`);
+  }
+  if (typeof plan.changes.atFrame !== "number") {
+    return failure("Split operation requires changes.atFrame");
+  }
+
+  const absoluteFrom = getAbsoluteFrom(ir.elements, target.id);
+  const offset = Math.round(plan.changes.atFrame) - absoluteFrom;
+  if (offset <= 0 || offset >= target.durationInFrames) {
+    return failure(
+      `${framesToTimecode(plan.changes.atFrame, fps)} is not inside ${name} (${framesToTimecode(absoluteFrom, fps)}–${framesToTimecode(absoluteFrom + target.durationInFrames, fps)})`
+    );
+  }
+
+  const isMedia = target.type === "video" || target.type === "audio";
+  const startFrom = target.properties.startFrom ?? 0;
+  const splitSourceFrame = startFrom + Math.round(offset * (target.properties.playbackRate ?? 1));
+  const parent = findParentElement(ir.elements, target.id);
+  const secondId = (options.generateId ?? generateElementId)();
+  // Fades stay at the clip's outer ends, not at the cut
+  const { fadeInFrames, fadeOutFrames } = target.properties;
+  // Keyframes are relative to each part's start, so each keeps its side of the cut
+  const animations = (start: number, end: number) =>
+    target.animations && target.animations.map((animation) => trimAnimation(animation, start, end));
+
+  const plans: EditPlan[] = [
+    {
+      operation: "update",
+      selector: { type: "byId", id: target.id },
+      changes: {
+        durationInFrames: offset,
+        ...(target.animations && { animations: animations(0, offset) }),
+        ...(isMedia && {
+          properties: { endAt: splitSourceFrame, ...(fadeOutFrames && { fadeOutFrames: 0 }) },
+        }),
+      },
+    },
+    {
+      operation: "add",
+      selector: { type: "byId", id: "" },
+      changes: {
+        type: target.type,
+        label: target.label ? `${target.label} (2)` : undefined,
+        from: target.from + offset,
+        durationInFrames: target.durationInFrames - offset,
+        properties: {
+          ...target.properties,
+          ...(isMedia && { startFrom: splitSourceFrame }),
+          ...(fadeInFrames && { fadeInFrames: 0 }),
+        },
+        animations: animations(offset, target.durationInFrames),
+        parent: parent ? { type: "byId", id: parent.id } : undefined,
+      },
+    },
+    {
+      operation: "move",
+      selector: { type: "byId", id: secondId },
+      changes: { layer: "above", relativeTo: { type: "byId", id: target.id } },
+    },
+  ];
+
+  // Clips that transition out of the split clip after the cut now leave the second part
+  const siblings = parent ? parent.children || [] : ir.elements;
+  for (const sibling of siblings) {
+    if (
+      sibling.transitionIn?.fromElementId === target.id &&
+      sibling.from >= target.from + offset
+    ) {
+      plans.push({
+        operation: "update",
+        selector: { type: "byId", id: sibling.id },
+        changes: { transitionIn: { ...sibling.transitionIn, fromElementId: secondId } },
+      });
+    }
+  }
+
+  return executeTransaction(
+    ir,
+    {
+      plans,
+      description: `Split ${name} at ${framesToTimecode(plan.changes.atFrame, fps)}`,
+    },
+    { ...options, generateId: () => secondId }
+  );
+}
+
+/**
+ * Execute TRIM operation
+ *
+ * `changes.trimStart` / `changes.trimEnd` cut frames off the head / tail of a
+ * clip (negative values extend it). Trimming the head moves the clip's start
+ * so the remaining frames stay where they were on the timeline.
+ */
+function executeTrim(
+  ir: CompositionIR,
+  plan: EditPlan,
+  options: ExecuteOptions
+): ExecutionResult {
+  const resolved = resolveTarget(ir, plan, "Trim");
+  if ("result" in resolved) {
+    return resolved.result;
+  }
+  const target = resolved.target;
+  const name = target.label ? `"${target.label}"` : `${target.type} element`;
+  const fps = ir.metadata.fps;
+
+  const trimStart = Math.round(plan.changes.trimStart ?? 0);
+  const trimEnd = Math.round(plan.changes.trimEnd ?? 0);
+  if (trimStart === 0 && trimEnd === 0) {
+    return failure("Trim operation requires changes.trimStart or changes.trimEnd");
+  }
+
+  const from = target.from + trimStart;
+  const durationInFrames = target.durationInFrames - trimStart - trimEnd;
+  if (durationInFrames <= 0) {
+    return failure(`Cannot trim ${name} to nothing; delete it instead`);
+  }
+  if (from < 0) {
+    const container = findParentElement(ir.elements, target.id) ? "sequence" : "timeline";
+    return failure(`Cannot extend ${name} before the start of its ${container}`);
+  }
+
+  const properties: Record<string, number> = {};
+  if (target.type === "video" || target.type === "audio") {
+    const rate = target.properties.playbackRate ?? 1;
+    if (trimStart !== 0) {
+      const startFrom = (target.properties.startFrom ?? 0) + Math.round(trimStart * rate);
+      if (startFrom < 0) {
+        return failure(`Cannot extend ${name} before the start of its source media`);
+      }
+      properties.startFrom = startFrom;
+    }
+    if (trimEnd !== 0 && target.properties.endAt !== undefined) {
+      properties.endAt = target.properties.endAt - Math.round(trimEnd * rate);
+    }
+  }
+
+  const absoluteFrom = getAbsoluteFrom(ir.elements, target.id) + trimStart;
+
+  return executeTransaction(
+    ir,
+    {
+      plans: [
+        {
+          operation: "update",
+          selector: { type: "byId", id: target.id },
+          changes: {
+            from,
+            durationInFrames,
+            ...(Object.keys(properties).length > 0 && { properties }),
+          },
+        },
+      ],
+      description: `Trimmed ${name} to ${framesToTimecode(absoluteFrom, fps)}–${framesToTimecode(absoluteFrom + durationInFrames, fps)}`,
+    },
+    options
+  );
+}
+
+/**
+ * Execute RIPPLE DELETE operation
+ *
+ * Deletes a clip and moves every sibling that starts at or after its end
+ * back by its duration, closing the gap it leaves on the timeline.
+ */
+function executeRippleDelete(
+  ir: CompositionIR,
+  plan: EditPlan,
+  options: ExecuteOptions
+): ExecutionResult {
+  const resolved = resolveTarget(ir, plan, "Ripple delete");
+  if ("result" in resolved) {
+    return resolved.result;
+  }
+  const target = resolved.target;
+  const name = target.label ? `"${target.label}"` : `${target.type} element`;
+
+  const parent = findParentElement(ir.elements, target.id);
+  const siblings = parent ? parent.children || [] : ir.elements;
+  const end = target.from + target.durationInFrames;
+  const later = siblings.filter((el) => el.id !== target.id && el.from >= end);
+
+  const plans: EditPlan[] = [
+    { operation: "delete", selector: { type: "byId", id: target.id }, changes: {} },
+    ...later.map((el) => ({
+      operation: "update" as const,
+      selector: { type: "byId" as const, id: el.id },
+      changes: { from: el.from - target.durationInFrames },
+    })),
+  ];
+
+  const shifted =
+    later.length === 0
+      ? ""
+      : `, moving ${later.length} later element${later.length === 1 ? "" : "s"} back ${framesToTimecode(target.durationInFrames, ir.metadata.fps)}`;
+
+  return executeTransaction(
+    ir,
+    { plans, description: `Ripple deleted ${name}${shifted}` },
+    options
+  );
+}
+
+/**
+ * Resolve the single element a clip edit targets
+ */
+function resolveTarget(
+  ir: CompositionIR,
+  plan: EditPlan,
+  operationName: string
+): { target: CompositionElement } | { result: ExecutionResult } {
+  if (!plan.selector) {
+    return { result: failure(`${operationName} operation requires a selector`) };
+  }
+
+  const selectorResult = resolveSelector(ir, plan.selector);
+
+  if (selectorResult.isAmbiguous) {
+    return {
+      result: {
+        success: false,
+        affectedElements: [],
+        receipt: "",
+        needsDisambiguation: true,
+        disambiguationOptions: selectorResult.disambiguationOptions,
+      },
+    };
+  }
+
+  if (selectorResult.matches.length === 0) {
+    return { result: failure("No element found matching selector") };
+  }
+
+  return { target: selectorResult.matches[0] };
+}
+
+/**
+ * Failed execution result
+ */
+function failure(error: string): ExecutionResult {
+  return { success: false, affectedElements: [], receipt: "", error };
+}
+
+/**
+ * Resolve `layer`/`relativeTo`/`toIndex` move changes to a sibling index
+ */
+function resolveLayerIndex(
+  ir: CompositionIR,
+  target: CompositionElement,
+  changes: { layer?: LayerPosition; relativeTo?: ElementSelector; toIndex?: number }
+): { index: number; receipt: string } | { result: ExecutionResult } {
+  const fail = (error: string) => ({
+    result: { success: false, affectedElements: [], receipt: "", error },
+  });
+
+  const parent = findParentElement(ir.elements, target.id);
+  const siblings = parent ? parent.children || [] : ir.elements;
+  const name = target.label ? `"${target.label}"` : `${target.type} element`;
+
+  if (changes.layer === undefined) {
+    const index = Math.max(0, Math.min(changes.toIndex!, siblings.length - 1));
+    return { index, receipt: `Moved ${name} to layer ${index + 1} of ${siblings.length}` };
+  }
+
+  let relative: CompositionElement | undefined;
+  if (changes.layer === "above" || changes.layer === "below") {
+    if (!changes.relativeTo) {
+      return fail(`Layer position "${changes.layer}" requires a relativeTo selector`);
+    }
+    const relativeResult = resolveSelector(ir, changes.relativeTo);
+    if (relativeResult.matches.length === 0) {
+      return fail("No element found matching relativeTo selector");
+    }
+    if (relativeResult.matches.length > 1) {
+      const labels = relativeResult.matches.map((el) => el.label || el.id).join(", ");
+      return fail(`relativeTo selector matches multiple elements: ${labels}`);
+    }
+    relative = relativeResult.matches[0];
+  }
+
+  const index = computeLayerIndex(siblings, target.id, changes.layer, relative?.id);
+  const relativeName = relative?.label ? `"${relative.label}"` : `${relative?.type} element`;
+  const receipts: Record<LayerPosition, string> = {
+    front: `Brought ${name} to the front`,
+    back: `Sent ${name} to the back`,
+    above: `Moved ${name} above ${relativeName}`,
+    below: `Moved ${name} below ${relativeName}`,
   };
+
+  return { index, receipt: receipts[changes.layer] };
+}
+
+/**
+ * Resolve the sequence a new or moved element should be placed in
+ */
+function resolveParentSequence(
+  ir: CompositionIR,
+  selector: ElementSelector
+): { parent: CompositionElement } | { result: ExecutionResult } {
+  const parentResult = resolveSelector(ir, selector);
+
+  if (parentResult.isAmbiguous) {
+    return {
+      result: {
+        success: false,
+        affectedElements: [],
+        receipt: "",
+        needsDisambiguation: true,
+        disambiguationOptions: parentResult.disambiguationOptions,
+      },
+    };
+  }
+
+  const parent = parentResult.matches[0];
+  if (!parent) {
+    return {
+      result: {
+        success: false,
+        affectedElements: [],
+        receipt: "",
+        error: "No parent sequence found matching selector",
+      },
+    };
+  }
+
+  if (parent.type !== "sequence") {
+    return {
+      result: {
+        success: false,
+        affectedElements: [],
+        receipt: "",
+        error: `Elements can only be nested inside a sequence (got ${parent.type})`,
+      },
+    };
+  }
+
+  return { parent };
+}
+
+/**
+ * Assign fresh IDs to elements (and their children) supplied with a plan
+ */
+function withGeneratedIds(
+  elements: Array<Omit<CompositionElement, "id"> & { id?: string }>,
+  generateId: () => string
+): CompositionElement[] {
+  return elements.map((el) => {
+    const element: CompositionElement = {
+      ...el,
+      id: generateId(),
+      from: el.from || 0,
+      durationInFrames: el.durationInFrames || 90,
+      properties: el.properties || {},
+    };
+    if (el.children) {
+      element.children = withGeneratedIds(el.children, generateId);
+    }
+    return element;
+  });
 }
 
 /**
@@ -351,7 +1236,7 @@ export function validateEditPlan(plan: EditPlan): {
   const errors: string[] = [];
 
   // Check operation
-  if (!["add", "update", "delete", "move"].includes(plan.operation)) {
+  if (!["add", "update", "delete", "move", "split", "trim", "rippleDelete"].includes(plan.operation)) {
     errors.push(`Invalid operation: ${plan.operation}`);
   }
 
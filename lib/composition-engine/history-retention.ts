@@ -0,0 +1,87 @@
+/**
+ * History retention policy
+ *
+ * Decides which history snapshots to keep when compacting a composition's
+ * history: the newest N are always kept, named checkpoints are kept forever,
+ * and older snapshots are thinned to one per hour, then one per day.
+ */
+
+export interface HistoryRetentionPolicy {
+  keepLatest: number; // Newest snapshots kept unconditionally
+  keepNamed: boolean; // Keep named checkpoints forever
+  hourlyForMs: number; // Past keepLatest, keep one snapshot per hour up to this age...
+  dailyForMs?: number; // ...then one per day up to this age (undefined = forever)
+}
+
+export interface RetentionCandidate<Id extends string = string> {
+  id: Id;
+  timestamp: number;
+  name?: string;
+}
+
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+
+export const DEFAULT_RETENTION_POLICY: HistoryRetentionPolicy = {
+  keepLatest: 50,
+  keepNamed: true,
+  hourlyForMs: 7 * DAY_MS,
+};
+
+/**
+ * IDs of the snapshots the policy drops, newest first
+ *
+ * Within each hour (or day) bucket the newest snapshot survives; a bucket that
+ * already holds a kept snapshot (latest or named) keeps no other.
+ */
+export function selectSnapshotsToPrune<Id extends string>(
+  snapshots: RetentionCandidate<Id>[],
+  policy: HistoryRetentionPolicy = DEFAULT_RETENTION_POLICY,
+  now: number = Date.now()
+): Id[] {
+  const oldestFirst = [...snapshots].sort((a, b) => a.timestamp - b.timestamp);
+  const latestFrom = oldestFirst.length - policy.keepLatest;
+
+  return oldestFirst
+    .filter(
+      (snapshot, index) =>
+        index < latestFrom && isPruned(snapshot, oldestFirst[index + 1], policy, now)
+    )
+    .map((snapshot) => snapshot.id)
+    .reverse();
+}
+
+/**
+ * Whether the policy drops a snapshot older than the newest `keepLatest`,
+ * given the next newer snapshot
+ *
+ * Buckets only ever get older, so a snapshot is the newest in its bucket when
+ * the next one is in another. This lets history be compacted a page at a
+ * time, oldest first.
+ */
+export function isPruned(
+  snapshot: Omit<RetentionCandidate, "id">,
+  newer: Omit<RetentionCandidate, "id"> | undefined,
+  policy: HistoryRetentionPolicy = DEFAULT_RETENTION_POLICY,
+  now: number = Date.now()
+): boolean {
+  if (policy.keepNamed && snapshot.name) {
+    return false;
+  }
+  if (policy.dailyForMs !== undefined && now - snapshot.timestamp >= policy.dailyForMs) {
+    return true;
+  }
+  return (
+    newer !== undefined && getBucket(newer, policy, now) === getBucket(snapshot, policy, now)
+  );
+}
+
+function getBucket(
+  snapshot: Omit<RetentionCandidate, "id">,
+  policy: HistoryRetentionPolicy,
+  now: number
+) {
+  return now - snapshot.timestamp < policy.hourlyForMs
+    ? `hour:${Math.floor(snapshot.timestamp / HOUR_MS)}`
+    : `day:${Math.floor(snapshot.timestamp / DAY_MS)}`;
+}
@@ -0,0 +1,404 @@
+/**
+ * Structural diff between two Composition IR versions
+ *
+ * Compares elements by stable ID and reports what changed: added/removed
+ * elements, moves (reparenting or layer order), retimed ranges, property
+ * changes and animation changes. `formatDiffChangelog` renders the diff as a
+ * human-readable changelog for the chat thread.
+ */
+
+import type {
+  Animation,
+  CompositionElement,
+  CompositionIR,
+  ElementType,
+} from "@/types/composition-ir";
+import { framesToTimecode } from "./ir-helpers";
+
+// A single value that differs between versions (dot path, e.g. "properties.color")
+export interface ValueChange {
+  path: string;
+  before: any;
+  after: any;
+}
+
+export interface ElementRef {
+  id: string;
+  type: ElementType;
+  label?: string;
+}
+
+export interface ElementPlacement {
+  parentId: string | null; // null = top level
+  index: number;
+}
+
+export interface AddedElement extends ElementRef {
+  placement: ElementPlacement;
+  from: number;
+  durationInFrames: number;
+}
+
+export interface RemovedElement extends ElementRef {
+  placement: ElementPlacement;
+}
+
+export interface MovedElement extends ElementRef {
+  before: ElementPlacement;
+  after: ElementPlacement;
+}
+
+export interface RetimedElement extends ElementRef {
+  before: { from: number; durationInFrames: number };
+  after: { from: number; durationInFrames: number };
+}
+
+export interface ChangedElement extends ElementRef {
+  changes: ValueChange[];
+}
+
+export interface AnimationChanges extends ElementRef {
+  added: string[]; // Animated properties
+  removed: string[];
+  changed: string[];
+}
+
+export interface CompositionDiff {
+  fromVersion: number;
+  toVersion: number;
+  metadata: ValueChange[];
+  added: AddedElement[];
+  removed: RemovedElement[];
+  moved: MovedElement[];
+  retimed: RetimedElement[];
+  changed: ChangedElement[];
+  animations: AnimationChanges[];
+}
+
+interface IndexedElement {
+  element: CompositionElement;
+  placement: ElementPlacement;
+}
+
+/**
+ * Compute the structural diff from `before` to `after`
+ */
+export function diffCompositions(before: CompositionIR, after: CompositionIR): CompositionDiff {
+  const beforeIndex = indexElements(before.elements);
+  const afterIndex = indexElements(after.elements);
+
+  const diff: CompositionDiff = {
+    fromVersion: before.version,
+    toVersion: after.version,
+    metadata: diffValues(before.metadata, after.metadata, "metadata"),
+    added: [],
+    removed: [],
+    moved: [],
+    retimed: [],
+    changed: [],
+    animations: [],
+  };
+
+  for (const [id, { element, placement }] of Array.from(beforeIndex)) {
+    if (!afterIndex.has(id)) {
+      diff.removed.push({ ...toRef(element), placement });
+    }
+  }
+
+  for (const [id, { element, placement }] of Array.from(afterIndex)) {
+    const previous = beforeIndex.get(id);
+    if (!previous) {
+      diff.added.push({
+        ...toRef(element),
+        placement,
+        from: element.from,
+        durationInFrames: element.durationInFrames,
+      });
+      continue;
+    }
+
+    const ref = toRef(element);
+    const old = previous.element;
+
+    if (old.from !== element.from || old.durationInFrames !== element.durationInFrames) {
+      diff.retimed.push({
+        ...ref,
+        before: { from: old.from, durationInFrames: old.durationInFrames },
+        after: { from: element.from, durationInFrames: element.durationInFrames },
+      });
+    }
+
+    const changes = [
+      ...diffValues(old.properties ?? {}, element.properties ?? {}, "properties"),
+      ...(old.label !== element.label
+        ? [{ path: "label", before: old.label, after: element.label }]
+        : []),
+      ...(old.type !== element.type
+        ? [{ path: "type", before: old.type, after: element.type }]
+        : []),
+      ...(!isEqual(old.transitionIn, element.transitionIn)
+        ? [{ path: "transitionIn", before: old.transitionIn, after: element.transitionIn }]
+        : []),
+    ];
+    if (changes.length > 0) {
+      diff.changed.push({ ...ref, changes });
+    }
+
+    const animationChanges = diffAnimations(old.animations ?? [], element.animations ?? []);
+    if (animationChanges) {
+      diff.animations.push({ ...ref, ...animationChanges });
+    }
+  }
+
+  diff.moved = findMovedElements(beforeIndex, afterIndex);
+
+  return diff;
+}
+
+/**
+ * True when the two versions are structurally identical
+ */
+export function isEmptyDiff(diff: CompositionDiff): boolean {
+  return (
+    diff.metadata.length === 0 &&
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.moved.length === 0 &&
+    diff.retimed.length === 0 &&
+    diff.changed.length === 0 &&
+    diff.animations.length === 0
+  );
+}
+
+/**
+ * Render a diff as a changelog, one line per change
+ */
+export function formatDiffChangelog(diff: CompositionDiff, fps: number = 30): string {
+  if (isEmptyDiff(diff)) {
+    return "No changes";
+  }
+
+  const lines: string[] = [];
+  const time = (frame: number) => framesToTimecode(frame, fps);
+  const range = (from: number, durationInFrames: number) =>
+    `${time(from)}–${time(from + durationInFrames)}`;
+
+  for (const change of diff.metadata) {
+    lines.push(`~ Composition ${change.path.replace("metadata.", "")}: ${formatValue(change.before)} → ${formatValue(change.after)}`);
+  }
+  for (const element of diff.added) {
+    lines.push(`+ Added ${describeElement(element)} at ${range(element.from, element.durationInFrames)}`);
+  }
+  for (const element of diff.removed) {
+    lines.push(`- Removed ${describeElement(element)}`);
+  }
+  for (const element of diff.moved) {
+    lines.push(
+      element.before.parentId !== element.after.parentId
+        ? `↕ Moved ${describeElement(element)} ${element.after.parentId ? `into ${element.after.parentId}` : "to the top level"}`
+        : `↕ Moved ${describeElement(element)} from layer ${element.before.index + 1} to ${element.after.index + 1}`
+    );
+  }
+  for (const element of diff.retimed) {
+    lines.push(
+      `⏱ Retimed ${describeElement(element)}: ${range(element.before.from, element.before.durationInFrames)} → ${range(element.after.from, element.after.durationInFrames)}`
+    );
+  }
+  for (const element of diff.changed) {
+    const changes = element.changes
+      .map((change) => `${change.path.replace("properties.", "")} ${formatValue(change.before)} → ${formatValue(change.after)}`)
+      .join(", ");
+    lines.push(`~ Changed ${describeElement(element)}: ${changes}`);
+  }
+  for (const element of diff.animations) {
+    const parts = [
+      ...element.added.map((property) => `added ${property}`),
+      ...element.removed.map((property) => `removed ${property}`),
+      ...element.changed.map((property) => `changed ${property}`),
+    ];
+    lines.push(`✦ Animations on ${describeElement(element)}: ${parts.join(", ")}`);
+  }
+
+  return lines.join("\n");
+}
+
+// ==================== Internals ====================
+
+function toRef(element: CompositionElement): ElementRef {
+  return element.label !== undefined
+    ? { id: element.id, type: element.type, label: element.label }
+    : { id: element.id, type: element.type };
+}
+
+function describeElement(element: ElementRef): string {
+  return element.label ? `${element.type} "${element.label}"` : `${element.type} ${element.id}`;
+}
+
+function formatValue(value: any): string {
+  if (value === undefined) return "unset";
+  if (typeof value === "string") return `"${value}"`;
+  return JSON.stringify(value);
+}
+
+/**
+ * Map every element (at any depth) to its placement in the tree
+ */
+function indexElements(
+  elements: CompositionElement[],
+  parentId: string | null = null,
+  index: Map<string, IndexedElement> = new Map()
+): Map<string, IndexedElement> {
+  elements.forEach((element, i) => {
+    index.set(element.id, { element, placement: { parentId, index: i } });
+    if (element.children) {
+      indexElements(element.children, element.id, index);
+    }
+  });
+  return index;
+}
+
+/**
+ * Compare two plain objects key by key, recursing into nested objects.
+ * Arrays and primitives are compared as whole values.
+ */
+function diffValues(before: Record<string, any>, after: Record<string, any>, path: string): ValueChange[] {
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+  const changes: ValueChange[] = [];
+
+  for (const key of keys) {
+    const a = before[key];
+    const b = after[key];
+    const keyPath = `${path}.${key}`;
+
+    if (isPlainObject(a) && isPlainObject(b)) {
+      changes.push(...diffValues(a, b, keyPath));
+    } else if (!isEqual(a, b)) {
+      changes.push({ path: keyPath, before: a, after: b });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Animations are keyed by the property they animate
+ */
+function diffAnimations(
+  before: Animation[],
+  after: Animation[]
+): Omit<AnimationChanges, keyof ElementRef> | null {
+  const beforeByProperty = new Map(before.map((animation) => [animation.property, animation]));
+  const afterByProperty = new Map(after.map((animation) => [animation.property, animation]));
+
+  const added = after
+    .map((animation) => animation.property)
+    .filter((property) => !beforeByProperty.has(property));
+  const removed = before
+    .map((animation) => animation.property)
+    .filter((property) => !afterByProperty.has(property));
+  const changed = after
+    .map((animation) => animation.property)
+    .filter(
+      (property) =>
+        beforeByProperty.has(property) &&
+        !isEqual(beforeByProperty.get(property), afterByProperty.get(property))
+    );
+
+  if (added.length === 0 && removed.length === 0 && changed.length === 0) {
+    return null;
+  }
+  return { added, removed, changed };
+}
+
+/**
+ * An element moved if its parent changed, or if its order relative to the
+ * siblings present in both versions changed. Within a parent, the longest
+ * common subsequence of sibling IDs stays put; everything else moved (so
+ * swapping two layers reports one move, not two).
+ */
+function findMovedElements(
+  beforeIndex: Map<string, IndexedElement>,
+  afterIndex: Map<string, IndexedElement>
+): MovedElement[] {
+  const moved = new Set<string>();
+  const beforeOrder = new Map<string | null, string[]>();
+  const afterOrder = new Map<string | null, string[]>();
+
+  for (const [id, { placement }] of Array.from(afterIndex)) {
+    const previous = beforeIndex.get(id);
+    if (!previous) continue;
+
+    if (previous.placement.parentId !== placement.parentId) {
+      moved.add(id);
+      continue;
+    }
+
+    const parentId = placement.parentId;
+    afterOrder.set(parentId, [...(afterOrder.get(parentId) ?? []), id]);
+  }
+
+  for (const [id, { placement }] of Array.from(beforeIndex)) {
+    const next = afterIndex.get(id);
+    if (!next || moved.has(id)) continue;
+    beforeOrder.set(placement.parentId, [...(beforeOrder.get(placement.parentId) ?? []), id]);
+  }
+
+  // Both maps were filled in tree order, so each sibling list is already sorted
+  for (const [parentId, order] of Array.from(afterOrder)) {
+    const stable = longestCommonSubsequence(beforeOrder.get(parentId) ?? [], order);
+    for (const id of order) {
+      if (!stable.has(id)) moved.add(id);
+    }
+  }
+
+  return Array.from(afterIndex.values())
+    .filter(({ element }) => moved.has(element.id))
+    .map(({ element, placement }) => ({
+      ...toRef(element),
+      before: beforeIndex.get(element.id)!.placement,
+      after: placement,
+    }));
+}
+
+function longestCommonSubsequence(a: string[], b: string[]): Set<string> {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const common = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      common.add(a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return common;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every((key) => isEqual(a[key], b[key]));
+}
@@ -6,6 +6,7 @@ import type {
   CompositionIR,
   CompositionElement,
   CompositionMetadata,
+  LayerPosition,
   Patch,
 } from "@/types/composition-ir";
 import { nanoid } from "nanoid";
@@ -50,7 +51,7 @@ export function addElement(
 }
 
 /**
- * Update an element by ID
+ * Update an element by ID (searches nested sequences)
  */
 export function updateElement(
   ir: CompositionIR,
@@ -59,49 +60,361 @@ export function updateElement(
 ): CompositionIR {
   return {
     ...ir,
-    elements: ir.elements.map((el) =>
-      el.id === elementId ? { ...el, ...changes } : el
-    ),
+    elements: mapElementTree(ir.elements, elementId, (el) => ({ ...el, ...changes })),
     version: ir.version + 1,
   };
 }
 
 /**
- * Delete an element by ID
+ * Delete an element by ID (searches nested sequences)
  */
 export function deleteElement(ir: CompositionIR, elementId: string): CompositionIR {
   return {
     ...ir,
-    elements: ir.elements.filter((el) => el.id !== elementId),
+    elements: removeElementsFromTree(ir.elements, [elementId]),
     version: ir.version + 1,
   };
 }
 
 /**
- * Move an element to a new index
+ * Move an element to a new index within its sibling list
  */
 export function moveElement(
   ir: CompositionIR,
   elementId: string,
   newIndex: number
 ): CompositionIR {
-  const elements = [...ir.elements];
-  const currentIndex = elements.findIndex((el) => el.id === elementId);
+  const parent = findParentElement(ir.elements, elementId);
+  const siblings = [...(parent ? parent.children || [] : ir.elements)];
+  const currentIndex = siblings.findIndex((el) => el.id === elementId);
 
   if (currentIndex === -1) {
     throw new Error(`Element with ID ${elementId} not found`);
   }
 
-  const [element] = elements.splice(currentIndex, 1);
-  elements.splice(newIndex, 0, element);
+  const [element] = siblings.splice(currentIndex, 1);
+  siblings.splice(newIndex, 0, element);
 
   return {
     ...ir,
-    elements,
+    elements: parent
+      ? mapElementTree(ir.elements, parent.id, (el) => ({ ...el, children: siblings }))
+      : siblings,
     version: ir.version + 1,
   };
 }
 
+/**
+ * Compute the sibling index an element should move to for a layer operation
+ * The result is the index after the element is removed (as moveElement expects)
+ */
+export function computeLayerIndex(
+  siblings: CompositionElement[],
+  elementId: string,
+  position: LayerPosition,
+  relativeToId?: string
+): number {
+  if (!siblings.some((el) => el.id === elementId)) {
+    throw new Error(`Element with ID ${elementId} not found`);
+  }
+
+  const remaining = siblings.filter((el) => el.id !== elementId);
+
+  switch (position) {
+    case "front":
+      return remaining.length;
+    case "back":
+      return 0;
+    case "above":
+    case "below": {
+      if (!relativeToId) {
+        throw new Error(`Layer position "${position}" requires a reference element`);
+      }
+      if (relativeToId === elementId) {
+        throw new Error("An element cannot be layered relative to itself");
+      }
+      const relativeIndex = remaining.findIndex((el) => el.id === relativeToId);
+      if (relativeIndex === -1) {
+        throw new Error(
+          `Element ${relativeToId} is not in the same sequence as ${elementId}`
+        );
+      }
+      return position === "above" ? relativeIndex + 1 : relativeIndex;
+    }
+    default:
+      throw new Error(`Unknown layer position: ${position}`);
+  }
+}
+
+/**
+ * Replace the order of the top-level elements or a sequence's children
+ */
+export function reorderSiblings(
+  elements: CompositionElement[],
+  elementIds: string[],
+  parentId?: string
+): CompositionElement[] {
+  const reorder = (siblings: CompositionElement[]) => {
+    const elementMap = new Map(siblings.map((el) => [el.id, el]));
+    return elementIds
+      .map((id) => elementMap.get(id))
+      .filter((el): el is CompositionElement => !!el);
+  };
+
+  if (!parentId) {
+    return reorder(elements);
+  }
+
+  return mapElementTree(elements, parentId, (parent) => ({
+    ...parent,
+    children: reorder(parent.children || []),
+  }));
+}
+
+/**
+ * Create an invertible patch for a full sibling reorder
+ * Both orders are stored so the permutation can be undone and redone as a whole
+ */
+export function createReorderPatch(
+  previousIds: string[],
+  elementIds: string[],
+  parentId?: string
+): Patch {
+  return {
+    id: nanoid(),
+    timestamp: Date.now(),
+    operation: "move",
+    selector: { type: "byId", id: parentId ?? elementIds[0] },
+    changes: { order: elementIds, parentId },
+    previousState: { order: previousIds, parentId },
+  };
+}
+
+// Composition-wide state recorded by "settings" patches (a restore replaces
+// all of it, track and mix edits only their own)
+export type CompositionSettings = Partial<Pick<CompositionIR, "elements" | "metadata" | "tracks" | "mix">>;
+
+/**
+ * Create an invertible patch for composition-wide settings (tracks, audio
+ * mix); the settings it changes are stored as they were before, and unset
+ * ones as null since stored IRs drop undefined fields
+ */
+export function createSettingsPatch(ir: CompositionIR, changes: CompositionSettings): Patch {
+  const keys = Object.keys(changes) as Array<keyof CompositionSettings>;
+  return {
+    id: nanoid(),
+    timestamp: Date.now(),
+    operation: "settings",
+    selector: { type: "byId", id: ir.id },
+    changes: Object.fromEntries(keys.map((key) => [key, changes[key] ?? null])),
+    previousState: Object.fromEntries(keys.map((key) => [key, ir[key] ?? null])),
+  };
+}
+
+/**
+ * Set the settings a "settings" patch changes; null or missing ones are unset
+ */
+function setSettings(ir: CompositionIR, patch: Patch, settings: Record<string, any>): CompositionIR {
+  const updated: CompositionIR = { ...ir, version: ir.version + 1 };
+  for (const key of Object.keys(patch.changes) as Array<keyof CompositionSettings>) {
+    if (settings[key] == null) {
+      delete updated[key];
+    } else {
+      updated[key] = settings[key];
+    }
+  }
+  return updated;
+}
+
+/**
+ * Replace the composition's elements, metadata, tracks and mix with a
+ * snapshot's as one undo step, keeping the undo history
+ */
+export function restoreComposition(ir: CompositionIR, snapshot: CompositionIR, description: string): CompositionIR {
+  const patch: Patch = {
+    ...createSettingsPatch(ir, {
+      elements: snapshot.elements,
+      metadata: snapshot.metadata,
+      tracks: snapshot.tracks,
+      mix: snapshot.mix,
+    }),
+    description,
+  };
+  return addPatch(applyPatch(ir, patch), patch);
+}
+
+// ==================== Element Tree ====================
+
+/**
+ * Flatten the element tree (depth-first, parents before children)
+ */
+export function flattenElements(elements: CompositionElement[]): CompositionElement[] {
+  const results: CompositionElement[] = [];
+
+  for (const element of elements) {
+    results.push(element);
+    if (element.children) {
+      results.push(...flattenElements(element.children));
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Find the sequence that directly contains an element
+ * Returns undefined for top-level elements
+ */
+export function findParentElement(
+  elements: CompositionElement[],
+  id: string
+): CompositionElement | undefined {
+  for (const element of elements) {
+    if (!element.children) continue;
+    if (element.children.some((child) => child.id === id)) {
+      return element;
+    }
+    const found = findParentElement(element.children, id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Get the chain of elements from the top level down to (and including) an element
+ */
+export function findElementPath(
+  elements: CompositionElement[],
+  id: string
+): CompositionElement[] | undefined {
+  for (const element of elements) {
+    if (element.id === id) {
+      return [element];
+    }
+    if (element.children) {
+      const path = findElementPath(element.children, id);
+      if (path) return [element, ...path];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get an element's start frame on the composition timeline
+ * (child `from` values are relative to their parent sequence)
+ */
+export function getAbsoluteFrom(elements: CompositionElement[], id: string): number {
+  const path = findElementPath(elements, id);
+  if (!path) {
+    throw new Error(`Element with ID ${id} not found`);
+  }
+  return path.reduce((sum, el) => sum + el.from, 0);
+}
+
+/**
+ * Replace one element anywhere in the tree
+ */
+export function mapElementTree(
+  elements: CompositionElement[],
+  id: string,
+  updater: (element: CompositionElement) => CompositionElement
+): CompositionElement[] {
+  return elements.map((el) => {
+    if (el.id === id) return updater(el);
+    if (el.children) {
+      return { ...el, children: mapElementTree(el.children, id, updater) };
+    }
+    return el;
+  });
+}
+
+/**
+ * Remove elements (and their children) anywhere in the tree
+ */
+export function removeElementsFromTree(
+  elements: CompositionElement[],
+  ids: string[]
+): CompositionElement[] {
+  return elements
+    .filter((el) => !ids.includes(el.id))
+    .map((el) =>
+      el.children ? { ...el, children: removeElementsFromTree(el.children, ids) } : el
+    );
+}
+
+/**
+ * Insert an element at the top level or inside a sequence
+ * Appends when no index is given
+ */
+export function insertElementIntoTree(
+  elements: CompositionElement[],
+  element: CompositionElement,
+  parentId?: string,
+  index?: number
+): CompositionElement[] {
+  const insertInto = (siblings: CompositionElement[]) => {
+    const next = [...siblings];
+    next.splice(index ?? next.length, 0, element);
+    return next;
+  };
+
+  if (!parentId) {
+    return insertInto(elements);
+  }
+
+  return mapElementTree(elements, parentId, (parent) => {
+    if (parent.type !== "sequence") {
+      throw new Error(`Element ${parentId} is not a sequence`);
+    }
+    return { ...parent, children: insertInto(parent.children || []) };
+  });
+}
+
+/**
+ * Where an element sits in the tree: its parent sequence and sibling index
+ */
+export interface ElementLocation {
+  element: CompositionElement;
+  parentId?: string;
+  index: number;
+}
+
+/**
+ * Get an element together with its parent and sibling index
+ */
+export function getElementLocation(
+  elements: CompositionElement[],
+  id: string
+): ElementLocation | undefined {
+  const parent = findParentElement(elements, id);
+  const siblings = parent ? parent.children || [] : elements;
+  const index = siblings.findIndex((el) => el.id === id);
+  if (index === -1) {
+    return undefined;
+  }
+
+  const location: ElementLocation = { element: siblings[index], index };
+  if (parent) {
+    location.parentId = parent.id;
+  }
+  return location;
+}
+
+/**
+ * Put an element back exactly where a location says, replacing any current copy
+ */
+export function restoreElementLocation(
+  elements: CompositionElement[],
+  location: ElementLocation
+): CompositionElement[] {
+  return insertElementIntoTree(
+    removeElementsFromTree(elements, [location.element.id]),
+    location.element,
+    location.parentId,
+    location.index
+  );
+}
+
 /**
  * Find an element by ID
  */
@@ -164,77 +477,293 @@ export function findElementsByType(
   return results;
 }
 
+/**
+ * Merge update changes into an element (properties are merged, not replaced;
+ * `transitionIn: null` removes the element's transition)
+ */
+export function mergeElementChanges(
+  element: CompositionElement,
+  changes: Omit<Partial<CompositionElement>, "transitionIn"> & {
+    transitionIn?: CompositionElement["transitionIn"] | null;
+  }
+): CompositionElement {
+  const updated: CompositionElement = { ...element };
+
+  if (changes.properties) {
+    updated.properties = { ...updated.properties, ...changes.properties };
+  }
+  if (changes.from !== undefined) {
+    updated.from = changes.from;
+  }
+  if (changes.durationInFrames !== undefined) {
+    updated.durationInFrames = changes.durationInFrames;
+  }
+  if (changes.label !== undefined) {
+    updated.label = changes.label;
+  }
+  if (changes.animations !== undefined) {
+    updated.animations = changes.animations;
+  }
+  if (changes.trackId !== undefined) {
+    updated.trackId = changes.trackId;
+  }
+  if (changes.transitionIn === null) {
+    delete updated.transitionIn;
+  } else if (changes.transitionIn !== undefined) {
+    updated.transitionIn = changes.transitionIn;
+  }
+
+  return updated;
+}
+
+// ==================== Patches & Undo/Redo ====================
+
+/**
+ * Number of applied patches; patches after the cursor can be redone
+ */
+export function getPatchCursor(ir: CompositionIR): number {
+  return ir.patchCursor ?? ir.patches.length;
+}
+
+/**
+ * Set the patch cursor (omitted when every patch is applied)
+ */
+export function withPatchCursor(ir: CompositionIR, cursor?: number): CompositionIR {
+  const { patchCursor: _previous, ...rest } = ir;
+  return cursor === undefined || cursor >= ir.patches.length
+    ? rest
+    : { ...rest, patchCursor: cursor };
+}
+
 /**
  * Add a patch to the composition
+ * A new edit after undo starts a new branch: undone patches are dropped
  */
 export function addPatch(ir: CompositionIR, patch: Patch): CompositionIR {
-  return {
-    ...ir,
-    patches: [...ir.patches, patch],
-  };
+  return trimPatchHistory(
+    withPatchCursor({
+      ...ir,
+      patches: [...ir.patches.slice(0, getPatchCursor(ir)), patch],
+    })
+  );
 }
 
+// Undo steps kept in the IR; each patch holds a whole previous element and the
+// composition document is capped at 1 MiB
+export const MAX_PATCH_GROUPS = 100;
+
 /**
- * Revert the last patch (undo)
+ * Drop the oldest undo steps (whole patch groups) beyond `maxGroups`,
+ * keeping the cursor on the same patch
  */
-export function revertLastPatch(ir: CompositionIR): CompositionIR | null {
-  if (ir.patches.length === 0) {
-    return null;
+export function trimPatchHistory(ir: CompositionIR, maxGroups = MAX_PATCH_GROUPS): CompositionIR {
+  const groupStarts = ir.patches
+    .map((_, i) => i)
+    .filter((i) => i === 0 || !ir.patches[i].groupId || ir.patches[i].groupId !== ir.patches[i - 1].groupId);
+  if (groupStarts.length <= maxGroups) {
+    return ir;
   }
 
-  const lastPatch = ir.patches[ir.patches.length - 1];
+  const dropped = groupStarts[groupStarts.length - maxGroups];
+  return withPatchCursor(
+    { ...ir, patches: ir.patches.slice(dropped) },
+    Math.max(0, getPatchCursor(ir) - dropped)
+  );
+}
+
+/**
+ * Revert a single patch using its previous state
+ *
+ * Update, delete and move patches store the exact prior element with its
+ * parent and index, so reverting puts back precisely what was there.
+ */
+export function revertPatch(ir: CompositionIR, patch: Patch): CompositionIR {
+  const elementId = patch.selector.type === "byId" ? patch.selector.id : "";
+
+  // Restore a full sibling order
+  if (patch.operation === "move" && patch.previousState?.order) {
+    return {
+      ...ir,
+      elements: reorderSiblings(
+        ir.elements,
+        patch.previousState.order,
+        patch.previousState.parentId
+      ),
+      version: ir.version + 1,
+    };
+  }
 
-  // Revert based on operation
-  let revertedIR: CompositionIR;
-  switch (lastPatch.operation) {
+  switch (patch.operation) {
     case "add":
       // Remove the added element
-      revertedIR = deleteElement(ir, lastPatch.selector.type === "byId" ? lastPatch.selector.id : "");
-      break;
+      return deleteElement(ir, elementId);
+
+    case "settings":
+      return setSettings(ir, patch, patch.previousState ?? {});
 
     case "update":
-      // Restore previous state
-      if (!lastPatch.previousState) {
-        throw new Error("Cannot undo update: no previous state stored");
+    case "delete":
+    case "move":
+      if (!patch.previousState?.element) {
+        throw new Error(`Cannot undo ${patch.operation}: no previous state stored`);
       }
-      revertedIR = updateElement(
-        ir,
-        lastPatch.selector.type === "byId" ? lastPatch.selector.id : "",
-        lastPatch.previousState
-      );
-      break;
+      return {
+        ...ir,
+        elements: restoreElementLocation(ir.elements, patch.previousState),
+        version: ir.version + 1,
+      };
+
+    default:
+      throw new Error(`Unknown patch operation: ${patch.operation}`);
+  }
+}
+
+/**
+ * Re-apply a patch (redo)
+ */
+export function applyPatch(ir: CompositionIR, patch: Patch): CompositionIR {
+  const elementId = patch.selector.type === "byId" ? patch.selector.id : "";
+
+  switch (patch.operation) {
+    case "add":
+      return {
+        ...ir,
+        elements: insertElementIntoTree(
+          ir.elements,
+          patch.changes.element,
+          patch.changes.parentId,
+          patch.changes.index
+        ),
+        version: ir.version + 1,
+      };
+
+    case "update":
+      return {
+        ...ir,
+        elements: mapElementTree(ir.elements, elementId, (el) =>
+          mergeElementChanges(el, patch.changes)
+        ),
+        version: ir.version + 1,
+      };
 
     case "delete":
-      // Re-add the deleted element
-      if (!lastPatch.previousState) {
-        throw new Error("Cannot undo delete: no previous state stored");
+      return deleteElement(ir, elementId);
+
+    case "settings":
+      return setSettings(ir, patch, patch.changes);
+
+    case "move": {
+      if (patch.changes.order) {
+        return {
+          ...ir,
+          elements: reorderSiblings(ir.elements, patch.changes.order, patch.changes.parentId),
+          version: ir.version + 1,
+        };
       }
-      revertedIR = addElement(ir, lastPatch.previousState);
-      break;
 
-    case "move":
-      // Move back to original position
-      if (!lastPatch.previousState?.index) {
-        throw new Error("Cannot undo move: no previous index stored");
+      const element = findElementById(ir.elements, elementId);
+      if (!element) {
+        throw new Error(`Element with ID ${elementId} not found`);
       }
-      revertedIR = moveElement(
-        ir,
-        lastPatch.selector.type === "byId" ? lastPatch.selector.id : "",
-        lastPatch.previousState.index
-      );
-      break;
+      const { from, durationInFrames, parentId, toIndex } = patch.changes;
+      return {
+        ...ir,
+        elements: restoreElementLocation(ir.elements, {
+          element: mergeElementChanges(element, { from, durationInFrames }),
+          parentId: parentId ?? undefined,
+          index: toIndex,
+        }),
+        version: ir.version + 1,
+      };
+    }
 
     default:
-      throw new Error(`Unknown patch operation: ${lastPatch.operation}`);
+      throw new Error(`Unknown patch operation: ${patch.operation}`);
+  }
+}
+
+/**
+ * Revert the last patch and drop it (ignores the redo cursor)
+ */
+export function revertLastPatch(ir: CompositionIR): CompositionIR | null {
+  if (ir.patches.length === 0) {
+    return null;
   }
 
+  const lastPatch = ir.patches[ir.patches.length - 1];
+
   // Remove the last patch
   return {
-    ...revertedIR,
+    ...revertPatch(ir, lastPatch),
     patches: ir.patches.slice(0, -1),
   };
 }
 
+/**
+ * Patches the next undo reverts: the group (or single patch) before the cursor
+ */
+export function getUndoGroup(ir: CompositionIR): Patch[] {
+  const cursor = getPatchCursor(ir);
+  let start = cursor - 1;
+  const last = ir.patches[start];
+  if (!last) {
+    return [];
+  }
+  while (last.groupId && ir.patches[start - 1]?.groupId === last.groupId) {
+    start--;
+  }
+  return ir.patches.slice(start, cursor);
+}
+
+/**
+ * Patches the next redo re-applies: the group (or single patch) after the cursor
+ */
+export function getRedoGroup(ir: CompositionIR): Patch[] {
+  const cursor = getPatchCursor(ir);
+  let end = cursor + 1;
+  const next = ir.patches[cursor];
+  if (!next) {
+    return [];
+  }
+  while (next.groupId && ir.patches[end]?.groupId === next.groupId) {
+    end++;
+  }
+  return ir.patches.slice(cursor, end);
+}
+
+/**
+ * Undo the last edit (a whole transaction reverts together)
+ * Patches stay in the IR so they can be redone
+ */
+export function undoPatchGroup(ir: CompositionIR): CompositionIR | null {
+  const group = getUndoGroup(ir);
+  if (group.length === 0) {
+    return null;
+  }
+
+  const revertedIR = [...group].reverse().reduce(revertPatch, ir);
+  return withPatchCursor(
+    { ...revertedIR, patches: ir.patches },
+    getPatchCursor(ir) - group.length
+  );
+}
+
+/**
+ * Redo the next undone edit
+ */
+export function redoPatchGroup(ir: CompositionIR): CompositionIR | null {
+  const group = getRedoGroup(ir);
+  if (group.length === 0) {
+    return null;
+  }
+
+  const appliedIR = group.reduce(applyPatch, ir);
+  return withPatchCursor(
+    { ...appliedIR, patches: ir.patches },
+    getPatchCursor(ir) + group.length
+  );
+}
+
 /**
  * Convert frames to timecode string (e.g., "0:05.5")
  */
@@ -246,12 +775,13 @@ export function framesToTimecode(frame: number, fps: number): string {
 }
 
 /**
- * Convert timecode to frames
+ * Convert timecode to frames ("0:05.5", or "00:01:02,345" as in SRT/WebVTT)
  */
 export function timecodeToFrames(timecode: string, fps: number): number {
-  const [minutes, seconds] = timecode.split(":").map(Number);
-  const totalSeconds = minutes * 60 + seconds;
-  return Math.floor(totalSeconds * fps);
+  const parts = timecode.trim().replace(",", ".").split(":").map(Number);
+  const totalSeconds = parts.reduce((total, part) => total * 60 + part, 0);
+  // Whole milliseconds, so "0:01.1" doesn't land a frame early from float error
+  return Math.floor((Math.round(totalSeconds * 1000) * fps) / 1000);
 }
 
 /**
@@ -297,8 +827,8 @@ export function validateComposition(ir: CompositionIR): string[] {
     errors.push("Duration must be positive");
   }
 
-  // Check elements
-  for (const element of ir.elements) {
+  // Check elements (including sequence children)
+  for (const element of flattenElements(ir.elements)) {
     if (!element.id) {
       errors.push("Element missing ID");
     }
@@ -0,0 +1,406 @@
+/**
+ * Keyframe editing
+ *
+ * Evaluation and editing helpers for element animations. Keyframe frames are
+ * relative to the element's start, and each keyframe may set the easing of
+ * the segment that starts at it (falling back to the animation's easing).
+ *
+ * Values are typed by property: numbers interpolate linearly, colors in
+ * OKLab, {x, y} points per axis, and discrete values (such as text) switch
+ * when the next keyframe is reached.
+ *
+ * Editing helpers return a new animation with keyframes sorted by frame.
+ */
+
+import type {
+  Animation,
+  CompositionElement,
+  EasingType,
+  Keyframe,
+  KeyframeValue,
+  Point,
+} from "@/types/composition-ir";
+import { interpolateColor, parseColor } from "./color";
+import { applyEasing, clamp, lerp } from "./utils";
+
+export type AnimatableValueType = "number" | "color" | "point" | "discrete";
+
+export interface AnimatableProperty {
+  type: AnimatableValueType;
+  rest: KeyframeValue; // Resting value for new lanes
+}
+
+// Properties that can be animated
+export const ANIMATABLE_PROPERTIES: Record<string, AnimatableProperty> = {
+  opacity: { type: "number", rest: 1 },
+  scale: { type: "number", rest: 1 },
+  scaleX: { type: "number", rest: 1 },
+  scaleY: { type: "number", rest: 1 },
+  x: { type: "number", rest: 0 },
+  y: { type: "number", rest: 0 },
+  position: { type: "point", rest: { x: 0, y: 0 } }, // x and y together
+  rotation: { type: "number", rest: 0 },
+  rotateX: { type: "number", rest: 0 },
+  rotateY: { type: "number", rest: 0 },
+  translateX: { type: "number", rest: 0 },
+  translateY: { type: "number", rest: 0 },
+  skewX: { type: "number", rest: 0 },
+  skewY: { type: "number", rest: 0 },
+  blur: { type: "number", rest: 0 },
+  brightness: { type: "number", rest: 1 },
+  contrast: { type: "number", rest: 1 },
+  saturate: { type: "number", rest: 1 },
+  grayscale: { type: "number", rest: 0 },
+  hueRotate: { type: "number", rest: 0 },
+  color: { type: "color", rest: "#ffffff" }, // Text color
+  backgroundColor: { type: "color", rest: "transparent" },
+  fill: { type: "color", rest: "#ffffff" }, // Shape fill
+  text: { type: "discrete", rest: "" }, // Text swaps
+  volume: { type: "number", rest: 1 }, // Audio and video clips (see audio.ts)
+};
+
+// Animated properties that render as CSS transform functions
+export const TRANSFORM_FUNCTIONS: Record<string, { name: string; unit: string }> = {
+  scale: { name: "scale", unit: "" },
+  scaleX: { name: "scaleX", unit: "" },
+  scaleY: { name: "scaleY", unit: "" },
+  rotation: { name: "rotate", unit: "deg" },
+  rotateX: { name: "rotateX", unit: "deg" },
+  rotateY: { name: "rotateY", unit: "deg" },
+  translateX: { name: "translateX", unit: "px" },
+  translateY: { name: "translateY", unit: "px" },
+  skewX: { name: "skewX", unit: "deg" },
+  skewY: { name: "skewY", unit: "deg" },
+};
+
+// Animated properties that render as CSS filter functions
+export const FILTER_FUNCTIONS: Record<string, { name: string; unit: string }> = {
+  blur: { name: "blur", unit: "px" },
+  brightness: { name: "brightness", unit: "" },
+  contrast: { name: "contrast", unit: "" },
+  saturate: { name: "saturate", unit: "" },
+  grayscale: { name: "grayscale", unit: "" },
+  hueRotate: { name: "hue-rotate", unit: "deg" },
+};
+
+// Animated properties that replace an element property instead of styling the element
+export const ANIMATED_ELEMENT_PROPERTIES = ["color", "fill", "text"];
+
+// Animated properties that shape a clip's sound instead of its picture
+export const AUDIO_PROPERTIES = ["volume"];
+
+// Easing choices in the keyframe editor; "cubic-bezier" starts from CSS ease-in-out
+export const EASING_OPTIONS = ["linear", "ease-in", "ease-out", "ease-in-out", "spring", "cubic-bezier"] as const;
+
+export type EasingOption = (typeof EASING_OPTIONS)[number];
+
+/**
+ * Editor choice for an easing (custom springs show as "spring")
+ */
+export function getEasingOption(easing: EasingType): EasingOption {
+  return typeof easing === "string" ? easing : easing.type;
+}
+
+/**
+ * Easing for an editor choice, keeping the current one if it is already that kind
+ */
+export function easingFromOption(option: EasingOption, current?: EasingType): EasingType {
+  if (current && getEasingOption(current) === option) return current;
+  if (option === "cubic-bezier") return { type: "cubic-bezier", x1: 0.42, y1: 0, x2: 0.58, y2: 1 };
+  return option;
+}
+
+/**
+ * Keyframes in frame order
+ */
+export function sortKeyframes(keyframes: Keyframe[]): Keyframe[] {
+  return [...keyframes].sort((a, b) => a.frame - b.frame);
+}
+
+/**
+ * Easing of the segment starting at a keyframe
+ */
+export function getSegmentEasing(animation: Animation, index: number): EasingType {
+  return animation.keyframes[index]?.easing ?? animation.easing ?? "linear";
+}
+
+/**
+ * Value type of an animated property (unknown properties are numbers)
+ */
+export function getPropertyType(property: string): AnimatableValueType {
+  return ANIMATABLE_PROPERTIES[property]?.type ?? "number";
+}
+
+/**
+ * Value between two keyframe values at eased progress `t`
+ */
+export function interpolateValue(
+  type: AnimatableValueType,
+  from: KeyframeValue,
+  to: KeyframeValue,
+  t: number
+): KeyframeValue {
+  switch (type) {
+    case "number":
+      return lerp(from as number, to as number, t);
+    case "color":
+      return interpolateColor(String(from), String(to), t);
+    case "point": {
+      const a = from as Point;
+      const b = to as Point;
+      return { x: lerp(a.x, b.x, t), y: lerp(a.y, b.y, t) };
+    }
+    default:
+      // Discrete values switch when the next keyframe is reached
+      return t >= 1 ? to : from;
+  }
+}
+
+/**
+ * Value of an animation at a frame (held before the first and after the
+ * last keyframe)
+ */
+export function evaluateAnimation(animation: Animation, frame: number): KeyframeValue {
+  const keyframes = sortKeyframes(animation.keyframes);
+  if (keyframes.length === 0) return 0;
+  if (frame <= keyframes[0].frame) return keyframes[0].value;
+
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const start = keyframes[i];
+    const end = keyframes[i + 1];
+    if (frame <= end.frame) {
+      if (end.frame === start.frame) return end.value;
+      const t = clamp((frame - start.frame) / (end.frame - start.frame), 0, 1);
+      const easing = start.easing ?? animation.easing;
+      return interpolateValue(getPropertyType(animation.property), start.value, end.value, applyEasing(t, easing));
+    }
+  }
+
+  return keyframes[keyframes.length - 1].value;
+}
+
+/**
+ * The part of an animation between two frames, re-timed to start at `start`
+ * (for splitting an element)
+ *
+ * Keyframes outside the range are dropped; a segment crossing either end
+ * gets a keyframe there holding the value at that frame, so linear motion is
+ * unchanged (an eased segment is re-eased over its remaining part).
+ */
+export function trimAnimation(animation: Animation, start: number, end: number): Animation {
+  const keyframes = sortKeyframes(animation.keyframes);
+  const kept = keyframes.filter((kf) => kf.frame >= start && kf.frame <= end);
+  if (keyframes.length === 0) return animation;
+
+  const before = keyframes.filter((kf) => kf.frame < start);
+  if (before.length > 0 && kept[0]?.frame !== start) {
+    const { easing } = before[before.length - 1];
+    kept.unshift({ frame: start, value: evaluateAnimation(animation, start), ...(easing && { easing }) });
+  }
+  if (keyframes[keyframes.length - 1].frame > end && kept[kept.length - 1]?.frame !== end) {
+    kept.push({ frame: end, value: evaluateAnimation(animation, end) });
+  }
+  // A lone keyframe holds its value across the whole element
+  if (kept.length === 1) {
+    kept.push({ frame: kept[0].frame === end ? start : end, value: kept[0].value });
+  }
+
+  return { ...animation, keyframes: sortKeyframes(kept).map((kf) => ({ ...kf, frame: kf.frame - start })) };
+}
+
+/**
+ * Points along a numeric animation's curve, `steps` per segment, for previews
+ */
+export function sampleAnimation(animation: Animation, steps = 16): Array<{ frame: number; value: number }> {
+  const keyframes = sortKeyframes(animation.keyframes);
+  if (keyframes.length === 0 || getPropertyType(animation.property) !== "number") return [];
+
+  const points = [{ frame: keyframes[0].frame, value: keyframes[0].value as number }];
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const { frame: start } = keyframes[i];
+    const span = keyframes[i + 1].frame - start;
+    for (let step = 1; step <= steps; step++) {
+      const frame = start + (span * step) / steps;
+      points.push({ frame, value: evaluateAnimation(animation, frame) as number });
+    }
+  }
+  return points;
+}
+
+/**
+ * Add a keyframe (replacing one already at that frame)
+ */
+export function addKeyframe(animation: Animation, frame: number, value: KeyframeValue): Animation {
+  const keyframes = animation.keyframes.filter((kf) => kf.frame !== frame);
+  return { ...animation, keyframes: sortKeyframes([...keyframes, { frame, value }]) };
+}
+
+/**
+ * Move a keyframe to another frame; a keyframe already there is replaced
+ */
+export function moveKeyframe(animation: Animation, index: number, frame: number): Animation {
+  const moved = animation.keyframes[index];
+  if (!moved || moved.frame === frame) return animation;
+
+  const keyframes = animation.keyframes.filter((kf, i) => i !== index && kf.frame !== frame);
+  return { ...animation, keyframes: sortKeyframes([...keyframes, { ...moved, frame }]) };
+}
+
+/**
+ * Update a keyframe's value or segment easing
+ */
+export function updateKeyframe(
+  animation: Animation,
+  index: number,
+  changes: Partial<Pick<Keyframe, "value" | "easing">>
+): Animation {
+  const keyframes = animation.keyframes.map((kf, i) => (i === index ? { ...kf, ...changes } : kf));
+  return { ...animation, keyframes: sortKeyframes(keyframes) };
+}
+
+/**
+ * Remove a keyframe; returns null when fewer than two would remain
+ */
+export function removeKeyframe(animation: Animation, index: number): Animation | null {
+  if (animation.keyframes.length <= 2) return null;
+  return { ...animation, keyframes: animation.keyframes.filter((_, i) => i !== index) };
+}
+
+/**
+ * A new two-keyframe animation across an element, holding `value` (the
+ * property's resting value by default)
+ */
+export function createAnimation(
+  property: string,
+  durationInFrames: number,
+  value: KeyframeValue = ANIMATABLE_PROPERTIES[property]?.rest ?? 0
+): Animation {
+  return {
+    property,
+    keyframes: [
+      { frame: 0, value },
+      { frame: durationInFrames, value },
+    ],
+    easing: "linear",
+  };
+}
+
+/**
+ * Value a new lane starts at: the element's own value when it has one
+ */
+export function getRestingValue(element: CompositionElement, property: string): KeyframeValue {
+  const { properties } = element;
+  if (property === "position") {
+    return { x: properties.x ?? 0, y: properties.y ?? 0 };
+  }
+  const value = properties[property];
+  if (value !== undefined && !validateKeyframeValue(property, value)) {
+    return value;
+  }
+  return ANIMATABLE_PROPERTIES[property]?.rest ?? 0;
+}
+
+/**
+ * Why a keyframe value doesn't fit its property, or null if it does
+ */
+export function validateKeyframeValue(property: string, value: unknown): string | null {
+  switch (getPropertyType(property)) {
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) return `${property} values must be numbers`;
+      if (property === "opacity" && (value < 0 || value > 1)) return "Opacity values must be between 0 and 1";
+      if (property === "volume" && (value < 0 || value > 1)) return "Volume values must be between 0 and 1";
+      return null;
+    case "color":
+      return typeof value === "string" && parseColor(value)
+        ? null
+        : `${property} values must be CSS colors (hex, rgb() or rgba())`;
+    case "point": {
+      const point = value as Point;
+      return point && typeof point === "object" && Number.isFinite(point.x) && Number.isFinite(point.y)
+        ? null
+        : `${property} values must be {x, y} points`;
+    }
+    default:
+      return typeof value === "string" || typeof value === "number" ? null : `${property} values must be text or numbers`;
+  }
+}
+
+/**
+ * Keyframe value as text for the editor ("x, y" for points)
+ */
+export function formatKeyframeValue(value: KeyframeValue): string {
+  if (typeof value === "object") return `${value.x}, ${value.y}`;
+  return String(value);
+}
+
+/**
+ * Parse an edited keyframe value for a property; null if it doesn't fit
+ */
+export function parseKeyframeValue(property: string, input: string): KeyframeValue | null {
+  let value: unknown = input;
+  const type = getPropertyType(property);
+
+  if (type === "number") {
+    value = input.trim() === "" ? NaN : Number(input);
+  } else if (type === "point") {
+    const [x, y] = input.split(",").map((part) => (part.trim() === "" ? NaN : Number(part)));
+    value = { x, y };
+  } else if (type === "color") {
+    value = input.trim();
+  }
+
+  return validateKeyframeValue(property, value) ? null : (value as KeyframeValue);
+}
+
+/**
+ * Styles and element property overrides from an element's animations at a
+ * frame relative to the element
+ *
+ * The static rotation comes first so animated transforms apply in the
+ * rotated frame. Colors, fills and text replace the element's own property;
+ * volume is applied by the audio mix instead.
+ */
+export function getAnimatedStyle(
+  element: CompositionElement,
+  frame: number
+): { style: Record<string, string | number>; properties: Record<string, KeyframeValue> } {
+  const style: Record<string, string | number> = {};
+  const properties: Record<string, KeyframeValue> = {};
+  const transforms: string[] = [];
+  const filters: string[] = [];
+
+  if (element.properties.rotation) {
+    transforms.push(`rotate(${element.properties.rotation}deg)`);
+  }
+
+  for (const animation of element.animations || []) {
+    if (animation.keyframes.length === 0 || AUDIO_PROPERTIES.includes(animation.property)) continue;
+
+    const { property } = animation;
+    const value = evaluateAnimation(animation, frame);
+
+    if (TRANSFORM_FUNCTIONS[property]) {
+      const { name, unit } = TRANSFORM_FUNCTIONS[property];
+      transforms.push(`${name}(${value}${unit})`);
+    } else if (FILTER_FUNCTIONS[property]) {
+      const { name, unit } = FILTER_FUNCTIONS[property];
+      filters.push(`${name}(${value}${unit})`);
+    } else if (property === "x") {
+      style.left = value as number;
+    } else if (property === "y") {
+      style.top = value as number;
+    } else if (property === "position") {
+      style.left = (value as Point).x;
+      style.top = (value as Point).y;
+    } else if (ANIMATED_ELEMENT_PROPERTIES.includes(property)) {
+      properties[property] = value;
+    } else {
+      style[property] = value as string | number;
+    }
+  }
+
+  if (transforms.length > 0) style.transform = transforms.join(" ");
+  if (filters.length > 0) style.filter = filters.join(" ");
+
+  return { style, properties };
+}
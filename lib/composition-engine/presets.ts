@@ -0,0 +1,269 @@
+/**
+ * Animation presets
+ *
+ * Named animations that expand into ordinary keyframes, so they can be
+ * edited on the timeline afterwards like any other animation. Keyframe
+ * frames are relative to the element's start.
+ *
+ * Applying a preset merges its keyframes into an existing animation of the
+ * same property (a fade-in and a fade-out share one opacity animation);
+ * keyframes already inside the preset's window are replaced. Preset
+ * keyframes carry their own segment easing, so the merged animation keeps
+ * its default easing for everything else.
+ */
+
+import type {
+  Animation,
+  CompositionElement,
+  CompositionMetadata,
+  EasingType,
+  ElementType,
+  Keyframe,
+  TransitionDirection,
+} from "@/types/composition-ir";
+import { sortKeyframes } from "./keyframes";
+import { clamp } from "./utils";
+
+export type AnimationPresetName =
+  | "fade-in"
+  | "fade-out"
+  | "slide-in"
+  | "scale-pop"
+  | "typewriter"
+  | "ken-burns"
+  | "shake";
+
+export interface PresetOptions {
+  durationInFrames?: number; // Defaults per preset
+  startFrame?: number; // Relative to the element's start (fade-out defaults to the end)
+  direction?: TransitionDirection; // slide-in: direction of travel; ken-burns: pan direction
+  intensity?: number; // slide-in/shake: pixels; ken-burns: extra zoom (0.2 = 120%)
+}
+
+interface PresetContext {
+  element: CompositionElement;
+  metadata: CompositionMetadata;
+  start: number;
+  duration: number;
+  direction?: TransitionDirection;
+  intensity?: number;
+}
+
+export interface AnimationPreset {
+  label: string;
+  description: string;
+  elementTypes?: ElementType[]; // Element types it applies to (all visual types by default)
+  usesDirection?: boolean;
+  defaultDuration: (element: CompositionElement, fps: number) => number;
+  atEnd?: boolean; // Placed at the end of the element unless startFrame is given
+  build: (context: PresetContext) => Animation[];
+}
+
+// Decelerating curve for entrances (easeOutCubic)
+const EASE_OUT_CUBIC: EasingType = { type: "cubic-bezier", x1: 0.33, y1: 1, x2: 0.68, y2: 1 };
+
+// Characters per second for the typewriter reveal
+const TYPEWRITER_SPEED = 15;
+
+// Frames between shake extremes
+const SHAKE_STEP = 2;
+
+const VISUAL_TYPES: ElementType[] = ["video", "text", "image", "shape"];
+
+/**
+ * Two-keyframe animation over the preset window
+ */
+function tween(
+  property: string,
+  { start, duration }: PresetContext,
+  from: number,
+  to: number,
+  easing: EasingType
+): Animation {
+  return {
+    property,
+    keyframes: [
+      { frame: start, value: from, easing },
+      { frame: start + duration, value: to },
+    ],
+  };
+}
+
+export const ANIMATION_PRESETS: Record<AnimationPresetName, AnimationPreset> = {
+  "fade-in": {
+    label: "Fade In",
+    description: "Fades from transparent to fully visible",
+    defaultDuration: (_, fps) => Math.round(fps / 2),
+    build: (context) => [tween("opacity", context, 0, 1, "ease-out")],
+  },
+  "fade-out": {
+    label: "Fade Out",
+    description: "Fades to transparent at the end of the element",
+    defaultDuration: (_, fps) => Math.round(fps / 2),
+    atEnd: true,
+    build: (context) => [tween("opacity", context, 1, 0, "ease-in")],
+  },
+  "slide-in": {
+    label: "Slide In",
+    description: "Slides in from the edge of the frame opposite the direction of travel",
+    usesDirection: true,
+    defaultDuration: (_, fps) => Math.round(fps * 0.6),
+    build: (context) => {
+      const { metadata, direction = "left", intensity } = context;
+      const horizontal = direction === "left" || direction === "right";
+      const distance = intensity ?? (horizontal ? metadata.width : metadata.height);
+      const sign = direction === "right" || direction === "down" ? -1 : 1;
+      return [tween(horizontal ? "translateX" : "translateY", context, sign * distance, 0, EASE_OUT_CUBIC)];
+    },
+  },
+  "scale-pop": {
+    label: "Scale Pop",
+    description: "Springs up from nothing with a small overshoot",
+    defaultDuration: (_, fps) => Math.round(fps / 2),
+    build: (context) => [tween("scale", context, 0, 1, { type: "spring", damping: 12 })],
+  },
+  typewriter: {
+    label: "Typewriter",
+    description: "Reveals the text one character at a time",
+    elementTypes: ["text"],
+    defaultDuration: (element, fps) =>
+      Math.max(1, Math.round((String(element.properties.text ?? "").length * fps) / TYPEWRITER_SPEED)),
+    build: ({ element, start, duration }) => {
+      const characters = Array.from(String(element.properties.text ?? ""));
+      const byFrame = new Map<number, string>();
+      for (let i = 0; i <= characters.length; i++) {
+        const frame = start + Math.round((i * duration) / Math.max(characters.length, 1));
+        byFrame.set(frame, characters.slice(0, i).join(""));
+      }
+      const keyframes = Array.from(byFrame, ([frame, value]) => ({ frame, value }));
+      return [{ property: "text", keyframes }];
+    },
+  },
+  "ken-burns": {
+    label: "Ken Burns",
+    description: "Slow zoom and pan across the whole element",
+    elementTypes: ["image", "video"],
+    usesDirection: true,
+    defaultDuration: (element) => element.durationInFrames,
+    build: (context) => {
+      const { metadata, direction, intensity = 0.2 } = context;
+      const animations = [tween("scale", context, 1, 1 + intensity, "linear")];
+      if (direction) {
+        const horizontal = direction === "left" || direction === "right";
+        // Stay within the zoomed-in margin so the frame edge never shows
+        const distance = ((horizontal ? metadata.width : metadata.height) * intensity) / 4;
+        const sign = direction === "left" || direction === "up" ? -1 : 1;
+        animations.push(tween(horizontal ? "translateX" : "translateY", context, 0, sign * distance, "linear"));
+      }
+      return animations;
+    },
+  },
+  shake: {
+    label: "Shake",
+    description: "Shakes side to side, settling back into place",
+    defaultDuration: (_, fps) => Math.round(fps * 0.4),
+    build: ({ start, duration, intensity = 20 }) => {
+      const keyframes: Keyframe[] = [{ frame: start, value: 0, easing: "ease-in-out" }];
+      const steps = Math.max(Math.floor(duration / SHAKE_STEP), 2);
+      for (let i = 1; i < steps; i++) {
+        const decay = 1 - i / steps;
+        keyframes.push({
+          frame: start + Math.round((i * duration) / steps),
+          value: (i % 2 ? 1 : -1) * intensity * decay,
+          easing: "ease-in-out",
+        });
+      }
+      keyframes.push({ frame: start + duration, value: 0 });
+      return [{ property: "translateX", keyframes }];
+    },
+  },
+};
+
+export const ANIMATION_PRESET_NAMES = Object.keys(ANIMATION_PRESETS) as AnimationPresetName[];
+
+/**
+ * Presets that apply to an element type
+ */
+export function getPresetsForElement(element: CompositionElement): AnimationPresetName[] {
+  return ANIMATION_PRESET_NAMES.filter((name) =>
+    (ANIMATION_PRESETS[name].elementTypes ?? VISUAL_TYPES).includes(element.type)
+  );
+}
+
+/**
+ * Expand a preset into animations for an element
+ */
+export function expandAnimationPreset(
+  element: CompositionElement,
+  metadata: CompositionMetadata,
+  name: AnimationPresetName,
+  options: PresetOptions = {}
+): { animations: Animation[] } | { error: string } {
+  const preset = ANIMATION_PRESETS[name];
+  if (!preset) {
+    return { error: `Unknown animation preset "${name}". Available: ${ANIMATION_PRESET_NAMES.join(", ")}` };
+  }
+  if (!getPresetsForElement(element).includes(name)) {
+    return { error: `${preset.label} doesn't apply to ${element.type} elements` };
+  }
+  if (name === "typewriter" && !String(element.properties.text ?? "")) {
+    return { error: "Typewriter needs an element with text" };
+  }
+
+  const requested = Math.round(options.durationInFrames ?? preset.defaultDuration(element, metadata.fps));
+  if (requested < 1) {
+    return { error: "Preset duration must be at least 1 frame" };
+  }
+  const duration = Math.min(requested, element.durationInFrames);
+  const start = clamp(
+    Math.round(options.startFrame ?? (preset.atEnd ? element.durationInFrames - duration : 0)),
+    0,
+    element.durationInFrames - duration
+  );
+
+  return {
+    animations: preset.build({
+      element,
+      metadata,
+      start,
+      duration,
+      direction: options.direction,
+      intensity: options.intensity,
+    }),
+  };
+}
+
+/**
+ * Merge a preset animation into an existing one of the same property,
+ * replacing the existing keyframes inside the preset's window
+ */
+function mergeAnimation(existing: Animation, added: Animation): Animation {
+  const first = added.keyframes[0].frame;
+  const last = added.keyframes[added.keyframes.length - 1].frame;
+  const kept = existing.keyframes.filter((kf) => kf.frame < first || kf.frame > last);
+  return { ...existing, keyframes: sortKeyframes([...kept, ...added.keyframes]) };
+}
+
+/**
+ * The element's animations with a preset applied
+ */
+export function applyAnimationPreset(
+  element: CompositionElement,
+  metadata: CompositionMetadata,
+  name: AnimationPresetName,
+  options: PresetOptions = {}
+): { animations: Animation[] } | { error: string } {
+  const expanded = expandAnimationPreset(element, metadata, name, options);
+  if ("error" in expanded) return expanded;
+
+  const animations = [...(element.animations ?? [])];
+  for (const added of expanded.animations) {
+    const index = animations.findIndex((animation) => animation.property === added.property);
+    if (index === -1) {
+      animations.push({ ...added, easing: "linear" });
+    } else {
+      animations[index] = mergeAnimation(animations[index], added);
+    }
+  }
+  return { animations };
+}
@@ -14,6 +14,7 @@ import type {
   ByIndexSelector,
   ByTypeSelector,
 } from "@/types/composition-ir";
+import { findElementById, flattenElements } from "./ir-helpers";
 
 /**
  * Result of selector resolution
@@ -58,13 +59,13 @@ export function resolveSelector(
 }
 
 /**
- * Resolve by element ID (unambiguous)
+ * Resolve by element ID (unambiguous, searches nested sequences)
  */
 function resolveById(
   ir: CompositionIR,
   selector: ByIdSelector
 ): SelectorResult {
-  const element = ir.elements.find((el) => el.id === selector.id);
+  const element = findElementById(ir.elements, selector.id);
 
   if (!element) {
     return {
@@ -80,13 +81,13 @@ function resolveById(
 }
 
 /**
- * Resolve by user-provided label
+ * Resolve by user-provided label (searches nested sequences)
  */
 function resolveByLabel(
   ir: CompositionIR,
   selector: ByLabelSelector
 ): SelectorResult {
-  const matches = ir.elements.filter((el) => {
+  const matches = flattenElements(ir.elements).filter((el) => {
     // Check direct label match
     if (el.label?.toLowerCase() === selector.label.toLowerCase()) {
       return true;
@@ -136,7 +137,9 @@ function resolveByIndex(
   ir: CompositionIR,
   selector: ByIndexSelector
 ): SelectorResult {
-  // If parent is specified, resolve within that parent
+  let siblings = ir.elements;
+
+  // If parent is specified, resolve within that parent's children
   if (selector.parent) {
     const parentResult = resolveSelector(ir, selector.parent);
     if (parentResult.matches.length === 0) {
@@ -146,12 +149,30 @@ function resolveByIndex(
       };
     }
 
-    // For now, just use top-level elements
-    // TODO: Handle nested elements when we add Groups
+    // Ambiguous parent - offer the indexed child of each candidate sequence
+    if (parentResult.isAmbiguous) {
+      const matches = parentResult.matches
+        .map((parent) => parent.children?.[selector.index])
+        .filter((el): el is CompositionElement => !!el);
+
+      return {
+        matches,
+        isAmbiguous: matches.length > 1,
+        disambiguationOptions:
+          matches.length > 1
+            ? matches.map((el) => ({
+                elementId: el.id,
+                label: el.label || `Unnamed ${el.type}`,
+                description: `${el.type} at frame ${el.from} (${formatDuration(el.durationInFrames, ir.metadata.fps)})`,
+              }))
+            : undefined,
+      };
+    }
+
+    siblings = parentResult.matches[0].children || [];
   }
 
-  // Top-level elements
-  const element = ir.elements[selector.index];
+  const element = siblings[selector.index];
 
   if (!element) {
     return {
@@ -167,13 +188,15 @@ function resolveByIndex(
 }
 
 /**
- * Resolve by element type (video, audio, text, image)
+ * Resolve by element type (video, audio, text, image), searching nested sequences
  */
 function resolveByType(
   ir: CompositionIR,
   selector: ByTypeSelector
 ): SelectorResult {
-  const matches = ir.elements.filter((el) => el.type === selector.elementType);
+  const matches = flattenElements(ir.elements).filter(
+    (el) => el.type === selector.elementType
+  );
 
   if (matches.length === 0) {
     return {
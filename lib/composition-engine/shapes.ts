@@ -0,0 +1,261 @@
+/**
+ * Shape geometry
+ *
+ * Shapes are drawn as SVG inside their box. getShapeDrawing turns shape
+ * properties into SVG nodes with React attribute names, so the runtime
+ * renderers (ShapeSvg) and the compiler (which prints the same nodes as
+ * JSX) draw identical shapes.
+ *
+ * Closed shapes keep their stroke inside the box; lines and arrows run
+ * through their points and are painted with the stroke.
+ */
+
+import type { Gradient, Point, Shadow, ShapeElementProperties, ShapeKind } from "@/types/composition-ir";
+import { parseColor } from "./color";
+
+export const SHAPE_KINDS: ShapeKind[] = ["rectangle", "ellipse", "line", "polygon", "arrow"];
+
+export const DEFAULT_SHAPE_SIZE = 200;
+export const DEFAULT_POLYGON_SIDES = 6;
+export const DEFAULT_SHADOW: Required<Shadow> = { color: "rgba(0, 0, 0, 0.5)", blur: 10, offsetX: 0, offsetY: 4 };
+
+export interface SvgNode {
+  tag: string;
+  attributes: Record<string, string | number>;
+  children?: SvgNode[];
+}
+
+export interface ShapeDrawing {
+  width: number;
+  height: number;
+  defs: SvgNode[]; // Gradients
+  nodes: SvgNode[]; // The shape, then an arrowhead
+  filter?: string; // CSS drop-shadow for the shadow
+  fillable: boolean; // The shape's fill attribute is the (animatable) fill color
+}
+
+/**
+ * Shape kind, accepting the older "circle" and defaulting to a rectangle
+ */
+export function getShapeKind(shape: unknown): ShapeKind {
+  if (shape === "circle") return "ellipse";
+  return SHAPE_KINDS.includes(shape as ShapeKind) ? (shape as ShapeKind) : "rectangle";
+}
+
+/**
+ * Whether a shape is painted with its stroke (lines and arrows)
+ */
+export function isOpenShape(kind: ShapeKind): boolean {
+  return kind === "line" || kind === "arrow";
+}
+
+/**
+ * SVG gradient id for an element
+ */
+export function getGradientId(elementId: string): string {
+  return `shape-gradient-${elementId.replace(/[^\w-]/g, "_")}`;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const formatPoints = (points: Point[]) => points.map((p) => `${round(p.x)},${round(p.y)}`).join(" ");
+
+/**
+ * Vertices of a regular polygon inscribed in a box, first vertex at the top
+ */
+export function getPolygonPoints(sides: number, width: number, height: number, inset = 0): Point[] {
+  const count = Math.max(3, Math.round(sides));
+  const rx = Math.max(width / 2 - inset, 0);
+  const ry = Math.max(height / 2 - inset, 0);
+  return Array.from({ length: count }, (_, i) => {
+    const angle = -Math.PI / 2 + (i * 2 * Math.PI) / count;
+    return { x: width / 2 + rx * Math.cos(angle), y: height / 2 + ry * Math.sin(angle) };
+  });
+}
+
+/**
+ * SVG gradient for a shape's fill
+ */
+function gradientNode(gradient: Gradient, id: string): SvgNode {
+  const children = [...gradient.stops]
+    .sort((a, b) => a.offset - b.offset)
+    .map((stop) => ({
+      tag: "stop",
+      attributes: { offset: Math.min(Math.max(stop.offset, 0), 1), stopColor: stop.color },
+    }));
+
+  if (gradient.type === "radial") {
+    return { tag: "radialGradient", attributes: { id, cx: 0.5, cy: 0.5, r: 0.5 }, children };
+  }
+
+  // CSS angles: 0deg points up, 90deg right
+  const angle = ((gradient.angle ?? 180) * Math.PI) / 180;
+  const dx = Math.sin(angle) / 2;
+  const dy = -Math.cos(angle) / 2;
+  return {
+    tag: "linearGradient",
+    attributes: { id, x1: round(0.5 - dx), y1: round(0.5 - dy), x2: round(0.5 + dx), y2: round(0.5 + dy) },
+    children,
+  };
+}
+
+/**
+ * Shaft and head of an arrow ending at the last point
+ */
+function arrowNodes(points: Point[], stroke: string, strokeWidth: number): SvgNode[] {
+  const tip = points[points.length - 1];
+  const previous = points[points.length - 2];
+  const length = Math.hypot(tip.x - previous.x, tip.y - previous.y);
+  const head = Math.min(Math.max(strokeWidth * 3, 10), length);
+  const lineAttributes = { fill: "none", stroke, strokeWidth, strokeLinecap: "round", strokeLinejoin: "round" };
+  if (length === 0) {
+    return [{ tag: "polyline", attributes: { points: formatPoints(points), ...lineAttributes } }];
+  }
+
+  const ux = (tip.x - previous.x) / length;
+  const uy = (tip.y - previous.y) / length;
+  const base = { x: tip.x - ux * head, y: tip.y - uy * head };
+  const wing = { x: (-uy * head) / 2, y: (ux * head) / 2 };
+
+  return [
+    {
+      tag: "polyline",
+      attributes: { points: formatPoints([...points.slice(0, -1), base]), ...lineAttributes },
+    },
+    {
+      tag: "polygon",
+      attributes: {
+        points: formatPoints([tip, { x: base.x + wing.x, y: base.y + wing.y }, { x: base.x - wing.x, y: base.y - wing.y }]),
+        fill: stroke,
+      },
+    },
+  ];
+}
+
+/**
+ * SVG drawing of a shape element
+ */
+export function getShapeDrawing(properties: Partial<ShapeElementProperties>, elementId: string): ShapeDrawing {
+  const kind = getShapeKind(properties.shape);
+  const width = properties.width ?? DEFAULT_SHAPE_SIZE;
+  const height = properties.height ?? DEFAULT_SHAPE_SIZE;
+  const open = isOpenShape(kind);
+  const strokeWidth = properties.strokeWidth ?? (open ? 4 : 0);
+  const stroke = strokeWidth > 0 ? properties.stroke ?? "#ffffff" : "none";
+
+  const shadow = properties.shadow && { ...DEFAULT_SHADOW, ...properties.shadow };
+  const filter = shadow
+    ? `drop-shadow(${shadow.offsetX}px ${shadow.offsetY}px ${shadow.blur}px ${shadow.color})`
+    : undefined;
+
+  if (open) {
+    const points =
+      properties.points && properties.points.length >= 2
+        ? properties.points
+        : [{ x: 0, y: height / 2 }, { x: width, y: height / 2 }];
+    const nodes =
+      kind === "arrow"
+        ? arrowNodes(points, stroke, strokeWidth)
+        : [
+            {
+              tag: "polyline",
+              attributes: {
+                points: formatPoints(points),
+                fill: "none",
+                stroke,
+                strokeWidth,
+                strokeLinecap: "round",
+                strokeLinejoin: "round",
+              },
+            },
+          ];
+    return { width, height, defs: [], nodes, filter, fillable: false };
+  }
+
+  const gradient = properties.gradient?.stops?.length ? properties.gradient : undefined;
+  const defs = gradient ? [gradientNode(gradient, getGradientId(elementId))] : [];
+  const paint = {
+    fill: gradient ? `url(#${getGradientId(elementId)})` : properties.fill ?? "#ffffff",
+    stroke,
+    strokeWidth,
+  };
+  const inset = strokeWidth / 2;
+
+  let node: SvgNode;
+  if (kind === "ellipse") {
+    node = {
+      tag: "ellipse",
+      attributes: {
+        cx: width / 2,
+        cy: height / 2,
+        rx: Math.max(width / 2 - inset, 0),
+        ry: Math.max(height / 2 - inset, 0),
+        ...paint,
+      },
+    };
+  } else if (kind === "polygon") {
+    const points =
+      properties.points && properties.points.length >= 3
+        ? properties.points
+        : getPolygonPoints(properties.sides ?? DEFAULT_POLYGON_SIDES, width, height, inset);
+    node = { tag: "polygon", attributes: { points: formatPoints(points), strokeLinejoin: "round", ...paint } };
+  } else {
+    // Older shapes used borderRadius
+    const radius = properties.cornerRadius ?? (properties as { borderRadius?: number }).borderRadius ?? 0;
+    node = {
+      tag: "rect",
+      attributes: {
+        x: inset,
+        y: inset,
+        width: Math.max(width - strokeWidth, 0),
+        height: Math.max(height - strokeWidth, 0),
+        rx: Math.max(radius - inset, 0),
+        ...paint,
+      },
+    };
+  }
+
+  return { width, height, defs, nodes: [node], filter, fillable: !gradient };
+}
+
+/**
+ * Why shape properties are invalid, or null if they are valid
+ */
+export function validateShapeProperties(properties: Partial<ShapeElementProperties>): string | null {
+  if (properties.shape !== undefined && !SHAPE_KINDS.includes(properties.shape)) {
+    return `Invalid shape: ${properties.shape}. Valid shapes: ${SHAPE_KINDS.join(", ")}`;
+  }
+  for (const key of ["width", "height"] as const) {
+    const value = properties[key];
+    if (value !== undefined && !(value > 0)) return `Shape ${key} must be positive`;
+  }
+  for (const key of ["strokeWidth", "cornerRadius"] as const) {
+    const value = properties[key];
+    if (value !== undefined && !(value >= 0)) return `Shape ${key} can't be negative`;
+  }
+  if (properties.sides !== undefined && !(properties.sides >= 3)) {
+    return "Polygons need at least 3 sides";
+  }
+
+  const colors: Array<[string, string | undefined]> = [
+    ["fill", properties.fill],
+    ["stroke", properties.stroke],
+    ["shadow color", properties.shadow?.color],
+    ...(properties.gradient?.stops ?? []).map((stop): [string, string] => ["gradient stop", stop.color]),
+  ];
+  for (const [name, color] of colors) {
+    if (color !== undefined && !parseColor(color)) {
+      return `Invalid ${name} color: ${color}. Use hex, rgb()/rgba() or a basic color name`;
+    }
+  }
+
+  if (properties.gradient) {
+    const { type, stops } = properties.gradient;
+    if (type !== "linear" && type !== "radial") return "Gradient type must be linear or radial";
+    if (!stops || stops.length < 2) return "Gradients need at least 2 stops";
+    if (stops.some((stop) => !(stop.offset >= 0 && stop.offset <= 1))) {
+      return "Gradient stop offsets must be between 0 and 1";
+    }
+  }
+  return null;
+}
@@ -0,0 +1,139 @@
+/**
+ * Delta encoding for history snapshots
+ *
+ * A snapshot can store a delta against the previous snapshot instead of a
+ * full IR copy. Objects are diffed key by key; arrays whose items all carry a
+ * stable `id` (elements, children, patches) are diffed by ID so inserts and
+ * reorders only store the ID order plus changed items. Anything else is
+ * replaced wholesale.
+ *
+ * Deltas use arrays of [key, delta] pairs rather than objects keyed by IR keys
+ * so they are valid Convex documents whatever the element IDs look like.
+ */
+
+import type { CompositionIR } from "@/types/composition-ir";
+
+export type SnapshotDelta =
+  | { op: "replace"; value: any }
+  | { op: "object"; set: Array<[string, SnapshotDelta]>; unset: string[] }
+  | { op: "list"; ids: string[]; items: Array<[string, SnapshotDelta]> };
+
+// Longest run of deltas before a snapshot is stored in full again
+export const SNAPSHOT_KEYFRAME_INTERVAL = 20;
+
+/**
+ * Encode `next` as a delta against `base` (null when they are equal)
+ */
+export function encodeSnapshotDelta(base: any, next: any): SnapshotDelta | null {
+  if (isEqual(base, next)) {
+    return null;
+  }
+
+  if (isIdList(base) && isIdList(next)) {
+    const baseById = new Map<string, any>(base.map((item: any) => [item.id, item]));
+    const items: Array<[string, SnapshotDelta]> = [];
+
+    for (const item of next) {
+      const previous = baseById.get(item.id);
+      const delta =
+        previous === undefined ? { op: "replace" as const, value: item } : encodeSnapshotDelta(previous, item);
+      if (delta) {
+        items.push([item.id, delta]);
+      }
+    }
+
+    return { op: "list", ids: next.map((item: any) => item.id), items };
+  }
+
+  if (isPlainObject(base) && isPlainObject(next)) {
+    const set: Array<[string, SnapshotDelta]> = [];
+    for (const key of Object.keys(next)) {
+      if (next[key] === undefined) continue;
+      const delta = encodeSnapshotDelta(base[key], next[key]);
+      if (delta) {
+        set.push([key, delta]);
+      }
+    }
+
+    const unset = Object.keys(base).filter(
+      (key) => base[key] !== undefined && next[key] === undefined
+    );
+
+    return { op: "object", set, unset };
+  }
+
+  return { op: "replace", value: next };
+}
+
+/**
+ * Rebuild a value from its base and a delta (null delta = unchanged)
+ */
+export function applySnapshotDelta(base: any, delta: SnapshotDelta | null): any {
+  if (!delta) {
+    return base;
+  }
+
+  switch (delta.op) {
+    case "replace":
+      return delta.value;
+
+    case "object": {
+      const result: Record<string, any> = { ...(isPlainObject(base) ? base : {}) };
+      for (const key of delta.unset) {
+        delete result[key];
+      }
+      for (const [key, change] of delta.set) {
+        result[key] = applySnapshotDelta(result[key], change);
+      }
+      return result;
+    }
+
+    case "list": {
+      const baseById = new Map<string, any>(
+        (Array.isArray(base) ? base : []).map((item: any) => [item.id, item])
+      );
+      const changes = new Map(delta.items);
+      return delta.ids.map((id) =>
+        changes.has(id) ? applySnapshotDelta(baseById.get(id), changes.get(id)!) : baseById.get(id)
+      );
+    }
+  }
+}
+
+/**
+ * Whether two IRs show the same composition, whatever their edit history
+ * (version and patch stack)
+ */
+export function isSameComposition(a: CompositionIR, b: CompositionIR): boolean {
+  const content = ({ version: _version, patches: _patches, patchCursor: _cursor, ...rest }: CompositionIR) => rest;
+  return encodeSnapshotDelta(content(a), content(b)) === null;
+}
+
+function isIdList(value: any): value is Array<{ id: string }> {
+  if (!Array.isArray(value)) return false;
+  const ids = new Set<string>();
+  for (const item of value) {
+    if (!isPlainObject(item) || typeof item.id !== "string" || ids.has(item.id)) {
+      return false;
+    }
+    ids.add(item.id);
+  }
+  return true;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a).filter((key) => a[key] !== undefined);
+  const keysB = Object.keys(b).filter((key) => b[key] !== undefined);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every((key) => isEqual(a[key], b[key]));
+}
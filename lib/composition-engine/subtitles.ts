@@ -0,0 +1,170 @@
+/**
+ * SRT and WebVTT subtitles
+ *
+ * Parses subtitle files into cues (frames at the composition's fps, via
+ * timecodeToFrames) and writes a composition's text elements back out as
+ * subtitles for YouTube and other platforms. Imported cues become captions
+ * through captions.ts.
+ */
+
+import type { CompositionElement, CompositionIR } from "@/types/composition-ir";
+import { timecodeToFrames } from "./ir-helpers";
+import { applyTrackState } from "./timeline";
+
+export type SubtitleFormat = "srt" | "vtt";
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = ["srt", "vtt"];
+
+export const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: "application/x-subrip",
+  vtt: "text/vtt",
+};
+
+export interface SubtitleCue {
+  text: string;
+  from: number; // Composition frame
+  durationInFrames: number;
+}
+
+const TIMING = /^\s*((?:\d+:)?\d+:\d+[.,]\d+)\s+-->\s+((?:\d+:)?\d+:\d+[.,]\d+)/;
+
+/**
+ * Format of a subtitle file, from its header or else its extension
+ */
+export function detectSubtitleFormat(content: string, filename = ""): SubtitleFormat {
+  if (/^\uFEFF?WEBVTT/.test(content)) return "vtt";
+  return filename.toLowerCase().endsWith(".vtt") ? "vtt" : "srt";
+}
+
+// Formatting tags and WebVTT word timestamps; other angle brackets are text
+const CUE_TAG = /<\/?(?:(?:[biu]|font|c|v|lang|ruby|rt)\b|\d)[^>]*>/gi;
+
+/**
+ * Cue text without markup: WebVTT tags and timestamps, SRT font tags and
+ * {\an8}-style positioning
+ */
+function stripCueMarkup(text: string): string {
+  return text
+    .replace(CUE_TAG, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+/**
+ * Cues of an SRT or WebVTT file; `startFrame` shifts every cue
+ */
+export function parseSubtitles(
+  content: string,
+  fps: number,
+  startFrame = 0
+): { cues: SubtitleCue[]; format: SubtitleFormat } | { error: string } {
+  const format = detectSubtitleFormat(content);
+  const blocks = content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split(/\n\s*\n/);
+  const cues: SubtitleCue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    // SRT blocks and WebVTT cues with an identifier have the timing second;
+    // WebVTT headers, NOTE, STYLE and REGION blocks have none
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex === -1 || timingIndex > 1) continue;
+
+    const match = lines[timingIndex].match(TIMING);
+    if (!match) {
+      return { error: `Invalid cue timing: "${lines[timingIndex].trim()}"` };
+    }
+
+    const from = startFrame + timecodeToFrames(match[1], fps);
+    const end = startFrame + timecodeToFrames(match[2], fps);
+    const text = stripCueMarkup(lines.slice(timingIndex + 1).join("\n"));
+    if (!text || end <= from) continue;
+
+    cues.push({ text, from, durationInFrames: end - from });
+  }
+
+  if (cues.length === 0) {
+    return { error: `No subtitles found in this ${format === "vtt" ? "WebVTT" : "SRT"} file` };
+  }
+
+  cues.sort((a, b) => a.from - b.from);
+  return { cues, format };
+}
+
+/**
+ * Subtitle timestamp of a frame: 00:01:02,345 (SRT) or 00:01:02.345 (WebVTT)
+ */
+export function formatSubtitleTimecode(frame: number, fps: number, format: SubtitleFormat): string {
+  const totalMs = Math.round((frame * 1000) / fps);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const seconds = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${format === "srt" ? "," : "."}${pad(ms, 3)}`;
+}
+
+/**
+ * Cues for a composition's text elements (nested ones included), as
+ * rendered: text on hidden tracks is left out and cues stop at the end of
+ * the composition
+ */
+export function getSubtitleCues(ir: CompositionIR, options: { trackId?: string } = {}): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  const end = ir.metadata.durationInFrames;
+
+  const collect = (elements: CompositionElement[], offset: number) => {
+    for (const element of elements) {
+      const from = offset + element.from;
+      if (element.type === "sequence") {
+        collect(element.children || [], from);
+        continue;
+      }
+
+      // Blank lines would end the cue
+      const text = String(element.properties.text ?? "").trim().replace(/\n\s*\n/g, "\n");
+      if (element.type !== "text" || !text || from >= end) continue;
+      cues.push({ text, from, durationInFrames: Math.min(element.durationInFrames, end - from) });
+    }
+  };
+
+  const topLevel = applyTrackState(ir).elements.filter(
+    (element) => !options.trackId || element.trackId === options.trackId
+  );
+  collect(topLevel, 0);
+
+  // Stable sort keeps layer order for cues that start together
+  return cues.sort((a, b) => a.from - b.from);
+}
+
+/**
+ * SRT or WebVTT file for a composition's text elements
+ */
+export function exportSubtitles(
+  ir: CompositionIR,
+  format: SubtitleFormat,
+  options: { trackId?: string } = {}
+): string {
+  const { fps } = ir.metadata;
+  const blocks = getSubtitleCues(ir, options).map((cue, i) => {
+    const timing = `${formatSubtitleTimecode(cue.from, fps, format)} --> ${formatSubtitleTimecode(
+      cue.from + cue.durationInFrames,
+      fps,
+      format
+    )}`;
+    if (format === "srt") {
+      return `${i + 1}\n${timing}\n${cue.text}`;
+    }
+    const text = cue.text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+    return `${timing}\n${text}`;
+  });
+
+  const body = blocks.join("\n\n");
+  if (format === "vtt") {
+    return blocks.length > 0 ? `WEBVTT\n\n${body}\n` : "WEBVTT\n";
+  }
+  return blocks.length > 0 ? `${body}\n` : "";
+}
@@ -0,0 +1,227 @@
+/**
+ * Text styling and layout
+ *
+ * getTextStyle builds the CSS of a text element's box and getTextRuns splits
+ * its text into styled spans. DynamicComposition, the preview and the
+ * compiler all render text from these, so it looks the same everywhere.
+ *
+ * Auto-fit text picks its font size from an estimated layout (average glyph
+ * widths and greedy word wrapping) rather than measuring the DOM, so the
+ * compiler and server-side renders pick the same size.
+ */
+
+import type { Animation, TextElementProperties, TextSpan } from "@/types/composition-ir";
+import { parseColor } from "./color";
+import { DEFAULT_SHADOW } from "./shapes";
+
+export const TEXT_DEFAULTS = {
+  fontFamily: "Arial",
+  fontSize: 48,
+  fontWeight: "normal",
+  color: "#ffffff",
+  textAlign: "left",
+  lineHeight: 1.2,
+  strokeColor: "#000000",
+};
+
+export const MIN_FIT_FONT_SIZE = 8;
+
+// Average glyph width as a fraction of the font size (bold text runs wider)
+const GLYPH_WIDTH = 0.55;
+const BOLD_GLYPH_WIDTH = 0.6;
+
+export type TextStyle = Record<string, string | number>;
+
+export interface TextRun {
+  text: string;
+  style?: TextStyle; // Styles of the spans covering this run
+}
+
+const isBold = (weight: unknown) => weight === "bold" || Number(weight) >= 600;
+
+/**
+ * Lines of text after wrapping at `maxWidth` pixels, with the given font size
+ */
+export function estimateTextLines(
+  text: string,
+  fontSize: number,
+  properties: Partial<TextElementProperties>,
+  maxWidth = Infinity
+): number {
+  const glyph = fontSize * (isBold(properties.fontWeight) ? BOLD_GLYPH_WIDTH : GLYPH_WIDTH) + (properties.letterSpacing ?? 0);
+  const perLine = Math.max(1, Math.floor(maxWidth / glyph));
+
+  let lines = 0;
+  for (const paragraph of text.split("\n")) {
+    let length = 0;
+    lines++;
+    for (const word of paragraph.split(" ")) {
+      const needed = length === 0 ? word.length : length + 1 + word.length;
+      if (needed <= perLine) {
+        length = needed;
+      } else {
+        // Start a new line; words longer than a line break anywhere (overflow-wrap: break-word)
+        if (length > 0) lines++;
+        lines += Math.ceil(word.length / perLine) - 1;
+        length = word.length % perLine || perLine;
+      }
+    }
+  }
+  return lines;
+}
+
+/**
+ * Largest whole font size whose estimated layout fits the text box
+ */
+export function fitFontSize(text: string, properties: Partial<TextElementProperties>): number {
+  const padding = properties.padding ?? 0;
+  const width = (properties.width ?? 0) - padding * 2;
+  const height = (properties.height ?? 0) - padding * 2;
+  const lineHeight = properties.lineHeight ?? TEXT_DEFAULTS.lineHeight;
+  const fits = (size: number) => estimateTextLines(text, size, properties, width) * size * lineHeight <= height;
+
+  let low = MIN_FIT_FONT_SIZE;
+  let high = Math.floor(height / lineHeight);
+  if (high <= low) return low;
+  while (low < high) {
+    const size = Math.ceil((low + high) / 2);
+    if (fits(size)) low = size;
+    else high = size - 1;
+  }
+  return low;
+}
+
+/**
+ * Font size of a text element; auto-fit text (which needs a width and
+ * height) fits every text it shows, so swaps and reveals keep one size
+ */
+export function getFontSize(properties: Partial<TextElementProperties>, animations: Animation[] = []): number {
+  if (properties.autoFit && properties.width && properties.height) {
+    // With a text animation the element's own text is never shown
+    const textAnimation = animations.find((animation) => animation.property === "text" && animation.keyframes.length > 0);
+    const texts = textAnimation ? textAnimation.keyframes.map((kf) => String(kf.value)) : [String(properties.text ?? "")];
+    return Math.min(...texts.map((text) => fitFontSize(text, properties)));
+  }
+  return properties.fontSize ?? TEXT_DEFAULTS.fontSize;
+}
+
+/**
+ * CSS of a text element's box (position and animations are added by the renderers)
+ */
+export function getTextStyle(properties: Partial<TextElementProperties>, animations?: Animation[]): TextStyle {
+  const { width, height, maxWidth, letterSpacing, backgroundColor, padding, borderRadius, strokeWidth, shadow } =
+    properties;
+
+  const style: TextStyle = {
+    fontFamily: properties.fontFamily ?? TEXT_DEFAULTS.fontFamily,
+    fontSize: getFontSize(properties, animations),
+    fontWeight: properties.fontWeight ?? TEXT_DEFAULTS.fontWeight,
+    color: properties.color ?? TEXT_DEFAULTS.color,
+    textAlign: properties.textAlign ?? TEXT_DEFAULTS.textAlign,
+    lineHeight: properties.lineHeight ?? TEXT_DEFAULTS.lineHeight,
+    // Explicit line breaks always apply; lines wrap only when the width is bounded
+    whiteSpace: width || maxWidth ? "pre-wrap" : "pre",
+    overflowWrap: "break-word",
+  };
+
+  if (width) style.width = width;
+  if (height) style.height = height;
+  if (maxWidth) style.maxWidth = maxWidth;
+  if (letterSpacing) style.letterSpacing = letterSpacing;
+  if (backgroundColor) style.backgroundColor = backgroundColor;
+  if (padding) style.padding = padding;
+  if (borderRadius) style.borderRadius = borderRadius;
+  if (width || height || padding) style.boxSizing = "border-box";
+
+  if (strokeWidth && strokeWidth > 0) {
+    // Half of a CSS text stroke falls inside the glyphs; painting the stroke
+    // first hides that half, leaving `strokeWidth` pixels outside
+    style.WebkitTextStroke = `${strokeWidth * 2}px ${properties.strokeColor ?? TEXT_DEFAULTS.strokeColor}`;
+    style.paintOrder = "stroke fill";
+  }
+  if (shadow) {
+    const { color, blur, offsetX, offsetY } = { ...DEFAULT_SHADOW, ...shadow };
+    style.textShadow = `${offsetX}px ${offsetY}px ${blur}px ${color}`;
+  }
+  return style;
+}
+
+/**
+ * CSS of a styled span
+ */
+function getSpanStyle(span: TextSpan): TextStyle {
+  const style: TextStyle = {};
+  if (span.color) style.color = span.color;
+  if (span.backgroundColor) style.backgroundColor = span.backgroundColor;
+  if (span.fontWeight !== undefined) style.fontWeight = span.fontWeight;
+  if (span.fontStyle) style.fontStyle = span.fontStyle;
+  if (span.underline) style.textDecoration = "underline";
+  return style;
+}
+
+/**
+ * Split text into runs; characters covered by several spans take the styles
+ * of all of them, later spans winning
+ */
+export function getTextRuns(text: string, spans: TextSpan[] = []): TextRun[] {
+  const covering: number[][] = Array.from({ length: text.length }, () => []);
+
+  spans.forEach((span, spanIndex) => {
+    if (!span.match) return;
+    let occurrence = 0;
+    for (let at = text.indexOf(span.match); at !== -1; at = text.indexOf(span.match, at + span.match.length)) {
+      if (span.occurrence === undefined || span.occurrence === occurrence) {
+        for (let i = at; i < at + span.match.length; i++) covering[i].push(spanIndex);
+      }
+      occurrence++;
+    }
+  });
+
+  const runs: Array<{ text: string; key: string }> = [];
+  for (let i = 0; i < text.length; i++) {
+    const key = covering[i].join(",");
+    const last = runs[runs.length - 1];
+    if (last && last.key === key) last.text += text[i];
+    else runs.push({ text: text[i], key });
+  }
+
+  return runs.map(({ text: runText, key }) => {
+    if (!key) return { text: runText };
+    const style = Object.assign({}, ...key.split(",").map((index) => getSpanStyle(spans[Number(index)])));
+    return { text: runText, style };
+  });
+}
+
+/**
+ * Why text styling properties are invalid, or null if they are valid
+ */
+export function validateTextProperties(properties: Partial<TextElementProperties>): string | null {
+  for (const key of ["lineHeight", "maxWidth"] as const) {
+    const value = properties[key];
+    if (value !== undefined && !(value > 0)) return `Text ${key} must be positive`;
+  }
+  if (properties.strokeWidth !== undefined && !(properties.strokeWidth >= 0)) {
+    return "Text strokeWidth can't be negative";
+  }
+  if (properties.autoFit && !(properties.width && properties.height)) {
+    return "Auto-fit text needs a width and height";
+  }
+
+  const colors: Array<[string, string | undefined]> = [
+    ["stroke", properties.strokeColor],
+    ["shadow", properties.shadow?.color],
+    ...(properties.spans ?? []).flatMap((span): Array<[string, string | undefined]> => [
+      ["span", span.color],
+      ["span background", span.backgroundColor],
+    ]),
+  ];
+  for (const [name, color] of colors) {
+    if (color !== undefined && !parseColor(color)) {
+      return `Invalid ${name} color: ${color}. Use hex, rgb()/rgba() or a basic color name`;
+    }
+  }
+  if (properties.spans?.some((span) => !span.match)) {
+    return "Text spans need the text to match";
+  }
+  return null;
+}
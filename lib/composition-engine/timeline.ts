@@ -0,0 +1,257 @@
+/**
+ * Timeline model
+ *
+ * Tracks group top-level clips into timeline rows (video, overlay, audio).
+ * A clip without a valid `trackId` sits on the first track of its kind.
+ * Hidden and muted tracks are applied to the IR before rendering, so every
+ * renderer honours them the same way.
+ *
+ * Snapping helpers pull dragged clip edges onto the playhead and the edges
+ * of other clips.
+ */
+
+import type {
+  CompositionElement,
+  CompositionIR,
+  Track,
+  TrackKind,
+} from "@/types/composition-ir";
+import { addPatch, createSettingsPatch } from "./ir-helpers";
+
+// Top to bottom, as shown on the timeline
+export const DEFAULT_TRACKS: Track[] = [
+  { id: "overlay", name: "Overlay", kind: "overlay" },
+  { id: "video", name: "Video", kind: "video" },
+  { id: "audio", name: "Audio", kind: "audio" },
+];
+
+// Snap distance on screen; divide by the zoom (pixels per frame) for frames
+export const SNAP_THRESHOLD_PX = 8;
+
+/**
+ * The composition's tracks (the default tracks until any are customised)
+ */
+export function getTracks(ir: Pick<CompositionIR, "tracks">): Track[] {
+  return ir.tracks && ir.tracks.length > 0 ? ir.tracks : DEFAULT_TRACKS;
+}
+
+/**
+ * Kind of track an element belongs on by default
+ */
+export function getTrackKind(element: CompositionElement): TrackKind {
+  switch (element.type) {
+    case "video":
+      return "video";
+    case "audio":
+      return "audio";
+    default:
+      return "overlay";
+  }
+}
+
+/**
+ * Track an element is shown on
+ */
+export function getElementTrack(element: CompositionElement, tracks: Track[]): Track {
+  return (
+    tracks.find((track) => track.id === element.trackId) ??
+    tracks.find((track) => track.kind === getTrackKind(element)) ??
+    tracks[0]
+  );
+}
+
+/**
+ * Top-level elements grouped by track ID (every track has an entry)
+ */
+export function groupElementsByTrack(
+  elements: CompositionElement[],
+  tracks: Track[]
+): Map<string, CompositionElement[]> {
+  const groups = new Map<string, CompositionElement[]>(tracks.map((track) => [track.id, []]));
+  for (const element of elements) {
+    groups.get(getElementTrack(element, tracks).id)!.push(element);
+  }
+  return groups;
+}
+
+/**
+ * Top-level elements playing at a composition frame
+ */
+export function getElementsAtFrame(
+  elements: CompositionElement[],
+  frame: number
+): CompositionElement[] {
+  return elements.filter(
+    (element) => frame >= element.from && frame < element.from + element.durationInFrames
+  );
+}
+
+/**
+ * Create a track of a kind, named after the tracks of that kind it joins
+ */
+export function createTrack(tracks: Track[], kind: TrackKind, id: string): Track {
+  const count = tracks.filter((track) => track.kind === kind).length;
+  const name = kind.charAt(0).toUpperCase() + kind.slice(1);
+  return { id, name: count === 0 ? name : `${name} ${count + 1}`, kind };
+}
+
+/**
+ * Replace the composition's tracks as an undoable step; with `groupId` the
+ * change joins that transaction's undo step
+ */
+export function setTracks(
+  ir: CompositionIR,
+  tracks: Track[],
+  { description, groupId }: { description: string; groupId?: string }
+): CompositionIR {
+  return addPatch(
+    { ...ir, tracks, version: ir.version + 1 },
+    { ...createSettingsPatch(ir, { tracks }), ...(groupId && { groupId }), description }
+  );
+}
+
+/**
+ * Add a track of a kind above the other tracks of that kind (one undo step)
+ */
+export function addTrack(ir: CompositionIR, kind: TrackKind, id: string): { updatedIR: CompositionIR; track: Track } {
+  const tracks = getTracks(ir);
+  const track = createTrack(tracks, kind, id);
+
+  const index = tracks.findIndex((t) => t.kind === kind);
+  const updatedTracks = [...tracks];
+  updatedTracks.splice(index === -1 ? tracks.length : index, 0, track);
+
+  return { updatedIR: setTracks(ir, updatedTracks, { description: `Added ${track.name} track` }), track };
+}
+
+// Track settings the timeline and chat can change
+export type TrackChanges = Partial<Pick<Track, "name" | "locked" | "muted" | "hidden">>;
+
+/**
+ * Rename a track or toggle its lock, mute and hide state (one undo step)
+ */
+export function updateTrack(
+  ir: CompositionIR,
+  trackId: string,
+  changes: TrackChanges
+): { updatedIR: CompositionIR } | { error: string } {
+  const tracks = getTracks(ir);
+  const track = tracks.find((t) => t.id === trackId);
+  if (!track) {
+    return { error: `Track ${trackId} not found` };
+  }
+
+  const updatedTracks = tracks.map((t) => (t.id === trackId ? { ...t, ...changes } : t));
+  return { updatedIR: setTracks(ir, updatedTracks, { description: describeTrackChanges(track.name, changes) }) };
+}
+
+/**
+ * Undo description of a track change, e.g. "Locked Video 2" or "Renamed
+ * Audio to Music"
+ */
+export function describeTrackChanges(name: string, changes: TrackChanges): string {
+  const toggles = [
+    changes.locked !== undefined && (changes.locked ? "Locked" : "Unlocked"),
+    changes.muted !== undefined && (changes.muted ? "Muted" : "Unmuted"),
+    changes.hidden !== undefined && (changes.hidden ? "Hid" : "Showed"),
+  ].filter((toggle): toggle is string => !!toggle);
+
+  if (changes.name !== undefined && changes.name !== name) {
+    return [`Renamed ${name} to ${changes.name}`, ...toggles.map((toggle) => toggle.toLowerCase())].join(", ");
+  }
+  return toggles.length > 0 ? `${toggles.join(", ")} ${name}` : `Updated ${name}`;
+}
+
+/**
+ * IR as rendered: clips on hidden tracks removed, clips on muted tracks silenced
+ */
+export function applyTrackState<T extends CompositionIR>(ir: T): T {
+  const tracks = getTracks(ir);
+  if (!tracks.some((track) => track.hidden || track.muted)) {
+    return ir;
+  }
+
+  const elements: CompositionElement[] = [];
+  for (const element of ir.elements) {
+    const track = getElementTrack(element, tracks);
+    if (track.hidden) continue;
+    elements.push(track.muted ? muteElement(element) : element);
+  }
+
+  return { ...ir, elements };
+}
+
+function muteElement(element: CompositionElement): CompositionElement {
+  const isMedia = element.type === "video" || element.type === "audio";
+  const muted: CompositionElement = isMedia
+    ? { ...element, properties: { ...element.properties, volume: 0 } }
+    : { ...element };
+  if (isMedia && element.animations) {
+    // Volume keyframes would override the silenced volume
+    muted.animations = element.animations.filter((animation) => animation.property !== "volume");
+  }
+  if (element.children) {
+    muted.children = element.children.map(muteElement);
+  }
+  return muted;
+}
+
+// ==================== Snapping ====================
+
+/**
+ * Frames a dragged clip can snap to: the start, the playhead and the edges
+ * of every other clip
+ */
+export function getSnapTargets(
+  elements: CompositionElement[],
+  excludeId?: string,
+  playheadFrame?: number
+): number[] {
+  const targets = new Set<number>([0]);
+  if (playheadFrame !== undefined) {
+    targets.add(playheadFrame);
+  }
+  for (const element of elements) {
+    if (element.id === excludeId) continue;
+    targets.add(element.from);
+    targets.add(element.from + element.durationInFrames);
+  }
+  return Array.from(targets);
+}
+
+/**
+ * Nearest target within `threshold` frames (the frame itself otherwise)
+ */
+export function snapFrame(frame: number, targets: number[], threshold: number): number {
+  return nearestTarget(frame, targets, threshold) ?? frame;
+}
+
+/**
+ * Snap a moved clip by whichever edge is closer to a target
+ */
+export function snapClipStart(
+  from: number,
+  durationInFrames: number,
+  targets: number[],
+  threshold: number
+): number {
+  const end = from + durationInFrames;
+  const start = nearestTarget(from, targets, threshold);
+  const endTarget = nearestTarget(end, targets, threshold);
+
+  if (start === undefined && endTarget === undefined) return from;
+  if (endTarget === undefined) return start!;
+  if (start === undefined) return endTarget - durationInFrames;
+  return Math.abs(start - from) <= Math.abs(endTarget - end) ? start : endTarget - durationInFrames;
+}
+
+function nearestTarget(frame: number, targets: number[], threshold: number): number | undefined {
+  let nearest: number | undefined;
+  for (const target of targets) {
+    const distance = Math.abs(target - frame);
+    if (distance <= threshold && (nearest === undefined || distance < Math.abs(nearest - frame))) {
+      nearest = target;
+    }
+  }
+  return nearest;
+}
@@ -0,0 +1,225 @@
+/**
+ * Transitions between sibling clips
+ *
+ * A transition is stored on the incoming element (`transitionIn`) and names
+ * the outgoing sibling. The incoming clip starts at its own `from`; the
+ * outgoing clip keeps rendering until the transition ends, so the two overlap
+ * for `durationInFrames`.
+ *
+ * The preview, DynamicComposition and the compiler all use these helpers so
+ * the three renderers agree frame for frame.
+ */
+
+import type {
+  CompositionElement,
+  Transition,
+  TransitionDirection,
+} from "@/types/composition-ir";
+import { applyEasing, clamp } from "./utils";
+
+// Default transition length (half a second at 30fps)
+export const DEFAULT_TRANSITION_DURATION = 15;
+
+export interface TransitionWindow {
+  role: "in" | "out";
+  transition: Transition;
+  start: number; // Parent-relative frame (the incoming element's `from`)
+  end: number;
+}
+
+/**
+ * What a transition animates on one side, as start/end values over the window
+ * (runtime renderers interpolate them; the compiler emits interpolate() calls)
+ */
+export interface TransitionEffect {
+  opacity?: [number, number];
+  translate?: { axis: "X" | "Y"; range: [number, number] }; // % of the frame
+  clip?: { side: "top" | "right" | "bottom" | "left"; range: [number, number] }; // Inset %
+}
+
+export interface TransitionStyle {
+  opacity?: number;
+  transform?: string;
+  clipPath?: string;
+}
+
+const VISUAL_TYPES = ["video", "image", "text", "shape", "sequence"];
+
+/**
+ * Why a transition is invalid among these siblings (null when valid)
+ */
+export function validateTransition(
+  siblings: CompositionElement[],
+  incoming: CompositionElement,
+  transition: Transition
+): string | null {
+  const outgoing = siblings.find((el) => el.id === transition.fromElementId);
+  const name = (el: CompositionElement) => (el.label ? `"${el.label}"` : el.id);
+
+  if (!outgoing) {
+    return `Element ${transition.fromElementId} is not in the same sequence as ${name(incoming)}`;
+  }
+  if (outgoing.id === incoming.id) {
+    return `${name(incoming)} cannot transition into itself`;
+  }
+  if (!VISUAL_TYPES.includes(outgoing.type) || !VISUAL_TYPES.includes(incoming.type)) {
+    return "Transitions only apply to visual elements (video, image, text, shape, sequence)";
+  }
+  if (!Number.isInteger(transition.durationInFrames) || transition.durationInFrames <= 0) {
+    return "Transition duration must be a positive number of frames";
+  }
+  if (
+    outgoing.from > incoming.from ||
+    outgoing.from + outgoing.durationInFrames < incoming.from
+  ) {
+    return `${name(outgoing)} must end where ${name(incoming)} starts (or overlap it) to transition between them`;
+  }
+  if (transition.durationInFrames > incoming.durationInFrames) {
+    return `Transition is longer than ${name(incoming)} (${incoming.durationInFrames} frames)`;
+  }
+  return null;
+}
+
+/**
+ * The clip playing when `incoming` starts: the latest-starting visual sibling
+ * that began before it and is still running (or ends exactly) at its start
+ */
+export function findPreviousClip(
+  siblings: CompositionElement[],
+  incoming: CompositionElement
+): CompositionElement | undefined {
+  return siblings
+    .filter(
+      (el) =>
+        el.id !== incoming.id &&
+        VISUAL_TYPES.includes(el.type) &&
+        el.from < incoming.from &&
+        el.from + el.durationInFrames >= incoming.from
+    )
+    .sort((a, b) => b.from - a.from)[0];
+}
+
+/**
+ * Transition windows for a sibling list, by element ID (invalid transitions,
+ * e.g. after the outgoing clip was deleted or moved, are ignored)
+ */
+export function getTransitionWindows(
+  siblings: CompositionElement[]
+): Map<string, TransitionWindow[]> {
+  const windows = new Map<string, TransitionWindow[]>();
+  const push = (id: string, window: TransitionWindow) =>
+    windows.set(id, [...(windows.get(id) ?? []), window]);
+
+  for (const element of siblings) {
+    const transition = element.transitionIn;
+    if (!transition || validateTransition(siblings, element, transition)) continue;
+
+    const start = element.from;
+    const end = start + transition.durationInFrames;
+    push(element.id, { role: "in", transition, start, end });
+    push(transition.fromElementId, { role: "out", transition, start, end });
+  }
+
+  return windows;
+}
+
+/**
+ * Rendered duration: an outgoing clip runs until its last transition ends
+ */
+export function getRenderDuration(
+  element: CompositionElement,
+  windows: TransitionWindow[] = []
+): number {
+  const outgoing = windows.filter((window) => window.role === "out");
+  if (outgoing.length === 0) {
+    return element.durationInFrames;
+  }
+  return Math.max(...outgoing.map((window) => window.end)) - element.from;
+}
+
+/**
+ * Start/end values a transition animates on one side
+ */
+export function getTransitionEffect(
+  transition: Transition,
+  role: "in" | "out"
+): TransitionEffect {
+  const incoming = role === "in";
+  const direction: TransitionDirection = transition.direction ?? "left";
+
+  switch (transition.type) {
+    case "crossfade":
+      return { opacity: incoming ? [0, 1] : [1, 0] };
+
+    case "wipe": {
+      // The wipe edge travels in `direction`: the incoming clip is revealed
+      // from the opposite edge while the outgoing clip is clipped away
+      const revealFrom = { left: "left", right: "right", up: "top", down: "bottom" } as const;
+      const opposite = { left: "right", right: "left", up: "bottom", down: "top" } as const;
+      return incoming
+        ? { clip: { side: revealFrom[direction], range: [100, 0] } }
+        : { clip: { side: opposite[direction], range: [0, 100] } };
+    }
+
+    case "slide": {
+      // Both clips move in `direction`; the incoming one pushes the outgoing one out
+      const axis = direction === "left" || direction === "right" ? "X" : "Y";
+      const sign = direction === "left" || direction === "up" ? -1 : 1;
+      return incoming
+        ? { translate: { axis, range: [-sign * 100, 0] } }
+        : { translate: { axis, range: [0, sign * 100] } };
+    }
+
+    default:
+      return {};
+  }
+}
+
+/**
+ * Eased 0..1 progress through a window at a parent-relative frame
+ */
+export function getTransitionProgress(window: TransitionWindow, frame: number): number {
+  const t = clamp((frame - window.start) / (window.end - window.start), 0, 1);
+  return applyEasing(t, window.transition.easing);
+}
+
+/**
+ * Combined style of every window an element takes part in, at a
+ * parent-relative frame (opacity multiplies, transforms and clips stack)
+ *
+ * Apply it to a full-frame container: translate and inset percentages are
+ * relative to the composition size.
+ */
+export function getTransitionStyle(
+  windows: TransitionWindow[] | undefined,
+  frame: number
+): TransitionStyle {
+  const style: TransitionStyle = {};
+  const transforms: string[] = [];
+  const insets = { top: 0, right: 0, bottom: 0, left: 0 };
+
+  for (const window of windows ?? []) {
+    const progress = getTransitionProgress(window, frame);
+    const effect = getTransitionEffect(window.transition, window.role);
+    const at = ([from, to]: [number, number]) => from + (to - from) * progress;
+
+    if (effect.opacity) {
+      style.opacity = (style.opacity ?? 1) * at(effect.opacity);
+    }
+    if (effect.translate) {
+      transforms.push(`translate${effect.translate.axis}(${at(effect.translate.range)}%)`);
+    }
+    if (effect.clip) {
+      insets[effect.clip.side] = Math.max(insets[effect.clip.side], at(effect.clip.range));
+    }
+  }
+
+  if (transforms.length > 0) {
+    style.transform = transforms.join(" ");
+  }
+  if (insets.top || insets.right || insets.bottom || insets.left) {
+    style.clipPath = `inset(${insets.top}% ${insets.right}% ${insets.bottom}% ${insets.left}%)`;
+  }
+
+  return style;
+}
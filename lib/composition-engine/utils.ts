@@ -2,6 +2,9 @@
  * Utility functions for composition engine
  */
 
+import type { EasingType } from "@/types/composition-ir";
+import { bezierEasing, springEasing } from "./easing";
+
 /**
  * Generate a unique element ID
  */
@@ -91,10 +94,14 @@ export function easeInOut(t: number): number {
  */
 export function applyEasing(
   t: number,
-  easing?: "linear" | "ease-in" | "ease-out" | "ease-in-out"
+  easing?: EasingType
 ): number {
   if (!easing || easing === "linear") return t;
 
+  if (typeof easing === "object") {
+    return easing.type === "cubic-bezier" ? bezierEasing(easing, t) : springEasing(easing, t);
+  }
+
   switch (easing) {
     case "ease-in":
       return t * t;
@@ -102,6 +109,8 @@ export function applyEasing(
       return t * (2 - t);
     case "ease-in-out":
       return easeInOut(t);
+    case "spring":
+      return springEasing(easing, t);
     default:
       return t;
   }
@@ -11,6 +11,8 @@
  */
 
 import Anthropic from "@anthropic-ai/sdk";
+import { framesToTimecode } from "@/lib/composition-engine/ir-helpers";
+import { getElementsAtFrame } from "@/lib/composition-engine/timeline";
 
 // Model routing strategy
 export type ModelTask =
@@ -248,12 +250,15 @@ export async function generateRemotionCode(
  */
 export function buildChatSystemPrompt(context: any): string {
   const assetsList = context.assets
-    ?.map((a: any) => `- ${a.filename} (${a.type}, ID: ${a._id})`)
+    ?.map(
+      (a: any) =>
+        `- ${a.filename} (${a.type}${a.transcript ? ", transcribed" : ""}${a.beats ? `, ${a.beats.bpm} BPM` : ""}, ID: ${a._id})`
+    )
     .join("\n") || "No assets uploaded yet";
 
-  const elementsList = context.composition?.ir?.elements
-    ?.map((e: any) => `- ${e.type} "${e.label || 'Unlabeled'}" (ID: ${e.id}, frames ${e.from}-${e.from + e.durationInFrames})`)
-    .join("\n") || "No elements in timeline yet";
+  const elementsList = context.composition?.ir?.elements?.length
+    ? formatElementList(context.composition.ir.elements)
+    : "No elements in timeline yet";
 
   const fps = context.composition?.ir?.metadata?.fps || 30;
   const width = context.composition?.ir?.metadata?.width || 1920;
@@ -274,7 +279,7 @@ ${assetsList}
 
 ## Elements in Timeline
 ${elementsList}
-
+${formatPlayhead(context.composition?.ir?.elements || [], context.playheadFrame, fps)}
 # TOOL USE GUIDELINES
 
 ## When to Use Tools
@@ -304,6 +309,7 @@ ${elementsList}
    - Top center: x=${width/2}, y=100
    - Center: x=${width/2}, y=${height/2}
    - Bottom center: x=${width/2}, y=${height - 100}
+7. **Layer order**: Elements listed later render on top of earlier ones (within the same sequence)
 
 ## Example Interactions
 
@@ -331,6 +337,40 @@ ${elementsList}
 Remember: You are an ACTION-ORIENTED assistant. Use tools to make real changes!`;
 }
 
+/**
+ * Format timeline elements for the system prompt
+ * Sequence children are indented; their frames are relative to the parent sequence
+ */
+function formatElementList(elements: any[], depth = 0): string {
+  const indent = "  ".repeat(depth);
+
+  return elements
+    .map((e: any) => {
+      const role = e.properties?.role ? `, ${e.properties.role}` : "";
+      const line = `${indent}- ${e.type} "${e.label || 'Unlabeled'}" (ID: ${e.id}, frames ${e.from}-${e.from + e.durationInFrames}${depth > 0 ? " relative to parent" : ""}${role})`;
+      return e.children?.length ? `${line}\n${formatElementList(e.children, depth + 1)}` : line;
+    })
+    .join("\n");
+}
+
+/**
+ * Describe the timeline cursor so "here" / "now" resolve to a frame
+ */
+function formatPlayhead(elements: any[], playheadFrame: number | undefined, fps: number): string {
+  if (playheadFrame === undefined) return "";
+
+  const playing = getElementsAtFrame(elements, playheadFrame)
+    .map((e: any) => `"${e.label || e.type}" (ID: ${e.id})`)
+    .join(", ");
+
+  return `
+## Playhead
+- The timeline cursor is at frame ${playheadFrame} (${framesToTimecode(playheadFrame, fps)})
+- When the user says "here", "now" or "at this point", start new elements and edits at frame ${playheadFrame}
+- Playing at the playhead: ${playing || "nothing"}
+`;
+}
+
 /**
  * Build edit plan system prompt
  */
@@ -342,19 +382,26 @@ ${JSON.stringify(compositionIR, null, 2)}
 
 Return a JSON object with this structure:
 {
-  "operations": [
+  "description": "Short summary of the whole edit",
+  "plans": [
     {
-      "action": "add" | "update" | "delete" | "move",
+      "operation": "add" | "update" | "delete" | "move" | "split" | "trim" | "rippleDelete",
       "selector": { "type": "byId" | "byLabel" | "byType" | "byIndex", ... },
-      "changes": { ... }
+      "changes": { ... },
+      "applyToAll": true | false
     }
   ]
 }
 
+All plans are applied together as one transaction (all or nothing).
+
 Rules:
+- Set applyToAll only when the user explicitly asks for "all" or "every" matching element
 - Use precise selectors (byId is best, byLabel if user specifies name)
 - Include all necessary properties in changes
 - For animations, include keyframes array
+- For layer order, use "move" with changes.layer ("front" | "back" | "above" | "below") and changes.relativeTo (a selector) for above/below
+- To cut clips, use "split" with changes.atFrame (composition frame), "trim" with changes.trimStart/trimEnd (frames cut from each end), and "rippleDelete" to delete a clip and close the gap
 - Return ONLY valid JSON, no explanation`;
 }
 
@@ -55,6 +55,8 @@ Examples:
 - "Add text saying 'Big Foot spotted!'"
 - "Put a title at the top saying 'Welcome'"
 - "Add subtitles at the bottom"
+- "Add a title with 'FREE' in yellow" → spans [{ match: 'FREE', color: '#ffff00' }]
+- "Outlined caption that fits in the lower third" → strokeWidth, width, height, autoFit
 
 Position reference (for 1920x1080 composition):
 - Top: y=100
@@ -99,6 +101,65 @@ Position reference (for 1920x1080 composition):
           type: "string",
           description: "Optional background color behind text (hex code). Useful for readability."
         },
+        width: {
+          type: "number",
+          description: "Box width in pixels; lines wrap at this width"
+        },
+        height: {
+          type: "number",
+          description: "Box height in pixels (used with autoFit)"
+        },
+        maxWidth: {
+          type: "number",
+          description: "Wrap lines at this width without fixing the box width"
+        },
+        lineHeight: {
+          type: "number",
+          description: "Line spacing as a multiple of the font size (default 1.2)"
+        },
+        letterSpacing: {
+          type: "number",
+          description: "Extra space between letters in pixels (negative tightens)"
+        },
+        strokeColor: {
+          type: "string",
+          description: "Outline color around the letters (default '#000000' when strokeWidth is set)"
+        },
+        strokeWidth: {
+          type: "number",
+          description: "Outline thickness in pixels. 2-6 keeps white text readable over busy video."
+        },
+        shadow: {
+          type: "object",
+          description: "Drop shadow (defaults: color 'rgba(0, 0, 0, 0.5)', blur 10, offsetX 0, offsetY 4)",
+          properties: {
+            color: { type: "string" },
+            blur: { type: "number" },
+            offsetX: { type: "number" },
+            offsetY: { type: "number" }
+          }
+        },
+        autoFit: {
+          type: "boolean",
+          description: "Pick the largest font size that fits the width x height box (requires width and height; ignores fontSize)"
+        },
+        spans: {
+          type: "array",
+          description: "Style words or phrases differently, e.g. highlight one word in yellow",
+          items: {
+            type: "object",
+            properties: {
+              match: { type: "string", description: "Exact (case-sensitive) text to style" },
+              occurrence: { type: "number", description: "Only style the nth match, 0-based (default: every match)" },
+              color: { type: "string" },
+              backgroundColor: { type: "string" },
+              fontWeight: { type: "string", description: "'bold', 'normal' or 100-900" },
+              fontStyle: { type: "string", enum: ["normal", "italic"] },
+              underline: { type: "boolean" }
+            },
+            required: ["match"]
+          }
+        },
         label: {
           type: "string",
           description: "Human-readable label for this text element (e.g., 'Title', 'Subtitle', 'Big Foot caption')."
@@ -107,6 +168,120 @@ Position reference (for 1920x1080 composition):
       required: ["text", "from", "durationInFrames"]
     }
   },
+  {
+    name: "add_shape_element",
+    description: `Add a shape: rectangle, ellipse, line, polygon or arrow. Use for backgrounds, lower-third bars, highlights, callout arrows and dividers.
+
+Examples:
+- "Add a red circle around the logo" → shape 'ellipse', fill 'transparent', stroke '#ff0000', strokeWidth 8
+- "Put a dark bar behind the subtitle" → shape 'rectangle', fill 'rgba(0, 0, 0, 0.6)', cornerRadius 12
+- "Draw an arrow pointing at the gorilla" → shape 'arrow' with points from the tail to the tip
+- "Add a hexagon with a blue to purple gradient" → shape 'polygon', sides 6, gradient { type 'linear', stops [{offset 0, color '#3b82f6'}, {offset 1, color '#8b5cf6'}] }
+
+The shape is drawn inside its box (x, y, width, height). Lines and arrows are painted with stroke and strokeWidth; closed shapes use fill (or gradient) plus an optional stroke.`,
+    input_schema: {
+      type: "object",
+      properties: {
+        shape: {
+          type: "string",
+          enum: ["rectangle", "ellipse", "line", "polygon", "arrow"],
+          description: "Kind of shape"
+        },
+        from: {
+          type: "number",
+          description: "Start frame when the shape appears. Calculate using: seconds * fps"
+        },
+        durationInFrames: {
+          type: "number",
+          description: "How long the shape appears on screen (in frames)"
+        },
+        x: {
+          type: "number",
+          description: "Left edge of the box in pixels (default: centered)"
+        },
+        y: {
+          type: "number",
+          description: "Top edge of the box in pixels (default: centered)"
+        },
+        width: {
+          type: "number",
+          description: "Box width in pixels (default 200)"
+        },
+        height: {
+          type: "number",
+          description: "Box height in pixels (default 200)"
+        },
+        fill: {
+          type: "string",
+          description: "Fill color of closed shapes and arrowheads: hex, rgb()/rgba() or 'transparent' (default '#ffffff')"
+        },
+        gradient: {
+          type: "object",
+          description: "Gradient fill for closed shapes (replaces fill)",
+          properties: {
+            type: { type: "string", enum: ["linear", "radial"] },
+            stops: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  offset: { type: "number", description: "Position along the gradient, 0-1" },
+                  color: { type: "string" }
+                },
+                required: ["offset", "color"]
+              }
+            },
+            angle: { type: "number", description: "Linear gradients: CSS angle in degrees (0 = bottom to top, 90 = left to right, default 180 = top to bottom)" }
+          },
+          required: ["type", "stops"]
+        },
+        stroke: {
+          type: "string",
+          description: "Outline color, and the color of lines and arrows (default '#ffffff')"
+        },
+        strokeWidth: {
+          type: "number",
+          description: "Outline or line thickness in pixels (default 4 for lines and arrows, 0 for closed shapes)"
+        },
+        cornerRadius: {
+          type: "number",
+          description: "Rounded corners for rectangles, in pixels"
+        },
+        sides: {
+          type: "number",
+          description: "Number of sides for regular polygons (default 6; 3 = triangle)"
+        },
+        points: {
+          type: "array",
+          description: "Pixel points relative to the box's top-left: polygon vertices, or the path of a line/arrow from tail to tip (default: left to right across the middle)",
+          items: {
+            type: "object",
+            properties: { x: { type: "number" }, y: { type: "number" } },
+            required: ["x", "y"]
+          }
+        },
+        shadow: {
+          type: "object",
+          description: "Drop shadow (defaults: color 'rgba(0, 0, 0, 0.5)', blur 10, offsetX 0, offsetY 4)",
+          properties: {
+            color: { type: "string" },
+            blur: { type: "number" },
+            offsetX: { type: "number" },
+            offsetY: { type: "number" }
+          }
+        },
+        rotation: {
+          type: "number",
+          description: "Rotation in degrees clockwise around the center"
+        },
+        label: {
+          type: "string",
+          description: "Human-readable label (e.g., 'Lower third bar', 'Pointer arrow')"
+        }
+      },
+      required: ["shape", "from", "durationInFrames"]
+    }
+  },
   {
     name: "add_animation",
     description: `Animate an element's properties over time. Use for zoom, fade, slide, rotate, and other motion effects.
@@ -116,6 +291,9 @@ Examples:
 - "Fade in the text" → opacity animation from 0 to 1
 - "Slide the video from left" → translateX animation
 - "Rotate the logo 360 degrees" → rotation animation
+- "Turn the title from white to red" → color animation from "#ffffff" to "#ff0000"
+- "Blur the background in" → blur animation from 20 to 0
+- "Change the caption to 'Go!' after a second" → text animation
 
 Animation properties:
 - opacity: 0 (invisible) to 1 (fully visible) for fades
@@ -124,6 +302,10 @@ Animation properties:
 - x/y: Move element position
 - rotation: Degrees (0-360) for spinning
 - translateX/translateY: Slide in pixels
+- position: {x, y} points to move in both axes at once
+- blur (pixels), brightness/contrast/saturate (1 = unchanged), grayscale (0-1), hueRotate (degrees): filters
+- color (text), backgroundColor, fill (shapes): CSS colors such as "#ff0000" or "rgba(0, 0, 0, 0.5)", blended smoothly
+- text: swaps the text at each keyframe (no blending)
 
 Keyframes are relative to element's start frame.`,
     input_schema: {
@@ -135,8 +317,8 @@ Keyframes are relative to element's start frame.`,
         },
         property: {
           type: "string",
-          enum: ["opacity", "scale", "scaleX", "scaleY", "x", "y", "rotation", "rotateX", "rotateY", "translateX", "translateY", "skewX", "skewY"],
-          description: "Property to animate. 'scale' for zoom, 'opacity' for fade, 'rotation' for spin, 'x'/'y' for position, 'translateX'/'translateY' for sliding."
+          enum: ["opacity", "scale", "scaleX", "scaleY", "x", "y", "position", "rotation", "rotateX", "rotateY", "translateX", "translateY", "skewX", "skewY", "blur", "brightness", "contrast", "saturate", "grayscale", "hueRotate", "color", "backgroundColor", "fill", "text"],
+          description: "Property to animate. 'scale' for zoom, 'opacity' for fade, 'rotation' for spin, 'x'/'y' or 'position' for position, 'translateX'/'translateY' for sliding, 'blur' and the other filters, 'color'/'backgroundColor'/'fill' for colors, 'text' for text swaps."
         },
         keyframes: {
           type: "array",
@@ -149,8 +331,20 @@ Keyframes are relative to element's start frame.`,
                 description: "Frame number relative to element's start frame. 0 = element start, 30 = 1 second later at 30fps, 90 = 3 seconds later."
               },
               value: {
-                type: "number",
-                description: "Property value at this frame. For opacity: 0-1. For scale: 0.5-3.0 typically. For rotation: 0-360 degrees. For positions: pixels."
+                anyOf: [
+                  { type: "number" },
+                  { type: "string" },
+                  {
+                    type: "object",
+                    properties: { x: { type: "number" }, y: { type: "number" } },
+                    required: ["x", "y"]
+                  }
+                ],
+                description: "Property value at this frame. For opacity: 0-1. For scale: 0.5-3.0 typically. For rotation: 0-360 degrees. For positions: pixels. For position: {x, y} in pixels. For colors: a CSS color string. For text: the text shown from this frame."
+              },
+              easing: {
+                type: "string",
+                description: "Easing from this keyframe to the next, overriding the animation's easing. Same values as the animation's easing."
               }
             },
             required: ["frame", "value"]
@@ -159,8 +353,7 @@ Keyframes are relative to element's start frame.`,
         },
         easing: {
           type: "string",
-          enum: ["linear", "ease-in", "ease-out", "ease-in-out"],
-          description: "Animation easing function. 'linear' = constant speed, 'ease-in' = starts slow, 'ease-out' = ends slow, 'ease-in-out' = smooth start and end. Defaults to 'linear'."
+          description: "Animation easing function. 'linear' = constant speed, 'ease-in' = starts slow, 'ease-out' = ends slow, 'ease-in-out' = smooth start and end, 'spring' = bouncy settle. Custom curves: 'cubic-bezier(x1, y1, x2, y2)' like CSS (x1 and x2 between 0 and 1), or 'spring(mass, damping, stiffness)' (defaults 1, 10, 100; lower damping bounces more). Defaults to 'linear'."
         }
       },
       required: ["elementId", "property", "keyframes"]
@@ -175,10 +368,13 @@ Examples:
 - "Move the text to the bottom" → change y position
 - "Change text color to red" → update color property
 - "Make the video half size" → change width/height
+- "Highlight 'Bigfoot' in red" → spans [{ match: 'Bigfoot', color: '#ff0000' }]
+- "Fade the music out over the last 2 seconds" → fadeOutFrames 60 (at 30fps)
 
 Common properties by element type:
-- Video: volume (0-1), playbackRate (0.5-2.0)
-- Text: color, fontSize, fontWeight, x, y
+- Video/Audio: volume (0-1), playbackRate (0.5-2.0), fadeInFrames/fadeOutFrames (fade ramps at the clip's ends), role ('dialogue', 'music' or 'effects')
+- Text: color, fontSize, fontWeight, x, y, width, maxWidth, lineHeight, letterSpacing, strokeColor, strokeWidth, shadow {color, blur, offsetX, offsetY}, autoFit (with width and height), spans [{match, occurrence?, color?, backgroundColor?, fontWeight?, fontStyle?, underline?}]
+- Shape: fill, stroke, strokeWidth, cornerRadius, gradient, shadow
 - All: opacity (0-1)`,
     input_schema: {
       type: "object",
@@ -189,7 +385,7 @@ Common properties by element type:
         },
         properties: {
           type: "object",
-          description: "Properties to update. Can include: volume (0-1 for video/audio), x, y (position in pixels), color (hex code for text), fontSize (pixels for text), opacity (0-1 for all elements), width, height (pixels).",
+          description: "Properties to update. Can include: volume (0-1 for video/audio), fadeInFrames, fadeOutFrames, role (video/audio), x, y (position in pixels), color (hex code for text), fontSize (pixels for text), opacity (0-1 for all elements), width, height (pixels).",
           additionalProperties: true
         }
       },
@@ -246,6 +442,469 @@ This modifies the element's timing on the timeline without changing its content
       },
       required: ["elementId"]
     }
+  },
+  {
+    name: "split_element",
+    description: `Cut a clip into two separate elements at a point on the timeline. Use when the user wants to cut, split or slice a clip, e.g. to remove or rearrange part of it.
+
+Examples:
+- "Cut the clip at 0:12" → atFrame = 12 * fps
+- "Split the interview where the speaker pauses"
+
+The second part continues from the same point in the source media and is layered directly above the first part.`,
+    input_schema: {
+      type: "object",
+      properties: {
+        elementId: {
+          type: "string",
+          description: "ID of the clip to split (from composition context)"
+        },
+        atFrame: {
+          type: "number",
+          description: "Composition frame to cut at. Calculate using: seconds * fps. Must be inside the clip."
+        }
+      },
+      required: ["elementId", "atFrame"]
+    }
+  },
+  {
+    name: "trim_element",
+    description: `Trim frames off the start (trim in) or end (trim out) of a clip. Trimming the start cuts the beginning of the media and makes the clip start later; the rest stays where it is on the timeline.
+
+Examples:
+- "Trim the first 2 seconds off the intro" → trimStart = 2 * fps
+- "Cut the last second of the b-roll" → trimEnd = 1 * fps
+- "Show one more second at the start of the interview" → trimStart = -1 * fps
+
+Use move_element instead to change when a clip starts without cutting its media.`,
+    input_schema: {
+      type: "object",
+      properties: {
+        elementId: {
+          type: "string",
+          description: "ID of the clip to trim (from composition context)"
+        },
+        trimStart: {
+          type: "number",
+          description: "Frames to cut from the start (negative extends the clip earlier into its source media)"
+        },
+        trimEnd: {
+          type: "number",
+          description: "Frames to cut from the end (negative extends the clip)"
+        }
+      },
+      required: ["elementId"]
+    }
+  },
+  {
+    name: "ripple_delete_element",
+    description: `Delete a clip and close the gap it leaves: every element that starts after the clip moves back by the clip's duration.
+
+Examples:
+- "Remove the silent part and close the gap" (split around the silence first, then ripple delete the middle part)
+- "Delete the second shot and pull everything after it forward"
+
+Use delete_element instead when the gap should stay.`,
+    input_schema: {
+      type: "object",
+      properties: {
+        elementId: {
+          type: "string",
+          description: "ID of the clip to delete (from composition context)"
+        }
+      },
+      required: ["elementId"]
+    }
+  },
+  {
+    name: "reorder_layer",
+    description: `Change which elements appear on top of others (layer order / z-index). Later elements in the list render on top of earlier ones.
+
+Examples:
+- "Bring the title to the front" → position 'front'
+- "Send the background video to the back" → position 'back'
+- "Put the logo above the main footage" → position 'above', relativeToElementId = main footage ID
+- "Move the caption behind the overlay" → position 'below', relativeToElementId = overlay ID
+
+Elements inside a sequence are layered among that sequence's children only.`,
+    input_schema: {
+      type: "object",
+      properties: {
+        elementId: {
+          type: "string",
+          description: "ID of element to re-layer (from composition context)"
+        },
+        position: {
+          type: "string",
+          enum: ["front", "back", "above", "below"],
+          description: "'front' = on top of everything, 'back' = behind everything, 'above'/'below' = directly on top of / behind the element given by relativeToElementId."
+        },
+        relativeToElementId: {
+          type: "string",
+          description: "ID of the reference element. Required for 'above' and 'below'; must be in the same sequence (or also top-level)."
+        }
+      },
+      required: ["elementId", "position"]
+    }
+  },
+  {
+    name: "add_transition",
+    description: `Add a transition between two clips that play one after the other (crossfade, wipe or slide). The incoming clip starts where it already starts; the outgoing clip keeps playing for the transition's duration so the two overlap.
+
+Examples:
+- "Crossfade the intro into the main clip" → toElementId = main clip, fromElementId = intro, type 'crossfade'
+- "Wipe to the second shot" → toElementId = second shot, type 'wipe'
+- "Slide the b-roll in from the right over 1 second" → type 'slide', direction 'left', durationInFrames = 1 * fps
+
+Both clips must be in the same sequence (or both top-level), and the outgoing clip must end where the incoming one starts or overlap it. Adding a transition replaces any existing transition into the same clip.`,
+    input_schema: {
+      type: "object",
+      properties: {
+        toElementId: {
+          type: "string",
+          description: "ID of the incoming clip (from composition context)"
+        },
+        fromElementId: {
+          type: "string",
+          description: "ID of the outgoing clip. Omit to use the clip playing when the incoming clip starts."
+        },
+        type: {
+          type: "string",
+          enum: ["crossfade", "wipe", "slide"],
+          description: "Transition style (default: crossfade)"
+        },
+        durationInFrames: {
+          type: "number",
+          description: "Transition length in frames (default: 15). Calculate using: seconds * fps. Cannot be longer than the incoming clip."
+        },
+        easing: {
+          type: "string",
+          description: "Easing curve: linear, ease-in, ease-out, ease-in-out, spring, 'cubic-bezier(x1, y1, x2, y2)' or 'spring(mass, damping, stiffness)' (default: linear)"
+        },
+        direction: {
+          type: "string",
+          enum: ["left", "right", "up", "down"],
+          description: "Direction the wipe edge or the sliding clips travel (default: left). Ignored for crossfade."
+        }
+      },
+      required: ["toElementId"]
+    }
+  },
+  {
+    name: "apply_animation_preset",
+    description: `Apply a ready-made animation to an element. Presets expand into regular keyframes (relative to the element's start) that merge with the element's existing animations, replacing keyframes of the same property inside the preset's window.
+
+Presets:
+- fade-in: opacity 0 → 1 at the start (default 0.5s)
+- fade-out: opacity 1 → 0 at the end (default 0.5s)
+- slide-in: slides in from the frame edge; direction is the direction of travel (default left, i.e. enters from the right; default 0.6s)
+- scale-pop: springs up from scale 0 with a small overshoot (default 0.5s)
+- typewriter: reveals a text element's text one character at a time (text only; default 15 characters per second)
+- ken-burns: slow zoom (and pan when direction is set) across the whole clip (images and videos only)
+- shake: side-to-side shake that settles back (default 0.4s)
+
+Examples:
+- "Fade the title in and out" → two calls: preset 'fade-in' and preset 'fade-out'
+- "Slide the logo in from the left" → preset 'slide-in', direction 'right'
+- "Shake the text 2 seconds in" → preset 'shake', startFrame = 2 * fps
+- "Add a Ken Burns effect to the photo, panning right" → preset 'ken-burns', direction 'right'`,
+    input_schema: {
+      type: "object",
+      properties: {
+        elementId: {
+          type: "string",
+          description: "ID of the element to animate (from composition context)"
+        },
+        preset: {
+          type: "string",
+          enum: ["fade-in", "fade-out", "slide-in", "scale-pop", "typewriter", "ken-burns", "shake"],
+          description: "Animation preset to apply"
+        },
+        durationInFrames: {
+          type: "number",
+          description: "Length of the animation in frames (default depends on the preset). Calculate using: seconds * fps."
+        },
+        startFrame: {
+          type: "number",
+          description: "Frame where the animation starts, RELATIVE to the element's start (default: 0, or the end of the element for fade-out)"
+        },
+        direction: {
+          type: "string",
+          enum: ["left", "right", "up", "down"],
+          description: "slide-in: direction of travel. ken-burns: pan direction (omit to zoom only)."
+        },
+        intensity: {
+          type: "number",
+          description: "slide-in: distance in pixels (default: the frame width or height). shake: offset in pixels (default 20). ken-burns: extra zoom (default 0.2 = 120%)."
+        }
+      },
+      required: ["elementId", "preset"]
+    }
+  },
+  {
+    name: "add_captions",
+    description: `Add timed captions (subtitles) from a transcript with word timings. Words are grouped into short caption lines that appear as they are spoken, placed on a "Captions" track. Use this instead of placing captions with add_text_element.
+
+Pass ONE source:
+- elementId: a video or audio clip in the timeline. Its asset is transcribed if needed, and captions are lined up with where the clip plays (trims and speed included). Prefer this.
+- assetId: an uploaded audio or video asset, or an imported SRT/VTT subtitle file (its timings are kept); captions start at startFrame.
+- words: explicit words with start/end times in seconds (e.g., from a transcript the user pasted); captions start at startFrame.
+
+Styles:
+- subtitle: classic white subtitles with a thin outline (default)
+- bold: large uppercase captions with a heavy outline
+- minimal: small text with a soft shadow
+- pop: bold captions that spring in one after another
+- reveal: bold captions whose words appear as they are spoken
+
+Existing captions on the Captions track over the same frames are replaced unless replace is false.
+
+Examples:
+- "Add subtitles to the interview" → elementId of the interview clip
+- "Add TikTok-style captions at the center" → style 'reveal', position 'center'
+- "Caption the voiceover in big bold text" → elementId of the voiceover, style 'bold'
+- "Use the subtitles from interview.srt" → assetId of the SRT file`,
+    input_schema: {
+      type: "object",
+      properties: {
+        elementId: {
+          type: "string",
+          description: "ID of the video or audio clip to caption (from composition context)"
+        },
+        assetId: {
+          type: "string",
+          description: "ID of the audio, video or subtitle asset to caption (from Available Assets)"
+        },
+        words: {
+          type: "array",
+          description: "Transcript words with times in seconds, when captioning a given transcript",
+          items: {
+            type: "object",
+            properties: {
+              text: { type: "string" },
+              start: { type: "number", description: "Seconds" },
+              end: { type: "number", description: "Seconds" }
+            },
+            required: ["text", "start", "end"]
+          }
+        },
+        startFrame: {
+          type: "number",
+          description: "Composition frame where the transcript's time 0 plays (assetId or words; default 0)"
+        },
+        style: {
+          type: "string",
+          enum: ["subtitle", "bold", "minimal", "pop", "reveal"],
+          description: "Caption style (default 'subtitle')"
+        },
+        position: {
+          type: "string",
+          enum: ["bottom", "center", "top"],
+          description: "Where captions sit in the frame (default 'bottom')"
+        },
+        maxCharsPerLine: {
+          type: "number",
+          description: "Maximum characters per caption (default 42 for subtitle/minimal, 24 for the bold styles)"
+        },
+        language: {
+          type: "string",
+          description: "Spoken language as an ISO 639-1 code (e.g., 'en'), when the asset needs transcribing (detected by default)"
+        },
+        replace: {
+          type: "boolean",
+          description: "Replace existing captions over the same frames (default true)"
+        }
+      }
+    }
+  },
+  {
+    name: "set_volume_envelope",
+    description: `Change a video or audio clip's volume over time with volume keyframes (an envelope). Replaces the clip's existing envelope; an empty keyframes list removes it. For fades at the start or end of a clip, set fadeInFrames/fadeOutFrames with update_element_properties instead.
+
+Examples:
+- "Bring the music down to 20% at 5 seconds" → [{ frame: 120, value: 1 }, { frame: 150, value: 0.2 }] (music starting at frame 0, 30fps)
+- "Swell the music for the ending" → keyframes rising to 1 near the clip's end
+- "Remove the volume automation" → keyframes []`,
+    input_schema: {
+      type: "object",
+      properties: {
+        elementId: {
+          type: "string",
+          description: "ID of the video or audio clip (from composition context)"
+        },
+        keyframes: {
+          type: "array",
+          description: "Volume points. Frames are relative to the clip's start.",
+          items: {
+            type: "object",
+            properties: {
+              frame: { type: "number", description: "Frame relative to the clip's start" },
+              value: { type: "number", description: "Volume 0-1" }
+            },
+            required: ["frame", "value"]
+          }
+        },
+        easing: {
+          type: "string",
+          description: "Easing between points (default 'linear'); same values as add_animation"
+        }
+      },
+      required: ["elementId", "keyframes"]
+    }
+  },
+  {
+    name: "duck_audio",
+    description: `Automatically lower music while dialogue plays (ducking). Tags the music and dialogue clips and turns ducking on; the music dips before each line and comes back up after it, and keeps following the dialogue when clips are moved.
+
+Examples:
+- "Lower the music under the voiceover" → musicElementIds [music], dialogueElementIds [voiceover]
+- "Duck the soundtrack more when people talk" → level 0.1
+- "Make the music come back up slower after speech" → release 1.5
+
+Clips already tagged keep their role, so ids can be omitted when only changing the settings.`,
+    input_schema: {
+      type: "object",
+      properties: {
+        musicElementIds: {
+          type: "array",
+          items: { type: "string" },
+          description: "IDs of the music clips to lower (from composition context)"
+        },
+        dialogueElementIds: {
+          type: "array",
+          items: { type: "string" },
+          description: "IDs of the voiceover, interview or other dialogue clips"
+        },
+        level: {
+          type: "number",
+          description: "Music volume while dialogue plays, 0-1 (default 0.25)"
+        },
+        attack: {
+          type: "number",
+          description: "Seconds the music takes to dip before dialogue (default 0.25)"
+        },
+        release: {
+          type: "number",
+          description: "Seconds the music takes to come back after dialogue (default 0.5)"
+        }
+      }
+    }
+  },
+  {
+    name: "set_audio_mix",
+    description: `Change the composition's overall audio: master gain for everything, or turn ducking of music under dialogue on or off.
+
+Examples:
+- "Make the whole video quieter" → masterGain 0.7
+- "Stop lowering the music when people talk" → duckingEnabled false`,
+    input_schema: {
+      type: "object",
+      properties: {
+        masterGain: {
+          type: "number",
+          description: "Master volume applied to every clip, 0-1 (default 1)"
+        },
+        duckingEnabled: {
+          type: "boolean",
+          description: "Whether music is lowered under dialogue"
+        },
+        duckingLevel: {
+          type: "number",
+          description: "Music volume while dialogue plays, 0-1"
+        }
+      }
+    }
+  },
+  {
+    name: "cut_to_beats",
+    description: `Cut video clips to the beat of a music track: places the clips one after another so every cut lands on a beat, shortening clips that run past their beat. Clips too short for a beat, and clips after the music ends, are left where they are.
+
+Examples:
+- "Cut these clips to the music" → musicElementId [music], clipElementIds [clips in order]
+- "Make the cuts faster, every 2 beats" → beatsPerCut 2
+- "Start the montage on the beat after 0:10" → startFrame at 10 seconds
+
+The music asset must have been analyzed for beats (the assets list shows its BPM).`,
+    input_schema: {
+      type: "object",
+      properties: {
+        musicElementId: {
+          type: "string",
+          description: "ID of the music clip whose beats to cut on (from composition context)"
+        },
+        clipElementIds: {
+          type: "array",
+          items: { type: "string" },
+          description: "IDs of the top-level video or image clips, in the order they should play"
+        },
+        beatsPerCut: {
+          type: "number",
+          description: "Beats each clip lasts (default 4, one bar)"
+        },
+        startFrame: {
+          type: "number",
+          description: "The first clip starts on the first beat at or after this frame (default: the music's first beat)"
+        }
+      },
+      required: ["musicElementId", "clipElementIds"]
+    }
+  },
+  {
+    name: "batch_edit",
+    description: `Apply several edits as ONE atomic change (all succeed or none are applied), with a single undo step. Use this when one request touches multiple elements or needs multiple steps, especially when the user says "all" or "every".
+
+Examples:
+- "Make all captions yellow and move them down 50px" → one update with applyToAll on the captions selector
+- "Delete every text element" → one delete with selector byType 'text' and applyToAll
+- "Make the title bigger and fade out the background music" → two updates in one batch
+
+Each edit has an operation ('add', 'update', 'delete', 'move', 'split', 'trim', 'rippleDelete'), a selector and changes:
+- Selectors: { type: 'byId', id }, { type: 'byLabel', label, partial? }, { type: 'byType', elementType, index? }, { type: 'byIndex', index }
+- update changes: { properties?: {...}, from?, durationInFrames?, label?, transitionIn? } (properties are merged; transitionIn: { type, durationInFrames?, from?: selector } adds a transition from the outgoing clip, null removes it)
+- move changes: { from?, durationInFrames?, layer?: 'front' | 'back' | 'above' | 'below', relativeTo?: selector }
+- add changes: { type, from, durationInFrames, properties, label? }
+- split changes: { atFrame } (composition frame); trim changes: { trimStart?, trimEnd? } (frames cut from each end); rippleDelete changes: {}
+
+Set applyToAll: true ONLY when the user explicitly asks for all/every matching element; otherwise a selector matching several elements fails the batch.`,
+    input_schema: {
+      type: "object",
+      properties: {
+        description: {
+          type: "string",
+          description: "Short summary of the whole change, shown as the receipt and history entry (e.g., 'Made all captions yellow and moved them down')."
+        },
+        edits: {
+          type: "array",
+          description: "Edits to apply in order. Later edits see the result of earlier ones.",
+          items: {
+            type: "object",
+            properties: {
+              operation: {
+                type: "string",
+                enum: ["add", "update", "delete", "move", "split", "trim", "rippleDelete"]
+              },
+              selector: {
+                type: "object",
+                description: "Which element(s) this edit targets. Ignored for 'add'.",
+                additionalProperties: true
+              },
+              changes: {
+                type: "object",
+                description: "Operation-specific changes (see tool description).",
+                additionalProperties: true
+              },
+              applyToAll: {
+                type: "boolean",
+                description: "Apply to every element the selector matches. Only when the user says 'all' or 'every'."
+              }
+            },
+            required: ["operation", "selector", "changes"]
+          },
+          minItems: 1
+        }
+      },
+      required: ["description", "edits"]
+    }
   }
 ];
 
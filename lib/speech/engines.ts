@@ -0,0 +1,152 @@
+/**
+ * Speech-to-Text Engines
+ *
+ * Engines transcribe an audio or video file into words with timings for
+ * captions. They are looked up by name (SPEECH_TO_TEXT_ENGINE), so another
+ * engine only needs an entry in SPEECH_ENGINES.
+ *
+ * The default "whisper" engine talks to a self-hosted Whisper server through
+ * the OpenAI-compatible transcription endpoint (faster-whisper-server,
+ * whisper.cpp server, LocalAI...), so audio never leaves your own machines.
+ * Files are streamed to the server as they download, never held in memory.
+ */
+
+import type { Transcript, TranscriptWord } from "@/types/composition-ir";
+
+// Configuration
+const WHISPER_CONFIG = {
+  url: process.env.SPEECH_TO_TEXT_URL || "http://localhost:8000",
+  model: process.env.SPEECH_TO_TEXT_MODEL || "whisper-1",
+};
+
+// Transcription streams files, so this only keeps jobs to a reasonable length
+export const MAX_TRANSCRIPTION_BYTES = 2 * 1024 * 1024 * 1024;
+
+/**
+ * Transcription options
+ */
+export interface TranscribeOptions {
+  /** Original filename (some servers detect the format from it) */
+  filename?: string;
+  /** MIME type of the file */
+  mimeType?: string;
+  /** Spoken language, ISO 639-1 (detected when omitted) */
+  language?: string;
+}
+
+/**
+ * A speech-to-text engine
+ */
+export interface SpeechToTextEngine {
+  name: string;
+  transcribe: (audio: ReadableStream<Uint8Array>, options?: TranscribeOptions) => Promise<Transcript>;
+}
+
+/**
+ * A multipart/form-data body that streams `file` after the text fields
+ * instead of buffering it like FormData
+ */
+export function streamMultipartForm(
+  boundary: string,
+  fields: Array<[string, string]>,
+  file: { name: string; filename: string; mimeType?: string; body: ReadableStream<Uint8Array> }
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const quote = (value: string) => value.replace(/["\r\n]/g, "_");
+  const head =
+    fields
+      .map(([name, value]) => `--${boundary}\r\nContent-Disposition: form-data; name="${quote(name)}"\r\n\r\n${value}\r\n`)
+      .join("") +
+    `--${boundary}\r\nContent-Disposition: form-data; name="${quote(file.name)}"; filename="${quote(file.filename)}"\r\n` +
+    `Content-Type: ${file.mimeType || "application/octet-stream"}\r\n\r\n`;
+  const reader = file.body.getReader();
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(head));
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.enqueue(encoder.encode(`\r\n--${boundary}--\r\n`));
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Words from an OpenAI-style verbose transcription (top-level `words`, or
+ * `words` inside each segment)
+ */
+export function parseWhisperTranscript(response: any): Transcript {
+  const raw: any[] = response?.words ?? (response?.segments ?? []).flatMap((segment: any) => segment.words ?? []);
+
+  const words: TranscriptWord[] = raw
+    .map((word) => ({ text: String(word.word ?? word.text ?? "").trim(), start: Number(word.start), end: Number(word.end) }))
+    .filter((word) => word.text && Number.isFinite(word.start) && Number.isFinite(word.end));
+
+  return { words, language: response?.language || undefined };
+}
+
+export const whisperEngine: SpeechToTextEngine = {
+  name: "whisper",
+  transcribe: async (audio, options = {}) => {
+    const fields: Array<[string, string]> = [
+      ["model", WHISPER_CONFIG.model],
+      ["response_format", "verbose_json"],
+      ["timestamp_granularities[]", "word"],
+    ];
+    if (options.language) {
+      fields.push(["language", options.language]);
+    }
+
+    const boundary = `chatkut-${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`;
+    const response = await fetch(`${WHISPER_CONFIG.url}/v1/audio/transcriptions`, {
+      method: "POST",
+      headers: { "Content-Type": `multipart/form-data; boundary=${boundary}` },
+      body: streamMultipartForm(boundary, fields, {
+        name: "file",
+        filename: options.filename || "audio",
+        mimeType: options.mimeType,
+        body: audio,
+      }),
+      duplex: "half", // Required to stream a request body
+    } as RequestInit);
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Speech-to-text failed: ${response.status} ${error}`);
+    }
+
+    const transcript = parseWhisperTranscript(await response.json());
+    if (transcript.words.length === 0) {
+      throw new Error("Speech-to-text returned no word timings. Check that the server supports word timestamps.");
+    }
+
+    return { ...transcript, engine: "whisper" };
+  },
+};
+
+export const SPEECH_ENGINES: Record<string, SpeechToTextEngine> = {
+  whisper: whisperEngine,
+};
+
+/**
+ * Engine by name (defaults to SPEECH_TO_TEXT_ENGINE, then "whisper")
+ */
+export function getSpeechEngine(name?: string): SpeechToTextEngine {
+  const engineName = name || process.env.SPEECH_TO_TEXT_ENGINE || "whisper";
+  const engine = SPEECH_ENGINES[engineName];
+  if (!engine) {
+    throw new Error(
+      `Unknown speech-to-text engine "${engineName}". Available: ${Object.keys(SPEECH_ENGINES).join(", ")}`
+    );
+  }
+  return engine;
+}
@@ -5,29 +5,47 @@
  * It's the bridge between our IR format and Remotion components.
  */
 
-import React from "react";
+import React, { createContext, useContext, useMemo } from "react";
 import {
   AbsoluteFill,
   Sequence,
   useCurrentFrame,
-  interpolate,
   OffthreadVideo,
   Audio,
   Img,
 } from "remotion";
 import type { CompositionIR, CompositionElement } from "@/types/composition-ir";
+import {
+  getRenderDuration,
+  getTransitionStyle,
+  getTransitionWindows,
+  type TransitionWindow,
+} from "@/lib/composition-engine/transitions";
+import { applyTrackState } from "@/lib/composition-engine/timeline";
+import { getAnimatedStyle } from "@/lib/composition-engine/keyframes";
+import { getTextStyle } from "@/lib/composition-engine/text";
+import { getVolumeEnvelopes, getVolumeProp, type VolumeEnvelope } from "@/lib/composition-engine/audio";
+import { ShapeSvg } from "./ShapeSvg";
+import { TextRuns } from "./TextRuns";
 
 export interface DynamicCompositionProps {
   compositionIR?: CompositionIR | null;
 }
 
+// Volume envelopes of the rendered composition, by element ID
+const VolumeContext = createContext<Map<string, VolumeEnvelope>>(new Map());
+
 /**
  * Main composition component
  */
 export const DynamicComposition: React.FC<DynamicCompositionProps> = ({
   compositionIR = null,
 }) => {
-  if (!compositionIR) {
+  // Hidden tracks are skipped and muted tracks silenced
+  const rendered = useMemo(() => compositionIR && applyTrackState(compositionIR), [compositionIR]);
+  const volumes = useMemo(() => (rendered ? getVolumeEnvelopes(rendered) : new Map()), [rendered]);
+
+  if (!rendered) {
     return (
       <AbsoluteFill
         style={{
@@ -45,47 +63,85 @@ export const DynamicComposition: React.FC<DynamicCompositionProps> = ({
 
   return (
     <AbsoluteFill style={{ backgroundColor: "#000" }}>
-      {compositionIR.elements.map((element) => (
-        <RenderElement key={element.id} element={element} />
-      ))}
+      <VolumeContext.Provider value={volumes}>
+        <RenderElements elements={rendered.elements} />
+      </VolumeContext.Provider>
     </AbsoluteFill>
   );
 };
 
 /**
- * Render a single element based on its type
+ * Render a list of siblings, overlapping clips joined by transitions
  */
-const RenderElement: React.FC<{ element: CompositionElement }> = ({
-  element,
+const RenderElements: React.FC<{ elements: CompositionElement[] }> = ({
+  elements,
 }) => {
-  const frame = useCurrentFrame();
+  const windows = getTransitionWindows(elements);
 
-  // Calculate animation values
-  const animatedStyle = calculateAnimatedStyle(element, frame);
+  return (
+    <>
+      {elements.map((element) => (
+        <RenderElement
+          key={element.id}
+          element={element}
+          transitions={windows.get(element.id)}
+        />
+      ))}
+    </>
+  );
+};
+
+/**
+ * Render a single element based on its type
+ */
+const RenderElement: React.FC<{
+  element: CompositionElement;
+  transitions?: TransitionWindow[];
+}> = ({ element, transitions }) => {
+  // Outside the element's own Sequence, so relative to the parent sequence
+  const frame = useCurrentFrame();
+  const volume = getVolumeProp(useContext(VolumeContext).get(element.id), element.properties.volume ?? 1);
+
+  // Calculate animation values; animated colors, fills and text replace the element's own
+  const { style: animatedStyle, properties } = calculateAnimatedStyle(element, frame);
+  const animated = { ...element, properties: { ...element.properties, ...properties } };
+
+  const content = (
+    <div
+      data-element-id={element.id}
+      style={{
+        position: "absolute",
+        ...animatedStyle,
+      }}
+    >
+      {renderElementContent(animated, volume)}
+    </div>
+  );
 
   return (
     <Sequence
       from={element.from}
-      durationInFrames={element.durationInFrames}
+      durationInFrames={getRenderDuration(element, transitions)}
       layout="none"
     >
-      <div
-        data-element-id={element.id}
-        style={{
-          position: "absolute",
-          ...animatedStyle,
-        }}
-      >
-        {renderElementContent(element)}
-      </div>
+      {transitions ? (
+        <AbsoluteFill style={getTransitionStyle(transitions, frame)}>
+          {content}
+        </AbsoluteFill>
+      ) : (
+        content
+      )}
     </Sequence>
   );
 };
 
 /**
- * Render element content based on type
+ * Render element content based on type; `volume` is the clip's audio mix
  */
-function renderElementContent(element: CompositionElement): React.ReactNode {
+function renderElementContent(
+  element: CompositionElement,
+  volume: number | ((frame: number) => number)
+): React.ReactNode {
   switch (element.type) {
     case "video":
       // Use MP4 download URL for rendering (OffthreadVideo requires MP4, not HLS)
@@ -98,7 +154,7 @@ function renderElementContent(element: CompositionElement): React.ReactNode {
             width: element.properties.width || "100%",
             height: element.properties.height || "auto",
           }}
-          volume={element.properties.volume ?? 1}
+          volume={volume}
           playbackRate={element.properties.playbackRate ?? 1}
           startFrom={element.properties.startFrom ?? 0}
           endAt={element.properties.endAt}
@@ -109,7 +165,7 @@ function renderElementContent(element: CompositionElement): React.ReactNode {
       return (
         <Audio
           src={element.properties.src}
-          volume={element.properties.volume ?? 1}
+          volume={volume}
           playbackRate={element.properties.playbackRate ?? 1}
           startFrom={element.properties.startFrom ?? 0}
           endAt={element.properties.endAt}
@@ -129,33 +185,17 @@ function renderElementContent(element: CompositionElement): React.ReactNode {
 
     case "text":
       return (
-        <div
-          style={{
-            color: element.properties.color || "#fff",
-            fontSize: element.properties.fontSize || 48,
-            fontFamily: element.properties.fontFamily || "Arial",
-            fontWeight: element.properties.fontWeight || "normal",
-            textAlign: element.properties.textAlign || "left",
-          }}
-        >
-          {element.properties.text}
+        <div style={getTextStyle(element.properties, element.animations)}>
+          <TextRuns text={String(element.properties.text ?? "")} spans={element.properties.spans} />
         </div>
       );
 
+    case "sequence":
+      // Children are nested <Sequence>s, so their `from` is relative to this sequence
+      return <RenderElements elements={element.children || []} />;
+
     case "shape":
-      if (element.properties.shape === "rectangle") {
-        return (
-          <div
-            style={{
-              width: element.properties.width || 100,
-              height: element.properties.height || 100,
-              backgroundColor: element.properties.fill || "#fff",
-              borderRadius: element.properties.borderRadius || 0,
-            }}
-          />
-        );
-      }
-      return null;
+      return <ShapeSvg element={element} />;
 
     default:
       return null;
@@ -163,112 +203,22 @@ function renderElementContent(element: CompositionElement): React.ReactNode {
 }
 
 /**
- * Calculate animated styles from keyframes
+ * Calculate animated styles and property overrides from keyframes
  */
 function calculateAnimatedStyle(
   element: CompositionElement,
   frame: number
-): React.CSSProperties {
-  const style: React.CSSProperties = {
-    left: element.properties.x || 0,
-    top: element.properties.y || 0,
-    opacity: element.properties.opacity ?? 1,
+): { style: React.CSSProperties; properties: Record<string, unknown> } {
+  // Keyframes are relative to the element; `frame` is relative to the parent
+  const { style, properties } = getAnimatedStyle(element, frame - element.from);
+
+  return {
+    style: {
+      left: element.properties.x || 0,
+      top: element.properties.y || 0,
+      opacity: element.properties.opacity ?? 1,
+      ...style,
+    },
+    properties,
   };
-
-  // Apply animations
-  if (element.animations && element.animations.length > 0) {
-    const transforms: string[] = [];
-
-    for (const animation of element.animations) {
-      const value = interpolateAnimation(animation.keyframes, frame, animation.easing);
-
-      switch (animation.property) {
-        case "opacity":
-          style.opacity = value;
-          break;
-        case "scale":
-          transforms.push(`scale(${value})`);
-          break;
-        case "scaleX":
-          transforms.push(`scaleX(${value})`);
-          break;
-        case "scaleY":
-          transforms.push(`scaleY(${value})`);
-          break;
-        case "x":
-          style.left = value;
-          break;
-        case "y":
-          style.top = value;
-          break;
-        case "rotation":
-          transforms.push(`rotate(${value}deg)`);
-          break;
-        case "rotateX":
-          transforms.push(`rotateX(${value}deg)`);
-          break;
-        case "rotateY":
-          transforms.push(`rotateY(${value}deg)`);
-          break;
-        case "translateX":
-          transforms.push(`translateX(${value}px)`);
-          break;
-        case "translateY":
-          transforms.push(`translateY(${value}px)`);
-          break;
-        case "skewX":
-          transforms.push(`skewX(${value}deg)`);
-          break;
-        case "skewY":
-          transforms.push(`skewY(${value}deg)`);
-          break;
-      }
-    }
-
-    // Combine all transform animations
-    if (transforms.length > 0) {
-      style.transform = transforms.join(" ");
-    }
-  }
-
-  return style;
-}
-
-/**
- * Interpolate value from keyframes
- */
-function interpolateAnimation(
-  keyframes: Array<{ frame: number; value: number }>,
-  currentFrame: number,
-  easing?: string
-): number {
-  if (keyframes.length === 0) return 0;
-  if (keyframes.length === 1) return keyframes[0].value;
-
-  // Find surrounding keyframes
-  let startKf = keyframes[0];
-  let endKf = keyframes[keyframes.length - 1];
-
-  for (let i = 0; i < keyframes.length - 1; i++) {
-    if (
-      currentFrame >= keyframes[i].frame &&
-      currentFrame <= keyframes[i + 1].frame
-    ) {
-      startKf = keyframes[i];
-      endKf = keyframes[i + 1];
-      break;
-    }
-  }
-
-  // Interpolate
-  return interpolate(
-    currentFrame,
-    [startKf.frame, endKf.frame],
-    [startKf.value, endKf.value],
-    {
-      easing: easing as any,
-      extrapolateLeft: "clamp",
-      extrapolateRight: "clamp",
-    }
-  );
 }
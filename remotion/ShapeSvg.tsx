@@ -0,0 +1,41 @@
+/**
+ * Shape renderer
+ *
+ * Draws a shape element's SVG from getShapeDrawing; used by
+ * DynamicComposition and the preview player.
+ */
+
+import React from "react";
+import type { CompositionElement } from "@/types/composition-ir";
+import { getShapeDrawing, type SvgNode } from "@/lib/composition-engine/shapes";
+
+function renderNode(node: SvgNode, key: number): React.ReactNode {
+  return React.createElement(
+    node.tag,
+    { key, ...node.attributes },
+    node.children?.map((child, i) => renderNode(child, i))
+  );
+}
+
+export function ShapeSvg({
+  element,
+  properties = element.properties,
+}: {
+  element: CompositionElement;
+  properties?: Record<string, any>; // Properties with animated values applied
+}) {
+  const drawing = getShapeDrawing(properties, element.id);
+
+  return (
+    <svg
+      width={drawing.width}
+      height={drawing.height}
+      viewBox={`0 0 ${drawing.width} ${drawing.height}`}
+      overflow="visible"
+      style={{ display: "block", filter: drawing.filter }}
+    >
+      {drawing.defs.length > 0 && <defs>{drawing.defs.map(renderNode)}</defs>}
+      {drawing.nodes.map(renderNode)}
+    </svg>
+  );
+}
@@ -0,0 +1,26 @@
+/**
+ * Text content renderer
+ *
+ * Renders a text element's text with its styled spans from getTextRuns;
+ * used by DynamicComposition and the preview player.
+ */
+
+import React from "react";
+import type { TextSpan } from "@/types/composition-ir";
+import { getTextRuns } from "@/lib/composition-engine/text";
+
+export function TextRuns({ text, spans }: { text: string; spans?: TextSpan[] }) {
+  return (
+    <>
+      {getTextRuns(text, spans).map((run, i) =>
+        run.style ? (
+          <span key={i} style={run.style}>
+            {run.text}
+          </span>
+        ) : (
+          <React.Fragment key={i}>{run.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
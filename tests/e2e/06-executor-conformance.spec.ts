@@ -0,0 +1,734 @@
+/**
+ * Executor Conformance: Convex action vs client engine
+ *
+ * The Convex edit actions and the client both run edit plans through
+ * lib/composition-engine/executor.ts. These tests run the same plans through
+ * both paths and assert identical CompositionIR output:
+ * 1. Client: executeEditPlan() called directly on the in-memory IR
+ * 2. Convex: executeStoredEdit(), the actions' handler logic, on the IR and
+ *    edit serialized as Convex values (with resolvedElementId from the
+ *    Disambiguator), checking the result returned and the IR it commits
+ *
+ * NOTE: Pure tests, no browser or dev servers required
+ */
+
+import { test, expect } from '@playwright/test';
+import { executeEditPlan, executeStoredEdit, executeTransaction } from '../../lib/composition-engine/executor';
+import {
+  addPatch,
+  createReorderPatch,
+  reorderSiblings,
+  getPatchCursor,
+  redoPatchGroup,
+  revertLastPatch,
+  undoPatchGroup,
+} from '../../lib/composition-engine/ir-helpers';
+import type { CompositionIR, EditPlan } from '../../types/composition-ir';
+
+/**
+ * Deterministic ID generator so both paths create identical elements
+ */
+function idSequence(prefix = 'el_test') {
+  let next = 0;
+  return () => `${prefix}_${++next}`;
+}
+
+/**
+ * Deterministic element IDs, patch IDs and patch timestamps
+ */
+function deterministicOptions() {
+  return { generateId: idSequence(), generatePatchId: idSequence('patch'), now: () => 1000 };
+}
+
+/**
+ * Values crossing the Convex boundary are serialized as JSON
+ */
+function toConvexValue<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * The `compositions.executeEditPlan` action: the result it returns, after
+ * checking it commits exactly the IR it returns (and nothing on failure)
+ */
+function runThroughConvexAction(
+  storedIR: CompositionIR,
+  editPlan: EditPlan,
+  resolvedElementId?: string
+) {
+  const { result, commit } = executeStoredEdit(
+    toConvexValue(storedIR),
+    toConvexValue({ editPlan, resolvedElementId }),
+    deterministicOptions()
+  );
+  expect(commit).toEqual(
+    result.success ? { ir: result.updatedIR, snapshotDescription: result.receipt } : null
+  );
+  return toConvexValue(result);
+}
+
+function runThroughClient(ir: CompositionIR, plan: EditPlan) {
+  return toConvexValue(executeEditPlan(ir, plan, deterministicOptions()));
+}
+
+function createFixtureIR(): CompositionIR {
+  return {
+    id: 'comp_conformance',
+    version: 3,
+    metadata: { width: 1920, height: 1080, fps: 30, durationInFrames: 300 },
+    elements: [
+      {
+        id: 'el_intro',
+        type: 'video',
+        label: 'Intro clip',
+        from: 0,
+        durationInFrames: 90,
+        properties: { src: 'https://example.com/intro.m3u8', volume: 1 },
+      },
+      {
+        id: 'el_title',
+        type: 'text',
+        label: 'Title',
+        from: 0,
+        durationInFrames: 60,
+        properties: { text: 'Welcome', fontSize: 72, color: '#ffffff' },
+      },
+      {
+        id: 'el_main',
+        type: 'video',
+        label: 'Main footage',
+        from: 90,
+        durationInFrames: 210,
+        properties: { src: 'https://example.com/main.m3u8', volume: 0.8 },
+      },
+      {
+        id: 'el_caption',
+        type: 'text',
+        label: 'Caption',
+        from: 120,
+        durationInFrames: 60,
+        properties: { text: 'Big Foot spotted!', fontSize: 48 },
+      },
+    ],
+    patches: [],
+  };
+}
+
+const plans: Array<{ name: string; plan: EditPlan }> = [
+  {
+    name: 'add with animations',
+    plan: {
+      operation: 'add',
+      selector: { type: 'byId', id: '' },
+      changes: {
+        type: 'text',
+        label: 'Outro',
+        from: 240,
+        durationInFrames: 60,
+        properties: { text: 'Thanks for watching' },
+        animations: [
+          { property: 'opacity', keyframes: [{ frame: 0, value: 0 }, { frame: 15, value: 1 }] },
+        ],
+      },
+    },
+  },
+  {
+    name: 'update byId',
+    plan: {
+      operation: 'update',
+      selector: { type: 'byId', id: 'el_title' },
+      changes: { properties: { color: '#ffcc00' } },
+    },
+  },
+  {
+    name: 'update byLabel',
+    plan: {
+      operation: 'update',
+      selector: { type: 'byLabel', label: 'caption' },
+      changes: { properties: { fontSize: 56 }, label: 'Bottom caption' },
+    },
+  },
+  {
+    name: 'update byLabel (partial)',
+    plan: {
+      operation: 'update',
+      selector: { type: 'byLabel', label: 'main', partial: true },
+      changes: { properties: { volume: 0.5 } },
+    },
+  },
+  {
+    name: 'update byIndex',
+    plan: {
+      operation: 'update',
+      selector: { type: 'byIndex', index: 1 },
+      changes: { durationInFrames: 75 },
+    },
+  },
+  {
+    name: 'update byType with index',
+    plan: {
+      operation: 'update',
+      selector: { type: 'byType', elementType: 'video', index: 1 },
+      changes: { properties: { playbackRate: 1.5 } },
+    },
+  },
+  {
+    name: 'delete byLabel',
+    plan: {
+      operation: 'delete',
+      selector: { type: 'byLabel', label: 'Intro clip' },
+      changes: {},
+    },
+  },
+  {
+    name: 'delete byType with index',
+    plan: {
+      operation: 'delete',
+      selector: { type: 'byType', elementType: 'text', index: 0 },
+      changes: {},
+    },
+  },
+  {
+    name: 'move byIndex',
+    plan: {
+      operation: 'move',
+      selector: { type: 'byIndex', index: 3 },
+      changes: { from: 150 },
+    },
+  },
+  {
+    name: 'move byType with index',
+    plan: {
+      operation: 'move',
+      selector: { type: 'byType', elementType: 'video', index: 0 },
+      changes: { from: 30, durationInFrames: 60 },
+    },
+  },
+];
+
+test.describe('Executor Conformance', () => {
+  for (const { name, plan } of plans) {
+    test(`produces identical IR for ${name}`, () => {
+      const ir = createFixtureIR();
+
+      const clientResult = runThroughClient(ir, plan);
+      const convexResult = runThroughConvexAction(ir, plan);
+
+      expect(clientResult.success).toBe(true);
+      expect(convexResult).toEqual(clientResult);
+    });
+  }
+
+  test('add stores animations under `animations`', () => {
+    const result = runThroughConvexAction(createFixtureIR(), plans[0].plan);
+
+    const added = result.updatedIR!.elements.at(-1)!;
+    expect(added.id).toBe('el_test_1');
+    expect(added.animations).toHaveLength(1);
+    expect(added).not.toHaveProperty('animation');
+  });
+
+  test('resolvedElementId matches the selected element applied by ID', () => {
+    const ir = createFixtureIR();
+    const ambiguous: EditPlan = {
+      operation: 'update',
+      selector: { type: 'byType', elementType: 'text' },
+      changes: { properties: { color: '#00ff00' } },
+    };
+
+    // Client surfaces the Disambiguator instead of guessing
+    const clientResult = runThroughClient(ir, ambiguous);
+    expect(clientResult.success).toBe(false);
+    expect(clientResult.needsDisambiguation).toBe(true);
+    expect(clientResult.disambiguationOptions?.map((o) => o.elementId)).toEqual([
+      'el_title',
+      'el_caption',
+    ]);
+
+    // User picks the caption; Convex receives it as resolvedElementId
+    const convexResult = runThroughConvexAction(ir, ambiguous, 'el_caption');
+    const byIdResult = runThroughClient(ir, {
+      ...ambiguous,
+      selector: { type: 'byId', id: 'el_caption' },
+    });
+
+    expect(convexResult.success).toBe(true);
+    expect(convexResult).toEqual(byIdResult);
+  });
+
+  test('both paths report the same error for a missing element', () => {
+    const plan: EditPlan = {
+      operation: 'delete',
+      selector: { type: 'byLabel', label: 'Does not exist' },
+      changes: {},
+    };
+
+    const clientResult = runThroughClient(createFixtureIR(), plan);
+    const convexResult = runThroughConvexAction(createFixtureIR(), plan);
+
+    expect(clientResult.success).toBe(false);
+    expect(convexResult).toEqual(clientResult);
+  });
+});
+
+function createNestedFixtureIR(): CompositionIR {
+  return {
+    id: 'comp_nested',
+    version: 1,
+    metadata: { width: 1920, height: 1080, fps: 30, durationInFrames: 300 },
+    elements: [
+      {
+        id: 'el_bg',
+        type: 'video',
+        label: 'Background',
+        from: 0,
+        durationInFrames: 300,
+        properties: { src: 'https://example.com/bg.m3u8' },
+      },
+      {
+        id: 'el_group',
+        type: 'sequence',
+        label: 'Lower third',
+        from: 60,
+        durationInFrames: 120,
+        properties: {},
+        children: [
+          {
+            id: 'el_name',
+            type: 'text',
+            label: 'Name',
+            from: 0,
+            durationInFrames: 120,
+            properties: { text: 'Jane Doe' },
+          },
+          {
+            id: 'el_role',
+            type: 'text',
+            label: 'Role',
+            from: 15,
+            durationInFrames: 105,
+            properties: { text: 'Director' },
+          },
+        ],
+      },
+    ],
+    patches: [],
+  };
+}
+
+test.describe('Nested Sequences', () => {
+  test('update reaches a child by label', () => {
+    const result = runThroughConvexAction(createNestedFixtureIR(), {
+      operation: 'update',
+      selector: { type: 'byLabel', label: 'Role' },
+      changes: { properties: { color: '#ffcc00' } },
+    });
+
+    expect(result.success).toBe(true);
+    const group = result.updatedIR!.elements[1];
+    expect(group.children![1].properties.color).toBe('#ffcc00');
+  });
+
+  test('byIndex resolves within its parent sequence', () => {
+    const plan: EditPlan = {
+      operation: 'delete',
+      selector: {
+        type: 'byIndex',
+        index: 0,
+        parent: { type: 'byLabel', label: 'Lower third' },
+      },
+      changes: {},
+    };
+
+    const clientResult = runThroughClient(createNestedFixtureIR(), plan);
+    const convexResult = runThroughConvexAction(createNestedFixtureIR(), plan);
+
+    expect(convexResult).toEqual(clientResult);
+    expect(clientResult.affectedElements).toEqual(['el_name']);
+    expect(clientResult.updatedIR!.elements[1].children!.map((c) => c.id)).toEqual(['el_role']);
+  });
+
+  test('add places a child inside a sequence', () => {
+    const result = runThroughClient(createNestedFixtureIR(), {
+      operation: 'add',
+      selector: { type: 'byId', id: '' },
+      changes: {
+        type: 'shape',
+        from: 0,
+        durationInFrames: 120,
+        properties: { shape: 'rectangle' },
+        parent: { type: 'byId', id: 'el_group' },
+      },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.updatedIR!.elements).toHaveLength(2);
+    expect(result.updatedIR!.elements[1].children!.at(-1)!.id).toBe('el_test_1');
+  });
+
+  test('add refuses to nest inside a non-sequence', () => {
+    const result = runThroughClient(createNestedFixtureIR(), {
+      operation: 'add',
+      selector: { type: 'byId', id: '' },
+      changes: { type: 'text', parent: { type: 'byId', id: 'el_bg' } },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('sequence');
+  });
+
+  test('move out of a sequence keeps the absolute start frame', () => {
+    const result = runThroughClient(createNestedFixtureIR(), {
+      operation: 'move',
+      selector: { type: 'byId', id: 'el_role' },
+      changes: { parent: null },
+    });
+
+    expect(result.success).toBe(true);
+    const moved = result.updatedIR!.elements.at(-1)!;
+    expect(moved.id).toBe('el_role');
+    expect(moved.from).toBe(75); // 60 (parent) + 15 (child)
+    expect(result.updatedIR!.elements[1].children).toHaveLength(1);
+  });
+
+  test('move into a sequence makes timing relative to the parent', () => {
+    const result = runThroughClient(createNestedFixtureIR(), {
+      operation: 'move',
+      selector: { type: 'byId', id: 'el_bg' },
+      changes: { parent: { type: 'byId', id: 'el_group' }, from: 10 },
+    });
+
+    expect(result.success).toBe(true);
+    const group = result.updatedIR!.elements[0];
+    expect(group.id).toBe('el_group');
+    expect(group.children!.at(-1)).toMatchObject({ id: 'el_bg', from: 10 });
+  });
+
+  test('a sequence cannot be moved inside itself', () => {
+    const result = runThroughClient(createNestedFixtureIR(), {
+      operation: 'move',
+      selector: { type: 'byId', id: 'el_group' },
+      changes: { parent: { type: 'byId', id: 'el_group' } },
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+test.describe('Layer Ordering', () => {
+  const layerOptions = () => ({ generatePatchId: () => 'patch_test', now: () => 1000 });
+
+  const layer = (ir: CompositionIR, plan: EditPlan) =>
+    toConvexValue(executeEditPlan(ir, plan, layerOptions()));
+
+  const ids = (elements: CompositionIR['elements']) => elements.map((el) => el.id);
+
+  test('bring to front moves the element to the end of its siblings', () => {
+    const result = layer(createFixtureIR(), {
+      operation: 'move',
+      selector: { type: 'byLabel', label: 'Intro clip' },
+      changes: { layer: 'front' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(ids(result.updatedIR!.elements)).toEqual(['el_title', 'el_main', 'el_caption', 'el_intro']);
+    expect(result.receipt).toBe('Brought "Intro clip" to the front');
+  });
+
+  test('send to back moves the element to the start of its siblings', () => {
+    const result = layer(createFixtureIR(), {
+      operation: 'move',
+      selector: { type: 'byId', id: 'el_caption' },
+      changes: { layer: 'back' },
+    });
+
+    expect(ids(result.updatedIR!.elements)).toEqual(['el_caption', 'el_intro', 'el_title', 'el_main']);
+  });
+
+  test('above and below place the element next to the reference element', () => {
+    const above = layer(createFixtureIR(), {
+      operation: 'move',
+      selector: { type: 'byId', id: 'el_intro' },
+      changes: { layer: 'above', relativeTo: { type: 'byLabel', label: 'Main footage' } },
+    });
+    expect(ids(above.updatedIR!.elements)).toEqual(['el_title', 'el_main', 'el_intro', 'el_caption']);
+
+    const below = layer(createFixtureIR(), {
+      operation: 'move',
+      selector: { type: 'byId', id: 'el_caption' },
+      changes: { layer: 'below', relativeTo: { type: 'byId', id: 'el_title' } },
+    });
+    expect(ids(below.updatedIR!.elements)).toEqual(['el_intro', 'el_caption', 'el_title', 'el_main']);
+  });
+
+  test('Convex and client produce the same reordered IR and patch', () => {
+    const plan: EditPlan = {
+      operation: 'move',
+      selector: { type: 'byType', elementType: 'video', index: 0 },
+      changes: { layer: 'front' },
+    };
+
+    const clientResult = layer(createFixtureIR(), plan);
+    const convexResult = toConvexValue(
+      executeStoredEdit(toConvexValue(createFixtureIR()), toConvexValue({ editPlan: plan }), layerOptions()).result
+    );
+
+    expect(convexResult).toEqual(clientResult);
+  });
+
+  test('records an invertible move patch', () => {
+    const ir = createFixtureIR();
+    const result = layer(ir, {
+      operation: 'move',
+      selector: { type: 'byId', id: 'el_intro' },
+      changes: { layer: 'front' },
+    });
+
+    expect(result.patch).toEqual({
+      id: 'patch_test',
+      timestamp: 1000,
+      operation: 'move',
+      selector: { type: 'byId', id: 'el_intro' },
+      changes: { parentId: null, toIndex: 3 },
+      previousState: { element: ir.elements[0], index: 0 },
+      description: 'Brought "Intro clip" to the front',
+    });
+    expect(result.updatedIR!.patches).toEqual([result.patch]);
+
+    const reverted = revertLastPatch(result.updatedIR!)!;
+    expect(ids(reverted.elements)).toEqual(ids(ir.elements));
+    expect(reverted.patches).toEqual([]);
+  });
+
+  test('reorders children within their sequence', () => {
+    const result = layer(createNestedFixtureIR(), {
+      operation: 'move',
+      selector: { type: 'byLabel', label: 'Name' },
+      changes: { layer: 'above', relativeTo: { type: 'byLabel', label: 'Role' } },
+    });
+
+    expect(result.success).toBe(true);
+    expect(ids(result.updatedIR!.elements)).toEqual(['el_bg', 'el_group']);
+    expect(ids(result.updatedIR!.elements[1].children!)).toEqual(['el_role', 'el_name']);
+  });
+
+  test('refuses to layer relative to an element in another sequence', () => {
+    const result = layer(createNestedFixtureIR(), {
+      operation: 'move',
+      selector: { type: 'byId', id: 'el_name' },
+      changes: { layer: 'above', relativeTo: { type: 'byId', id: 'el_bg' } },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('same sequence');
+  });
+
+  test('an ambiguous reference element is reported as an error', () => {
+    const result = layer(createFixtureIR(), {
+      operation: 'move',
+      selector: { type: 'byId', id: 'el_intro' },
+      changes: { layer: 'below', relativeTo: { type: 'byType', elementType: 'text' } },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('multiple elements');
+  });
+
+  test('a full reorder patch restores the previous order', () => {
+    const ir = createFixtureIR();
+    const newOrder = ['el_main', 'el_caption', 'el_intro', 'el_title'];
+    const patch = createReorderPatch(ids(ir.elements), newOrder);
+
+    expect(patch.previousState).toEqual({ order: ids(ir.elements), parentId: undefined });
+
+    const reordered = addPatch(
+      { ...ir, elements: reorderSiblings(ir.elements, newOrder) },
+      patch
+    );
+    expect(ids(revertLastPatch(reordered)!.elements)).toEqual(ids(ir.elements));
+  });
+});
+
+test.describe('Transactions', () => {
+  const runTransaction = (ir: CompositionIR, plans: EditPlan[], description?: string) =>
+    toConvexValue(executeTransaction(ir, { plans, description }, deterministicOptions()));
+
+  const captionPlans: EditPlan[] = [
+    {
+      operation: 'update',
+      selector: { type: 'byType', elementType: 'text' },
+      changes: { properties: { color: '#ffff00' } },
+      applyToAll: true,
+    },
+    {
+      operation: 'move',
+      selector: { type: 'byLabel', label: 'Caption' },
+      changes: { from: 150 },
+    },
+  ];
+
+  test('applies every plan with one receipt and one patch group', () => {
+    const result = runTransaction(createFixtureIR(), captionPlans, 'Restyled captions');
+
+    expect(result.success).toBe(true);
+    expect(result.receipt).toBe('Restyled captions');
+    expect(result.affectedElements).toEqual(['el_title', 'el_caption']);
+
+    const [, title, , caption] = result.updatedIR!.elements;
+    expect(title.properties.color).toBe('#ffff00');
+    expect(caption).toMatchObject({ from: 150, properties: { color: '#ffff00' } });
+
+    expect(result.patches).toHaveLength(3);
+    expect(result.updatedIR!.patches).toEqual(result.patches);
+    expect(new Set(result.patches!.map((patch) => patch.groupId)).size).toBe(1);
+  });
+
+  test('joins step receipts when no description is given', () => {
+    const result = runTransaction(createFixtureIR(), [captionPlans[1], plans[1].plan]);
+
+    expect(result.receipt).toBe('Moved "Caption"; Updated "Title"');
+  });
+
+  test('is all or nothing', () => {
+    const result = runTransaction(createFixtureIR(), [
+      captionPlans[0],
+      { operation: 'delete', selector: { type: 'byLabel', label: 'Missing' }, changes: {} },
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.updatedIR).toBeUndefined();
+    expect(result.failedPlanIndex).toBe(1);
+    expect(result.error).toBe('Step 2 of 2: No element found matching selector');
+  });
+
+  test('an ambiguous step reports which plan needs disambiguation', () => {
+    const ambiguous: EditPlan = { ...captionPlans[0], applyToAll: false };
+    const result = runTransaction(createFixtureIR(), [captionPlans[1], ambiguous]);
+
+    expect(result.success).toBe(false);
+    expect(result.needsDisambiguation).toBe(true);
+    expect(result.failedPlanIndex).toBe(1);
+
+    const resolved = toConvexValue(
+      executeTransaction(createFixtureIR(), [captionPlans[1], ambiguous], {
+        ...deterministicOptions(),
+        resolvedElementIds: [null, 'el_title'],
+      })
+    );
+    expect(resolved.success).toBe(true);
+    expect(resolved.affectedElements).toEqual(['el_caption', 'el_title']);
+  });
+
+  test('applyToAll fans a single plan out to every match', () => {
+    const result = runThroughClient(createFixtureIR(), captionPlans[0]);
+
+    expect(result.success).toBe(true);
+    expect(result.affectedElements).toEqual(['el_title', 'el_caption']);
+    expect(result.receipt).toBe('Updated 2 elements: "Title", "Caption"');
+    expect(result.patches).toHaveLength(2);
+    expect(result.patches![0].groupId).toBe(result.patches![1].groupId);
+  });
+
+  test('applyToAll delete skips children of deleted sequences', () => {
+    const ir = createNestedFixtureIR();
+    ir.elements[1].children![0].label = 'Lower third name';
+
+    const result = runThroughClient(ir, {
+      operation: 'delete',
+      selector: { type: 'byLabel', label: 'Lower third', partial: true },
+      changes: {},
+      applyToAll: true,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.updatedIR!.elements.map((el) => el.id)).toEqual(['el_bg']);
+  });
+
+  test('Convex and client produce the same transaction result', () => {
+    const clientResult = runTransaction(createFixtureIR(), captionPlans);
+    const { result, commit } = executeStoredEdit(
+      toConvexValue(createFixtureIR()),
+      toConvexValue({ plans: captionPlans }),
+      deterministicOptions()
+    );
+
+    expect(toConvexValue(result)).toEqual(clientResult);
+    expect(toConvexValue(commit)).toEqual({ ir: clientResult.updatedIR, snapshotDescription: clientResult.receipt });
+  });
+
+  test('undo reverts the whole transaction as one step', () => {
+    const ir = createFixtureIR();
+    const result = runTransaction(ir, [
+      ...captionPlans,
+      plans[0].plan,
+      { operation: 'move', selector: { type: 'byId', id: 'el_intro' }, changes: { layer: 'front' } },
+    ]);
+
+    const reverted = undoPatchGroup(result.updatedIR!)!;
+    expect(reverted.elements).toEqual(ir.elements);
+    expect(getPatchCursor(reverted)).toBe(0);
+    expect(reverted.patches).toEqual(result.patches);
+  });
+});
+
+test.describe('Undo/Redo', () => {
+  const edit = (ir: CompositionIR, plan: EditPlan) =>
+    toConvexValue(executeEditPlan(ir, plan, deterministicOptions())).updatedIR!;
+
+  const edits: EditPlan[] = [
+    plans[0].plan, // add
+    plans[1].plan, // update
+    { operation: 'delete', selector: { type: 'byId', id: 'el_title' }, changes: {} },
+    { operation: 'move', selector: { type: 'byId', id: 'el_caption' }, changes: { from: 10, layer: 'back' } },
+  ];
+
+  test('undo walks back through every edit and redo replays them', () => {
+    const states = [createFixtureIR()];
+    for (const plan of edits) {
+      states.push(edit(states.at(-1)!, plan));
+    }
+
+    let ir = states.at(-1)!;
+    for (let i = edits.length - 1; i >= 0; i--) {
+      ir = undoPatchGroup(ir)!;
+      expect(ir.elements).toEqual(states[i].elements);
+      expect(getPatchCursor(ir)).toBe(i);
+    }
+    expect(undoPatchGroup(ir)).toBeNull();
+
+    for (let i = 1; i <= edits.length; i++) {
+      ir = redoPatchGroup(ir)!;
+      expect(ir.elements).toEqual(states[i].elements);
+    }
+    expect(redoPatchGroup(ir)).toBeNull();
+    expect(ir).not.toHaveProperty('patchCursor');
+  });
+
+  test('undoing a delete restores the element at its original position', () => {
+    const ir = createNestedFixtureIR();
+    const deleted = edit(ir, {
+      operation: 'delete',
+      selector: { type: 'byId', id: 'el_name' },
+      changes: {},
+    });
+
+    expect(undoPatchGroup(deleted)!.elements).toEqual(ir.elements);
+  });
+
+  test('a new edit after undo starts a new branch', () => {
+    const first = edit(createFixtureIR(), edits[1]);
+    const second = edit(first, edits[2]);
+    const undone = undoPatchGroup(second)!;
+
+    const branched = edit(undone, {
+      operation: 'update',
+      selector: { type: 'byId', id: 'el_main' },
+      changes: { properties: { volume: 0.2 } },
+    });
+
+    expect(branched.patches.map((patch) => patch.operation)).toEqual(['update', 'update']);
+    expect(branched).not.toHaveProperty('patchCursor');
+    expect(redoPatchGroup(branched)).toBeNull();
+    expect(undoPatchGroup(branched)!.elements).toEqual(first.elements);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Patch Inversion: apply → revert is the identity
+ *
+ * Property-based tests over randomly generated compositions and edit plans.
+ * Every add/update/delete/move must record a patch whose previous state lets
+ * revertLastPatch restore the exact prior IR, and applyPatch redo the edit.
+ *
+ * Generation is seeded so a failing case can be replayed from its seed.
+ *
+ * NOTE: Pure tests, no browser or dev servers required
+ */
+
+import { test, expect } from '@playwright/test';
+import { executeEditPlan, executeTransaction } from '../../lib/composition-engine/executor';
+import {
+  applyPatch,
+  flattenElements,
+  getPatchCursor,
+  MAX_PATCH_GROUPS,
+  redoPatchGroup,
+  revertLastPatch,
+  trimPatchHistory,
+  undoPatchGroup,
+} from '../../lib/composition-engine/ir-helpers';
+import type {
+  CompositionElement,
+  CompositionIR,
+  EditPlan,
+  ElementType,
+} from '../../types/composition-ir';
+
+const RUNS = 300;
+
+/**
+ * Small seeded PRNG (mulberry32) so every run is reproducible
+ */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  const pick = <T>(items: T[]): T => items[int(0, items.length - 1)];
+  const chance = (p: number) => next() < p;
+  return { int, pick, chance };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+function randomElement(random: Random, id: string, depth: number): CompositionElement {
+  const type: ElementType =
+    depth === 0 && random.chance(0.3)
+      ? 'sequence'
+      : random.pick<ElementType>(['video', 'audio', 'text', 'image', 'shape']);
+
+  const element: CompositionElement = {
+    id,
+    type,
+    from: random.int(0, 200),
+    durationInFrames: random.int(1, 150),
+    properties: type === 'text' ? { text: `Text ${id}`, fontSize: random.int(12, 96) } : {},
+  };
+
+  if (random.chance(0.7)) {
+    element.label = `Label ${id}`;
+  }
+  if (random.chance(0.3)) {
+    element.animations = [
+      {
+        property: 'opacity',
+        keyframes: [
+          { frame: 0, value: 0 },
+          { frame: random.int(1, 30), value: 1 },
+        ],
+      },
+    ];
+  }
+  if (type === 'sequence') {
+    element.children = Array.from({ length: random.int(0, 3) }, (_, i) =>
+      randomElement(random, `${id}_${i}`, depth + 1)
+    );
+  }
+
+  return element;
+}
+
+function randomIR(random: Random): CompositionIR {
+  return {
+    id: 'comp_property',
+    version: 1,
+    metadata: { width: 1920, height: 1080, fps: 30, durationInFrames: 300 },
+    elements: Array.from({ length: random.int(1, 6) }, (_, i) =>
+      randomElement(random, `el_${i}`, 0)
+    ),
+    patches: [],
+  };
+}
+
+function randomPlan(random: Random, ir: CompositionIR, nextId: string): EditPlan {
+  const all = flattenElements(ir.elements);
+  const sequences = all.filter((el) => el.type === 'sequence');
+  const target = random.pick(all);
+  const byId = (el: CompositionElement) => ({ type: 'byId' as const, id: el.id });
+
+  switch (random.pick(['add', 'update', 'delete', 'move'] as const)) {
+    case 'add':
+      return {
+        operation: 'add',
+        selector: { type: 'byId', id: '' },
+        changes: {
+          ...randomElement(random, nextId, 1),
+          parent: sequences.length && random.chance(0.4) ? byId(random.pick(sequences)) : undefined,
+        },
+      };
+
+    case 'update': {
+      const changes: Record<string, any> = {};
+      if (random.chance(0.6)) changes.properties = { opacity: random.int(0, 10) / 10 };
+      if (random.chance(0.3)) changes.from = random.int(0, 200);
+      if (random.chance(0.3)) changes.durationInFrames = random.int(1, 150);
+      if (random.chance(0.3)) changes.label = `Renamed ${target.id}`;
+      if (random.chance(0.2)) changes.animations = [];
+      return { operation: 'update', selector: byId(target), changes };
+    }
+
+    case 'delete':
+      return { operation: 'delete', selector: byId(target), changes: {} };
+
+    case 'move': {
+      const changes: Record<string, any> = {};
+      if (random.chance(0.4)) changes.from = random.int(0, 200);
+      if (random.chance(0.3)) changes.durationInFrames = random.int(1, 150);
+
+      const kind = random.pick(['none', 'layer', 'index', 'parent'] as const);
+      if (kind === 'layer') {
+        changes.layer = random.pick(['front', 'back', 'above', 'below']);
+        changes.relativeTo = byId(random.pick(all));
+      } else if (kind === 'index') {
+        changes.toIndex = random.int(0, 5);
+      } else if (kind === 'parent') {
+        changes.parent = sequences.length && random.chance(0.6) ? byId(random.pick(sequences)) : null;
+      }
+      return { operation: 'move', selector: byId(target), changes };
+    }
+  }
+}
+
+test.describe('Patch Inversion', () => {
+  test('every edit records a patch and revertLastPatch restores the exact prior IR', () => {
+    let applied = 0;
+
+    for (let seed = 1; seed <= RUNS; seed++) {
+      const random = createRandom(seed);
+      const ir = randomIR(random);
+      const before = structuredClone(ir);
+      const plan = randomPlan(random, ir, 'el_new');
+
+      const result = executeEditPlan(ir, plan, { generateId: () => 'el_new' });
+
+      // The executor never mutates its input
+      expect(ir, `seed ${seed}`).toStrictEqual(before);
+
+      // Invalid random plans (e.g. layering relative to a non-sibling) are fine to reject
+      if (!result.success || result.updatedIR === ir) continue;
+      applied++;
+
+      expect(result.patch, `seed ${seed}: ${plan.operation}`).toBeDefined();
+      expect(result.updatedIR!.patches, `seed ${seed}`).toEqual([result.patch]);
+
+      const reverted = revertLastPatch(result.updatedIR!)!;
+      expect(reverted.elements, `seed ${seed}: ${plan.operation}`).toStrictEqual(ir.elements);
+      expect(reverted.patches).toEqual([]);
+
+      const redone = applyPatch(reverted, result.patch!);
+      expect(redone.elements, `seed ${seed}: ${plan.operation}`).toStrictEqual(
+        result.updatedIR!.elements
+      );
+    }
+
+    // Make sure the generator exercises real edits, not just rejected plans
+    expect(applied).toBeGreaterThan(RUNS / 2);
+  });
+
+  test('undoing a random edit history returns to the original IR and redo replays it', () => {
+    for (let seed = 1; seed <= RUNS / 3; seed++) {
+      const random = createRandom(seed * 7919);
+      const original = randomIR(random);
+      const states = [original];
+
+      for (let step = 0; step < 8; step++) {
+        const current = states[states.length - 1];
+        if (current.elements.length === 0) break;
+
+        const plan = randomPlan(random, current, `el_new_${step}`);
+        const result = executeEditPlan(current, plan, { generateId: () => `el_new_${step}` });
+        if (result.success && result.updatedIR !== current) {
+          states.push(result.updatedIR!);
+        }
+      }
+
+      let ir = states[states.length - 1];
+      for (let i = states.length - 2; i >= 0; i--) {
+        ir = undoPatchGroup(ir)!;
+        expect(ir.elements, `seed ${seed}, undo to state ${i}`).toStrictEqual(states[i].elements);
+      }
+      expect(getPatchCursor(ir)).toBe(0);
+
+      for (let i = 1; i < states.length; i++) {
+        ir = redoPatchGroup(ir)!;
+        expect(ir.elements, `seed ${seed}, redo to state ${i}`).toStrictEqual(states[i].elements);
+      }
+    }
+  });
+
+  test('history keeps the last MAX_PATCH_GROUPS undo steps', () => {
+    const nudge = (ir: CompositionIR, from: number) =>
+      executeEditPlan(ir, { operation: 'move', selector: { type: 'byId', id: 'el_a' }, changes: { from } }).updatedIR!;
+
+    let ir: CompositionIR = {
+      id: 'comp_capped',
+      version: 1,
+      metadata: { width: 1920, height: 1080, fps: 30, durationInFrames: 900 },
+      elements: [{ id: 'el_a', type: 'text', from: 0, durationInFrames: 30, properties: { text: 'A' } }],
+      patches: [],
+    };
+
+    // A two-patch transaction first, then single edits push it out whole
+    ir = executeTransaction(ir, [
+      { operation: 'update', selector: { type: 'byId', id: 'el_a' }, changes: { properties: { text: 'B' } } },
+      { operation: 'update', selector: { type: 'byId', id: 'el_a' }, changes: { properties: { text: 'C' } } },
+    ]).updatedIR!;
+    for (let from = 1; from < MAX_PATCH_GROUPS; from++) {
+      ir = nudge(ir, from);
+    }
+    expect(ir.patches).toHaveLength(MAX_PATCH_GROUPS + 1);
+
+    ir = nudge(ir, MAX_PATCH_GROUPS);
+    expect(ir.patches).toHaveLength(MAX_PATCH_GROUPS);
+    expect(ir.patches[0].operation).toBe('move');
+
+    // Trimming after undo keeps the cursor on the same patch, so redo still works
+    ir = undoPatchGroup(undoPatchGroup(ir)!)!;
+    expect(getPatchCursor(ir)).toBe(MAX_PATCH_GROUPS - 2);
+    const trimmed = trimPatchHistory(ir, 10);
+    expect(trimmed.patches).toHaveLength(10);
+    expect(getPatchCursor(trimmed)).toBe(8);
+    expect(redoPatchGroup(trimmed)!.elements[0].from).toBe(MAX_PATCH_GROUPS - 1);
+
+    // Every kept step still undoes
+    while (getPatchCursor(ir) > 0) {
+      ir = undoPatchGroup(ir)!;
+    }
+    expect(ir.elements[0].from).toBe(0);
+    expect(ir.elements[0].properties.text).toBe('C');
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Structural IR Diff
+ *
+ * diffCompositions compares two composition versions by element ID and
+ * reports added/removed/moved elements, retimed ranges, property changes and
+ * animation changes; formatDiffChangelog renders the chat changelog.
+ *
+ * NOTE: Pure tests, no browser or dev servers required
+ */
+
+import { test, expect } from '@playwright/test';
+import { executeEditPlan } from '../../lib/composition-engine/executor';
+import {
+  diffCompositions,
+  formatDiffChangelog,
+  isEmptyDiff,
+} from '../../lib/composition-engine/ir-diff';
+import type { CompositionElement } from '../../types/composition-ir';
+import { composition } from './helpers';
+
+function element(id: string, overrides: Partial<CompositionElement> = {}): CompositionElement {
+  return {
+    id,
+    type: 'text',
+    label: `Label ${id}`,
+    from: 0,
+    durationInFrames: 90,
+    properties: { text: id },
+    ...overrides,
+  };
+}
+
+test.describe('IR Diff', () => {
+  test('identical versions produce an empty diff', () => {
+    const ir = composition([element('a'), element('b')]);
+    const diff = diffCompositions(ir, structuredClone(ir));
+
+    expect(isEmptyDiff(diff)).toBe(true);
+    expect(formatDiffChangelog(diff)).toBe('No changes');
+  });
+
+  test('reports added and removed elements with their placement', () => {
+    const before = composition([element('a'), element('b')]);
+    const after = composition([element('a'), element('c', { from: 30 })], { version: 2 });
+
+    const diff = diffCompositions(before, after);
+
+    expect(diff.fromVersion).toBe(1);
+    expect(diff.toVersion).toBe(2);
+    expect(diff.added).toEqual([
+      {
+        id: 'c',
+        type: 'text',
+        label: 'Label c',
+        placement: { parentId: null, index: 1 },
+        from: 30,
+        durationInFrames: 90,
+      },
+    ]);
+    expect(diff.removed).toEqual([
+      { id: 'b', type: 'text', label: 'Label b', placement: { parentId: null, index: 1 } },
+    ]);
+    // Index shifts caused by adds/removes are not moves
+    expect(diff.moved).toEqual([]);
+  });
+
+  test('swapping two layers reports a single move', () => {
+    const before = composition([element('a'), element('b'), element('c')]);
+    const after = composition([element('a'), element('c'), element('b')]);
+
+    const diff = diffCompositions(before, after);
+
+    expect(diff.moved).toHaveLength(1);
+    expect(diff.moved[0].before.parentId).toBeNull();
+    expect(diff.moved[0].after.parentId).toBeNull();
+    expect(diff.moved[0].before.index).not.toBe(diff.moved[0].after.index);
+  });
+
+  test('reparenting into a sequence is a move', () => {
+    const before = composition([
+      element('seq', { type: 'sequence', children: [] }),
+      element('a'),
+    ]);
+    const after = composition([
+      element('seq', { type: 'sequence', children: [element('a')] }),
+    ]);
+
+    const diff = diffCompositions(before, after);
+
+    expect(diff.moved).toEqual([
+      {
+        id: 'a',
+        type: 'text',
+        label: 'Label a',
+        before: { parentId: null, index: 1 },
+        after: { parentId: 'seq', index: 0 },
+      },
+    ]);
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    // Children are diffed by ID, not as a property of the sequence
+    expect(diff.changed).toEqual([]);
+  });
+
+  test('reports retimed ranges and nested property changes', () => {
+    const before = composition([
+      element('a', { properties: { text: 'Hello', style: { color: 'red', size: 12 } } }),
+    ]);
+    const after = composition([
+      element('a', {
+        from: 15,
+        durationInFrames: 60,
+        label: 'Title',
+        properties: { text: 'Hello', style: { color: 'blue', size: 12 }, opacity: 0.5 },
+      }),
+    ]);
+
+    const diff = diffCompositions(before, after);
+
+    expect(diff.retimed).toEqual([
+      {
+        id: 'a',
+        type: 'text',
+        label: 'Title',
+        before: { from: 0, durationInFrames: 90 },
+        after: { from: 15, durationInFrames: 60 },
+      },
+    ]);
+    expect(diff.changed[0].changes).toEqual([
+      { path: 'properties.opacity', before: undefined, after: 0.5 },
+      { path: 'properties.style.color', before: 'red', after: 'blue' },
+      { path: 'label', before: 'Label a', after: 'Title' },
+    ]);
+  });
+
+  test('reports animation changes keyed by property', () => {
+    const fade = { property: 'opacity', keyframes: [{ frame: 0, value: 0 }, { frame: 15, value: 1 }] };
+    const slide = { property: 'x', keyframes: [{ frame: 0, value: -100 }, { frame: 30, value: 0 }] };
+    const scale = { property: 'scale', keyframes: [{ frame: 0, value: 1 }, { frame: 30, value: 2 }] };
+
+    const before = composition([element('a', { animations: [fade, slide] })]);
+    const after = composition([
+      element('a', {
+        animations: [{ ...fade, keyframes: [{ frame: 0, value: 0 }, { frame: 30, value: 1 }] }, scale],
+      }),
+    ]);
+
+    const diff = diffCompositions(before, after);
+
+    expect(diff.animations).toEqual([
+      {
+        id: 'a',
+        type: 'text',
+        label: 'Label a',
+        added: ['scale'],
+        removed: ['x'],
+        changed: ['opacity'],
+      },
+    ]);
+  });
+
+  test('reports metadata changes', () => {
+    const before = composition([]);
+    const after = { ...composition([]), metadata: { ...before.metadata, durationInFrames: 600 } };
+
+    expect(diffCompositions(before, after).metadata).toEqual([
+      { path: 'metadata.durationInFrames', before: 300, after: 600 },
+    ]);
+  });
+
+  test('diff of an executed edit matches the edit', () => {
+    const before = composition([element('a'), element('b')]);
+    const result = executeEditPlan(before, {
+      operation: 'update',
+      selector: { type: 'byLabel', label: 'Label b' },
+      changes: { properties: { color: '#ff0000' } },
+    });
+
+    const diff = diffCompositions(before, result.updatedIR!);
+
+    expect(diff.changed).toEqual([
+      {
+        id: 'b',
+        type: 'text',
+        label: 'Label b',
+        changes: [{ path: 'properties.color', before: undefined, after: '#ff0000' }],
+      },
+    ]);
+    expect(diff.added).toEqual([]);
+    expect(diff.retimed).toEqual([]);
+  });
+
+  test('changelog renders one line per change', () => {
+    const before = composition([element('a'), element('b')]);
+    const after = composition([
+      element('a', { from: 30, properties: { text: 'a', color: 'white' } }),
+      element('c', { type: 'image', label: undefined }),
+    ]);
+
+    const changelog = formatDiffChangelog(diffCompositions(before, after), 30);
+
+    expect(changelog.split('\n')).toEqual([
+      '+ Added image c at 0:00.0–0:03.0',
+      '- Removed text "Label b"',
+      '⏱ Retimed text "Label a": 0:00.0–0:03.0 → 0:01.0–0:04.0',
+      '~ Changed text "Label a": color unset → "white"',
+    ]);
+  });
+});
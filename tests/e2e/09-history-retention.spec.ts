@@ -0,0 +1,272 @@
+/**
+ * History Retention & Snapshot Deltas
+ *
+ * selectSnapshotsToPrune keeps the newest N snapshots and named checkpoints,
+ * and thins the rest to one per hour, then one per day; isPruned makes the
+ * same call a snapshot at a time. Snapshot deltas must
+ * rebuild the exact IR and stay much smaller than a full copy.
+ *
+ * NOTE: Pure tests, no browser or dev servers required
+ */
+
+import { test, expect } from '@playwright/test';
+import { executeEditPlan } from '../../lib/composition-engine/executor';
+import {
+  DAY_MS,
+  HOUR_MS,
+  isPruned,
+  selectSnapshotsToPrune,
+  type HistoryRetentionPolicy,
+  type RetentionCandidate,
+} from '../../lib/composition-engine/history-retention';
+import {
+  applySnapshotDelta,
+  encodeSnapshotDelta,
+  isSameComposition,
+} from '../../lib/composition-engine/snapshot-delta';
+import { redoPatchGroup, restoreComposition, undoPatchGroup } from '../../lib/composition-engine/ir-helpers';
+import type { CompositionElement, CompositionIR, EditPlan } from '../../types/composition-ir';
+
+const NOW = Date.UTC(2025, 0, 31, 12, 0, 0);
+
+const policy: HistoryRetentionPolicy = {
+  keepLatest: 3,
+  keepNamed: true,
+  hourlyForMs: 2 * DAY_MS,
+};
+
+function snapshot(id: string, age: number, name?: string): RetentionCandidate {
+  return name ? { id, timestamp: NOW - age, name } : { id, timestamp: NOW - age };
+}
+
+function composition(count: number): CompositionIR {
+  const elements: CompositionElement[] = Array.from({ length: count }, (_, i) => ({
+    id: `el_${i}`,
+    type: 'text',
+    label: `Title ${i}`,
+    from: i * 30,
+    durationInFrames: 90,
+    properties: { text: `Title ${i}`, fontSize: 48, color: '#ffffff' },
+    animations: [
+      { property: 'opacity', keyframes: [{ frame: 0, value: 0 }, { frame: 15, value: 1 }] },
+    ],
+  }));
+
+  return {
+    id: 'comp_history',
+    version: 1,
+    metadata: { width: 1920, height: 1080, fps: 30, durationInFrames: 900 },
+    elements,
+    patches: [],
+  };
+}
+
+test.describe('History Retention', () => {
+  test('keeps the newest N snapshots regardless of age', () => {
+    const snapshots = [
+      snapshot('a', 1000),
+      snapshot('b', 2000),
+      snapshot('c', 3000),
+      snapshot('d', 4000),
+    ];
+
+    expect(selectSnapshotsToPrune(snapshots, policy, NOW)).toEqual(['d']);
+  });
+
+  test('thins older snapshots to one per hour, keeping the newest in each hour', () => {
+    const snapshots = [
+      snapshot('latest1', 1 * HOUR_MS + 1),
+      snapshot('latest2', 1 * HOUR_MS + 2),
+      snapshot('latest3', 1 * HOUR_MS + 3),
+      // Same hour bucket as the latest ones
+      snapshot('sameHour', 1 * HOUR_MS + 4),
+      // Both in the 07:00 hour bucket: the newest wins
+      snapshot('morningNewer', 4 * HOUR_MS + 30 * 60_000),
+      snapshot('morningOlder', 4 * HOUR_MS + 31 * 60_000),
+    ];
+
+    const pruned = selectSnapshotsToPrune(snapshots, policy, NOW);
+    expect(pruned.sort()).toEqual(['morningOlder', 'sameHour']);
+  });
+
+  test('thins snapshots past the hourly window to one per day', () => {
+    const snapshots = [
+      snapshot('latest1', 0),
+      snapshot('latest2', 1),
+      snapshot('latest3', 2),
+      snapshot('tenDaysA', 10 * DAY_MS),
+      snapshot('tenDaysB', 10 * DAY_MS + 2 * HOUR_MS),
+      snapshot('twentyDays', 20 * DAY_MS),
+    ];
+
+    // A (12:00) and B (10:00) fall on the same UTC day; the newer one is kept
+    expect(selectSnapshotsToPrune(snapshots, policy, NOW)).toEqual(['tenDaysB']);
+  });
+
+  test('named checkpoints are kept forever', () => {
+    const snapshots = [
+      snapshot('latest1', 0),
+      snapshot('latest2', 1),
+      snapshot('latest3', 2),
+      snapshot('dayNewest', 30 * DAY_MS),
+      snapshot('checkpoint', 30 * DAY_MS + 1, 'before client review'),
+      snapshot('ancient', 400 * DAY_MS, 'first cut'),
+    ];
+
+    const pruned = selectSnapshotsToPrune(snapshots, { ...policy, dailyForMs: 90 * DAY_MS }, NOW);
+    expect(pruned).toEqual([]);
+  });
+
+  test('unnamed snapshots past the daily window are dropped', () => {
+    const snapshots = [
+      snapshot('latest1', 0),
+      snapshot('latest2', 1),
+      snapshot('latest3', 2),
+      snapshot('recentDay', 30 * DAY_MS),
+      snapshot('expired', 120 * DAY_MS),
+    ];
+
+    expect(
+      selectSnapshotsToPrune(snapshots, { ...policy, dailyForMs: 90 * DAY_MS }, NOW)
+    ).toEqual(['expired']);
+  });
+
+  test('deciding oldest first from the next snapshot matches the whole history', () => {
+    // Oldest first, as compaction pages through them
+    const snapshots = [
+      snapshot('expired', 120 * DAY_MS),
+      snapshot('ancient', 100 * DAY_MS, 'first cut'),
+      snapshot('dayOlder', 30 * DAY_MS + HOUR_MS),
+      snapshot('dayNewer', 30 * DAY_MS),
+      snapshot('hourOlder', 4 * HOUR_MS + 31 * 60_000),
+      snapshot('hourNewer', 4 * HOUR_MS + 30 * 60_000),
+      snapshot('sameHour', 1 * HOUR_MS + 4),
+      snapshot('latest3', 1 * HOUR_MS + 3),
+      snapshot('latest2', 1 * HOUR_MS + 2),
+      snapshot('latest1', 1 * HOUR_MS + 1),
+    ];
+    const daily = { ...policy, dailyForMs: 90 * DAY_MS };
+
+    const paged = snapshots
+      .slice(0, -daily.keepLatest)
+      .filter((candidate, i) => isPruned(candidate, snapshots[i + 1], daily, NOW))
+      .map((candidate) => candidate.id);
+
+    expect(paged).toEqual(['expired', 'dayOlder', 'hourOlder', 'sameHour']);
+    expect(selectSnapshotsToPrune(snapshots, daily, NOW)).toEqual([...paged].reverse());
+  });
+});
+
+test.describe('Snapshot Deltas', () => {
+  test('identical snapshots encode to no delta', () => {
+    const ir = composition(5);
+    expect(encodeSnapshotDelta(ir, structuredClone(ir))).toBeNull();
+    expect(applySnapshotDelta(ir, null)).toBe(ir);
+  });
+
+  test('a chain of executor edits round-trips through deltas', () => {
+    const plans: EditPlan[] = [
+      { operation: 'update', selector: { type: 'byId', id: 'el_3' }, changes: { properties: { color: '#ff0000' } } },
+      { operation: 'add', selector: { type: 'byId', id: '' }, changes: { type: 'image', from: 0, durationInFrames: 30, properties: { src: 'logo.png' } } },
+      { operation: 'move', selector: { type: 'byId', id: 'el_0' }, changes: { layer: 'front' } },
+      { operation: 'delete', selector: { type: 'byId', id: 'el_7' }, changes: {} },
+      { operation: 'update', selector: { type: 'byId', id: 'el_1' }, changes: { label: undefined, animations: [] } },
+    ];
+
+    let ir = composition(10);
+    const chain = [ir];
+    plans.forEach((plan, i) => {
+      const result = executeEditPlan(ir, plan, { generateId: () => `_new_${i}` });
+      expect(result.success, result.error).toBe(true);
+      ir = result.updatedIR!;
+      chain.push(ir);
+    });
+
+    // Rebuild every version from the first one by applying deltas in order
+    let rebuilt = chain[0];
+    for (let i = 1; i < chain.length; i++) {
+      const delta = encodeSnapshotDelta(chain[i - 1], chain[i]);
+      rebuilt = applySnapshotDelta(rebuilt, delta);
+      expect(rebuilt, `version ${i}`).toEqual(chain[i]);
+    }
+  });
+
+  test('a snapshot matches the composition only while its content is the same', () => {
+    const saved = composition(3);
+    const result = executeEditPlan(saved, {
+      operation: 'update',
+      selector: { type: 'byId', id: 'el_1' },
+      changes: { properties: { color: '#ff0000' } },
+    });
+    const undone = undoPatchGroup(result.updatedIR!)!;
+
+    expect(isSameComposition(saved, result.updatedIR!)).toBe(false);
+    // Undo leaves a different version and patch stack, but the same composition
+    expect(isSameComposition(saved, undone)).toBe(true);
+    expect(isSameComposition(saved, { ...undone, tracks: [] })).toBe(false);
+  });
+
+  test('restoring a snapshot is one undo step back to the state before it', () => {
+    const saved = composition(2);
+    const edited = executeEditPlan(saved, {
+      operation: 'delete',
+      selector: { type: 'byId', id: 'el_0' },
+      changes: {},
+    }).updatedIR!;
+    const live = { ...edited, mix: { masterGain: 0.5 } };
+
+    const restored = restoreComposition(live, saved, 'Restored: Draft');
+    expect(isSameComposition(saved, restored)).toBe(true);
+    expect(restored.patches.map((patch) => patch.description).slice(-1)).toEqual(['Restored: Draft']);
+
+    // Stored without undefined fields, like Convex documents
+    const stored: CompositionIR = JSON.parse(JSON.stringify(restored));
+    const undone = undoPatchGroup(stored)!;
+    expect(isSameComposition(live, undone)).toBe(true);
+    expect(isSameComposition(saved, redoPatchGroup(undone)!)).toBe(true);
+    // Earlier edits stay undoable after the restore
+    expect(undoPatchGroup(undone)!.elements).toEqual(saved.elements);
+  });
+
+  test('deltas are much smaller than a full snapshot', () => {
+    const before = composition(50);
+    const result = executeEditPlan(before, {
+      operation: 'update',
+      selector: { type: 'byId', id: 'el_25' },
+      changes: { properties: { fontSize: 72 } },
+    });
+
+    const delta = encodeSnapshotDelta(before, result.updatedIR!);
+
+    expect(JSON.stringify(delta).length).toBeLessThan(JSON.stringify(result.updatedIR).length / 10);
+  });
+
+  test('deltas never use element IDs as object keys (valid Convex documents)', () => {
+    const before = composition(3);
+    const after = structuredClone(before);
+    after.elements.push({
+      id: '_leading_underscore',
+      type: 'text',
+      from: 0,
+      durationInFrames: 30,
+      properties: { text: 'x' },
+    });
+    after.elements[0].properties.color = '#000000';
+
+    // Collect the delta's own keys; replaced values are plain IR data
+    const keys: string[] = [];
+    const collectKeys = (value: any): void => {
+      if (Array.isArray(value)) return value.forEach(collectKeys);
+      if (!value || typeof value !== 'object') return;
+      for (const [key, child] of Object.entries(value)) {
+        keys.push(key);
+        if (!(value.op === 'replace' && key === 'value')) collectKeys(child);
+      }
+    };
+    const delta = encodeSnapshotDelta(before, after);
+    collectKeys(delta);
+
+    expect(keys.some((key) => key.startsWith('_') || key.startsWith('$'))).toBe(false);
+    expect(applySnapshotDelta(before, delta)).toEqual(after);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Transitions
+ *
+ * A transition lives on the incoming clip and names the outgoing sibling.
+ * The executor resolves and validates it, renderers extend the outgoing clip
+ * until the transition ends, and the compiled code animates both sides.
+ *
+ * NOTE: Pure tests, no browser or dev servers required
+ */
+
+import { test, expect } from '@playwright/test';
+import { executeEditPlan } from '../../lib/composition-engine/executor';
+import { compileIRToRemotionCode } from '../../lib/composition-engine/compiler';
+import { redoPatchGroup, undoPatchGroup } from '../../lib/composition-engine/ir-helpers';
+import {
+  getRenderDuration,
+  getTransitionStyle,
+  getTransitionWindows,
+} from '../../lib/composition-engine/transitions';
+import { clip, composition } from './helpers';
+
+test.describe('Transition Executor', () => {
+  test('adds a crossfade from the clip playing before the target', () => {
+    const ir = composition([clip('intro', 0, 90), clip('main', 90, 120)]);
+
+    const result = executeEditPlan(ir, {
+      operation: 'update',
+      selector: { type: 'byLabel', label: 'main' },
+      changes: { transitionIn: { type: 'crossfade', durationInFrames: 20 } },
+    });
+
+    expect(result.success, result.error).toBe(true);
+    expect(result.receipt).toBe('Added crossfade from "intro" into "main"');
+    expect(result.updatedIR!.elements[1].transitionIn).toEqual({
+      type: 'crossfade',
+      durationInFrames: 20,
+      fromElementId: 'intro',
+    });
+    // The resolved transition is recorded, so redo needs no selector lookup
+    expect(result.patch!.changes.transitionIn.fromElementId).toBe('intro');
+  });
+
+  test('resolves an explicit outgoing clip by selector and fills defaults', () => {
+    const ir = composition([clip('a', 0, 90), clip('b', 30, 90), clip('c', 90, 60)]);
+
+    const result = executeEditPlan(ir, {
+      operation: 'update',
+      selector: { type: 'byId', id: 'c' },
+      changes: { transitionIn: { type: 'wipe', direction: 'right', from: { type: 'byLabel', label: 'a' } } },
+    });
+
+    expect(result.success, result.error).toBe(true);
+    expect(result.updatedIR!.elements[2].transitionIn).toEqual({
+      type: 'wipe',
+      durationInFrames: 15,
+      fromElementId: 'a',
+      direction: 'right',
+    });
+  });
+
+  test('rejects transitions that cannot join the clips', () => {
+    const gap = composition([clip('a', 0, 60), clip('b', 90, 60)]);
+    expect(
+      executeEditPlan(gap, {
+        operation: 'update',
+        selector: { type: 'byId', id: 'b' },
+        changes: { transitionIn: { type: 'crossfade' } },
+      }).error
+    ).toBe('No clip plays before "b" to transition from');
+
+    const tooLong = composition([clip('a', 0, 60), clip('b', 60, 10)]);
+    expect(
+      executeEditPlan(tooLong, {
+        operation: 'update',
+        selector: { type: 'byId', id: 'b' },
+        changes: { transitionIn: { type: 'crossfade', durationInFrames: 30 } },
+      }).error
+    ).toBe('Transition is longer than "b" (10 frames)');
+
+    const nested = composition([
+      clip('seq', 0, 120, { type: 'sequence', children: [clip('inner', 0, 60)] }),
+      clip('b', 60, 60),
+    ]);
+    expect(
+      executeEditPlan(nested, {
+        operation: 'update',
+        selector: { type: 'byId', id: 'b' },
+        changes: { transitionIn: { type: 'crossfade', fromElementId: 'inner' } },
+      }).error
+    ).toBe('Element inner is not in the same sequence as "b"');
+  });
+
+  test('removing a transition undoes and redoes cleanly', () => {
+    let ir = composition([clip('a', 0, 60), clip('b', 60, 60)]);
+    ir = executeEditPlan(ir, {
+      operation: 'update',
+      selector: { type: 'byId', id: 'b' },
+      changes: { transitionIn: { type: 'slide', durationInFrames: 10 } },
+    }).updatedIR!;
+
+    const removed = executeEditPlan(ir, {
+      operation: 'update',
+      selector: { type: 'byId', id: 'b' },
+      changes: { transitionIn: null },
+    });
+    expect(removed.receipt).toBe('Removed transition into "b"');
+    expect(removed.updatedIR!.elements[1].transitionIn).toBeUndefined();
+
+    const undone = undoPatchGroup(removed.updatedIR!)!;
+    expect(undone.elements[1].transitionIn?.type).toBe('slide');
+
+    const redone = redoPatchGroup(undone)!;
+    expect(redone.elements[1].transitionIn).toBeUndefined();
+  });
+});
+
+test.describe('Transition Rendering', () => {
+  test('extends the outgoing clip until the transition ends', () => {
+    const elements = [
+      clip('a', 0, 60),
+      clip('b', 60, 60, { transitionIn: { type: 'crossfade', durationInFrames: 20, fromElementId: 'a' } }),
+    ];
+
+    const windows = getTransitionWindows(elements);
+
+    expect(getRenderDuration(elements[0], windows.get('a'))).toBe(80);
+    expect(getRenderDuration(elements[1], windows.get('b'))).toBe(60);
+  });
+
+  test('ignores transitions whose outgoing clip is gone', () => {
+    const elements = [
+      clip('b', 60, 60, { transitionIn: { type: 'crossfade', durationInFrames: 20, fromElementId: 'a' } }),
+    ];
+
+    expect(getTransitionWindows(elements).size).toBe(0);
+  });
+
+  test('crossfade, wipe and slide styles at the midpoint', () => {
+    const at = (type: 'crossfade' | 'wipe' | 'slide', direction?: 'left' | 'right') => {
+      const windows = getTransitionWindows([
+        clip('a', 0, 60),
+        clip('b', 60, 60, { transitionIn: { type, durationInFrames: 20, fromElementId: 'a', direction } }),
+      ]);
+      return {
+        out: getTransitionStyle(windows.get('a'), 70),
+        in: getTransitionStyle(windows.get('b'), 70),
+      };
+    };
+
+    expect(at('crossfade')).toEqual({ out: { opacity: 0.5 }, in: { opacity: 0.5 } });
+    expect(at('wipe', 'right')).toEqual({
+      out: { clipPath: 'inset(0% 0% 0% 50%)' },
+      in: { clipPath: 'inset(0% 50% 0% 0%)' },
+    });
+    expect(at('slide', 'left')).toEqual({
+      out: { transform: 'translateX(-50%)' },
+      in: { transform: 'translateX(50%)' },
+    });
+
+    // Fully settled once the transition is over
+    const windows = getTransitionWindows([
+      clip('a', 0, 60),
+      clip('b', 60, 60, { transitionIn: { type: 'crossfade', durationInFrames: 20, fromElementId: 'a' } }),
+    ]);
+    expect(getTransitionStyle(windows.get('b'), 90)).toEqual({ opacity: 1 });
+  });
+
+  test('compiled code overlaps the clips and animates both sides', () => {
+    const code = compileIRToRemotionCode(
+      composition([
+        clip('seq', 30, 200, {
+          type: 'sequence',
+          children: [
+            clip('a', 0, 60),
+            clip('b', 60, 60, {
+              transitionIn: { type: 'crossfade', durationInFrames: 20, fromElementId: 'a', easing: 'ease-in-out' },
+            }),
+          ],
+        }),
+      ])
+    );
+
+    expect(code).toContain('Easing,');
+    expect(code).toMatch(/from=\{0\}\s+durationInFrames=\{80\}/);
+    // Windows are shifted to absolute frames (parent sequence starts at 30)
+    expect(code).toContain(
+      'opacity: interpolate(frame, [90, 110], [1, 0], { extrapolateLeft: "clamp", extrapolateRight: "clamp", easing: Easing.inOut(Easing.quad) })'
+    );
+    expect(code).toContain('interpolate(frame, [90, 110], [0, 1]');
+  });
+});
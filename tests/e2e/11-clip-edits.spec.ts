@@ -0,0 +1,239 @@
+/**
+ * Clip Edits: Split, Trim & Ripple Delete
+ *
+ * Split cuts a clip into two elements that keep playing the same source
+ * frames, trim cuts frames off either end, and ripple delete closes the gap
+ * a deleted clip leaves. Each edit is a single undo step.
+ *
+ * NOTE: Pure tests, no browser or dev servers required
+ */
+
+import { test, expect } from '@playwright/test';
+import { executeEditPlan } from '../../lib/composition-engine/executor';
+import { redoPatchGroup, undoPatchGroup } from '../../lib/composition-engine/ir-helpers';
+import { parseColor } from '../../lib/composition-engine/color';
+import { evaluateAnimation } from '../../lib/composition-engine/keyframes';
+import type { Animation } from '../../types/composition-ir';
+import { clip, composition } from './helpers';
+
+// A clip playing its source from one second in
+const trimmed = { properties: { src: 'a.mp4', startFrom: 30 } };
+
+const ids = () => {
+  let next = 0;
+  return () => `new_${++next}`;
+};
+
+test.describe('Split', () => {
+  test('splits a clip into two parts that continue the same source', () => {
+    const ir = composition([clip('a', 0, 300, trimmed), clip('title', 0, 90, { type: 'text', properties: { text: 'Hi' } })]);
+
+    const result = executeEditPlan(
+      ir,
+      { operation: 'split', selector: { type: 'byId', id: 'a' }, changes: { atFrame: 360 } },
+      { generateId: ids() }
+    );
+    expect(result.error).toBe('0:12.0 is not inside "a" (0:00.0–0:10.0)');
+
+    const split = executeEditPlan(
+      ir,
+      { operation: 'split', selector: { type: 'byId', id: 'a' }, changes: { atFrame: 120 } },
+      { generateId: ids() }
+    );
+
+    expect(split.success, split.error).toBe(true);
+    expect(split.receipt).toBe('Split "a" at 0:04.0');
+
+    const [first, second, title] = split.updatedIR!.elements;
+    expect(first).toMatchObject({ id: 'a', from: 0, durationInFrames: 120, properties: { startFrom: 30, endAt: 150 } });
+    // Layered directly above the first part, below later siblings
+    expect(second).toMatchObject({ id: 'new_1', label: 'a (2)', from: 120, durationInFrames: 180, properties: { startFrom: 150 } });
+    expect(title.id).toBe('title');
+  });
+
+  test('accounts for playback rate and nested sequences', () => {
+    const ir = composition([
+      clip('seq', 60, 300, {
+        type: 'sequence',
+        properties: {},
+        children: [clip('inner', 30, 100, { properties: { src: 'x.mp4', playbackRate: 2 } })],
+      }),
+    ]);
+
+    // Composition frame 110 is 20 frames into "inner" (60 + 30)
+    const result = executeEditPlan(
+      ir,
+      { operation: 'split', selector: { type: 'byId', id: 'inner' }, changes: { atFrame: 110 } },
+      { generateId: ids() }
+    );
+
+    expect(result.success, result.error).toBe(true);
+    const children = result.updatedIR!.elements[0].children!;
+    expect(children.map((el) => [el.id, el.from, el.durationInFrames])).toEqual([
+      ['inner', 30, 20],
+      ['new_1', 50, 80],
+    ]);
+    expect(children[0].properties.endAt).toBe(40);
+    expect(children[1].properties.startFrom).toBe(40);
+  });
+
+  test('hands the outgoing side of a later transition to the second part', () => {
+    const ir = composition([
+      clip('a', 0, 100),
+      clip('b', 100, 60, { transitionIn: { type: 'crossfade', durationInFrames: 10, fromElementId: 'a' } }),
+    ]);
+
+    const result = executeEditPlan(
+      ir,
+      { operation: 'split', selector: { type: 'byId', id: 'a' }, changes: { atFrame: 50 } },
+      { generateId: ids() }
+    );
+
+    expect(result.success, result.error).toBe(true);
+    const b = result.updatedIR!.elements.find((el) => el.id === 'b')!;
+    expect(b.transitionIn?.fromElementId).toBe('new_1');
+  });
+
+  test('each part keeps its side of the keyframed motion', () => {
+    const animations: Animation[] = [
+      { property: 'opacity', keyframes: [{ frame: 0, value: 0 }, { frame: 60, value: 1 }, { frame: 240, value: 1 }, { frame: 300, value: 0 }] },
+      { property: 'x', keyframes: [{ frame: 0, value: 0 }, { frame: 300, value: 600 }] },
+      { property: 'color', keyframes: [{ frame: 90, value: '#ff0000' }, { frame: 150, value: '#0000ff' }] },
+      { property: 'volume', keyframes: [{ frame: 200, value: 1 }, { frame: 280, value: 0.2 }] },
+    ];
+    const ir = composition([clip('a', 0, 300, { animations })]);
+
+    const result = executeEditPlan(
+      ir,
+      { operation: 'split', selector: { type: 'byId', id: 'a' }, changes: { atFrame: 120 } },
+      { generateId: ids() }
+    );
+    expect(result.success, result.error).toBe(true);
+    const [first, second] = result.updatedIR!.elements;
+
+    for (const [part, offset] of [[first, 0], [second, 120]] as const) {
+      for (const animation of part.animations!) {
+        // Every keyframe lies within the part
+        expect(animation.keyframes.every((kf) => kf.frame >= 0 && kf.frame <= part.durationInFrames)).toBe(true);
+
+        const original = animations.find((a) => a.property === animation.property)!;
+        for (let frame = 0; frame <= part.durationInFrames; frame++) {
+          const value = evaluateAnimation(animation, frame);
+          const expected = evaluateAnimation(original, frame + offset);
+          const message = `${animation.property} at ${frame + offset}`;
+          if (typeof expected === 'number') {
+            expect(value, message).toBeCloseTo(expected, 9);
+          } else {
+            // Colors through the cut are stored as 8-bit channels
+            const [a, b] = [parseColor(String(value))!, parseColor(expected as string)!];
+            for (const channel of ['r', 'g', 'b', 'a'] as const) {
+              expect(Math.abs(a[channel] - b[channel]), message).toBeLessThanOrEqual(1);
+            }
+          }
+        }
+      }
+    }
+
+    expect(first.animations![1].keyframes).toEqual([{ frame: 0, value: 0 }, { frame: 120, value: 240 }]);
+    expect(second.animations![1].keyframes).toEqual([{ frame: 0, value: 240 }, { frame: 180, value: 600 }]);
+    // The volume envelope starts after the cut, so the first part holds its starting level
+    expect(first.animations![3].keyframes).toEqual([{ frame: 0, value: 1 }, { frame: 120, value: 1 }]);
+    expect(second.animations![3].keyframes).toEqual([{ frame: 80, value: 1 }, { frame: 160, value: 0.2 }]);
+  });
+
+  test('undo restores the original clip in one step and redo splits again', () => {
+    const ir = composition([clip('a', 0, 300), clip('b', 300, 60)]);
+    const split = executeEditPlan(
+      ir,
+      { operation: 'split', selector: { type: 'byId', id: 'a' }, changes: { atFrame: 100 } },
+      { generateId: ids() }
+    ).updatedIR!;
+
+    const undone = undoPatchGroup(split)!;
+    expect(undone.elements).toEqual(ir.elements);
+
+    const redone = redoPatchGroup(undone)!;
+    expect(redone.elements).toEqual(split.elements);
+  });
+});
+
+test.describe('Trim', () => {
+  test('trimming the start keeps the rest of the clip in place', () => {
+    const ir = composition([clip('a', 60, 300, trimmed)]);
+
+    const result = executeEditPlan(ir, {
+      operation: 'trim',
+      selector: { type: 'byId', id: 'a' },
+      changes: { trimStart: 60, trimEnd: 30 },
+    });
+
+    expect(result.success, result.error).toBe(true);
+    expect(result.receipt).toBe('Trimmed "a" to 0:04.0–0:11.0');
+    expect(result.updatedIR!.elements[0]).toMatchObject({
+      from: 120,
+      durationInFrames: 210,
+      properties: { startFrom: 90 },
+    });
+  });
+
+  test('rejects trims past the clip or its source', () => {
+    const ir = composition([clip('a', 60, 90, trimmed)]);
+    const trim = (changes: Record<string, number>) =>
+      executeEditPlan(ir, { operation: 'trim', selector: { type: 'byId', id: 'a' }, changes }).error;
+
+    expect(trim({ trimStart: 50, trimEnd: 40 })).toBe('Cannot trim "a" to nothing; delete it instead');
+    expect(trim({ trimStart: -45 })).toBe('Cannot extend "a" before the start of its source media');
+    expect(trim({})).toBe('Trim operation requires changes.trimStart or changes.trimEnd');
+  });
+});
+
+test.describe('Ripple Delete', () => {
+  test('deletes a clip and moves later siblings back by its duration', () => {
+    const ir = composition([
+      clip('a', 0, 90),
+      clip('b', 90, 60),
+      clip('c', 150, 60),
+      clip('music', 0, 400, { type: 'audio' }),
+    ]);
+
+    const result = executeEditPlan(ir, {
+      operation: 'rippleDelete',
+      selector: { type: 'byId', id: 'b' },
+      changes: {},
+    });
+
+    expect(result.success, result.error).toBe(true);
+    expect(result.receipt).toBe('Ripple deleted "b", moving 1 later element back 0:02.0');
+    expect(result.updatedIR!.elements.map((el) => [el.id, el.from])).toEqual([
+      ['a', 0],
+      ['c', 90],
+      ['music', 0],
+    ]);
+
+    // One undo brings back the clip and the original timing
+    expect(undoPatchGroup(result.updatedIR!)!.elements).toEqual(ir.elements);
+  });
+
+  test('deleting a clip drops the transitions out of it in the same undo step', () => {
+    const ir = composition([
+      clip('a', 0, 90),
+      clip('b', 90, 60, { transitionIn: { type: 'crossfade', durationInFrames: 10, fromElementId: 'a' } }),
+      clip('c', 150, 60, { transitionIn: { type: 'wipe', durationInFrames: 10, fromElementId: 'b' } }),
+    ]);
+
+    for (const operation of ['delete', 'rippleDelete'] as const) {
+      const result = executeEditPlan(ir, { operation, selector: { type: 'byId', id: 'a' }, changes: {} });
+
+      expect(result.success, result.error).toBe(true);
+      expect(result.affectedElements).toContain('a');
+      const [b, c] = result.updatedIR!.elements;
+      expect(b.transitionIn).toBeUndefined();
+      expect(c.transitionIn?.fromElementId).toBe('b');
+      expect(undoPatchGroup(result.updatedIR!)!.elements).toEqual(ir.elements);
+    }
+
+    const deleted = executeEditPlan(ir, { operation: 'delete', selector: { type: 'byId', id: 'a' }, changes: {} });
+    expect(deleted.receipt).toBe('Deleted "a"');
+    expect(deleted.affectedElements).toEqual(['a']);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Multi-Track Timeline
+ *
+ * Clips sit on video, overlay and audio tracks. Hidden and muted tracks are
+ * applied before rendering, and dragged clips snap to the playhead and the
+ * edges of other clips.
+ *
+ * NOTE: Pure tests, no browser or dev servers required
+ */
+
+import { test, expect } from '@playwright/test';
+import { executeEditPlan } from '../../lib/composition-engine/executor';
+import { compileIRToRemotionCode } from '../../lib/composition-engine/compiler';
+import { redoPatchGroup, undoPatchGroup } from '../../lib/composition-engine/ir-helpers';
+import {
+  DEFAULT_TRACKS,
+  addTrack,
+  applyTrackState,
+  createTrack,
+  describeTrackChanges,
+  getElementTrack,
+  getSnapTargets,
+  getTracks,
+  groupElementsByTrack,
+  snapClipStart,
+  snapFrame,
+  updateTrack,
+} from '../../lib/composition-engine/timeline';
+import type { Track } from '../../types/composition-ir';
+import { clip, composition } from './helpers';
+
+test.describe('Tracks', () => {
+  test('clips without a track sit on the first track of their kind', () => {
+    const tracks: Track[] = [
+      { id: 'v2', name: 'Video 2', kind: 'video' },
+      ...DEFAULT_TRACKS,
+    ];
+    const elements = [
+      clip('a', 0, 60),
+      clip('b', 0, 60, { trackId: 'video' }),
+      clip('title', 0, 60, { type: 'text', properties: { text: 'Hi' } }),
+      clip('music', 0, 300, { type: 'audio', trackId: 'missing' }),
+    ];
+
+    expect(getTracks(composition([]))).toBe(DEFAULT_TRACKS);
+    expect(getElementTrack(elements[0], tracks).id).toBe('v2');
+    expect(getElementTrack(elements[3], tracks).id).toBe('audio');
+
+    const groups = groupElementsByTrack(elements, tracks);
+    expect(Array.from(groups.entries()).map(([id, els]) => [id, els.map((el) => el.id)])).toEqual([
+      ['v2', ['a']],
+      ['overlay', ['title']],
+      ['video', ['b']],
+      ['audio', ['music']],
+    ]);
+  });
+
+  test('new tracks are numbered after existing tracks of their kind', () => {
+    expect(createTrack(DEFAULT_TRACKS, 'video', 't1')).toEqual({ id: 't1', name: 'Video 2', kind: 'video' });
+    expect(createTrack([], 'audio', 't2').name).toBe('Audio');
+  });
+
+  test('hidden tracks are dropped and muted tracks silenced, including nested clips', () => {
+    const ir = composition(
+      [
+        clip('a', 0, 60),
+        clip('title', 0, 60, { type: 'text', properties: { text: 'Hi' } }),
+        clip('seq', 0, 120, {
+          type: 'sequence',
+          trackId: 'video',
+          children: [clip('inner', 0, 60, { properties: { src: 'x.mp4', volume: 0.8 } })],
+        }),
+      ],
+      {
+        tracks: [
+          { id: 'overlay', name: 'Overlay', kind: 'overlay', hidden: true },
+          { id: 'video', name: 'Video', kind: 'video', muted: true },
+          { id: 'audio', name: 'Audio', kind: 'audio' },
+        ],
+      }
+    );
+
+    const rendered = applyTrackState(ir);
+
+    expect(rendered.elements.map((el) => el.id)).toEqual(['a', 'seq']);
+    expect(rendered.elements[0].properties.volume).toBe(0);
+    expect(rendered.elements[1].children![0].properties.volume).toBe(0);
+    // The stored IR is untouched
+    expect(ir.elements[2].children![0].properties.volume).toBe(0.8);
+    expect(applyTrackState(composition([clip('a', 0, 60)]))).toEqual(composition([clip('a', 0, 60)]));
+  });
+
+  test('compiled code leaves out clips on hidden tracks', () => {
+    const code = compileIRToRemotionCode(
+      composition(
+        [clip('a', 0, 60), clip('title', 0, 60, { type: 'text', properties: { text: 'Secret title' } })],
+        {
+          tracks: [
+            { id: 'overlay', name: 'Overlay', kind: 'overlay', hidden: true },
+            { id: 'video', name: 'Video', kind: 'video' },
+          ],
+        }
+      )
+    );
+
+    expect(code).toContain('a.mp4');
+    expect(code).not.toContain('Secret title');
+  });
+
+  test('moving a clip to another track is one undoable update', () => {
+    const ir = composition([clip('a', 0, 60)]);
+
+    const result = executeEditPlan(ir, {
+      operation: 'update',
+      selector: { type: 'byId', id: 'a' },
+      changes: { trackId: 'v2' },
+    });
+
+    expect(result.success, result.error).toBe(true);
+    expect(result.updatedIR!.elements[0].trackId).toBe('v2');
+    expect(undoPatchGroup(result.updatedIR!)!.elements).toEqual(ir.elements);
+  });
+
+  test('adding and locking tracks undo and redo like clip edits', () => {
+    const ir = composition([clip('a', 0, 60)]);
+
+    const { updatedIR: added, track } = addTrack(ir, 'video', 'v2');
+    expect(getTracks(added).map((t) => t.name)).toEqual(['Overlay', 'Video 2', 'Video', 'Audio']);
+    const result = updateTrack(added, track.id, { locked: true });
+    if ('error' in result) throw new Error(result.error);
+    const locked = result.updatedIR;
+    expect(locked.patches.map((patch) => patch.description)).toEqual(['Added Video 2 track', 'Locked Video 2']);
+
+    const unlocked = undoPatchGroup(locked)!;
+    expect(unlocked.tracks).toEqual(added.tracks);
+    // Back to the default tracks, with no stored tracks
+    const original = undoPatchGroup(unlocked)!;
+    expect('tracks' in original).toBe(false);
+    expect(getTracks(original)).toEqual(DEFAULT_TRACKS);
+    expect(undoPatchGroup(original)).toBeNull();
+
+    expect(redoPatchGroup(redoPatchGroup(original)!)!.tracks).toEqual(locked.tracks);
+  });
+
+  test('track changes are described for undo', () => {
+    expect(describeTrackChanges('Audio', { muted: true, hidden: false })).toBe('Muted, Showed Audio');
+    expect(describeTrackChanges('Audio', { name: 'Music', locked: false })).toBe('Renamed Audio to Music, unlocked');
+    expect(describeTrackChanges('Audio', { name: 'Audio' })).toBe('Updated Audio');
+    expect(updateTrack(composition([]), 'missing', { locked: true })).toEqual({ error: 'Track missing not found' });
+  });
+});
+
+test.describe('Snapping', () => {
+  const targets = getSnapTargets([clip('a', 0, 60), clip('b', 90, 30), clip('dragged', 200, 50)], 'dragged', 150);
+
+  test('targets are the start, the playhead and other clip edges', () => {
+    expect(targets.sort((x, y) => x - y)).toEqual([0, 60, 90, 120, 150]);
+  });
+
+  test('snaps a frame to the nearest target within the threshold', () => {
+    expect(snapFrame(63, targets, 4)).toBe(60);
+    expect(snapFrame(88, targets, 4)).toBe(90);
+    expect(snapFrame(75, targets, 4)).toBe(75);
+  });
+
+  test('snaps a moved clip by whichever edge is closer', () => {
+    // Start 2 frames from 120
+    expect(snapClipStart(122, 20, targets, 4)).toBe(120);
+    // End (148) is 2 frames from the playhead, start (128) out of range
+    expect(snapClipStart(128, 20, targets, 4)).toBe(130);
+    // End sits exactly on a target; start is 3 frames from 60
+    expect(snapClipStart(63, 27, targets, 4)).toBe(63);
+    expect(snapClipStart(170, 10, targets, 4)).toBe(170);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Shared Playhead
+ *
+ * The timeline cursor and the preview player share one frame, which is also
+ * sent with chat messages so "add a title here" resolves to that frame.
+ *
+ * NOTE: Pure tests, no browser or dev servers required
+ */
+
+import { test, expect } from '@playwright/test';
+import { buildChatSystemPrompt } from '../../lib/dedalus/client';
+import { getElementsAtFrame } from '../../lib/composition-engine/timeline';
+import { clip } from './helpers';
+
+const elements = [clip('intro', 0, 90), clip('main', 90, 210), clip('music', 0, 300)];
+
+test.describe('Playhead', () => {
+  test('finds the clips playing at a frame', () => {
+    expect(getElementsAtFrame(elements, 45).map((el) => el.id)).toEqual(['intro', 'music']);
+    // A clip's last frame is from + duration - 1
+    expect(getElementsAtFrame(elements, 90).map((el) => el.id)).toEqual(['main', 'music']);
+    expect(getElementsAtFrame(elements, 300)).toEqual([]);
+  });
+
+  test('chat prompt tells the model where "here" is', () => {
+    const prompt = buildChatSystemPrompt({
+      assets: [],
+      composition: { ir: { metadata: { fps: 30, width: 1920, height: 1080, durationInFrames: 300 }, elements } },
+      playheadFrame: 120,
+    });
+
+    expect(prompt).toContain('The timeline cursor is at frame 120 (0:04.0)');
+    expect(prompt).toContain('start new elements and edits at frame 120');
+    expect(prompt).toContain('Playing at the playhead: "main" (ID: main), "music" (ID: music)');
+  });
+
+  test('chat prompt has no playhead section without a frame', () => {
+    const prompt = buildChatSystemPrompt({ assets: [], composition: null });
+
+    expect(prompt).not.toContain('## Playhead');
+  });
+});
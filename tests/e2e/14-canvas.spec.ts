@@ -0,0 +1,114 @@
+/**
+ * Canvas Direct Manipulation
+ *
+ * Geometry behind the preview's selection overlay: moving with alignment
+ * guides, corner resizing, rotation and the property changes they commit.
+ *
+ * NOTE: Pure tests, no browser or dev servers required
+ */
+
+import { test, expect } from '@playwright/test';
+import { compileIRToRemotionCode } from '../../lib/composition-engine/compiler';
+import {
+  getBoxChanges,
+  getElementBox,
+  getGuideLines,
+  getSafeAreas,
+  resizeBox,
+  rotationFromPointer,
+  snapBoxToGuides,
+  type CanvasBox,
+} from '../../lib/composition-engine/canvas';
+import type { CompositionElement, CompositionIR } from '../../types/composition-ir';
+
+const canvas = { width: 1920, height: 1080 };
+
+function box(x: number, y: number, width: number, height: number, rotation = 0): CanvasBox {
+  return { x, y, width, height, rotation };
+}
+
+function element(type: CompositionElement['type'], properties: Record<string, any>): CompositionElement {
+  return { id: 'el', type, label: 'el', from: 0, durationInFrames: 90, properties };
+}
+
+test.describe('Canvas Geometry', () => {
+  test('element boxes fall back to the measured size', () => {
+    const title = element('text', { text: 'Hi', x: 100, y: 50, rotation: 10 });
+
+    expect(getElementBox(title, { width: 300, height: 60 })).toEqual(box(100, 50, 300, 60, 10));
+    expect(getElementBox(element('image', { src: 'a.png', width: 400, height: 200 }), { width: 1, height: 1 })).toEqual(
+      box(0, 0, 400, 200)
+    );
+  });
+
+  test('safe areas are inset 5% and 10% from each edge', () => {
+    const { action, title } = getSafeAreas(1920, 1080);
+
+    expect(action).toEqual(box(96, 54, 1728, 972));
+    expect(title).toEqual(box(192, 108, 1536, 864));
+  });
+
+  test('moves snap an edge or center to the nearest guide', () => {
+    const lines = getGuideLines([box(100, 100, 200, 100)], canvas);
+
+    // Center (958) is 2px from the frame center
+    const centered = snapBoxToGuides(box(858, 500, 200, 100), lines, 6);
+    expect(centered.box).toEqual(box(860, 500, 200, 100));
+    expect(centered.guides).toEqual([{ axis: 'x', position: 960 }]);
+
+    // Left edge onto the other box's right edge, top onto its top edge
+    const aligned = snapBoxToGuides(box(304, 97, 50, 50), lines, 6);
+    expect(aligned.box).toEqual(box(300, 100, 50, 50));
+    expect(aligned.guides).toEqual([
+      { axis: 'x', position: 300 },
+      { axis: 'y', position: 100 },
+    ]);
+
+    expect(snapBoxToGuides(box(500, 500, 50, 50), lines, 6).guides).toEqual([]);
+  });
+
+  test('corner resizing keeps the opposite corner fixed', () => {
+    const start = box(100, 100, 200, 100);
+
+    expect(resizeBox(start, 'se', 50, 20, false)).toEqual(box(100, 100, 250, 120));
+    expect(resizeBox(start, 'nw', 50, 20, false)).toEqual(box(150, 120, 150, 80));
+    // Aspect ratio follows the larger relative change
+    expect(resizeBox(start, 'se', 100, 0, true)).toEqual(box(100, 100, 300, 150));
+    // Never collapses below the minimum size
+    expect(resizeBox(start, 'se', -500, -500, false)).toMatchObject({ width: 8, height: 8 });
+  });
+
+  test('rotation points the top of the box at the pointer', () => {
+    const start = box(0, 0, 100, 100);
+
+    expect(rotationFromPointer(start, 50, -100, false)).toBe(0);
+    expect(rotationFromPointer(start, 200, 50, false)).toBe(90);
+    expect(rotationFromPointer(start, 50, 200, false)).toBe(180);
+    expect(rotationFromPointer(start, 150, -40, true)).toBe(45);
+  });
+
+  test('box changes commit only what moved, scaling text by font size', () => {
+    const image = element('image', { src: 'a.png', x: 0, y: 0, width: 200, height: 100 });
+    expect(getBoxChanges(image, box(0, 0, 200, 100), box(10.4, 0, 200, 100))).toEqual({ x: 10 });
+    expect(getBoxChanges(image, box(0, 0, 200, 100), box(0, 0, 300, 150, 12.34))).toEqual({
+      width: 300,
+      height: 150,
+      rotation: 12.3,
+    });
+
+    const title = element('text', { text: 'Hi', fontSize: 40 });
+    expect(getBoxChanges(title, box(0, 0, 300, 60), box(0, 0, 450, 90))).toEqual({ width: 450, fontSize: 60 });
+  });
+
+  test('compiled code keeps static rotation', () => {
+    const ir: CompositionIR = {
+      id: 'comp_canvas',
+      version: 1,
+      metadata: { ...canvas, fps: 30, durationInFrames: 90 },
+      elements: [element('image', { src: 'a.png', x: 10, y: 20, rotation: 30 })],
+      patches: [],
+    };
+
+    expect(compileIRToRemotionCode(ir)).toContain('transform: "rotate(30deg)"');
+  });
+});
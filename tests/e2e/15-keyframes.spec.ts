@@ -0,0 +1,116 @@
+/**
+ * Keyframe Editor
+ *
+ * Evaluation with per-segment easing and the editing helpers behind the
+ * timeline's keyframe lanes. Keyframe frames are relative to the element.
+ *
+ * NOTE: Pure tests, no browser or dev servers required
+ */
+
+import { test, expect } from '@playwright/test';
+import { executeEditPlan } from '../../lib/composition-engine/executor';
+import { undoPatchGroup } from '../../lib/composition-engine/ir-helpers';
+import {
+  addKeyframe,
+  createAnimation,
+  evaluateAnimation,
+  getSegmentEasing,
+  moveKeyframe,
+  removeKeyframe,
+  sampleAnimation,
+  updateKeyframe,
+} from '../../lib/composition-engine/keyframes';
+import type { Animation, CompositionIR } from '../../types/composition-ir';
+
+const fade: Animation = {
+  property: 'opacity',
+  keyframes: [
+    { frame: 0, value: 0 },
+    { frame: 30, value: 1, easing: 'ease-in' },
+    { frame: 60, value: 0 },
+  ],
+  easing: 'linear',
+};
+
+test.describe('Keyframe Evaluation', () => {
+  test('each segment uses its own easing, falling back to the animation', () => {
+    expect(getSegmentEasing(fade, 0)).toBe('linear');
+    expect(getSegmentEasing(fade, 1)).toBe('ease-in');
+
+    // Linear first half, ease-in (t²) second half
+    expect(evaluateAnimation(fade, 15)).toBe(0.5);
+    expect(evaluateAnimation(fade, 45)).toBeCloseTo(0.75);
+    // Held outside the keyframes
+    expect(evaluateAnimation(fade, -10)).toBe(0);
+    expect(evaluateAnimation(fade, 90)).toBe(0);
+  });
+
+  test('samples the curve for previews', () => {
+    const points = sampleAnimation(fade, 2);
+
+    expect(points).toEqual([
+      { frame: 0, value: 0 },
+      { frame: 15, value: 0.5 },
+      { frame: 30, value: 1 },
+      { frame: 45, value: 0.75 },
+      { frame: 60, value: 0 },
+    ]);
+  });
+});
+
+test.describe('Keyframe Editing', () => {
+  test('adds, moves and updates keyframes in frame order', () => {
+    const added = addKeyframe(fade, 45, 0.5);
+    expect(added.keyframes.map((kf) => kf.frame)).toEqual([0, 30, 45, 60]);
+
+    // Moving keeps the keyframe's easing and replaces one already at the target
+    const moved = moveKeyframe(added, 1, 45);
+    expect(moved.keyframes).toEqual([
+      { frame: 0, value: 0 },
+      { frame: 45, value: 1, easing: 'ease-in' },
+      { frame: 60, value: 0 },
+    ]);
+
+    const updated = updateKeyframe(fade, 0, { value: 0.2, easing: 'ease-out' });
+    expect(updated.keyframes[0]).toEqual({ frame: 0, value: 0.2, easing: 'ease-out' });
+  });
+
+  test('an animation keeps at least two keyframes', () => {
+    expect(removeKeyframe(fade, 1)!.keyframes.map((kf) => kf.frame)).toEqual([0, 60]);
+    expect(removeKeyframe(createAnimation('scale', 90), 0)).toBeNull();
+  });
+
+  test('new lanes start at the property resting value across the element', () => {
+    expect(createAnimation('scale', 90)).toEqual({
+      property: 'scale',
+      keyframes: [
+        { frame: 0, value: 1 },
+        { frame: 90, value: 1 },
+      ],
+      easing: 'linear',
+    });
+  });
+
+  test('lane edits persist as one undoable update', () => {
+    const ir: CompositionIR = {
+      id: 'comp_keyframes',
+      version: 1,
+      metadata: { width: 1920, height: 1080, fps: 30, durationInFrames: 90 },
+      elements: [
+        { id: 'title', type: 'text', label: 'title', from: 0, durationInFrames: 60, properties: { text: 'Hi' }, animations: [fade] },
+      ],
+      patches: [],
+    };
+
+    const animations = [updateKeyframe(fade, 1, { easing: 'ease-in-out' })];
+    const result = executeEditPlan(ir, {
+      operation: 'update',
+      selector: { type: 'byId', id: 'title' },
+      changes: { animations },
+    });
+
+    expect(result.success, result.error).toBe(true);
+    expect(result.updatedIR!.elements[0].animations).toEqual(animations);
+    expect(undoPatchGroup(result.updatedIR!)!.elements[0].animations).toEqual([fade]);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Easing Curves
+ *
+ * Custom cubic-bezier and spring easings, per-segment easing, and the
+ * compiled Remotion code evaluating the same curves as applyEasing.
+ *
+ * NOTE: Pure tests, no browser or dev servers required
+ */
+
+import { test, expect } from '@playwright/test';
+import { Easing, interpolate, spring } from 'remotion';
+import { compileIRToRemotionCode } from '../../lib/composition-engine/compiler';
+import {
+  formatEasing,
+  getSpringSettleFrames,
+  parseEasing,
+  SPRING_DEFAULTS,
+} from '../../lib/composition-engine/easing';
+import { evaluateAnimation } from '../../lib/composition-engine/keyframes';
+import { executeEditPlan } from '../../lib/composition-engine/executor';
+import { applyEasing } from '../../lib/composition-engine/utils';
+import type { Animation, CompositionIR, EasingType } from '../../types/composition-ir';
+
+const steps = Array.from({ length: 21 }, (_, i) => i / 20);
+
+function compositionWith(animations: Animation[], from = 30): CompositionIR {
+  return {
+    id: 'comp_easing',
+    version: 1,
+    metadata: { width: 1920, height: 1080, fps: 30, durationInFrames: 150 },
+    elements: [
+      {
+        id: 'title',
+        type: 'text',
+        label: 'title',
+        from,
+        durationInFrames: 90,
+        properties: { text: 'Hi' },
+        animations,
+      },
+    ],
+    patches: [],
+  };
+}
+
+/**
+ * Evaluate a compiled value expression at a frame with Remotion's own helpers
+ */
+function evaluateCompiled(code: string, property: string, frame: number): unknown {
+  const match = code.match(new RegExp(`${property}: (.*)`));
+  const expression = match![1].replace(/,( }}>)?$/, '');
+  return new Function('frame', 'interpolate', 'Easing', 'spring', `return ${expression};`)(
+    frame,
+    interpolate,
+    Easing,
+    spring
+  );
+}
+
+test.describe('Custom Easings', () => {
+  test('cubic-bezier matches Remotion and CSS', () => {
+    const curve: EasingType = { type: 'cubic-bezier', x1: 0.25, y1: 0.1, x2: 0.25, y2: 1 };
+    const remotion = Easing.bezier(0.25, 0.1, 0.25, 1);
+
+    for (const t of steps) {
+      expect(applyEasing(t, curve)).toBeCloseTo(remotion(t), 10);
+    }
+    // Overshooting curves are allowed
+    expect(applyEasing(0.8, { type: 'cubic-bezier', x1: 0.3, y1: 1.6, x2: 0.6, y2: 1.4 })).toBeGreaterThan(1);
+  });
+
+  test('springs follow Remotion spring() over their settle time', () => {
+    const config = { mass: 0.5, damping: 8, stiffness: 180 };
+    const frames = getSpringSettleFrames(config);
+
+    for (const t of steps.slice(0, -1)) {
+      const expected = spring({ frame: t * frames, fps: 100, config });
+      expect(applyEasing(t, { type: 'spring', ...config })).toBeCloseTo(expected, 8);
+    }
+    // Segments end exactly on the next keyframe
+    expect(applyEasing(1, { type: 'spring', ...config })).toBe(1);
+    // "spring" uses Remotion's defaults
+    expect(applyEasing(0.3, 'spring')).toBe(applyEasing(0.3, { type: 'spring', ...SPRING_DEFAULTS }));
+    // Overdamped springs never overshoot
+    const slow = steps.map((t) => applyEasing(t, { type: 'spring', damping: 40 }));
+    expect(Math.max(...slow)).toBeLessThanOrEqual(1);
+  });
+
+  test('parses and formats CSS-style easings', () => {
+    expect(parseEasing('ease-out')).toBe('ease-out');
+    expect(parseEasing('cubic-bezier(0.4, 0, 0.2, 1)')).toEqual({ type: 'cubic-bezier', x1: 0.4, y1: 0, x2: 0.2, y2: 1 });
+    expect(parseEasing('spring(1, 12)')).toEqual({ type: 'spring', mass: 1, damping: 12 });
+
+    // x values outside [0, 1], missing values and non-positive spring parameters
+    expect(parseEasing('cubic-bezier(1.5, 0, 0.2, 1)')).toBeNull();
+    expect(parseEasing('cubic-bezier(0.4, 0, 0.2)')).toBeNull();
+    expect(parseEasing('spring(1, 0, 100)')).toBeNull();
+    expect(parseEasing('bounce')).toBeNull();
+
+    expect(formatEasing({ type: 'spring', damping: 12 })).toBe('spring(1, 12, 100)');
+    expect(parseEasing(formatEasing({ type: 'cubic-bezier', x1: 0.4, y1: 0, x2: 0.2, y2: 1 }))).toEqual({
+      type: 'cubic-bezier',
+      x1: 0.4,
+      y1: 0,
+      x2: 0.2,
+      y2: 1,
+    });
+  });
+});
+
+test.describe('Compiled Easing', () => {
+  const bounce: Animation = {
+    property: 'scale',
+    keyframes: [
+      { frame: 0, value: 0.5, easing: { type: 'spring', damping: 12 } },
+      { frame: 30, value: 1.2, easing: { type: 'cubic-bezier', x1: 0.4, y1: 0, x2: 0.2, y2: 1 } },
+      { frame: 60, value: 1 },
+    ],
+    easing: 'ease-in',
+  };
+  const fade: Animation = {
+    property: 'opacity',
+    keyframes: [
+      { frame: 0, value: 0 },
+      { frame: 20, value: 1 },
+      { frame: 70, value: 1 },
+      { frame: 90, value: 0 },
+    ],
+    easing: 'ease-in-out',
+  };
+
+  test('each segment compiles to its own interpolate() at absolute frames', () => {
+    const code = compileIRToRemotionCode(compositionWith([bounce]));
+
+    expect(code).toContain('spring,');
+    expect(code).toContain('frame < 60 ? interpolate(frame, [30, 60], [0.5, 1.2]');
+    expect(code).toContain('interpolate(frame, [60, 90], [1.2, 1], { extrapolateLeft: "clamp", extrapolateRight: "clamp", easing: Easing.bezier(0.4, 0, 0.2, 1) })');
+    expect(code).toContain('transform: "scale(" + ');
+  });
+
+  test('compiled code evaluates like the runtime renderers', () => {
+    const from = 30;
+    const code = compileIRToRemotionCode(compositionWith([bounce, fade], from));
+
+    for (let frame = 0; frame <= 130; frame += 5) {
+      const transform = String(evaluateCompiled(code, 'transform', frame));
+      const opacity = evaluateCompiled(code, 'opacity', frame) as number;
+
+      expect(transform).toMatch(/^scale\(.*\)$/);
+      expect(Number(transform.slice(6, -1))).toBeCloseTo(evaluateAnimation(bounce, frame - from) as number, 6);
+      expect(opacity).toBeCloseTo(evaluateAnimation(fade, frame - from) as number, 6);
+    }
+  });
+
+  test('add_transition accepts custom easings and rejects invalid ones', () => {
+    const ir: CompositionIR = {
+      id: 'comp_transition_easing',
+      version: 1,
+      metadata: { width: 1920, height: 1080, fps: 30, durationInFrames: 150 },
+      elements: [
+        { id: 'a', type: 'video', label: 'a', from: 0, durationInFrames: 90, properties: { src: 'a.mp4' } },
+        { id: 'b', type: 'video', label: 'b', from: 75, durationInFrames: 75, properties: { src: 'b.mp4' } },
+      ],
+      patches: [],
+    };
+    const addTransition = (easing: unknown) =>
+      executeEditPlan(ir, {
+        operation: 'update',
+        selector: { type: 'byId', id: 'b' },
+        changes: { transitionIn: { durationInFrames: 15, easing } },
+      });
+
+    const result = addTransition('spring(1, 20, 120)');
+    expect(result.success, result.error).toBe(true);
+    expect(result.updatedIR!.elements[1].transitionIn!.easing).toEqual({
+      type: 'spring',
+      mass: 1,
+      damping: 20,
+      stiffness: 120,
+    });
+
+    expect(addTransition('wobble').error).toBe('Invalid easing: "wobble"');
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Animated Values
+ *
+ * Colors blended in OKLab, {x, y} points, CSS filters and discrete text
+ * swaps, rendered the same way at runtime and in compiled code.
+ *
+ * NOTE: Pure tests, no browser or dev servers required
+ */
+
+import { test, expect } from '@playwright/test';
+import { Easing, interpolate, spring } from 'remotion';
+import { compileIRToRemotionCode } from '../../lib/composition-engine/compiler';
+import { interpolateColor, parseColor } from '../../lib/composition-engine/color';
+import {
+  evaluateAnimation,
+  getAnimatedStyle,
+  getRestingValue,
+  parseKeyframeValue,
+  validateKeyframeValue,
+} from '../../lib/composition-engine/keyframes';
+import type { Animation, CompositionElement, CompositionIR } from '../../types/composition-ir';
+
+const colorFade: Animation = {
+  property: 'color',
+  keyframes: [
+    { frame: 0, value: '#ff0000' },
+    { frame: 30, value: '#0000ff' },
+  ],
+  easing: 'linear',
+};
+
+const glide: Animation = {
+  property: 'position',
+  keyframes: [
+    { frame: 0, value: { x: 0, y: 100 } },
+    { frame: 20, value: { x: 200, y: 0 }, easing: 'ease-out' },
+    { frame: 40, value: { x: 400, y: 0 } },
+  ],
+  easing: 'linear',
+};
+
+const unblur: Animation = {
+  property: 'blur',
+  keyframes: [
+    { frame: 0, value: 12 },
+    { frame: 30, value: 0 },
+  ],
+  easing: 'ease-in',
+};
+
+const swap: Animation = {
+  property: 'text',
+  keyframes: [
+    { frame: 0, value: 'Ready' },
+    { frame: 20, value: 'Set' },
+    { frame: 40, value: 'Go!' },
+  ],
+};
+
+function title(animations: Animation[], from = 0): CompositionElement {
+  return { id: 'title', type: 'text', label: 'title', from, durationInFrames: 60, properties: { text: 'Hi', x: 10 }, animations };
+}
+
+test.describe('Typed Keyframe Values', () => {
+  test('colors blend in OKLab with premultiplied alpha', () => {
+    expect(parseColor('#f00')).toEqual({ r: 255, g: 0, b: 0, a: 1 });
+    expect(parseColor('rgba(0, 128, 255, 0.5)')).toEqual({ r: 0, g: 128, b: 255, a: 0.5 });
+    expect(parseColor('not a color')).toBeNull();
+
+    expect(interpolateColor('#ff0000', '#0000ff', 0)).toBe('rgba(255, 0, 0, 1)');
+    expect(interpolateColor('#ff0000', '#0000ff', 1)).toBe('rgba(0, 0, 255, 1)');
+    // OKLab midpoint is a brighter purple than sRGB's rgb(128, 0, 128)
+    expect(interpolateColor('#ff0000', '#0000ff', 0.5)).toBe('rgba(140, 83, 162, 1)');
+    // Fading in from transparent keeps the hue instead of passing through black
+    expect(interpolateColor('transparent', '#ff0000', 0.5)).toBe('rgba(255, 0, 0, 0.5)');
+  });
+
+  test('points, filters and text swaps evaluate by property type', () => {
+    expect(evaluateAnimation(glide, 10)).toEqual({ x: 100, y: 50 });
+    // Ease-out (t(2 - t)) on the second segment
+    expect(evaluateAnimation(glide, 30)).toEqual({ x: 350, y: 0 });
+    expect(evaluateAnimation(unblur, 15)).toBe(9);
+
+    expect(evaluateAnimation(swap, 19)).toBe('Ready');
+    expect(evaluateAnimation(swap, 20)).toBe('Set');
+    expect(evaluateAnimation(swap, 90)).toBe('Go!');
+  });
+
+  test('animated styles and property overrides', () => {
+    const { style, properties } = getAnimatedStyle(title([colorFade, glide, unblur, swap]), 30);
+
+    expect(style).toEqual({ left: 350, top: 0, filter: 'blur(0px)' });
+    expect(properties).toEqual({ color: 'rgba(0, 0, 255, 1)', text: 'Set' });
+  });
+
+  test('values are validated against the property', () => {
+    expect(validateKeyframeValue('opacity', 2)).toBe('Opacity values must be between 0 and 1');
+    expect(validateKeyframeValue('color', 12)).toContain('CSS colors');
+    expect(validateKeyframeValue('position', { x: 1 })).toContain('{x, y}');
+    expect(validateKeyframeValue('text', 'Go!')).toBeNull();
+
+    expect(parseKeyframeValue('position', '10, 20')).toEqual({ x: 10, y: 20 });
+    expect(parseKeyframeValue('scale', 'big')).toBeNull();
+    expect(parseKeyframeValue('backgroundColor', ' #000 ')).toBe('#000');
+
+    // New lanes start at the element's own value
+    expect(getRestingValue(title([]), 'position')).toEqual({ x: 10, y: 0 });
+    expect(getRestingValue(title([]), 'text')).toBe('Hi');
+    expect(getRestingValue(title([]), 'color')).toBe('#ffffff');
+  });
+});
+
+test.describe('Compiled Animated Values', () => {
+  const from = 30;
+  const ir: CompositionIR = {
+    id: 'comp_values',
+    version: 1,
+    metadata: { width: 1920, height: 1080, fps: 30, durationInFrames: 120 },
+    elements: [title([colorFade, glide, unblur, swap], from)],
+    patches: [],
+  };
+  const code = compileIRToRemotionCode(ir);
+
+  /**
+   * Evaluate a compiled expression with Remotion's helpers and the emitted mixOklab
+   */
+  function evaluateCompiled(expression: string, frame: number): unknown {
+    const helper = code.slice(code.indexOf('function mixOklab')).replace(/: number\[\]|: number|: string/g, '');
+    return new Function('frame', 'interpolate', 'Easing', 'spring', `${helper}\nreturn ${expression};`)(
+      frame,
+      interpolate,
+      Easing,
+      spring
+    );
+  }
+
+  // Animated entries come after the static ones
+  const styleValue = (property: string) =>
+    Array.from(code.matchAll(new RegExp(`\\n\\s*${property}: (.*)`, 'g'))).pop()![1].replace(/,( }}>)?$/, '');
+
+  test('emits the color helper and swaps text in the content', () => {
+    expect(code).toContain('function mixOklab(');
+    expect(code).toContain('{(frame < 50 ? "Ready" : frame < 70 ? "Set" : "Go!")}');
+    expect(code).toContain('filter: "blur(" + ');
+  });
+
+  test('compiled values match the runtime renderers', () => {
+    for (let frame = 20; frame <= 80; frame += 5) {
+      const runtime = getAnimatedStyle(ir.elements[0], frame - from);
+
+      expect(evaluateCompiled(styleValue('left'), frame)).toBeCloseTo(runtime.style.left as number, 6);
+      expect(evaluateCompiled(styleValue('top'), frame)).toBeCloseTo(runtime.style.top as number, 6);
+      expect(evaluateCompiled(styleValue('filter'), frame)).toBe(runtime.style.filter);
+      expect(parseColor(evaluateCompiled(styleValue('color'), frame) as string)).toEqual(
+        parseColor(runtime.properties.color as string)
+      );
+    }
+  });
+
+  test('compiled code without color animations has no helper', () => {
+    const plain = compileIRToRemotionCode({ ...ir, elements: [title([unblur])] });
+    expect(plain).not.toContain('mixOklab');
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Animation Presets
+ *
+ * Named presets expanding into keyframes relative to the element's start,
+ * and merging into the element's existing animations.
+ *
+ * NOTE: Pure tests, no browser or dev servers required
+ */
+
+import { test, expect } from '@playwright/test';
+import { evaluateAnimation, getAnimatedStyle } from '../../lib/composition-engine/keyframes';
+import {
+  applyAnimationPreset,
+  expandAnimationPreset,
+  getPresetsForElement,
+} from '../../lib/composition-engine/presets';
+import type { Animation, CompositionElement, CompositionMetadata } from '../../types/composition-ir';
+
+const metadata: CompositionMetadata = { width: 1920, height: 1080, fps: 30, durationInFrames: 300 };
+
+function element(type: CompositionElement['type'], animations?: Animation[]): CompositionElement {
+  return {
+    id: 'el',
+    type,
+    label: 'el',
+    from: 60,
+    durationInFrames: 90,
+    properties: type === 'text' ? { text: 'Hello' } : { src: 'photo.jpg' },
+    animations,
+  };
+}
+
+function animationsOf(result: ReturnType<typeof applyAnimationPreset>): Animation[] {
+  if ('error' in result) throw new Error(result.error);
+  return result.animations;
+}
+
+test.describe('Animation Presets', () => {
+  test('fades in at the start and out at the end of the element', () => {
+    const fadeIn = animationsOf(applyAnimationPreset(element('text'), metadata, 'fade-in'));
+    const both = animationsOf(applyAnimationPreset({ ...element('text'), animations: fadeIn }, metadata, 'fade-out'));
+
+    // One opacity animation with frames relative to the element's start
+    expect(both).toHaveLength(1);
+    expect(both[0].keyframes.map((kf) => [kf.frame, kf.value])).toEqual([
+      [0, 0],
+      [15, 1],
+      [75, 1],
+      [90, 0],
+    ]);
+    expect(evaluateAnimation(both[0], 45)).toBe(1);
+    expect(evaluateAnimation(both[0], 90)).toBe(0);
+  });
+
+  test('slide-in starts off the frame edge and ends in place', () => {
+    const [slide] = animationsOf(
+      applyAnimationPreset(element('image'), metadata, 'slide-in', { direction: 'up', durationInFrames: 20 })
+    );
+
+    expect(slide.property).toBe('translateY');
+    expect(evaluateAnimation(slide, 0)).toBe(1080);
+    expect(evaluateAnimation(slide, 20)).toBe(0);
+    // Decelerates into place
+    expect(evaluateAnimation(slide, 10) as number).toBeLessThan(540);
+  });
+
+  test('typewriter reveals one character per keyframe', () => {
+    const [typing] = animationsOf(applyAnimationPreset(element('text'), metadata, 'typewriter'));
+
+    expect(typing.keyframes.map((kf) => kf.value)).toEqual(['', 'H', 'He', 'Hel', 'Hell', 'Hello']);
+    expect(typing.keyframes[typing.keyframes.length - 1].frame).toBe(10);
+    expect(getAnimatedStyle(element('text', [typing]), 6).properties.text).toBe('Hel');
+  });
+
+  test('ken burns zooms and pans across the whole clip', () => {
+    const animations = animationsOf(
+      applyAnimationPreset(element('image'), metadata, 'ken-burns', { direction: 'left' })
+    );
+    const { style } = getAnimatedStyle(element('image', animations), 90);
+
+    expect(style.transform).toBe('scale(1.2) translateX(-96px)');
+    expect(getAnimatedStyle(element('image', animations), 0).style.transform).toBe('scale(1) translateX(0px)');
+  });
+
+  test('shake settles back and replaces keyframes inside its window', () => {
+    const existing: Animation = {
+      property: 'translateX',
+      keyframes: [
+        { frame: 0, value: 0 },
+        { frame: 40, value: 50 },
+        { frame: 90, value: 100 },
+      ],
+      easing: 'linear',
+    };
+    const [shake] = animationsOf(
+      applyAnimationPreset(element('text', [existing]), metadata, 'shake', { startFrame: 30, durationInFrames: 12 })
+    );
+
+    expect(shake.keyframes.map((kf) => kf.frame)).toEqual([0, 30, 32, 34, 36, 38, 40, 42, 90]);
+    expect(evaluateAnimation(shake, 32)).toBe(20 * (5 / 6));
+    expect(evaluateAnimation(shake, 42)).toBe(0);
+    // The existing keyframe at frame 40 was replaced
+    expect(shake.keyframes.some((kf) => kf.value === 50)).toBe(false);
+  });
+
+  test('presets are limited to the element types they fit', () => {
+    expect(getPresetsForElement(element('text'))).toContain('typewriter');
+    expect(getPresetsForElement(element('text'))).not.toContain('ken-burns');
+    expect(getPresetsForElement(element('audio'))).toEqual([]);
+
+    expect(expandAnimationPreset(element('image'), metadata, 'typewriter')).toEqual({
+      error: "Typewriter doesn't apply to image elements",
+    });
+    // Durations are clamped to the element
+    const [fade] = animationsOf(
+      applyAnimationPreset(element('text'), metadata, 'fade-in', { durationInFrames: 500 })
+    );
+    expect(fade.keyframes[1].frame).toBe(90);
+  });
+});
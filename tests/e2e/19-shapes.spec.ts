@@ -0,0 +1,162 @@
+/**
+ * Shape Elements
+ *
+ * SVG drawings for rectangles, ellipses, lines, polygons and arrows with
+ * gradients and shadows, shared by the runtime renderers and the compiler.
+ *
+ * NOTE: Pure tests, no browser or dev servers required
+ */
+
+import { test, expect } from '@playwright/test';
+import { Easing, interpolate, spring } from 'remotion';
+import { compileIRToRemotionCode } from '../../lib/composition-engine/compiler';
+import { parseColor } from '../../lib/composition-engine/color';
+import { getAnimatedStyle } from '../../lib/composition-engine/keyframes';
+import {
+  getGradientId,
+  getPolygonPoints,
+  getShapeDrawing,
+  validateShapeProperties,
+} from '../../lib/composition-engine/shapes';
+import type { CompositionElement, CompositionIR } from '../../types/composition-ir';
+
+test.describe('Shape Drawings', () => {
+  test('closed shapes keep their stroke inside the box', () => {
+    const rect = getShapeDrawing({ shape: 'rectangle', width: 300, height: 100, strokeWidth: 10, cornerRadius: 20 }, 'r');
+    expect(rect.nodes[0]).toEqual({
+      tag: 'rect',
+      attributes: { x: 5, y: 5, width: 290, height: 90, rx: 15, fill: '#ffffff', stroke: '#ffffff', strokeWidth: 10 },
+    });
+
+    const ellipse = getShapeDrawing({ shape: 'ellipse', width: 200, height: 100, fill: 'red' }, 'e');
+    expect(ellipse.nodes[0].attributes).toMatchObject({ cx: 100, cy: 50, rx: 100, ry: 50, fill: 'red', stroke: 'none' });
+    expect(ellipse.fillable).toBe(true);
+
+    // Regular polygons start at the top
+    const triangle = getPolygonPoints(3, 100, 100);
+    expect(triangle[0]).toEqual({ x: 50, y: 0 });
+    expect(getShapeDrawing({ shape: 'polygon', sides: 3, width: 100, height: 100 }, 'p').nodes[0].attributes.points).toBe(
+      '50,0 93.3,75 6.7,75'
+    );
+  });
+
+  test('older shapes still render', () => {
+    expect(getShapeDrawing({ shape: 'circle' as never }, 'c').nodes[0].tag).toBe('ellipse');
+    expect(getShapeDrawing({ borderRadius: 12 } as never, 'b').nodes[0].attributes.rx).toBe(12);
+  });
+
+  test('arrows end in a head at the last point', () => {
+    const arrow = getShapeDrawing({ shape: 'arrow', width: 200, height: 40, strokeWidth: 4, stroke: '#ff0' }, 'a');
+
+    expect(arrow.nodes.map((node) => node.tag)).toEqual(['polyline', 'polygon']);
+    // Shaft stops at the base of a 12px head
+    expect(arrow.nodes[0].attributes.points).toBe('0,20 188,20');
+    expect(arrow.nodes[1].attributes).toEqual({ points: '200,20 188,26 188,14', fill: '#ff0' });
+    expect(arrow.fillable).toBe(false);
+
+    const line = getShapeDrawing({ shape: 'line', points: [{ x: 0, y: 0 }, { x: 50, y: 50 }] }, 'l');
+    expect(line.nodes[0].attributes).toMatchObject({ points: '0,0 50,50', fill: 'none', strokeWidth: 4 });
+  });
+
+  test('gradients and shadows', () => {
+    const drawing = getShapeDrawing(
+      {
+        shape: 'rectangle',
+        gradient: { type: 'linear', angle: 90, stops: [{ offset: 1, color: '#000' }, { offset: 0, color: '#fff' }] },
+        shadow: { blur: 20 },
+      },
+      'el 1'
+    );
+
+    expect(getGradientId('el 1')).toBe('shape-gradient-el_1');
+    expect(drawing.nodes[0].attributes.fill).toBe('url(#shape-gradient-el_1)');
+    // 90deg runs left to right; stops are sorted
+    expect(drawing.defs[0]).toEqual({
+      tag: 'linearGradient',
+      attributes: { id: 'shape-gradient-el_1', x1: 0, y1: 0.5, x2: 1, y2: 0.5 },
+      children: [
+        { tag: 'stop', attributes: { offset: 0, stopColor: '#fff' } },
+        { tag: 'stop', attributes: { offset: 1, stopColor: '#000' } },
+      ],
+    });
+    expect(drawing.filter).toBe('drop-shadow(0px 4px 20px rgba(0, 0, 0, 0.5))');
+    expect(drawing.fillable).toBe(false);
+  });
+
+  test('shape properties are validated', () => {
+    expect(validateShapeProperties({ shape: 'star' as never })).toContain('Invalid shape: star');
+    expect(validateShapeProperties({ shape: 'rectangle', width: 0 })).toBe('Shape width must be positive');
+    expect(validateShapeProperties({ shape: 'polygon', sides: 2 })).toBe('Polygons need at least 3 sides');
+    expect(validateShapeProperties({ shape: 'ellipse', fill: 'sparkly' })).toContain('Invalid fill color');
+    expect(
+      validateShapeProperties({ shape: 'ellipse', gradient: { type: 'radial', stops: [{ offset: 0, color: '#fff' }] } })
+    ).toBe('Gradients need at least 2 stops');
+    expect(validateShapeProperties({ shape: 'arrow', stroke: 'rgba(0, 0, 0, 0.5)', strokeWidth: 6 })).toBeNull();
+  });
+});
+
+test.describe('Compiled Shapes', () => {
+  const badge: CompositionElement = {
+    id: 'badge',
+    type: 'shape',
+    label: 'badge',
+    from: 30,
+    durationInFrames: 60,
+    properties: { shape: 'polygon', sides: 3, x: 10, y: 20, width: 100, height: 100, fill: '#ff0000', opacity: 0.8 },
+    animations: [
+      {
+        property: 'fill',
+        keyframes: [
+          { frame: 0, value: '#ff0000' },
+          { frame: 30, value: '#0000ff' },
+        ],
+        easing: 'linear',
+      },
+    ],
+  };
+  const ir: CompositionIR = {
+    id: 'comp_shapes',
+    version: 1,
+    metadata: { width: 1920, height: 1080, fps: 30, durationInFrames: 120 },
+    elements: [
+      badge,
+      {
+        id: 'pointer',
+        type: 'shape',
+        label: 'pointer',
+        from: 0,
+        durationInFrames: 60,
+        properties: { shape: 'arrow', width: 200, height: 40, stroke: '#ffff00', shadow: {} },
+      },
+    ],
+    patches: [],
+  };
+  const code = compileIRToRemotionCode(ir);
+
+  test('prints the same SVG nodes as the runtime drawing', () => {
+    expect(code).toContain('<svg width={100} height={100} viewBox="0 0 100 100" overflow="visible" style={{ display: "block" }}>');
+    expect(code).toContain('<polygon points={"50,0 93.3,75 6.7,75"} strokeLinejoin={"round"} fill={mixOklab(');
+    expect(code).toContain('<polygon points={"200,20 188,26 188,14"} fill={"#ffff00"} />');
+    expect(code).toContain('filter: "drop-shadow(0px 4px 10px rgba(0, 0, 0, 0.5))"');
+    expect(code).toContain('opacity: 0.8,');
+    // Fills are no longer a background color
+    expect(code).not.toContain('backgroundColor: mixOklab');
+  });
+
+  test('compiled fill matches the runtime renderers', () => {
+    const expression = code.match(/fill=\{(mixOklab.*?\))\} stroke=/)![1];
+    const helper = code.slice(code.indexOf('function mixOklab')).replace(/: number\[\]|: number|: string/g, '');
+    const evaluate = (frame: number) =>
+      new Function('frame', 'interpolate', 'Easing', 'spring', `${helper}\nreturn ${expression};`)(
+        frame,
+        interpolate,
+        Easing,
+        spring
+      );
+
+    for (let frame = 30; frame <= 90; frame += 10) {
+      const runtime = getAnimatedStyle(badge, frame - badge.from).properties.fill as string;
+      expect(parseColor(evaluate(frame))).toEqual(parseColor(runtime));
+    }
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Rich Text
+ *
+ * Text strokes, shadows, line layout, auto-fit font sizes and styled spans,
+ * shared by the runtime renderers and the compiled code.
+ *
+ * NOTE: Pure tests, no browser or dev servers required
+ */
+
+import { test, expect } from '@playwright/test';
+import { compileIRToRemotionCode } from '../../lib/composition-engine/compiler';
+import {
+  estimateTextLines,
+  fitFontSize,
+  getFontSize,
+  getTextRuns,
+  getTextStyle,
+  validateTextProperties,
+} from '../../lib/composition-engine/text';
+import type { Animation, CompositionIR, TextElementProperties } from '../../types/composition-ir';
+
+test.describe('Text Style', () => {
+  test('box, stroke and shadow styles', () => {
+    const style = getTextStyle({
+      text: 'Hello',
+      fontSize: 64,
+      width: 800,
+      padding: 16,
+      lineHeight: 1.4,
+      letterSpacing: 2,
+      strokeWidth: 3,
+      shadow: { blur: 8 },
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    });
+
+    expect(style).toEqual({
+      fontFamily: 'Arial',
+      fontSize: 64,
+      fontWeight: 'normal',
+      color: '#ffffff',
+      textAlign: 'left',
+      lineHeight: 1.4,
+      whiteSpace: 'pre-wrap',
+      overflowWrap: 'break-word',
+      width: 800,
+      letterSpacing: 2,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      padding: 16,
+      boxSizing: 'border-box',
+      // Twice the width, half of it hidden under the fill
+      WebkitTextStroke: '6px #000000',
+      paintOrder: 'stroke fill',
+      textShadow: '0px 4px 8px rgba(0, 0, 0, 0.5)',
+    });
+
+    // Unbounded text keeps its lines as written
+    expect(getTextStyle({ text: 'One\nTwo' }).whiteSpace).toBe('pre');
+    expect(getTextStyle({ text: 'One two', maxWidth: 300 }).whiteSpace).toBe('pre-wrap');
+  });
+
+  test('styled spans split the text into runs', () => {
+    const runs = getTextRuns('Big Foot spotted! Big news.', [
+      { match: 'Big', color: '#ffff00' },
+      { match: 'Big news', occurrence: 0, fontWeight: 'bold', underline: true },
+    ]);
+
+    expect(runs).toEqual([
+      { text: 'Big', style: { color: '#ffff00' } },
+      { text: ' Foot spotted! ' },
+      { text: 'Big', style: { color: '#ffff00', fontWeight: 'bold', textDecoration: 'underline' } },
+      { text: ' news', style: { fontWeight: 'bold', textDecoration: 'underline' } },
+      { text: '.' },
+    ]);
+    expect(getTextRuns('Plain', [{ match: 'missing', color: 'red' }])).toEqual([{ text: 'Plain' }]);
+  });
+
+  test('auto-fit picks the largest size whose wrapped lines fit', () => {
+    const box: Partial<TextElementProperties> = { width: 400, height: 120, autoFit: true, fontSize: 200 };
+    const text = 'Breaking news from the forest';
+    const size = fitFontSize(text, box);
+
+    const height = (fontSize: number) => estimateTextLines(text, fontSize, box, 400) * fontSize * 1.2;
+    expect(height(size)).toBeLessThanOrEqual(120);
+    expect(height(size + 1)).toBeGreaterThan(120);
+    expect(getFontSize({ ...box, text })).toBe(size);
+
+    // Explicit line breaks count; long words break anywhere
+    expect(estimateTextLines('a\nb\nc', 20, {})).toBe(3);
+    expect(estimateTextLines('x'.repeat(25), 10, {}, 55)).toBe(3);
+    // Without a box, the font size is used as is
+    expect(getFontSize({ text, autoFit: true, fontSize: 72 })).toBe(72);
+  });
+
+  test('auto-fit text keeps one size through text swaps', () => {
+    const swap: Animation = {
+      property: 'text',
+      keyframes: [
+        { frame: 0, value: 'Go' },
+        { frame: 30, value: 'A much longer line of text' },
+      ],
+    };
+    const box: Partial<TextElementProperties> = { text: 'Go', width: 500, height: 200, autoFit: true };
+
+    expect(getFontSize(box, [swap])).toBe(fitFontSize('A much longer line of text', box));
+    expect(getFontSize({ ...box, text: 'A much longer line of text' }, [swap])).toBe(getFontSize(box, [swap]));
+  });
+
+  test('text styles are validated', () => {
+    expect(validateTextProperties({ autoFit: true, width: 300 })).toBe('Auto-fit text needs a width and height');
+    expect(validateTextProperties({ lineHeight: 0 })).toBe('Text lineHeight must be positive');
+    expect(validateTextProperties({ spans: [{ match: 'Hi', color: 'glitter' }] })).toContain('Invalid span color');
+    expect(validateTextProperties({ spans: [{ match: '' }] })).toBe('Text spans need the text to match');
+    expect(validateTextProperties({ strokeColor: '#000', strokeWidth: 4, shadow: {} })).toBeNull();
+  });
+});
+
+test.describe('Compiled Text', () => {
+  const ir: CompositionIR = {
+    id: 'comp_text',
+    version: 1,
+    metadata: { width: 1920, height: 1080, fps: 30, durationInFrames: 120 },
+    elements: [
+      {
+        id: 'title',
+        type: 'text',
+        label: 'title',
+        from: 0,
+        durationInFrames: 60,
+        properties: {
+          text: 'Big Foot spotted!',
+          x: 100,
+          y: 200,
+          strokeWidth: 2,
+          spans: [{ match: 'Foot', color: '#ffff00' }],
+        },
+      },
+      {
+        id: 'swap',
+        type: 'text',
+        label: 'swap',
+        from: 0,
+        durationInFrames: 60,
+        properties: { text: 'Ready', spans: [{ match: 'Go', color: '#00ff00' }] },
+        animations: [
+          {
+            property: 'text',
+            keyframes: [
+              { frame: 0, value: 'Ready' },
+              { frame: 30, value: 'Go!' },
+            ],
+          },
+        ],
+      },
+    ],
+    patches: [],
+  };
+  const code = compileIRToRemotionCode(ir);
+
+  test('prints the shared text style', () => {
+    const entries = Object.entries(getTextStyle(ir.elements[0].properties))
+      .map(([name, value]) => `${name}: ${JSON.stringify(value)}`)
+      .join(', ');
+    expect(code).toContain(entries);
+    expect(code).toContain('WebkitTextStroke: "4px #000000", paintOrder: "stroke fill"');
+  });
+
+  test('prints styled spans, including in text swaps', () => {
+    expect(code).toContain('{<>{"Big "}<span style={{ color: "#ffff00" }}>{"Foot"}</span>{" spotted!"}</>}');
+    expect(code).toContain('{(frame < 30 ? "Ready" : <><span style={{ color: "#00ff00" }}>{"Go"}</span>{"!"}</>)}');
+  });
+});
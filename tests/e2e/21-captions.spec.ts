@@ -0,0 +1,262 @@
+/**
+ * Captions
+ *
+ * Grouping transcript words into timed caption lines, caption styles and
+ * placement, the Captions track and word timings from speech-to-text.
+ *
+ * NOTE: Pure tests, no browser or dev servers required
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  alignWordsToClip,
+  buildCaptions,
+  getReplacedCaptions,
+  groupCaptionLines,
+  validateTranscriptWords,
+  withCaptionTrack,
+  type CaptionElement,
+} from '../../lib/composition-engine/captions';
+import { executeTransaction } from '../../lib/composition-engine/executor';
+import { DEFAULT_TRACKS } from '../../lib/composition-engine/timeline';
+import { parseWhisperTranscript, streamMultipartForm } from '../../lib/speech/engines';
+import type { CompositionElement, CompositionIR, TranscriptWord } from '../../types/composition-ir';
+
+const metadata = { width: 1920, height: 1080, fps: 30, durationInFrames: 600 };
+
+// "Big Foot spotted. It was huge, really huge!" then a pause
+const words: TranscriptWord[] = [
+  { text: 'Big', start: 0, end: 0.3 },
+  { text: 'Foot', start: 0.3, end: 0.6 },
+  { text: 'spotted.', start: 0.6, end: 1.2 },
+  { text: 'It', start: 1.4, end: 1.5 },
+  { text: 'was', start: 1.5, end: 1.7 },
+  { text: 'huge,', start: 1.7, end: 2.1 },
+  { text: 'really', start: 2.2, end: 2.5 },
+  { text: 'huge!', start: 2.5, end: 3 },
+  { text: 'Wow', start: 5, end: 5.4 },
+];
+
+test.describe('Caption Lines', () => {
+  test('lines break at sentence ends, pauses and the character budget', () => {
+    expect(groupCaptionLines(words).map((line) => line.text)).toEqual([
+      'Big Foot spotted.',
+      'It was huge, really huge!',
+      'Wow',
+    ]);
+    // Clauses break once the line is half full
+    expect(groupCaptionLines(words, { maxChars: 18 }).map((line) => line.text)).toEqual([
+      'Big Foot spotted.',
+      'It was huge,',
+      'really huge!',
+      'Wow',
+    ]);
+
+    const [first] = groupCaptionLines(words);
+    expect(first).toMatchObject({ start: 0, end: 1.2 });
+    expect(first.words).toHaveLength(3);
+  });
+
+  test('lines never run longer than the maximum duration', () => {
+    const slow = Array.from({ length: 6 }, (_, i) => ({ text: `w${i}`, start: i, end: i + 0.5 }));
+    expect(groupCaptionLines(slow, { maxGap: 1 }).map((line) => line.words.length)).toEqual([3, 3]);
+  });
+
+  test('words are aligned to where a clip plays', () => {
+    const clip: CompositionElement = {
+      id: 'interview',
+      type: 'video',
+      from: 0,
+      durationInFrames: 60,
+      properties: { src: 'video.m3u8', startFrom: 30, playbackRate: 2 },
+    };
+
+    // The clip plays source seconds 1 to 5 at double speed, starting at frame 90
+    expect(alignWordsToClip(words, clip, 90, 30)).toEqual([
+      { text: 'It', start: 3.2, end: 3.25 },
+      { text: 'was', start: 3.25, end: 3.35 },
+      { text: 'huge,', start: 3.35, end: 3.55 },
+      { text: 'really', start: 3.6, end: 3.75 },
+      { text: 'huge!', start: 3.75, end: 4 },
+    ]);
+  });
+});
+
+test.describe('Caption Elements', () => {
+  test('captions hold until the next line unless there is a pause', () => {
+    const result = buildCaptions(words, metadata, { startFrame: 30 });
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.captions.map(({ label, from, durationInFrames }) => ({ label, from, durationInFrames }))).toEqual([
+      { label: 'Caption 1', from: 30, durationInFrames: 42 }, // Bridged to the next caption
+      { label: 'Caption 2', from: 72, durationInFrames: 48 },
+      { label: 'Caption 3', from: 180, durationInFrames: 15 }, // Held for the minimum
+    ]);
+  });
+
+  test('subtitles sit centered in the bottom of the title-safe area', () => {
+    const result = buildCaptions(words, metadata);
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.captions[0].properties).toEqual({
+      text: 'Big Foot spotted.',
+      fontSize: 44,
+      strokeWidth: 2,
+      shadow: { blur: 6, offsetY: 2 },
+      color: '#ffffff',
+      textAlign: 'center',
+      x: 192,
+      y: 919, // 972 - one 44px line at 1.2
+      width: 1536,
+    });
+
+    const top = buildCaptions(words, metadata, { position: 'top' });
+    if ('error' in top) throw new Error(top.error);
+    expect(top.captions[0].properties.y).toBe(108);
+  });
+
+  test('styles scale with the frame and add their animations', () => {
+    const vertical = { ...metadata, width: 1080, height: 1920 };
+    const reveal = buildCaptions(words, vertical, { style: 'reveal' });
+    if ('error' in reveal) throw new Error(reveal.error);
+
+    const caption = reveal.captions[1];
+    // The bold styles fit fewer characters per caption
+    expect(caption.properties).toMatchObject({ text: 'IT WAS HUGE,', fontSize: 72, fontWeight: 'bold', strokeWidth: 4 });
+    expect(caption.animations).toEqual([
+      {
+        property: 'text',
+        keyframes: [
+          { frame: 0, value: 'IT' },
+          { frame: 3, value: 'IT WAS' },
+          { frame: 9, value: 'IT WAS HUGE,' },
+        ],
+        easing: 'linear',
+      },
+    ]);
+
+    const pop = buildCaptions(words, metadata, { style: 'pop' });
+    if ('error' in pop) throw new Error(pop.error);
+    expect(pop.captions[0].animations?.[0]).toMatchObject({ property: 'scale', easing: 'linear' });
+    expect(pop.captions[0].animations?.[0].keyframes[0]).toMatchObject({ frame: 0, value: 0 });
+  });
+
+  test('invalid transcripts and options are rejected', () => {
+    expect(validateTranscriptWords([])).toBe('Transcript has no words');
+    expect(validateTranscriptWords([{ text: 'Hi', start: 2, end: 1 }])).toContain('Invalid timing for "Hi"');
+    expect(buildCaptions(words, metadata, { style: 'comic' as never })).toEqual({
+      error: 'Unknown caption style "comic". Available: subtitle, bold, minimal, pop, reveal',
+    });
+    expect(buildCaptions(words, metadata, { startFrame: -10 })).toEqual({ error: "Captions can't start before frame 0" });
+  });
+});
+
+test.describe('Captions Track', () => {
+  test('captions go on one Captions track above the overlays', () => {
+    const { tracks, track } = withCaptionTrack(DEFAULT_TRACKS, 'track_captions');
+    expect(track).toEqual({ id: 'track_captions', name: 'Captions', kind: 'overlay' });
+    expect(tracks.map((t) => t.id)).toEqual(['track_captions', ...DEFAULT_TRACKS.map((t) => t.id)]);
+
+    // Reused afterwards
+    expect(withCaptionTrack(tracks, 'track_other')).toEqual({ tracks, track });
+  });
+
+  test('new captions replace old ones over the same frames in one undo step', () => {
+    const old = (id: string, from: number): CompositionElement => ({
+      id,
+      type: 'text',
+      from,
+      durationInFrames: 30,
+      trackId: 'track_captions',
+      properties: { text: id },
+    });
+    const { tracks } = withCaptionTrack(DEFAULT_TRACKS, 'track_captions');
+    const ir: CompositionIR = {
+      id: 'comp_captions',
+      version: 1,
+      metadata,
+      elements: [old('early', 0), old('late', 300), { ...old('title', 0), trackId: undefined }],
+      patches: [],
+      tracks,
+    };
+
+    const result = buildCaptions(words, metadata, { startFrame: 10 });
+    if ('error' in result) throw new Error(result.error);
+    const replaced = getReplacedCaptions(ir.elements, 'track_captions', result.captions);
+    expect(replaced.map((element) => element.id)).toEqual(['early']);
+
+    const executed = executeTransaction(ir, [
+      ...replaced.map((element) => ({ operation: 'delete' as const, selector: { type: 'byId' as const, id: element.id }, changes: {} })),
+      ...result.captions.map((caption: CaptionElement) => ({
+        operation: 'add' as const,
+        selector: { type: 'byId' as const, id: '' },
+        changes: { ...caption, trackId: 'track_captions' },
+      })),
+    ]);
+
+    expect(executed.success).toBe(true);
+    const elements = executed.updatedIR!.elements;
+    expect(elements.map((element) => element.properties.text)).toEqual([
+      'late',
+      'title',
+      'Big Foot spotted.',
+      'It was huge, really huge!',
+      'Wow',
+    ]);
+    expect(elements.slice(2).every((element) => element.trackId === 'track_captions')).toBe(true);
+    expect(new Set(executed.patches!.map((patch) => patch.groupId)).size).toBe(1);
+  });
+});
+
+test.describe('Speech-to-Text', () => {
+  test('word timings are read from verbose transcriptions', () => {
+    expect(
+      parseWhisperTranscript({
+        language: 'en',
+        words: [
+          { word: ' Hello', start: 0.1, end: 0.4 },
+          { word: ' ', start: 0.4, end: 0.4 },
+          { word: 'world.', start: 0.5, end: 0.9 },
+        ],
+      })
+    ).toEqual({
+      words: [
+        { text: 'Hello', start: 0.1, end: 0.4 },
+        { text: 'world.', start: 0.5, end: 0.9 },
+      ],
+      language: 'en',
+    });
+
+    // Servers that nest words in segments
+    expect(
+      parseWhisperTranscript({ segments: [{ words: [{ word: 'Hi', start: 0, end: 0.2 }] }, { text: 'no words' }] }).words
+    ).toEqual([{ text: 'Hi', start: 0, end: 0.2 }]);
+  });
+
+  test('files stream into the form upload chunk by chunk', async () => {
+    const chunks = ['RIFF', '....', 'WAVE'];
+    const file = new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(new TextEncoder().encode(chunk)));
+        controller.close();
+      },
+    });
+
+    const body = streamMultipartForm('b0undary', [['model', 'whisper-1'], ['language', 'en']], {
+      name: 'file',
+      filename: 'my "talk".wav',
+      mimeType: 'audio/wav',
+      body: file,
+    });
+    const form = await new Response(body, {
+      headers: { 'Content-Type': 'multipart/form-data; boundary=b0undary' },
+    }).formData();
+
+    expect(form.get('model')).toBe('whisper-1');
+    expect(form.get('language')).toBe('en');
+    const uploaded = form.get('file') as File;
+    expect(uploaded.name).toBe('my _talk_.wav');
+    expect(uploaded.type).toBe('audio/wav');
+    expect(await uploaded.text()).toBe('RIFF....WAVE');
+  });
+});
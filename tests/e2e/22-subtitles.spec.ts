@@ -0,0 +1,236 @@
+/**
+ * Subtitles
+ *
+ * SRT and WebVTT parsing into timed cues, imported cues becoming styled
+ * captions, and exporting a composition's text back to subtitle files.
+ *
+ * NOTE: Pure tests, no browser or dev servers required
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  detectSubtitleFormat,
+  exportSubtitles,
+  formatSubtitleTimecode,
+  getSubtitleCues,
+  parseSubtitles,
+} from '../../lib/composition-engine/subtitles';
+import { insertCaptions, styleCaptions } from '../../lib/composition-engine/captions';
+import { timecodeToFrames, undoPatchGroup } from '../../lib/composition-engine/ir-helpers';
+import { DEFAULT_TRACKS } from '../../lib/composition-engine/timeline';
+import type { CompositionElement, CompositionIR } from '../../types/composition-ir';
+
+const metadata = { width: 1920, height: 1080, fps: 30, durationInFrames: 600 };
+
+const SRT = `1
+00:00:01,000 --> 00:00:02,500
+<i>Big Foot</i> spotted.
+
+2
+00:00:03,000 --> 00:00:05,000
+It was huge,
+really huge!
+`;
+
+const VTT = `\uFEFFWEBVTT - Interview
+
+NOTE Exported from the edit
+
+intro
+00:01.000 --> 00:02.500 align:center
+<v Narrator>Big <00:00:01.500><c.yellow>Foot</c> spotted.</v>
+
+00:00:03.000 --> 00:00:05.000
+Fish &amp; chips
+`;
+
+const text = (id: string, from: number, durationInFrames: number, value: string): CompositionElement => ({
+  id,
+  type: 'text',
+  from,
+  durationInFrames,
+  properties: { text: value },
+});
+
+test.describe('Subtitle Parsing', () => {
+  test('timecodes with hours, commas and fractions convert to frames', () => {
+    expect(timecodeToFrames('00:00:01,000', 30)).toBe(30);
+    expect(timecodeToFrames('01:00:00.500', 30)).toBe(108015);
+    expect(timecodeToFrames('0:01.1', 30)).toBe(33);
+    expect(timecodeToFrames('00:02.5', 24)).toBe(60);
+  });
+
+  test('SRT cues keep their text without markup', () => {
+    expect(parseSubtitles(SRT, 30)).toEqual({
+      format: 'srt',
+      cues: [
+        { text: 'Big Foot spotted.', from: 30, durationInFrames: 45 },
+        { text: 'It was huge,\nreally huge!', from: 90, durationInFrames: 60 },
+      ],
+    });
+
+    // Windows line endings and a start offset
+    const shifted = parseSubtitles(SRT.replace(/\n/g, '\r\n'), 30, 100);
+    if ('error' in shifted) throw new Error(shifted.error);
+    expect(shifted.cues.map((cue) => cue.from)).toEqual([130, 190]);
+  });
+
+  test('WebVTT headers, notes, identifiers and settings are skipped', () => {
+    expect(detectSubtitleFormat(VTT)).toBe('vtt');
+    expect(detectSubtitleFormat('1\n00:00:01,000 --> 00:00:02,000\nHi', 'clip.srt')).toBe('srt');
+
+    expect(parseSubtitles(VTT, 30)).toEqual({
+      format: 'vtt',
+      cues: [
+        { text: 'Big Foot spotted.', from: 30, durationInFrames: 45 },
+        { text: 'Fish & chips', from: 90, durationInFrames: 60 },
+      ],
+    });
+  });
+
+  test('files without valid cues are rejected', () => {
+    expect(parseSubtitles('WEBVTT\n\nNOTE nothing here\n', 30)).toEqual({
+      error: 'No subtitles found in this WebVTT file',
+    });
+    expect(parseSubtitles('1\n00:00:01 --> 00:00:02\nHi\n', 30)).toEqual({
+      error: 'Invalid cue timing: "00:00:01 --> 00:00:02"',
+    });
+  });
+});
+
+test.describe('Subtitle Captions', () => {
+  test('imported cues are styled like generated captions', () => {
+    const parsed = parseSubtitles(SRT, 30);
+    if ('error' in parsed) throw new Error(parsed.error);
+
+    const result = styleCaptions(parsed.cues, metadata);
+    if ('error' in result) throw new Error(result.error);
+    expect(result.captions[0]).toEqual({
+      type: 'text',
+      label: 'Caption 1',
+      from: 30,
+      durationInFrames: 45,
+      properties: {
+        text: 'Big Foot spotted.',
+        fontSize: 44,
+        strokeWidth: 2,
+        shadow: { blur: 6, offsetY: 2 },
+        color: '#ffffff',
+        textAlign: 'center',
+        x: 192,
+        y: 919,
+        width: 1536,
+      },
+    });
+    // Two lines sit higher so they end at the same place
+    expect(result.captions[1].properties.y).toBe(866);
+  });
+
+  test('word reveal spreads words over cues without word timings', () => {
+    const result = styleCaptions([{ text: 'It was\nhuge', from: 0, durationInFrames: 30 }], metadata, {
+      style: 'reveal',
+    });
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.captions[0].animations?.[0].keyframes).toEqual([
+      { frame: 0, value: 'IT' },
+      { frame: 10, value: 'IT WAS' },
+      { frame: 20, value: 'IT WAS\nHUGE' },
+    ]);
+  });
+
+  test('captions are inserted on the Captions track as one undo step', () => {
+    const ir: CompositionIR = {
+      id: 'comp_subtitles',
+      version: 1,
+      metadata,
+      elements: [],
+      patches: [],
+      tracks: DEFAULT_TRACKS,
+    };
+    const parsed = parseSubtitles(SRT, 30);
+    if ('error' in parsed) throw new Error(parsed.error);
+    const styled = styleCaptions(parsed.cues, metadata);
+    if ('error' in styled) throw new Error(styled.error);
+
+    const first = insertCaptions(ir, styled.captions, { newTrackId: 'track_captions' });
+    if ('error' in first) throw new Error(first.error);
+    expect(first).toMatchObject({ trackId: 'track_captions', replaced: 0 });
+    expect(first.elementIds).toHaveLength(2);
+    expect(new Set(first.updatedIR.patches.map((patch) => patch.groupId)).size).toBe(1);
+
+    // Undo removes the captions and the Captions track together
+    const undone = undoPatchGroup(first.updatedIR)!;
+    expect(undone.elements).toEqual([]);
+    expect(undone.tracks).toEqual(DEFAULT_TRACKS);
+    const inserted = insertCaptions({ ...ir, tracks: undefined }, styled.captions, { newTrackId: 'track_captions' });
+    if ('error' in inserted) throw new Error(inserted.error);
+    expect('tracks' in undoPatchGroup(inserted.updatedIR)!).toBe(false);
+
+    // Importing again replaces them instead of stacking a second copy
+    const again = insertCaptions(first.updatedIR, styled.captions, { newTrackId: 'track_other' });
+    if ('error' in again) throw new Error(again.error);
+    expect(again).toMatchObject({ trackId: 'track_captions', replaced: 2 });
+    expect(again.updatedIR.elements).toHaveLength(2);
+
+    expect(insertCaptions(ir, [], { newTrackId: 'track_captions' })).toEqual({ error: 'No captions to add' });
+  });
+});
+
+test.describe('Subtitle Export', () => {
+  const ir: CompositionIR = {
+    id: 'comp_export',
+    version: 1,
+    metadata,
+    elements: [
+      text('title', 0, 45, 'Fish & <chips>'),
+      { id: 'clip', type: 'video', from: 0, durationInFrames: 600, properties: { src: 'video.m3u8' } },
+      {
+        id: 'intro',
+        type: 'sequence',
+        from: 60,
+        durationInFrames: 120,
+        properties: {},
+        children: [text('nested', 30, 30, 'Line one\n\nLine two')],
+      },
+      { ...text('outro', 570, 90, 'The end'), trackId: 'overlay' },
+      { ...text('hidden', 100, 30, 'Secret'), trackId: 'notes' },
+    ],
+    patches: [],
+    tracks: [...DEFAULT_TRACKS, { id: 'notes', name: 'Notes', kind: 'overlay', hidden: true }],
+  };
+
+  test('timestamps use each format\'s separator', () => {
+    expect(formatSubtitleTimecode(3723 * 30 + 15, 30, 'srt')).toBe('01:02:03,500');
+    expect(formatSubtitleTimecode(1, 30, 'vtt')).toBe('00:00:00.033');
+  });
+
+  test('text elements export as rendered, nested ones included', () => {
+    expect(getSubtitleCues(ir)).toEqual([
+      { text: 'Fish & <chips>', from: 0, durationInFrames: 45 },
+      { text: 'Line one\nLine two', from: 90, durationInFrames: 30 },
+      { text: 'The end', from: 570, durationInFrames: 30 }, // Cut at the end of the composition
+    ]);
+    expect(getSubtitleCues(ir, { trackId: 'overlay' }).map((cue) => cue.text)).toEqual(['The end']);
+  });
+
+  test('SRT and WebVTT files round-trip through the parser', () => {
+    const srt = exportSubtitles(ir, 'srt');
+    expect(srt).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nFish & <chips>\n\n' +
+        '2\n00:00:03,000 --> 00:00:04,000\nLine one\nLine two\n\n' +
+        '3\n00:00:19,000 --> 00:00:20,000\nThe end\n'
+    );
+
+    const vtt = exportSubtitles(ir, 'vtt');
+    expect(vtt.startsWith('WEBVTT\n\n00:00:00.000 --> 00:00:01.500\nFish &amp; &lt;chips&gt;\n')).toBe(true);
+
+    for (const file of [srt, vtt]) {
+      const parsed = parseSubtitles(file, 30);
+      if ('error' in parsed) throw new Error(parsed.error);
+      expect(parsed.cues).toEqual(getSubtitleCues(ir));
+    }
+
+    expect(exportSubtitles({ ...ir, elements: [] }, 'vtt')).toBe('WEBVTT\n');
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Audio Mix
+ *
+ * Volume envelopes, fade handles, ducking music under dialogue and master
+ * gain, and the compiled volume callback evaluating the same mix.
+ *
+ * NOTE: Pure tests, no browser or dev servers required
+ */
+
+import { test, expect } from '@playwright/test';
+import { Easing, interpolate, spring } from 'remotion';
+import {
+  duckMusic,
+  evaluateVolume,
+  getDialogueRanges,
+  getStaticVolume,
+  getVolumeEnvelopes,
+  getVolumeProp,
+  setVolumeKeyframes,
+  validateAudioMix,
+  validateAudioProperties,
+} from '../../lib/composition-engine/audio';
+import { compileIRToRemotionCode } from '../../lib/composition-engine/compiler';
+import { executeEditPlan } from '../../lib/composition-engine/executor';
+import { addPatch, createSettingsPatch, redoPatchGroup, undoPatchGroup } from '../../lib/composition-engine/ir-helpers';
+import { applyTrackState, DEFAULT_TRACKS } from '../../lib/composition-engine/timeline';
+import type { AudioMix, CompositionElement, CompositionIR } from '../../types/composition-ir';
+import { clip, composition } from './helpers';
+
+const audio = (id: string, from: number, durationInFrames: number, properties: Record<string, any> = {}) =>
+  clip(id, from, durationInFrames, { type: 'audio', properties: { src: `${id}.mp3`, ...properties } });
+
+// Music under a voiceover: two lines 20 frames apart and one later line
+const scored = composition([
+  audio('music', 0, 300, { role: 'music', volume: 0.8 }),
+  audio('line1', 60, 60, { role: 'dialogue' }),
+  audio('line2', 140, 40, { role: 'dialogue' }),
+  audio('line3', 250, 30, { role: 'dialogue' }),
+]);
+
+/**
+ * Evaluate a clip's compiled volume callback with Remotion's own helpers
+ */
+function compiledVolume(code: string, src: string): (frame: number) => number {
+  const clip = code.slice(code.indexOf(`src="${src}"`));
+  const expression = clip.match(/volume=\{\(frame: number\) => (.*)\}\n/)![1];
+  return new Function('interpolate', 'Easing', 'spring', `return (frame) => ${expression};`)(
+    interpolate,
+    Easing,
+    spring
+  );
+}
+
+test.describe('Volume Envelopes', () => {
+  test('fades ramp the clip in and out and master gain scales it', () => {
+    const ir = composition([audio('a', 30, 100, { fadeInFrames: 10, fadeOutFrames: 20 })], { mix: { masterGain: 0.5 } });
+    const envelope = getVolumeEnvelopes(ir).get('a')!;
+
+    // Frames are relative to the clip, like Remotion's volume callback
+    expect(evaluateVolume(envelope, 0)).toBe(0);
+    expect(evaluateVolume(envelope, 5)).toBe(0.25);
+    expect(evaluateVolume(envelope, 50)).toBe(0.5);
+    expect(evaluateVolume(envelope, 90)).toBe(0.25);
+    expect(evaluateVolume(envelope, 100)).toBe(0);
+    expect(getStaticVolume(envelope)).toBeNull();
+  });
+
+  test('clips without automation keep a plain volume', () => {
+    const ir = composition([audio('a', 0, 60, { volume: 0.8 })], { mix: { masterGain: 0.5 } });
+    const envelope = getVolumeEnvelopes(ir).get('a')!;
+
+    expect(getStaticVolume(envelope)).toBe(0.4);
+    expect(getVolumeProp(envelope)).toBe(0.4);
+    expect(getVolumeProp(undefined, 0.3)).toBe(0.3);
+    expect(typeof getVolumeProp({ ...envelope, fadeIn: 10 })).toBe('function');
+  });
+
+  test('volume keyframes replace the clip volume and keep other animations', () => {
+    const element: CompositionElement = {
+      ...audio('a', 0, 90, { volume: 0.5 }),
+      animations: [
+        { property: 'opacity', keyframes: [{ frame: 0, value: 0 }, { frame: 10, value: 1 }] },
+        { property: 'volume', keyframes: [{ frame: 0, value: 0 }, { frame: 10, value: 1 }] },
+      ],
+    };
+
+    const animations = setVolumeKeyframes(element, [
+      { frame: 30, value: 0.2 },
+      { frame: 0, value: 1 },
+    ]);
+    expect(animations.map((animation) => animation.property)).toEqual(['opacity', 'volume']);
+    expect(animations[1].keyframes.map((kf) => kf.frame)).toEqual([0, 30]);
+
+    const envelope = getVolumeEnvelopes(composition([{ ...element, animations }])).get('a')!;
+    expect(evaluateVolume(envelope, 15)).toBeCloseTo(0.6, 10);
+    expect(evaluateVolume(envelope, 60)).toBeCloseTo(0.2, 10);
+
+    // No points removes the envelope
+    expect(setVolumeKeyframes(element, []).map((animation) => animation.property)).toEqual(['opacity']);
+  });
+
+  test('muted tracks drop volume keyframes with the volume', () => {
+    const ir: CompositionIR = {
+      ...composition([
+        {
+          ...audio('a', 0, 60, { volume: 0.8 }),
+          trackId: 'audio',
+          animations: [{ property: 'volume', keyframes: [{ frame: 0, value: 0 }, { frame: 30, value: 1 }] }],
+        },
+      ]),
+      tracks: DEFAULT_TRACKS.map((track) => (track.id === 'audio' ? { ...track, muted: true } : track)),
+    };
+
+    const envelope = getVolumeEnvelopes(applyTrackState(ir)).get('a')!;
+    expect(getStaticVolume(envelope)).toBe(0);
+  });
+});
+
+test.describe('Ducking', () => {
+  test('dialogue lines close together duck as one window', () => {
+    // Attack (8 frames) plus release (15) bridges the 20 frame pause
+    expect(getDialogueRanges(scored.elements, 23)).toEqual([
+      { start: 60, end: 180 },
+      { start: 250, end: 280 },
+    ]);
+    expect(getDialogueRanges(scored.elements)).toHaveLength(3);
+  });
+
+  test('music dips under dialogue and comes back up after it', () => {
+    const envelopes = getVolumeEnvelopes(scored);
+    const music = envelopes.get('music')!;
+
+    expect(music.ducking).toEqual({
+      level: 0.25,
+      attack: 8,
+      release: 15,
+      windows: [
+        { start: 60, end: 180 },
+        { start: 250, end: 280 },
+      ],
+    });
+    expect(evaluateVolume(music, 40)).toBeCloseTo(0.8, 10);
+    expect(evaluateVolume(music, 56)).toBeCloseTo(0.5, 10); // Halfway through the attack
+    expect(evaluateVolume(music, 100)).toBeCloseTo(0.2, 10);
+    expect(evaluateVolume(music, 160)).toBeCloseTo(0.2, 10); // Still down between lines
+    expect(evaluateVolume(music, 195)).toBeCloseTo(0.8, 10);
+
+    // Dialogue itself is never ducked
+    expect(getStaticVolume(envelopes.get('line1')!)).toBe(1);
+  });
+
+  test('windows follow nested dialogue and stop for muted or disabled ducking', () => {
+    const nested = composition([
+      audio('music', 30, 200, { role: 'music' }),
+      {
+        id: 'seq',
+        type: 'sequence',
+        from: 100,
+        durationInFrames: 100,
+        properties: {},
+        children: [audio('voice', 20, 30, { role: 'dialogue' })],
+      },
+    ]);
+    // Relative to the music clip
+    expect(getVolumeEnvelopes(nested).get('music')!.ducking!.windows).toEqual([{ start: 90, end: 120 }]);
+
+    const disabled = { ...scored, mix: { ducking: { enabled: false } } };
+    expect(getVolumeEnvelopes(disabled).get('music')!.ducking).toBeUndefined();
+
+    const silenced = composition(scored.elements.map((el) => (el.id === 'music' ? el : { ...el, trackId: 'muted' })));
+    silenced.tracks = [...DEFAULT_TRACKS, { id: 'muted', name: 'Voice', kind: 'audio', muted: true }];
+    expect(getVolumeEnvelopes(applyTrackState(silenced)).get('music')!.ducking).toBeUndefined();
+  });
+
+  test('ducking tags roles and turns ducking on in one undo step', () => {
+    const ir = composition([audio('music', 0, 300), audio('line1', 60, 60)], { mix: { masterGain: 0.9 } });
+
+    const result = duckMusic(ir, { musicElementIds: ['music'], dialogueElementIds: ['line1'], level: 0.1 });
+    if ('error' in result) throw new Error(result.error);
+
+    const ducked = result.updatedIR;
+    expect(ducked.mix).toEqual({ masterGain: 0.9, ducking: { level: 0.1, enabled: true } });
+    expect(ducked.elements.map((el) => el.properties.role)).toEqual(['music', 'dialogue']);
+    expect(getVolumeEnvelopes(ducked).get('music')!.ducking!.windows).toHaveLength(1);
+
+    // Undo removes the roles and the ducking together
+    const undone = undoPatchGroup(ducked)!;
+    expect(undone.elements).toEqual(ir.elements);
+    expect(undone.mix).toEqual(ir.mix);
+    expect(undoPatchGroup(undone)).toBeNull();
+    expect(redoPatchGroup(undone)!.mix).toEqual(ducked.mix);
+
+    expect(duckMusic(ir, { musicElementIds: ['x'], dialogueElementIds: [] })).toEqual({
+      error: 'Element x not found in composition',
+    });
+    expect(duckMusic(ir, { musicElementIds: [], dialogueElementIds: [], level: 2 })).toEqual({
+      error: 'Ducking level must be between 0 and 1',
+    });
+  });
+
+  test('mix changes undo back to the default mix', () => {
+    const ir = composition([audio('music', 0, 300)]);
+    const mix = { masterGain: 0.5 };
+    const updated = addPatch(
+      { ...ir, mix, version: ir.version + 1 },
+      { ...createSettingsPatch(ir, { mix }), description: 'Set master gain to 50%' }
+    );
+
+    const undone = undoPatchGroup(updated)!;
+    expect('mix' in undone).toBe(false);
+    expect(getStaticVolume(getVolumeEnvelopes(undone).get('music')!)).toBe(1);
+    expect(redoPatchGroup(undone)!.mix).toEqual(mix);
+  });
+});
+
+test.describe('Compiled Volume', () => {
+  test('compiled callbacks evaluate the same mix as the runtime', () => {
+    const ir = {
+      ...scored,
+      elements: [
+        ...scored.elements,
+        {
+          ...audio('sting', 200, 90, { fadeInFrames: 6, fadeOutFrames: 30 }),
+          animations: [{ property: 'volume', keyframes: [{ frame: 0, value: 0.5 }, { frame: 45, value: 1 }] }],
+        },
+      ],
+      mix: { masterGain: 0.9 },
+    } as CompositionIR;
+    const code = compileIRToRemotionCode(ir);
+    const envelopes = getVolumeEnvelopes(ir);
+
+    for (const id of ['music', 'sting']) {
+      const volume = compiledVolume(code, `${id}.mp3`);
+      for (let frame = 0; frame <= 300; frame += 3) {
+        expect(volume(frame)).toBeCloseTo(evaluateVolume(envelopes.get(id)!, frame), 10);
+      }
+    }
+
+    // Clips with a plain volume stay plain, and volume isn't a CSS style
+    expect(code).toContain('src="line1.mp3"\n          volume={0.9}');
+    expect(code).not.toContain('volume:');
+  });
+});
+
+test.describe('Audio Edits', () => {
+  test('splitting keeps fades at the outer ends of the clip', () => {
+    const ir = composition([audio('a', 0, 100, { fadeInFrames: 10, fadeOutFrames: 20 })]);
+    const result = executeEditPlan(
+      ir,
+      { operation: 'split', selector: { type: 'byId', id: 'a' }, changes: { atFrame: 40 } },
+      { generateId: () => 'b' }
+    );
+
+    expect(result.success, result.error).toBe(true);
+    const [first, second] = ['a', 'b'].map((id) => result.updatedIR!.elements.find((el) => el.id === id)!);
+    expect(first.properties).toMatchObject({ fadeInFrames: 10, fadeOutFrames: 0 });
+    expect(second.properties).toMatchObject({ fadeInFrames: 0, fadeOutFrames: 20 });
+  });
+
+  test('invalid volumes, fades, roles and mixes are rejected', () => {
+    expect(validateAudioProperties({ volume: 0.5, fadeInFrames: 10, role: 'music' })).toBeNull();
+    expect(validateAudioProperties({ volume: null, role: null })).toBeNull();
+    expect(validateAudioProperties({ volume: 1.5 })).toBe('Volume must be between 0 and 1');
+    expect(validateAudioProperties({ fadeOutFrames: -1 })).toBe("Fade out can't be negative");
+    expect(validateAudioProperties({ role: 'narration' })).toBe(
+      'Invalid audio role: narration. Use dialogue, music, effects'
+    );
+
+    expect(validateAudioMix({ masterGain: 1, ducking: { level: 0.1, attack: 0 } })).toBeNull();
+    expect(validateAudioMix({ masterGain: 2 })).toBe('Master gain must be between 0 and 1');
+    expect(validateAudioMix({ ducking: { release: -1 } })).toBe("Ducking release can't be negative");
+  });
+});
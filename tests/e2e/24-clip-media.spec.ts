@@ -0,0 +1,112 @@
+/**
+ * Clip Media
+ *
+ * Waveform peaks computed from decoded audio, the bars a clip draws for the
+ * part of the asset it plays, and filmstrip thumbnails for video clips.
+ *
+ * NOTE: Pure tests, no browser or dev servers required
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  computeWaveformPeaks,
+  findClipAsset,
+  getAssetFileUrl,
+  getClipSourceRange,
+  getFilmstripTiles,
+  getStreamThumbnailUrl,
+  getWaveformBars,
+  MAX_FILMSTRIP_TILES,
+  MAX_WAVEFORM_PEAKS,
+  validateWaveform,
+} from '../../lib/composition-engine/clip-media';
+import type { CompositionElement } from '../../types/composition-ir';
+
+const STREAM = 'https://customer-abc.cloudflarestream.com/uid123';
+
+const clip = (properties: Record<string, any> = {}, durationInFrames = 90): CompositionElement => ({
+  id: 'clip',
+  type: 'video',
+  from: 0,
+  durationInFrames,
+  properties: { src: `${STREAM}/manifest/video.m3u8`, ...properties },
+});
+
+test.describe('Waveforms', () => {
+  test('peaks are the loudest samples of all channels, scaled to 1', () => {
+    // One second at 100 Hz: quiet left channel, a loud blip on the right
+    const left = new Float32Array(100).fill(0.1);
+    const right = new Float32Array(100);
+    right[10] = -0.5;
+
+    const waveform = computeWaveformPeaks([left, right], 100);
+    expect(waveform.peaksPerSecond).toBe(50);
+    expect(waveform.peaks).toHaveLength(50);
+    expect(waveform.peaks[5]).toBe(1);
+    expect(waveform.peaks[0]).toBe(0.2);
+
+    expect(computeWaveformPeaks([new Float32Array(100)], 100).peaks.every((peak) => peak === 0)).toBe(true);
+  });
+
+  test('long assets get fewer peaks per second to fit in the asset row', () => {
+    const hour = computeWaveformPeaks([new Float32Array(3600 * 10)], 10);
+    expect(hour.peaks).toHaveLength(MAX_WAVEFORM_PEAKS);
+    expect(hour.peaksPerSecond).toBeCloseTo(MAX_WAVEFORM_PEAKS / 3600, 10);
+    expect(validateWaveform(hour)).toBeNull();
+
+    expect(validateWaveform({ peaksPerSecond: 0, peaks: [] })).toBe('Waveform needs a positive peaks per second');
+    expect(validateWaveform({ peaksPerSecond: 50, peaks: [1.5] })).toBe('Waveform peaks must be between 0 and 1');
+  });
+
+  test('clips draw the part of the waveform they play', () => {
+    const waveform = { peaksPerSecond: 10, peaks: [0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9] };
+
+    // Trimmed to start 0.4s in and played at double speed
+    const range = getClipSourceRange(clip({ startFrom: 12, playbackRate: 2 }, 6), 30);
+    expect(range.start).toBeCloseTo(0.4, 10);
+    expect(range.end).toBeCloseTo(0.8, 10);
+
+    expect(getWaveformBars(waveform, range.start, range.end, 2)).toEqual([0.5, 0.7]);
+    // More bars than peaks repeat them; past the end of the asset is silent
+    expect(getWaveformBars(waveform, 0.8, 1.2, 4)).toEqual([0.8, 0.9, 0, 0]);
+  });
+});
+
+test.describe('Filmstrips', () => {
+  test('thumbnail URLs come from the Stream playback or thumbnail URL', () => {
+    expect(getStreamThumbnailUrl({ playbackUrl: `${STREAM}/manifest/video.m3u8` }, 1.5, 64)).toBe(
+      `${STREAM}/thumbnails/thumbnail.jpg?time=1.5s&height=64`
+    );
+    expect(getStreamThumbnailUrl({ thumbnailUrl: `${STREAM}/thumbnails/thumbnail.jpg?time=0s` }, 2, 32)).toBe(
+      `${STREAM}/thumbnails/thumbnail.jpg?time=2s&height=32`
+    );
+    expect(getStreamThumbnailUrl({ playbackUrl: 'https://media.r2.dev/music.mp3' }, 0, 32)).toBeNull();
+  });
+
+  test('tiles cover the clip at the zoom level and show its source times', () => {
+    // 3 seconds trimmed 1 second in, 2 px per frame: 180 px in 4 tiles
+    const tiles = getFilmstripTiles(clip({ startFrom: 30 }), 30, 2, 57);
+    expect(tiles.map((tile) => tile.left)).toEqual([0, 45, 90, 135]);
+    expect(tiles.map((tile) => tile.seconds)).toEqual([1, 1.8, 2.5, 3.3]);
+
+    // Long clips at high zoom are capped
+    expect(getFilmstripTiles(clip({}, 36000), 30, 16, 57)).toHaveLength(MAX_FILMSTRIP_TILES);
+  });
+
+  test('clips find their asset and its downloadable file', () => {
+    const assets = [
+      { _id: 'stream', streamId: 'uid123', playbackUrl: `${STREAM}/manifest/video.m3u8` },
+      { _id: 'music', playbackUrl: 'https://media.r2.dev/music.mp3' },
+    ];
+
+    expect(findClipAsset(assets, clip())?._id).toBe('stream');
+    expect(findClipAsset(assets, clip({ src: 'https://elsewhere/x.mp4' }))).toBeUndefined();
+
+    // HLS can't be decoded; Stream videos need their MP4
+    expect(getAssetFileUrl(assets[0])).toBeNull();
+    expect(getAssetFileUrl({ ...assets[0], downloadUrl: `${STREAM}/downloads/default.mp4` })).toBe(
+      `${STREAM}/downloads/default.mp4`
+    );
+    expect(getAssetFileUrl(assets[1])).toBe('https://media.r2.dev/music.mp3');
+  });
+});
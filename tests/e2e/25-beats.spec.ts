@@ -0,0 +1,175 @@
+/**
+ * Beats
+ *
+ * Beat grids detected from decoded music, the beat frames clips play for
+ * timeline snapping, and cutting clips so every cut lands on a beat.
+ *
+ * NOTE: Pure tests, no browser or dev servers required
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  cutClipsToBeats,
+  detectBeats,
+  getBeatFrames,
+  getClipBeatFrames,
+  isMusicClip,
+  MAX_BEATS,
+  validateBeatGrid,
+} from '../../lib/composition-engine/beats';
+import { clip, composition } from './helpers';
+
+const SAMPLE_RATE = 8000;
+
+/**
+ * A click track: a short decaying tone every beat from `offset` seconds
+ */
+function clickTrack(bpm: number, offset: number, seconds: number): Float32Array {
+  const samples = new Float32Array(seconds * SAMPLE_RATE);
+  for (let beat = offset; beat < seconds; beat += 60 / bpm) {
+    const start = Math.round(beat * SAMPLE_RATE);
+    for (let i = 0; i < 400 && start + i < samples.length; i++) {
+      samples[start + i] = Math.sin(i * 0.5) * Math.exp(-i / 100);
+    }
+  }
+  return samples;
+}
+
+// 120 BPM at 30 fps: a beat every 15 frames, from frame 15
+const beatFrames = Array.from({ length: 20 }, (_, i) => 15 + i * 15);
+
+test.describe('Beat Detection', () => {
+  test('click tracks give their tempo and beat times', () => {
+    const grid = detectBeats([clickTrack(120, 0.25, 10)], SAMPLE_RATE)!;
+
+    expect(grid.bpm).toBeCloseTo(120, 0);
+    expect(grid.beats[0]).toBeCloseTo(0.25, 2);
+    expect(grid.beats[10] - grid.beats[0]).toBeCloseTo(5, 1);
+    expect(grid.beats).toHaveLength(20);
+    expect(validateBeatGrid(grid)).toBeNull();
+
+    const slow = detectBeats([clickTrack(90, 0, 10)], SAMPLE_RATE)!;
+    expect(slow.bpm).toBeCloseTo(90, 0);
+  });
+
+  test('silence has no beats and grids are validated', () => {
+    expect(detectBeats([new Float32Array(5 * SAMPLE_RATE)], SAMPLE_RATE)).toBeNull();
+
+    expect(validateBeatGrid({ bpm: 0, beats: [] })).toBe('Beat grid needs a positive tempo');
+    expect(validateBeatGrid({ bpm: 120, beats: [1, 0.5] })).toBe(
+      'Beats must be increasing times from the start of the asset'
+    );
+    expect(validateBeatGrid({ bpm: 120, beats: Array.from({ length: MAX_BEATS + 1 }, (_, i) => i) })).toBe(
+      `Beat grid has too many beats (max ${MAX_BEATS})`
+    );
+  });
+});
+
+test.describe('Beat Frames', () => {
+  const grid = { bpm: 120, beats: [0, 0.5, 1, 1.5, 2, 2.5, 3] };
+
+  test('clips place the beats they play after trims and speed changes', () => {
+    // Starts 1s into the music at frame 100
+    const trimmed = clip('music', 100, 45, { type: 'audio', properties: { src: 'music.mp4', startFrom: 30 } });
+    expect(getClipBeatFrames(grid, trimmed, 30, 100)).toEqual([100, 115, 130]);
+    // Double speed plays beats twice as often
+    const fast = clip('music', 0, 30, { type: 'audio', properties: { src: 'music.mp4', playbackRate: 2 } });
+    expect(getClipBeatFrames(grid, fast, 30, 0)).toEqual([0, 8, 15, 23]);
+  });
+
+  test('snap targets come from nested music clips and skip the dragged clip', () => {
+    const assets = [{ playbackUrl: 'music.mp4', beats: grid }, { playbackUrl: 'b-roll.mp4' }];
+    const elements = [
+      clip('b-roll', 0, 90),
+      {
+        id: 'seq',
+        type: 'sequence' as const,
+        from: 60,
+        durationInFrames: 60,
+        properties: {},
+        children: [clip('music', 10, 31, { type: 'audio' })],
+      },
+    ];
+
+    expect(getBeatFrames(elements, assets, 30)).toEqual([70, 85, 100]);
+    expect(getBeatFrames(elements, assets, 30, 'music')).toEqual([]);
+    // Only video and audio clips play beats
+    expect(getBeatFrames([clip('music', 0, 90, { type: 'text' })], assets, 30)).toEqual([]);
+  });
+
+  test('only music clips are snap targets, whatever assets have beats', () => {
+    // Every upload gets a beat grid, so a talking head has one too
+    const assets = [{ playbackUrl: 'talk.mp4', beats: grid }];
+
+    const talk = (properties = {}) => clip('talk', 0, 31, { properties: { src: 'talk.mp4', ...properties } });
+
+    expect(getBeatFrames([talk()], assets, 30)).toEqual([]);
+    expect(getBeatFrames([talk({ role: 'music' })], assets, 30)).toEqual([0, 15, 30]);
+    expect(isMusicClip(clip('talk', 0, 31, { type: 'audio' }))).toBe(true);
+    expect(isMusicClip(talk({ role: 'dialogue' }))).toBe(false);
+  });
+});
+
+test.describe('Cutting to the Beat', () => {
+  test('clips line up on beats and are shortened to fit', () => {
+    const ir = composition([
+      clip('a', 200, 90),
+      clip('b', 0, 40),
+      clip('c', 300, 10, { type: 'image' }), // Shorter than a beat
+      clip('d', 400, 300),
+    ]);
+
+    const result = cutClipsToBeats(ir, beatFrames, { clipIds: ['a', 'b', 'c', 'd'] });
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.placed).toEqual(['a', 'b', 'd']);
+    expect(result.skipped).toEqual(['c']);
+
+    const [a, b, c, d] = result.updatedIR.elements;
+    expect([a.from, a.durationInFrames]).toEqual([15, 60]); // Four beats
+    expect([b.from, b.durationInFrames]).toEqual([75, 30]); // Only two beats fit
+    expect([c.from, c.durationInFrames]).toEqual([300, 10]);
+    expect([d.from, d.durationInFrames]).toEqual([105, 60]);
+    // One undo step
+    const patches = result.updatedIR.patches;
+    expect(new Set(patches.map((patch) => patch.groupId)).size).toBe(1);
+    expect(patches[0].description).toBe('Cut 3 clips to the beat');
+  });
+
+  test('cuts start from a frame and stop when the music ends', () => {
+    const ir = composition([clip('a', 0, 120), clip('b', 0, 120), clip('c', 0, 120)]);
+
+    const result = cutClipsToBeats(ir, beatFrames, { clipIds: ['a', 'b', 'c'], beatsPerCut: 8, startFrame: 31 });
+    if ('error' in result) throw new Error(result.error);
+
+    // Eight beats each from frame 45, until only one beat of music is left
+    const [a, b] = result.updatedIR.elements;
+    expect([a.from, a.durationInFrames]).toEqual([45, 120]);
+    expect([b.from, b.durationInFrames]).toEqual([165, 120]);
+    expect(result.updatedIR.elements[2].durationInFrames).toBe(15); // The one beat left
+    expect(result.skipped).toEqual([]);
+  });
+
+  test('missing, nested or non-video clips and music without beats are rejected', () => {
+    const ir = composition([
+      clip('a', 0, 90),
+      clip('title', 0, 90, { type: 'text' }),
+      { id: 'seq', type: 'sequence', from: 0, durationInFrames: 90, properties: {}, children: [clip('n', 0, 30)] },
+    ]);
+
+    expect(cutClipsToBeats(ir, beatFrames, { clipIds: [] })).toEqual({ error: 'No clips to cut' });
+    expect(cutClipsToBeats(ir, beatFrames, { clipIds: ['x'] })).toEqual({
+      error: 'Element x not found in composition',
+    });
+    expect(cutClipsToBeats(ir, beatFrames, { clipIds: ['title'] })).toEqual({
+      error: 'Only video and image clips can be cut to the beat (element title is text)',
+    });
+    expect(cutClipsToBeats(ir, beatFrames, { clipIds: ['n'] })).toEqual({
+      error: 'Element n is inside a sequence; cut top-level clips to the beat',
+    });
+    expect(cutClipsToBeats(ir, [], { clipIds: ['a'] })).toEqual({ error: 'No beats to cut to in the music track' });
+    expect(cutClipsToBeats(ir, beatFrames, { clipIds: ['a'], startFrame: 1000 })).toEqual({
+      error: 'No beats to cut to in the music track',
+    });
+  });
+});
@@ -5,6 +5,36 @@
  */
 
 import { Page, expect } from '@playwright/test';
+import type { CompositionElement, CompositionIR } from '../../types/composition-ir';
+
+/**
+ * A video clip for pure IR tests, labelled and sourced after its id
+ */
+export function clip(id: string, from: number, durationInFrames: number, overrides: Partial<CompositionElement> = {}): CompositionElement {
+  return {
+    id,
+    type: 'video',
+    label: id,
+    from,
+    durationInFrames,
+    properties: { src: `${id}.mp4` },
+    ...overrides,
+  };
+}
+
+/**
+ * A 10 second 1080p composition of the given elements for pure IR tests
+ */
+export function composition(elements: CompositionElement[], overrides: Partial<CompositionIR> = {}): CompositionIR {
+  return {
+    id: 'comp_test',
+    version: 1,
+    metadata: { width: 1920, height: 1080, fps: 30, durationInFrames: 300 },
+    elements,
+    patches: [],
+    ...overrides,
+  };
+}
 
 /**
  * Wait for Convex real-time sync to complete
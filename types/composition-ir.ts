@@ -12,6 +12,9 @@ export type CompositionIR = {
   metadata: CompositionMetadata;
   elements: CompositionElement[];
   patches: Patch[]; // For undo/redo
+  patchCursor?: number; // Number of applied patches (undefined = all); the rest can be redone
+  tracks?: Track[]; // Timeline tracks, top to bottom (undefined = default tracks)
+  mix?: AudioMix; // Master gain and ducking (undefined = defaults)
 };
 
 // Composition metadata
@@ -31,28 +34,66 @@ export type CompositionElement = {
   durationInFrames: number;
   properties: Record<string, any>; // Element-specific properties
   animations?: Animation[];
+  trackId?: string; // Timeline track (top-level elements; default by type)
+  transitionIn?: Transition; // Transition from the clip playing before this one
   children?: CompositionElement[]; // For sequences
 };
 
+// Timeline track: a row of clips on the timeline. Layering still follows
+// element order; tracks group clips and can be locked, muted or hidden.
+export type Track = {
+  id: string;
+  name: string;
+  kind: TrackKind;
+  locked?: boolean; // Clips can't be moved or trimmed on the timeline
+  muted?: boolean; // Clips play without sound
+  hidden?: boolean; // Clips are not rendered
+};
+
+export type TrackKind = "video" | "overlay" | "audio";
+
 // Element types
 export type ElementType = "video" | "audio" | "text" | "image" | "sequence" | "shape";
 
 // Video element properties
 export type VideoElementProperties = {
   src: string; // Asset URL (Cloudflare Stream HLS or R2)
-  volume?: number; // 0-1
+  volume?: number; // 0-1 (a "volume" animation replaces it with an envelope)
   playbackRate?: number; // Speed multiplier
   startFrom?: number; // Start offset in frames
   endAt?: number; // End offset in frames
+  fadeInFrames?: number; // Volume ramps up from silence over the first frames
+  fadeOutFrames?: number; // Volume ramps down to silence over the last frames
+  role?: AudioRole;
 };
 
 // Audio element properties
 export type AudioElementProperties = {
   src: string; // Asset URL
-  volume?: number; // 0-1
+  volume?: number; // 0-1 (a "volume" animation replaces it with an envelope)
   playbackRate?: number;
   startFrom?: number;
   endAt?: number;
+  fadeInFrames?: number;
+  fadeOutFrames?: number;
+  role?: AudioRole;
+};
+
+// What a clip's sound is; music is ducked while dialogue plays
+export type AudioRole = "dialogue" | "music" | "effects";
+
+// Composition-wide audio mix
+export type AudioMix = {
+  masterGain?: number; // 0-1, scales every clip (default 1)
+  ducking?: Ducking;
+};
+
+// Music clips are lowered while dialogue clips play
+export type Ducking = {
+  enabled?: boolean; // Default true
+  level?: number; // Music volume under dialogue, 0-1 (default 0.25)
+  attack?: number; // Seconds to duck before dialogue starts (default 0.25)
+  release?: number; // Seconds to come back up after it ends (default 0.5)
 };
 
 // Text element properties
@@ -66,10 +107,30 @@ export type TextElementProperties = {
   textAlign?: "left" | "center" | "right";
   x?: number; // Position X (pixels or percentage)
   y?: number; // Position Y
-  width?: number;
+  width?: number; // Wraps lines at this width
   height?: number;
+  maxWidth?: number; // Wraps lines without fixing the width
+  rotation?: number; // Degrees clockwise around the center
   padding?: number;
   borderRadius?: number;
+  lineHeight?: number; // Multiple of the font size (default 1.2)
+  letterSpacing?: number; // Pixels
+  strokeColor?: string; // Outline around the glyphs
+  strokeWidth?: number; // Pixels outside the glyphs
+  shadow?: Shadow;
+  autoFit?: boolean; // Pick the largest font size that fits width x height
+  spans?: TextSpan[]; // Styled words or phrases
+};
+
+// Styles part of a text element: every match of `match`, or only one
+export type TextSpan = {
+  match: string; // Case-sensitive text to style
+  occurrence?: number; // Only the nth match, 0-based (default: every match)
+  color?: string;
+  backgroundColor?: string;
+  fontWeight?: string | number;
+  fontStyle?: "normal" | "italic";
+  underline?: boolean;
 };
 
 // Image element properties
@@ -81,6 +142,74 @@ export type ImageElementProperties = {
   height?: number;
   fit?: "cover" | "contain" | "fill" | "none";
   opacity?: number;
+  rotation?: number; // Degrees clockwise around the center
+};
+
+// Shape element properties. Shapes are drawn as SVG inside their box;
+// lines and arrows run through `points` (default: left to right across the
+// middle of the box) and are painted with the stroke.
+export type ShapeElementProperties = {
+  shape: ShapeKind;
+  x?: number;
+  y?: number;
+  width?: number; // Default 200
+  height?: number; // Default 200
+  fill?: string; // CSS color (closed shapes and arrowheads; default "#ffffff")
+  gradient?: Gradient; // Replaces the fill of closed shapes
+  stroke?: string; // CSS color (default "#ffffff" for lines and arrows, none otherwise)
+  strokeWidth?: number; // Pixels (default 4 for lines and arrows, 0 otherwise)
+  cornerRadius?: number; // Rectangles
+  sides?: number; // Regular polygons (default 6)
+  points?: Point[]; // Polygon vertices or line/arrow path, in pixels within the box
+  shadow?: Shadow;
+  opacity?: number;
+  rotation?: number; // Degrees clockwise around the center
+};
+
+export type ShapeKind = "rectangle" | "ellipse" | "line" | "polygon" | "arrow";
+
+export type Gradient = {
+  type: "linear" | "radial";
+  stops: GradientStop[];
+  angle?: number; // Linear: degrees clockwise from "to top", like CSS (default 180)
+};
+
+export type GradientStop = {
+  offset: number; // 0-1
+  color: string;
+};
+
+export type Shadow = {
+  color?: string; // Default "rgba(0, 0, 0, 0.5)"
+  blur?: number; // Pixels (default 10)
+  offsetX?: number; // Pixels (default 0)
+  offsetY?: number; // Pixels (default 4)
+};
+
+// Transcript of an audio or video asset, used for captions
+export type Transcript = {
+  words: TranscriptWord[];
+  language?: string;
+  engine?: string; // Speech-to-text engine, or "import"
+};
+
+// A spoken word; times are seconds into the asset
+export type TranscriptWord = {
+  text: string;
+  start: number;
+  end: number;
+};
+
+// Loudness peaks of an audio or video asset, drawn on timeline clips
+export type Waveform = {
+  peaksPerSecond: number;
+  peaks: number[]; // 0-1, one per 1/peaksPerSecond seconds of the asset
+};
+
+// Beats of a music asset, at a constant tempo
+export type BeatGrid = {
+  bpm: number;
+  beats: number[]; // Seconds into the asset
 };
 
 // Sequence element (container for other elements)
@@ -95,19 +224,58 @@ export type Animation = {
   easing?: EasingType;
 };
 
+// Transition between two sibling clips. Stored on the incoming element; the
+// outgoing clip keeps playing for `durationInFrames` after the incoming starts.
+export type Transition = {
+  type: TransitionType;
+  durationInFrames: number;
+  fromElementId: string; // Outgoing sibling
+  easing?: EasingType;
+  direction?: TransitionDirection; // For wipe and slide (default "left")
+};
+
+export type TransitionType = "crossfade" | "wipe" | "slide";
+
+export type TransitionDirection = "left" | "right" | "up" | "down";
+
 // Keyframe for animations
 export type Keyframe = {
-  frame: number; // Absolute frame number
-  value: any; // Value at this frame
+  frame: number; // Frame relative to the element's start
+  value: KeyframeValue; // Value at this frame (its kind depends on the property)
+  easing?: EasingType; // Easing into the next keyframe (defaults to the animation's)
 };
 
-// Easing types (maps to Remotion interpolate options)
-export type EasingType =
+// Numbers, CSS colors, {x, y} points, or discrete values such as text
+export type KeyframeValue = number | string | Point;
+
+export type Point = { x: number; y: number };
+
+// Easing: a named curve, a custom cubic-bezier or a spring
+export type EasingType = EasingName | CubicBezierEasing | SpringEasing;
+
+export type EasingName =
   | "linear"
   | "ease-in"
   | "ease-out"
   | "ease-in-out"
-  | "spring";
+  | "spring"; // Spring with Remotion's default mass, damping and stiffness
+
+// Same as CSS cubic-bezier(x1, y1, x2, y2); x1 and x2 in [0, 1]
+export type CubicBezierEasing = {
+  type: "cubic-bezier";
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+};
+
+// Remotion spring() parameters; a segment lasts as long as the spring takes to settle
+export type SpringEasing = {
+  type: "spring";
+  mass?: number; // Default 1
+  damping?: number; // Default 10
+  stiffness?: number; // Default 100
+};
 
 // Patch for undo/redo
 export type Patch = {
@@ -115,12 +283,21 @@ export type Patch = {
   timestamp: number;
   operation: PatchOperation;
   selector: ElementSelector;
-  changes: any; // Operation-specific changes
-  previousState?: any; // For undo
+  changes: any; // Operation-specific changes (add: { element, parentId, index }, settings: { elements?, metadata?, tracks?, mix? })
+  previousState?: any; // For undo: { element, parentId, index } before update/delete/move
+  groupId?: string; // Shared by patches applied together in one transaction
+  description?: string; // Receipt of the edit, shown as "Undo ..." / "Redo ..."
 };
 
-// Patch operations
-export type PatchOperation = "add" | "update" | "delete" | "move";
+// Patch operations ("settings" changes composition-wide state: tracks, audio mix, or all of it on restore)
+export type PatchOperation = "add" | "update" | "delete" | "move" | "settings";
+
+// Edit operations: the element patch operations plus clip edits built from them
+// (split: { atFrame }, trim: { trimStart?, trimEnd? }, rippleDelete: {})
+export type EditOperation = Exclude<PatchOperation, "settings"> | "split" | "trim" | "rippleDelete";
+
+// Layer positions for move operations (later siblings render on top)
+export type LayerPosition = "front" | "back" | "above" | "below";
 
 // Element selectors (how to find elements in the IR)
 export type ElementSelector =
@@ -155,10 +332,17 @@ export type ByTypeSelector = {
 
 // Edit Plan (generated by LLM)
 export type EditPlan = {
-  operation: PatchOperation;
+  operation: EditOperation;
   selector: ElementSelector;
   changes: any;
   reasoning?: string; // Optional: why this plan was generated
+  applyToAll?: boolean; // Apply to every element the selector matches (user said "all")
+};
+
+// Edit Transaction: several plans applied atomically (all or nothing)
+export type EditTransaction = {
+  plans: EditPlan[];
+  description?: string; // Receipt and history entry for the whole transaction
 };
 
 // Execution result
@@ -220,6 +404,12 @@ export function isImageElement(
   return element.type === "image";
 }
 
+export function isShapeElement(
+  element: CompositionElement
+): element is CompositionElement & { properties: ShapeElementProperties } {
+  return element.type === "shape";
+}
+
 export function isSequenceElement(
   element: CompositionElement
 ): element is CompositionElement & { properties: SequenceElementProperties } {